@@ -66,6 +66,14 @@ class ThingMapper {
     }
   }
 
+  // Points the identifier mapped to thing at replacement, which may be a Promise
+  // that resolves to it.
+  replaceMappingForThing(thing, replacement) {
+    const id = this.identifierForThing(thing);
+    this._reverseIdMap.delete(thing);
+    return this.establishThingMapping(id, replacement);
+  }
+
   hasMappingForThing(thing) {
     return this._reverseIdMap.has(thing);
   }
@@ -102,6 +110,12 @@ export class APIPort {
       unconvert: a => this._mapper.thingForIdentifier(a)
     };
 
+    // As LocalMapped, but null is passed through unmapped.
+    this.OptionalLocalMapped = {
+      convert: a => a == null ? null : this._mapper.maybeCreateMappingForThing(a),
+      unconvert: a => a == null ? null : this._mapper.thingForIdentifier(a)
+    };
+
     this.Mapped = {
       convert: a => this._mapper.identifierForThing(a),
       unconvert: a => this._mapper.thingForIdentifier(a)
@@ -150,6 +164,12 @@ export class APIPort {
     this._port.close();
   }
 
+  // Used when a mapped object is superseded, e.g. by a restarted particle. Messages
+  // referring to it wait until replacement resolves.
+  replaceMapping(thing, replacement) {
+    return this._mapper.replaceMappingForThing(thing, replacement);
+  }
+
   async _processMessage(e) {
     assert(this._messageMap.has(e.data.messageType));
 
@@ -260,28 +280,34 @@ export class PECOuterPort extends APIPort {
     this.registerCall('AwaitIdle', {version: this.Direct});
     this.registerCall('StartRender', {particle: this.Mapped, slotName: this.Direct, contentTypes: this.List(this.Direct)});
     this.registerCall('StopRender', {particle: this.Mapped, slotName: this.Direct});
+    this.registerCall('StopParticle', {particleId: this.Direct});
+    this.registerCall('RestartParticle', {particleId: this.Direct, reload: this.Direct});
 
     this.registerHandler('Render', {particle: this.Mapped, slotName: this.Direct, content: this.Direct});
     this.registerHandler('InitializeProxy', {handle: this.Mapped, callback: this.Direct});
     this.registerHandler('SynchronizeProxy', {handle: this.Mapped, callback: this.Direct});
+    this.registerHandler('ObserveSyncStatus', {handle: this.Mapped, callback: this.Direct});
+    this.registerHandler('HandleChangesSince', {handle: this.Mapped, callback: this.Direct, version: this.Direct});
     this.registerHandler('HandleGet', {handle: this.Mapped, callback: this.Direct, particleId: this.Direct});
     this.registerHandler('HandleToList', {handle: this.Mapped, callback: this.Direct, particleId: this.Direct});
-    this.registerHandler('HandleSet', {handle: this.Mapped, data: this.Direct, particleId: this.Direct, barrier: this.Direct});
-    this.registerHandler('HandleClear', {handle: this.Mapped, particleId: this.Direct, barrier: this.Direct});
-    this.registerHandler('HandleStore', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct});
-    this.registerHandler('HandleRemove', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct});
+    this.registerHandler('HandleQuery', {handle: this.Mapped, callback: this.Direct, query: this.Direct, particleId: this.Direct});
+    this.registerHandler('HandleSet', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct, barrier: this.Direct, transactionId: this.Direct});
+    this.registerHandler('HandleClear', {handle: this.Mapped, callback: this.Direct, particleId: this.Direct, barrier: this.Direct, transactionId: this.Direct});
+    this.registerHandler('HandleStore', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct, transactionId: this.Direct});
+    this.registerHandler('HandleRemove', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct, transactionId: this.Direct});
+    this.registerHandler('HandleCommitTransaction', {callback: this.Direct, transactionId: this.Direct});
     this.registerHandler('HandleRemoveMultiple', {handle: this.Mapped, callback: this.Direct, data: this.Direct, particleId: this.Direct});
-    this.registerHandler('HandleStream', {handle: this.Mapped, callback: this.Direct, pageSize: this.Direct, forward: this.Direct});
+    this.registerHandler('HandleStream', {handle: this.Mapped, callback: this.Direct, pageSize: this.Direct, forward: this.Direct, range: this.Direct});
     this.registerHandler('StreamCursorNext', {handle: this.Mapped, callback: this.Direct, cursorId: this.Direct});
     this.registerHandler('StreamCursorClose', {handle: this.Mapped, cursorId: this.Direct});
 
     this.registerHandler('Idle', {version: this.Direct, relevance: this.Map(this.Mapped, this.Direct)});
 
-    this.registerHandler('GetBackingStore', {callback: this.Direct, storageKey: this.Direct, type: this.ByLiteral(Type)});
+    this.registerHandler('GetBackingStore', {callback: this.Direct, storageKey: this.Direct, type: this.ByLiteral(Type), particleId: this.Direct});
     this.registerInitializer('GetBackingStoreCallback', {callback: this.Direct, type: this.ByLiteral(Type), name: this.Direct, id: this.Direct, storageKey: this.Direct});
 
     this.registerHandler('ConstructInnerArc', {callback: this.Direct, particle: this.Mapped});
-    this.registerCall('ConstructArcCallback', {callback: this.Direct, arc: this.LocalMapped});
+    this.registerCall('ConstructArcCallback', {callback: this.Direct, arc: this.OptionalLocalMapped, error: this.Direct});
 
     this.registerHandler('ArcCreateHandle', {callback: this.Direct, arc: this.LocalMapped, type: this.ByLiteral(Type), name: this.Direct});
     this.registerInitializer('CreateHandleCallback', {callback: this.Direct, type: this.ByLiteral(Type), name: this.Direct, id: this.Direct});
@@ -295,6 +321,7 @@ export class PECOuterPort extends APIPort {
     this.registerHandler('ArcLoadRecipe', {arc: this.LocalMapped, recipe: this.Direct, callback: this.Direct});
 
     this.registerHandler('RaiseSystemException', {exception: this.Direct, methodName: this.Direct, particleId: this.Direct});
+    this.registerHandler('ReportCpuTime', {particleId: this.Direct, time: this.Direct});
 
     // We need an API call to tell the context side that DevTools has been connected, so it can start sending
     // stack traces attached to the API calls made from that side.
@@ -320,28 +347,34 @@ export class PECInnerPort extends APIPort {
     this.registerHandler('AwaitIdle', {version: this.Direct});
     this.registerHandler('StartRender', {particle: this.Mapped, slotName: this.Direct, contentTypes: this.List(this.Direct)});
     this.registerHandler('StopRender', {particle: this.Mapped, slotName: this.Direct});
+    this.registerHandler('StopParticle', {particleId: this.Direct});
+    this.registerHandler('RestartParticle', {particleId: this.Direct, reload: this.Direct});
 
     this.registerCall('Render', {particle: this.Mapped, slotName: this.Direct, content: this.Direct});
     this.registerCall('InitializeProxy', {handle: this.Mapped, callback: this.LocalMapped});
     this.registerCall('SynchronizeProxy', {handle: this.Mapped, callback: this.LocalMapped});
+    this.registerCall('ObserveSyncStatus', {handle: this.Mapped, callback: this.LocalMapped});
+    this.registerCall('HandleChangesSince', {handle: this.Mapped, callback: this.LocalMapped, version: this.Direct});
     this.registerCall('HandleGet', {handle: this.Mapped, callback: this.LocalMapped, particleId: this.Direct});
     this.registerCall('HandleToList', {handle: this.Mapped, callback: this.LocalMapped, particleId: this.Direct});
-    this.registerCall('HandleSet', {handle: this.Mapped, data: this.Direct, particleId: this.Direct, barrier: this.Direct});
-    this.registerCall('HandleClear', {handle: this.Mapped, particleId: this.Direct, barrier: this.Direct});
-    this.registerCall('HandleStore', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct});
-    this.registerCall('HandleRemove', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct});
+    this.registerCall('HandleQuery', {handle: this.Mapped, callback: this.LocalMapped, query: this.Direct, particleId: this.Direct});
+    this.registerCall('HandleSet', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct, barrier: this.Direct, transactionId: this.Direct});
+    this.registerCall('HandleClear', {handle: this.Mapped, callback: this.LocalMapped, particleId: this.Direct, barrier: this.Direct, transactionId: this.Direct});
+    this.registerCall('HandleStore', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct, transactionId: this.Direct});
+    this.registerCall('HandleRemove', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct, transactionId: this.Direct});
+    this.registerCall('HandleCommitTransaction', {callback: this.LocalMapped, transactionId: this.Direct});
     this.registerCall('HandleRemoveMultiple', {handle: this.Mapped, callback: this.LocalMapped, data: this.Direct, particleId: this.Direct});
-    this.registerCall('HandleStream', {handle: this.Mapped, callback: this.LocalMapped, pageSize: this.Direct, forward: this.Direct});
+    this.registerCall('HandleStream', {handle: this.Mapped, callback: this.LocalMapped, pageSize: this.Direct, forward: this.Direct, range: this.Direct});
     this.registerCall('StreamCursorNext', {handle: this.Mapped, callback: this.LocalMapped, cursorId: this.Direct});
     this.registerCall('StreamCursorClose', {handle: this.Mapped, cursorId: this.Direct});
 
     this.registerCall('Idle', {version: this.Direct, relevance: this.Map(this.Mapped, this.Direct)});
 
-    this.registerCall('GetBackingStore', {callback: this.LocalMapped, storageKey: this.Direct, type: this.ByLiteral(Type)});
+    this.registerCall('GetBackingStore', {callback: this.LocalMapped, storageKey: this.Direct, type: this.ByLiteral(Type), particleId: this.Direct});
     this.registerInitializerHandler('GetBackingStoreCallback', {callback: this.LocalMapped, type: this.ByLiteral(Type), name: this.Direct, id: this.Direct, storageKey: this.Direct});
 
     this.registerCall('ConstructInnerArc', {callback: this.LocalMapped, particle: this.Mapped});
-    this.registerHandler('ConstructArcCallback', {callback: this.LocalMapped, arc: this.Direct});
+    this.registerHandler('ConstructArcCallback', {callback: this.LocalMapped, arc: this.Direct, error: this.Direct});
 
     this.registerCall('ArcCreateHandle', {callback: this.LocalMapped, arc: this.Direct, type: this.ByLiteral(Type), name: this.Direct});
     this.registerInitializerHandler('CreateHandleCallback', {callback: this.LocalMapped, type: this.ByLiteral(Type), name: this.Direct, id: this.Direct});
@@ -355,6 +388,7 @@ export class PECInnerPort extends APIPort {
     this.registerCall('ArcLoadRecipe', {arc: this.Direct, recipe: this.Direct, callback: this.LocalMapped});
 
     this.registerCall('RaiseSystemException', {exception: this.Direct, methodName: this.Direct, particleId: this.Direct});
+    this.registerCall('ReportCpuTime', {particleId: this.Direct, time: this.Direct});
 
     // To show stack traces for calls made inside the context, we need to capture the trace at the call point and
     // send it along with the message. We only want to do this after a DevTools connection has been detected, which
@@ -25,6 +25,10 @@ export class ArcDebugHandler {
     if (!arc.isSpeculative) {
       new ArcPlannerInvoker(arc, devtoolsChannel);
       new ArcStoresFetcher(arc, devtoolsChannel);
+      arc.supervisor.onStateChange((particle, {state, exceptions, restarts}) => devtoolsChannel.send({
+        messageType: 'particle-state-changed',
+        messageBody: {arcId: arc.id.toString(), particleId: particle.id, name: particle.name, state, exceptions, restarts}
+      }), this);
     }
 
     // TODO: Disconnect when arc is disposed?
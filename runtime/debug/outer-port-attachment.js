@@ -126,6 +126,16 @@ export class OuterPortAttachment {
       {operation: 'sync-model', handle});
   }
 
+  onObserveSyncStatus({handle, callback}) {
+    this._callbackRegistry[callback] = this._describeHandleCall(
+      {operation: 'sync-status', handle});
+  }
+
+  onHandleChangesSince({handle, callback}) {
+    this._callbackRegistry[callback] = this._describeHandleCall(
+      {operation: 'changes-since', handle});
+  }
+
   onHandleGet({handle, callback, particleId}) {
     this._callbackRegistry[callback] = this._describeHandleCall(
       {operation: 'get', handle, particleId});
@@ -11,9 +11,24 @@
 
 import {assert} from '../platform/assert-web.js';
 import {CrdtCollectionModel} from './ts-build/storage/crdt-collection-model.js';
+import {executeQuery} from './ts-build/storage/query.js';
 
 const SyncState = {none: 0, pending: 1, full: 2};
 
+// The host sends an error message instead of the results of a query that fails.
+const queryCallback = (resolve, reject) => results => typeof results === 'string' ? reject(new Error(results)) : resolve(results);
+
+// Likewise for writes the host rejects, e.g. for exceeding a quota. The proxy's model may
+// already include the write, so it is resynchronized with the store.
+const writeCallback = (proxy, resolve = () => {}, reject = () => {}) => error => {
+  if (typeof error === 'string') {
+    proxy.resynchronize();
+    reject(new Error(error));
+  } else {
+    resolve();
+  }
+};
+
 /** @class StorageProxy
  * Mediates between one or more Handles and the backing store outside the PEC.
  *
@@ -69,6 +84,10 @@ class StorageProxyBase {
     this._port.RaiseSystemException({exception: {message: exception.message, stack: exception.stack, name: exception.name}, methodName, particleId});
   }
 
+  reportCpuTime(time, particleId) {
+    this._port.ReportCpuTime({particleId, time});
+  }
+
   get id() {
     return this._id;
   }
@@ -89,6 +108,7 @@ class StorageProxyBase {
     // Attach an event listener to the backing store when the first readable handle is registered.
     if (!this._listenerAttached) {
       this._port.InitializeProxy({handle: this, callback: x => this._onUpdate(x)});
+      this._port.ObserveSyncStatus({handle: this, callback: status => this._notify('syncStatus', status)});
       this._listenerAttached = true;
     }
 
@@ -110,8 +130,29 @@ class StorageProxyBase {
     }
   }
 
-  _onSynchronize({version, model}) {
-    if (this._version !== undefined && version <= this._version) {
+  /**
+   *  Called by ParticleExecutionContext when a particle is stopped, so that its handles receive no further events.
+   */
+  deregister(particle) {
+    this._observers = this._observers.filter(observer => observer.particle !== particle);
+  }
+
+  /**
+   * Discards the proxy's model, which may include local writes that the store
+   * rejected, and replaces it with the store's current one.
+   */
+  resynchronize() {
+    if (!this._keepSynced) {
+      return;
+    }
+    this._synchronized = SyncState.none;
+    this._port.SynchronizeProxy({handle: this, callback: x => this._onSynchronize(x, true)});
+  }
+
+  // A forced synchronization accepts the current version, since rejected local writes
+  // don't change it.
+  _onSynchronize({version, model}, force=false) {
+    if (this._version !== undefined && (force ? version < this._version : version <= this._version)) {
       console.warn(`StorageProxy '${this._id}' received stale model version ${version}; ` +
                    `current is ${this._version}`);
       return;
@@ -134,6 +175,26 @@ class StorageProxyBase {
     this._processUpdates();
   }
 
+  _onChangesSince(changes) {
+    if (this._synchronized == SyncState.full) {
+      // Queued updates have caught up in the meantime.
+      return;
+    }
+    if (changes !== null) {
+      for (const change of changes) {
+        if (change.version > this._version && !this._updates.some(update => update.version == change.version)) {
+          this._updates.push(change);
+        }
+      }
+      this._updates.sort((a, b) => a.version - b.version);
+      this._processUpdates();
+    }
+    // Fall back to the full model if the store's change log didn't reach back far enough.
+    if (this._synchronized == SyncState.none) {
+      this._port.SynchronizeProxy({handle: this, callback: x => this._onSynchronize(x)});
+    }
+  }
+
   _onUpdate(update) {
     // Immediately notify any handles that are not configured with keepSynced but do want updates.
     if (this._observers.find(({handle}) => !handle.options.keepSynced && handle.options.notifyUpdate)) {
@@ -169,7 +230,9 @@ class StorageProxyBase {
   _processUpdates() {
 
     const updateIsNext = update => {
-      if (update.version == this._version + 1) {
+      // Updates coalesced by a transaction may span several versions.
+      const baseVersion = update.baseVersion !== undefined ? update.baseVersion : update.version - 1;
+      if (baseVersion == this._version) {
         return true;
       }
       // Holy Layering Violation Batman
@@ -201,16 +264,16 @@ class StorageProxyBase {
     }
 
     // If we still have update events queued, we must have received a future version are are now
-    // desynchronized. Send a request for the full model and notify handles configured for it.
+    // desynchronized. Ask for the updates we missed and notify handles configured for it.
     if (this._updates.length > 0) {
       if (this._synchronized != SyncState.none) {
         this._synchronized = SyncState.none;
-        this._port.SynchronizeProxy({handle: this, callback: x => this._onSynchronize(x)});
         for (const {handle, particle} of this._observers) {
           if (handle.options.notifyDesync) {
             this._scheduler.enqueue(particle, handle, ['desync', particle]);
           }
         }
+        this._port.HandleChangesSince({handle: this, version: this._version, callback: x => this._onChangesSince(x)});
       }
     } else if (this._synchronized != SyncState.full) {
       // If we were desynced but have now consumed all update events, we've caught up.
@@ -222,6 +285,15 @@ class StorageProxyBase {
     return `${this._baseForNewID}:${this._localIDComponent++}`;
   }
 
+  /**
+   * Commits the writes sent with the given transactionId, from any proxy on this port.
+   * Rejects if the transaction could not be applied.
+   */
+  commitTransaction(transactionId) {
+    return new Promise((resolve, reject) =>
+      this._port.HandleCommitTransaction({transactionId, callback: error => error ? reject(new Error(error)) : resolve()}));
+  }
+
   generateIDComponents() {
     return {base: this._baseForNewID, component: () => this._localIDComponent++};
   }
@@ -269,6 +341,10 @@ class CollectionProxy extends StorageProxyBase {
         }
       }
     }
+    if (!('add' in update) && !('remove' in update)) {
+      throw new Error(`StorageProxy received invalid update event: ${JSON.stringify(update)}`);
+    }
+    // Updates coalesced by a transaction may contain both adds and removes.
     const added = [];
     const removed = [];
     if ('add' in update) {
@@ -277,15 +353,14 @@ class CollectionProxy extends StorageProxyBase {
           added.push(value);
         }
       }
-    } else if ('remove' in update) {
+    }
+    if ('remove' in update) {
       for (const {value, keys, effective} of update.remove) {
         const localValue = this._model.getValue(value.id);
         if (apply && this._model.remove(value.id, keys) || !apply && effective) {
           removed.push(localValue);
         }
       }
-    } else {
-      throw new Error(`StorageProxy received invalid update event: ${JSON.stringify(update)}`);
     }
     if (added.length || removed.length) {
       const result = {};
@@ -310,6 +385,15 @@ class CollectionProxy extends StorageProxyBase {
     }
   }
 
+  query(query, particleId) {
+    if (this._synchronized == SyncState.full) {
+      return Promise.resolve(executeQuery(this._model.toList(), query));
+    } else {
+      return new Promise((resolve, reject) =>
+        this._port.HandleQuery({callback: queryCallback(resolve, reject), handle: this, query, particleId}));
+    }
+  }
+
   get(id, particleId) {
     if (this._synchronized == SyncState.full) {
       return Promise.resolve(this._model.getValue(id));
@@ -319,10 +403,10 @@ class CollectionProxy extends StorageProxyBase {
     }
   }
 
-  store(value, keys, particleId) {
+  store(value, keys, particleId, transactionId = null) {
     const id = value.id;
     const data = {value, keys};
-    this._port.HandleStore({handle: this, callback: () => {}, data, particleId});
+    this._port.HandleStore({handle: this, callback: writeCallback(this), data, particleId, transactionId});
 
     if (this._synchronized != SyncState.full) {
       return;
@@ -336,11 +420,11 @@ class CollectionProxy extends StorageProxyBase {
 
   clear(particleId) {
     if (this._synchronized != SyncState.full) {
-      this._port.HandleRemoveMultiple({handle: this, callback: () => {}, data: [], particleId});
+      this._port.HandleRemoveMultiple({handle: this, callback: writeCallback(this), data: [], particleId});
     }
 
     let items = this._model.toList().map(item => ({id: item.id, keys: this._model.getKeys(item.id)}));
-    this._port.HandleRemoveMultiple({handle: this, callback: () => {}, data: items, particleId});
+    this._port.HandleRemoveMultiple({handle: this, callback: writeCallback(this), data: items, particleId});
 
     items = items.map(({id, keys}) => ({rawData: this._model.getValue(id).rawData, id, keys}));
     items = items.filter(item => this._model.remove(item.id, item.keys));
@@ -349,10 +433,10 @@ class CollectionProxy extends StorageProxyBase {
     }
   }
 
-  remove(id, keys, particleId) {
+  remove(id, keys, particleId, transactionId = null) {
     if (this._synchronized != SyncState.full) {
       const data = {id, keys: []};
-      this._port.HandleRemove({handle: this, callback: () => {}, data, particleId});
+      this._port.HandleRemove({handle: this, callback: writeCallback(this), data, particleId, transactionId});
       return;
     }
 
@@ -364,7 +448,7 @@ class CollectionProxy extends StorageProxyBase {
       keys = this._model.getKeys(id);
     }
     const data = {id, keys};
-    this._port.HandleRemove({handle: this, callback: () => {}, data, particleId});
+    this._port.HandleRemove({handle: this, callback: writeCallback(this), data, particleId, transactionId});
 
     if (!this._model.remove(id, keys)) {
       return;
@@ -392,6 +476,12 @@ class VariableProxy extends StorageProxyBase {
     return this._model;
   }
 
+  resynchronize() {
+    // Rejected writes won't echo their barriers back.
+    this._barrier = null;
+    super.resynchronize();
+  }
+
   _synchronizeModel(version, model) {
     // If there's an active barrier then we shouldn't apply the model here, because
     // there is a more recent write from the particle side that is still in flight.
@@ -447,7 +537,7 @@ class VariableProxy extends StorageProxyBase {
     }
   }
 
-  set(entity, particleId) {
+  set(entity, particleId, transactionId = null) {
     assert(entity !== undefined);
     if (JSON.stringify(this._model) == JSON.stringify(entity)) {
       return;
@@ -466,19 +556,19 @@ class VariableProxy extends StorageProxyBase {
     // TODO: is this already a clone?
     this._model = JSON.parse(JSON.stringify(entity));
     this._barrier = barrier;
-    this._port.HandleSet({data: entity, handle: this, particleId, barrier});
+    this._port.HandleSet({data: entity, handle: this, callback: writeCallback(this), particleId, barrier, transactionId});
     const update = {originatorId: particleId, data: entity};
     this._notify('update', update, options => options.notifyUpdate);
   }
 
-  clear(particleId) {
+  clear(particleId, transactionId = null) {
     if (this._model == null) {
       return;
     }
     const barrier = this.generateID('barrier');
     this._model = null;
     this._barrier = barrier;
-    this._port.HandleClear({handle: this, particleId, barrier});
+    this._port.HandleClear({handle: this, callback: writeCallback(this), particleId, barrier, transactionId});
     const update = {originatorId: particleId, data: null};
     this._notify('update', update, options => options.notifyUpdate);
   }
@@ -495,19 +585,24 @@ class BigCollectionProxy extends StorageProxyBase {
 
   // TODO: surface get()
 
-  async store(value, keys, particleId) {
-    return new Promise(resolve =>
-      this._port.HandleStore({handle: this, callback: resolve, data: {value, keys}, particleId}));
+  async store(value, keys, particleId, transactionId = null) {
+    return new Promise((resolve, reject) =>
+      this._port.HandleStore({handle: this, callback: writeCallback(this, resolve, reject), data: {value, keys}, particleId, transactionId}));
   }
 
-  async remove(id, particleId) {
-    return new Promise(resolve =>
-      this._port.HandleRemove({handle: this, callback: resolve, data: {id, keys: []}, particleId}));
+  async remove(id, keys, particleId, transactionId = null) {
+    return new Promise((resolve, reject) =>
+      this._port.HandleRemove({handle: this, callback: writeCallback(this, resolve, reject), data: {id, keys}, particleId, transactionId}));
   }
 
-  async stream(pageSize, forward) {
+  async query(query, particleId) {
+    return new Promise((resolve, reject) =>
+      this._port.HandleQuery({handle: this, callback: queryCallback(resolve, reject), query, particleId}));
+  }
+
+  async stream(pageSize, forward, range = null) {
     return new Promise(resolve =>
-      this._port.HandleStream({handle: this, callback: resolve, pageSize, forward}));
+      this._port.HandleStream({handle: this, callback: resolve, pageSize, forward, range}));
   }
 
   async cursorNext(cursorId) {
@@ -541,6 +636,12 @@ export class StorageProxyScheduler {
     this._schedule();
   }
 
+  // Drops any events queued for particle.
+  dequeue(particle) {
+    this._queues.delete(particle);
+    this._updateIdle();
+  }
+
   get busy() {
     return this._queues.size > 0;
   }
@@ -580,16 +681,30 @@ export class StorageProxyScheduler {
       const particle = [...this._queues.keys()][0];
       const byHandle = this._queues.get(particle);
       this._queues.delete(particle);
+      // The time until the particle's event handlers complete, including any asynchronous
+      // work they await, is reported to the host, which enforces its CPU time quota.
+      const start = Date.now();
+      let proxy;
+      const handled = [];
       for (const [handle, queue] of byHandle.entries()) {
+        proxy = handle._proxy;
         for (const args of queue) {
           try {
-            handle._notify(...args);
+            handled.push(Promise.resolve(handle._notify(...args)).catch(e => {
+              handle._proxy.raiseSystemException(e, 'StorageProxyScheduler::_dispatch', particle.id);
+            }));
           } catch (e) {
             console.error('Error dispatching to particle', e);
             handle._proxy.raiseSystemException(e, 'StorageProxyScheduler::_dispatch', particle.id);
           }
         }
       }
+      Promise.all(handled).then(() => {
+        const time = Date.now() - start;
+        if (proxy && time > 0) {
+          proxy.reportCpuTime(time, particle.id);
+        }
+      });
     }
 
     this._updateIdle();
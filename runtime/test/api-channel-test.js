@@ -30,6 +30,7 @@ describe('API channel', function() {
       // Change the argumentType mapping objects/functions to generate string identifiers.
       this.Direct = 'Direct';
       this.LocalMapped = 'LocalMapped';
+      this.OptionalLocalMapped = 'LocalMapped';
       this.Mapped = 'Mapped';
       this.Map = (keyprimitive, valueprimitive) => `Map(${keyprimitive},${valueprimitive})`;
       this.List = (primitive) => `List(${primitive})`;
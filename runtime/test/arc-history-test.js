@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Arc} from '../ts-build/arc.js';
+import {ArcHistory} from '../ts-build/arc-history.js';
+import {assert} from './chai-web.js';
+import * as util from '../testing/test-util.js';
+import {handleFor} from '../ts-build/handle.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {Loader} from '../ts-build/loader.js';
+
+const loader = new Loader();
+
+async function setup() {
+  const arc = new Arc({loader, id: 'test'});
+  const manifest = await Manifest.parse(`
+    import 'runtime/test/artifacts/test-particles.manifest'
+    recipe TestRecipe
+      use as handle0
+      use as handle1
+      TestParticle
+        foo <- handle0
+        bar -> handle1
+  `, {loader, fileName: process.cwd() + '/input.manifest'});
+  const Foo = manifest.findSchemaByName('Foo').entityClass();
+  const Bar = manifest.findSchemaByName('Bar').entityClass();
+  const fooStore = await arc.createStore(Foo.type, undefined, 'test:1');
+  const barStore = await arc.createStore(Bar.type, undefined, 'test:2');
+  const recipe = manifest.recipes[0];
+  recipe.handles[0].mapToStorage(fooStore);
+  recipe.handles[1].mapToStorage(barStore);
+  recipe.normalize();
+  return {arc, recipe, Foo, fooStore, barStore};
+}
+
+describe('ArcHistory', function() {
+  it('records snapshots as the arc changes', async () => {
+    const {arc, recipe, Foo, fooStore, barStore} = await setup();
+    const history = new ArcHistory(arc);
+    await history.record('initial');
+
+    await handleFor(fooStore).set(new Foo({value: 'a Foo'}));
+    await history.idle;
+    await arc.instantiate(recipe);
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+    await history.idle;
+
+    const snapshots = history.list();
+    assert.equal(snapshots[0].reason, 'initial');
+    assert.isEmpty(snapshots[0].particles);
+    assert.equal(snapshots[1].reason, 'change');
+    assert.deepEqual(snapshots[1].storeVersions, {'test:1': 1, 'test:2': 0});
+    assert.deepEqual(snapshots.find(snapshot => snapshot.reason === 'instantiate').particles, ['TestParticle']);
+    const latest = history.latest;
+    assert.deepEqual(latest.storeVersions, {'test:1': 1, 'test:2': 1});
+    assert.isTrue(Object.isFrozen(latest));
+
+    // Nothing has changed since the last snapshot, so the arc isn't serialized again.
+    let serialized = 0;
+    arc.serialize = (...args) => {
+      serialized++;
+      return Arc.prototype.serialize.apply(arc, args);
+    };
+    assert.isNull(await history.record());
+    assert.strictEqual(history.latest, latest);
+    assert.equal(serialized, 0);
+    delete arc.serialize;
+
+    history.dispose();
+    await handleFor(fooStore).set(new Foo({value: 'another Foo'}));
+    await arc.idle;
+    await history.idle;
+    assert.strictEqual(history.latest, latest);
+  });
+
+  it('diffs snapshots', async () => {
+    const {arc, recipe, Foo, fooStore, barStore} = await setup();
+    const history = new ArcHistory(arc, {automatic: false});
+    const before = await history.record();
+    await handleFor(fooStore).set(new Foo({value: 'a Foo'}));
+    await arc.instantiate(recipe);
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+    const after = await history.record();
+
+    assert.deepEqual(ArcHistory.diff(before, after), {
+      storesAdded: [],
+      storesRemoved: [],
+      storesChanged: [{id: 'test:1', from: 0, to: 1}, {id: 'test:2', from: 0, to: 1}],
+      particlesAdded: ['TestParticle'],
+      particlesRemoved: [],
+      activeRecipeChanged: true,
+    });
+    assert.deepEqual(ArcHistory.diff(after, after).storesChanged, []);
+  });
+
+  it('forks arcs from past snapshots', async () => {
+    const {arc, recipe, Foo, fooStore, barStore} = await setup();
+    const history = new ArcHistory(arc, {automatic: false});
+    await handleFor(fooStore).set(new Foo({value: 'a Foo'}));
+    await arc.instantiate(recipe);
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+    const snapshot = await history.record();
+
+    await handleFor(fooStore).set(new Foo({value: 'later'}));
+    await history.record();
+    assert.lengthOf(history.list(), 2);
+
+    const forked = await history.fork(snapshot);
+    assert.notStrictEqual(forked, arc);
+    assert.equal(forked.activeRecipe.toString(), snapshot.activeRecipe);
+    const forkedFoo = forked.findStoreById(fooStore.id);
+    assert.equal(forkedFoo.version, 1);
+    assert.equal((await forkedFoo.get()).rawData.value, 'a Foo');
+    assert.equal((await forked.findStoreById(barStore.id).get()).rawData.value, 'a Foo1');
+    // The original arc is unaffected.
+    assert.equal((await fooStore.get()).rawData.value, 'later');
+  });
+
+  it('retains a limited number of snapshots', async () => {
+    const {arc, Foo, fooStore} = await setup();
+    const history = new ArcHistory(arc, {maxSnapshots: 2, automatic: false});
+    for (const value of ['a', 'b', 'c']) {
+      await handleFor(fooStore).set(new Foo({value}));
+      await history.record(value);
+    }
+    assert.deepEqual(history.list().map(snapshot => snapshot.reason), ['b', 'c']);
+    assert.isUndefined(history.get(0));
+  });
+});
@@ -19,6 +19,9 @@ import {TestHelper} from '../testing/test-helper.js';
 import {StubLoader} from '../testing/stub-loader.js';
 import {MessageChannel} from '../ts-build/message-channel.js';
 import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 const loader = new Loader();
 
@@ -290,4 +293,231 @@ describe('Arc', function() {
     assert.deepEqual(colStore2.toLiteral(), colData);
     assert.deepEqual(bigStore2.toLiteral(), bigData);
   });
+
+  it('uninstantiates recipes', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        schema Data
+          Text value
+
+        particle Echo in 'echo.js'
+          in Data input
+          out [Data] output
+          out Data last
+          consume root
+
+        recipe
+          slot 'rootslotid-root' as slot0
+          use as handle0
+          use as handle1
+          create as handle2
+          Echo
+            input <- handle0
+            output -> handle1
+            last -> handle2
+            consume root as slot0
+      `,
+      'echo.js': `
+        defineParticle(({DomParticle}) => class Echo extends DomParticle {
+          get template() {
+            return 'echo';
+          }
+          onHandleUpdate(handle, update) {
+            if (handle.name === 'input' && update.data) {
+              const value = update.data.value;
+              this.handles.get('output').store(new (this.handles.get('output').entityClass)({value}));
+              this.handles.get('last').set(new (this.handles.get('last').entityClass)({value}));
+            }
+          }
+        });
+      `
+    });
+    const pecFactory = function(id) {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const slotComposer = createSlotComposer();
+    const arc = new Arc({id: 'test', pecFactory, slotComposer, loader});
+    const manifest = await Manifest.load('manifest', loader);
+    const Data = manifest.findSchemaByName('Data').entityClass();
+    const inputStore = await arc.createStore(Data.type, undefined, 'test:0');
+    const outputStore = await arc.createStore(Data.type.collectionOf(), undefined, 'test:1');
+    const emptyRecipe = arc.activeRecipe.toString();
+
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(inputStore);
+    recipe.handles[1].mapToStorage(outputStore);
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.idle;
+    assert.isTrue(arc.canUndo);
+    assert.lengthOf(arc._stores, 3);
+    assert.lengthOf(slotComposer.consumers, 1);
+
+    await handleFor(inputStore).set(new Data({value: 'a'}));
+    await arc.idle;
+    assert.lengthOf(await outputStore.toList(), 1);
+    const [lastStore] = arc._stores.filter(store => store !== inputStore && store !== outputStore);
+
+    assert.strictEqual(await arc.undo(), recipe);
+    assert.isFalse(arc.canUndo);
+    assert.equal(arc.activeRecipe.toString(), emptyRecipe);
+    assert.isEmpty(arc.recipes);
+    assert.isEmpty(arc.loadedParticles());
+    assert.isEmpty(slotComposer.consumers);
+    // The store created for the recipe is discarded; those it used are retained.
+    assert.sameMembers(arc._stores, [inputStore, outputStore]);
+
+    // The particle no longer reacts to changes.
+    await handleFor(inputStore).set(new Data({value: 'b'}));
+    await arc.idle;
+    assert.lengthOf(await outputStore.toList(), 1);
+    assert.isNull(await arc.undo());
+
+    // Redoing the recipe reinstates it with the store that was created for it.
+    assert.isTrue(arc.canRedo);
+    assert.strictEqual(await arc.redo(), recipe);
+    assert.isFalse(arc.canRedo);
+    assert.isTrue(arc.canUndo);
+    assert.sameMembers(arc._stores, [inputStore, outputStore, lastStore]);
+    assert.lengthOf(arc.loadedParticles(), 1);
+    await arc.idle;
+    await handleFor(inputStore).set(new Data({value: 'c'}));
+    await arc.idle;
+    assert.lengthOf(await outputStore.toList(), 2);
+    assert.isNull(await arc.redo());
+
+    // Instantiating a recipe discards those that were undone.
+    await arc.undo();
+    await arc.instantiate(recipe);
+    await arc.idle;
+    assert.isFalse(arc.canRedo);
+    await handleFor(inputStore).set(new Data({value: 'd'}));
+    await arc.idle;
+    assert.lengthOf(await outputStore.toList(), 3);
+  });
+
+  it('uninstantiates a recipe while retaining stores used by later recipes', async () => {
+    const {arc, recipe, Foo, Bar} = await setup();
+    const fooStore = await arc.createStore(Foo.type, undefined, 'test:1');
+    const barStore = await arc.createStore(Bar.type, undefined, 'test:2');
+    recipe.handles[0].mapToStorage(fooStore);
+    recipe.handles[1].mapToStorage(barStore);
+    recipe.normalize();
+    const other = recipe.clone();
+    other.normalize();
+    await arc.instantiate(recipe);
+    await arc.instantiate(other);
+    assert.lengthOf(arc.loadedParticles(), 2);
+
+    await arc.uninstantiate(recipe);
+    assert.lengthOf(arc.loadedParticles(), 1);
+    assert.lengthOf(arc.activeRecipe.particles, 1);
+    assert.lengthOf(arc.activeRecipe.handles, 2);
+    assert.lengthOf(arc.recipes, 1);
+
+    try {
+      await arc.uninstantiate(recipe);
+      assert.fail();
+    } catch (e) {
+      assert.match(e.message, /has not been instantiated/);
+    }
+    assert.strictEqual(await arc.undo(), other);
+    assert.isEmpty(arc.activeRecipe.handles);
+  });
+
+  it('stops and restarts particles', async () => {
+    const {arc, recipe, Foo, Bar} = await setup();
+    const fooStore = await arc.createStore(Foo.type, undefined, 'test:1');
+    const barStore = await arc.createStore(Bar.type, undefined, 'test:2');
+    await handleFor(fooStore).set(new Foo({value: 'a Foo'}));
+    recipe.handles[0].mapToStorage(fooStore);
+    recipe.handles[1].mapToStorage(barStore);
+    recipe.normalize();
+    await arc.instantiate(recipe);
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+    const [particle] = arc.activeRecipe.particles;
+
+    arc.stopParticle(particle);
+    await handleFor(fooStore).set(new Foo({value: 'another Foo'}));
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+
+    // TestParticle writes bar when its handles sync, which happens again on restart.
+    arc.restartParticle(particle);
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'another Foo1');
+    await handleFor(barStore).clear();
+    arc.restartParticle(particle, {reload: true});
+    await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'another Foo1');
+  });
+
+  describe('hot reload', () => {
+    const implFile = path.join(os.tmpdir(), `arcs-hot-reload-test-${process.pid}.js`);
+    const writeImpl = suffix => fs.writeFileSync(implFile, `
+      defineParticle(({Particle}) => class Suffixer extends Particle {
+        setHandles(handles) {
+          this.bar = handles.get('bar');
+        }
+        onHandleSync(handle, model) {
+          if (handle.name === 'foo' && model) {
+            this.bar.set(new this.bar.entityClass({value: model.value + '${suffix}'}));
+          }
+        }
+      });
+    `);
+
+    after(() => {
+      if (fs.existsSync(implFile)) {
+        fs.unlinkSync(implFile);
+      }
+    });
+
+    it('restarts particles when their implementation changes', async () => {
+      writeImpl('1');
+      const pecFactory = function(id) {
+        const channel = new MessageChannel();
+        new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+        return channel.port2;
+      };
+      const arc = new Arc({id: 'test', pecFactory, loader});
+      const manifest = await Manifest.parse(`
+        schema Foo
+          Text value
+        schema Bar
+          Text value
+        particle Suffixer in '${implFile}'
+          in Foo foo
+          out Bar bar
+        recipe
+          use as handle0
+          use as handle1
+          Suffixer
+            foo <- handle0
+            bar -> handle1
+      `, {loader});
+      const Foo = manifest.findSchemaByName('Foo').entityClass();
+      const Bar = manifest.findSchemaByName('Bar').entityClass();
+      const fooStore = await arc.createStore(Foo.type, undefined, 'test:1');
+      const barStore = await arc.createStore(Bar.type, undefined, 'test:2');
+      await handleFor(fooStore).set(new Foo({value: 'foo'}));
+      const recipe = manifest.recipes[0];
+      recipe.handles[0].mapToStorage(fooStore);
+      recipe.handles[1].mapToStorage(barStore);
+      recipe.normalize();
+      arc.enableHotReload();
+      await arc.instantiate(recipe);
+      await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'foo1');
+
+      const restarted = new Promise(resolve => barStore.on('change', resolve, {}));
+      writeImpl('2');
+      await restarted;
+      await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'foo2');
+
+      arc.disableHotReload();
+      writeImpl('3');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'foo2');
+      arc.dispose();
+    });
+  });
 });
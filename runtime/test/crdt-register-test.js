@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {CrdtRegisterModel} from '../ts-build/storage/crdt-register-model.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import {StubLoader} from '../testing/stub-loader.js';
+import {assertSingletonWillChangeTo} from '../testing/test-util.js';
+
+describe('CrdtRegisterModel', function() {
+  it('keeps concurrent writes until a later write replaces them', () => {
+    const [a, b] = [new CrdtRegisterModel('a'), new CrdtRegisterModel('b')];
+    a.set('first');
+    b.merge(a.toState());
+    assert.equal(b.value, 'first');
+    assert.isFalse(b.conflicted);
+
+    a.set('from a');
+    b.set('from b');
+    assert.isTrue(a.merge(b.toState()));
+    assert.isTrue(b.merge(a.toState()));
+    assert.isFalse(b.merge(a.toState()));
+    assert.isTrue(a.conflicted);
+    assert.deepEqual(a.values, b.values);
+    assert.equal(a.value, b.value);
+    assert.sameMembers(a.values, ['from a', 'from b']);
+
+    a.set('resolved');
+    b.merge(a.toState());
+    assert.equal(b.value, 'resolved');
+    assert.isFalse(b.conflicted);
+  });
+
+  it('converges regardless of the order of merges', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(replica => new CrdtRegisterModel(replica));
+    a.set(1);
+    b.set(2);
+    b.set(3);
+    c.set(4);
+    const states = [a, b, c].map(register => register.toState());
+    const forwards = new CrdtRegisterModel('x');
+    states.forEach(state => forwards.merge(state));
+    const backwards = new CrdtRegisterModel('y');
+    states.reverse().forEach(state => backwards.merge(state));
+    assert.deepEqual(forwards.values, backwards.values);
+    // b's write has seen the most writes.
+    assert.deepEqual(forwards.values, [3, 4, 1]);
+  });
+});
+
+describe('multi-value variables', function() {
+  it('are declared by schemas', async () => {
+    const manifest = await Manifest.parse(`
+      schema Profile
+        conflicts multi-value
+        Text name
+      schema Setting
+        Text value`);
+    assert.equal(manifest.schemas.Profile.conflicts, 'multi-value');
+    assert.equal(manifest.schemas.Setting.conflicts, 'last-writer-wins');
+    assert.equal(manifest.schemas.Profile.toManifestString(), `schema Profile\n  conflicts multi-value\n  Text name`);
+    assert.equal(manifest.findTypeByName('Profile').toLiteral().data.conflicts, 'multi-value');
+
+    try {
+      await Manifest.parse(`
+        schema Profile
+          conflicts multi-value
+          conflicts last-writer-wins`);
+      assert.fail();
+    } catch (e) {
+      assert.include(e.message, 'Duplicate schema conflict policy');
+    }
+  });
+
+  it('converge across devices and show conflicts to particles', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        schema Profile
+          conflicts multi-value
+          Text name
+        schema Result
+          Text value
+
+        particle Watcher in 'watcher.js'
+          in Profile profile
+          out Result result
+
+        recipe
+          create as handle0
+          create as handle1
+          Watcher
+            profile <- handle0
+            result -> handle1
+      `,
+      'watcher.js': `defineParticle(({Particle}) => class extends Particle {
+        setHandles(handles) {
+          this.result = handles.get('result');
+        }
+        onHandleUpdate(handle, {data, conflicts}) {
+          const value = conflicts ? conflicts.map(profile => profile.name).join(', ') : data.name;
+          this.result.set(new this.result.entityClass({value}));
+        }
+      });`,
+    });
+    const pecFactory = id => {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const context = await Manifest.load('manifest', loader);
+    const arc = new Arc({id: 'device-a', pecFactory, loader, context});
+    const recipe = context.recipes[0];
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    const [profile, result] = arc.activeRecipe.handles.map(handle => arc.findStoreById(handle.id));
+
+    // The same variable on another device.
+    const otherArc = new Arc({id: 'device-b', loader, context});
+    const other = await otherArc.createStore(profile.type, 'profile', profile.id);
+
+    await profile.set({id: 'a', rawData: {name: 'alice'}});
+    await other.set({id: 'b', rawData: {name: 'bob'}});
+    const [state, otherState] = [await profile.registerState(), await other.registerState()];
+    await profile.mergeRegister(otherState);
+    await other.mergeRegister(state);
+
+    assert.deepEqual(await profile.get(), await other.get());
+    // Both writes have seen one write, so the winner depends on the arcs' (random) session IDs.
+    const winner = (await profile.get()).rawData.name;
+    await assertSingletonWillChangeTo(arc, result, 'value', winner === 'alice' ? 'alice, bob' : 'bob, alice');
+
+    await other.set({id: 'c', rawData: {name: 'carol'}});
+    await profile.mergeRegister(await other.registerState());
+    assert.equal((await profile.get()).rawData.name, 'carol');
+    await assertSingletonWillChangeTo(arc, result, 'value', 'carol');
+
+    // The register, clock included, is kept in the variable's literal.
+    const registerState = await profile.registerState();
+    assert.lengthOf(Object.keys(registerState.clock), 2);
+    profile.fromLiteral(await profile.toLiteral());
+    assert.deepEqual(await profile.registerState(), registerState);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {Dataflow} from '../ts-build/recipe/dataflow.js';
+
+const manifestText = `
+  schema Thing
+    Text name
+
+  store Contacts of [Thing] 'contacts' #private in 'contacts.json'
+  store Public of [Thing] 'public' in 'contacts.json'
+  store Board of [Thing] 'board' #shared in 'contacts.json'
+
+  particle Copy in 'copy.js'
+    in [Thing] input
+    out [Thing] output
+    capabilities none
+  particle Show in 'show.js'
+    in [Thing] things
+    consume root
+    capabilities slots
+  particle Upload in 'upload.js'
+    in [Thing] things
+    capabilities network
+
+  shape HostedShape
+    in [Thing] *
+
+  particle Host in 'host.js'
+    host HostedShape hosted
+    capabilities innerArcs
+    in [Thing] things
+`;
+
+const resources = {'contacts.json': '[]'};
+
+async function analyze(recipe, options = {}) {
+  const manifest = await Manifest.parse(`${manifestText}\n${recipe}`, {fileName: 'things.manifest', loader: {
+    loadResource: name => resources[name],
+    join: (prefix, path) => path,
+  }});
+  const [parsed] = manifest.recipes;
+  assert(parsed.normalize());
+  const dataflow = await Dataflow.analyze(parsed, Object.assign({context: manifest}, options));
+  return {manifest, dataflow, store: id => dataflow.stores.find(store => store.id === id)};
+}
+
+const ids = stores => stores.map(store => store.id);
+
+describe('Dataflow', function() {
+  it('finds the stores and slots that data reaches', async () => {
+    const {dataflow, store} = await analyze(`
+      recipe
+        map 'contacts' as contacts
+        copy 'public' as copied
+        create as local
+        slot 'rootslotid-root' as slot0
+        Copy
+          input <- contacts
+          output -> local
+        Show
+          things <- local
+          consume root as slot0
+        Show
+          things <- copied
+    `);
+    assert.sameMembers(ids(dataflow.reachableStores(store('contacts'))), [null]);
+    assert.deepEqual(dataflow.reachableSlots(store('contacts')).map(slot => slot.id), ['rootslotid-root']);
+    assert.deepEqual(dataflow.reachableParticles(store('contacts')).map(particle => particle.name), ['Copy', 'Show']);
+    assert.isEmpty(dataflow.reachableStores(store('public')));
+    assert.isEmpty(dataflow.violations);
+  });
+
+  it('flags private data reaching shared stores and the network', async () => {
+    const {dataflow} = await analyze(`
+      recipe
+        map 'contacts' as contacts
+        use 'board' as board
+        create as local
+        Copy
+          input <- contacts
+          output -> local
+        Copy
+          input <- local
+          output -> board
+        Upload
+          things <- local
+    `, {isNetworkCapable: spec => spec.name === 'Upload'});
+    assert.deepEqual(dataflow.violations.map(violation => violation.message), [
+      `Data from #private store 'contacts' reaches particle 'Upload' through 'Copy', which can use the network`,
+      `Data from #private store 'contacts' reaches shared store 'board' through 'Copy', 'Copy'`,
+    ]);
+    assert.deepEqual(dataflow.violations.map(violation => violation.kind), ['network', 'shared-store']);
+  });
+
+  it('assumes that particles which declare no capabilities can use the network', async () => {
+    const {dataflow} = await analyze(`
+      particle Undeclared in 'undeclared.js'
+        in [Thing] things
+
+      recipe
+        map 'contacts' as contacts
+        Undeclared
+          things <- contacts
+        Upload
+          things <- contacts
+        Show
+          things <- contacts
+    `);
+    assert.sameMembers(dataflow.violations.map(violation => violation.particle.name), ['Undeclared', 'Upload']);
+  });
+
+  it('includes the particles hosted by a particle', async () => {
+    const recipe = `
+      recipe
+        map 'contacts' as contacts
+        Host
+          hosted = Upload
+          things <- contacts
+    `;
+    const isNetworkCapable = spec => spec.name === 'Upload';
+    let {dataflow} = await analyze(recipe, {isNetworkCapable});
+    assert.deepEqual(dataflow.violations.map(violation => violation.particle.name), ['Host']);
+    assert.isEmpty((await analyze(recipe.replace('= Upload', '= Show'), {isNetworkCapable})).dataflow.violations);
+
+    // Without a context, the hosted particle can't be read, and might use the network.
+    const manifest = await Manifest.parse(`${manifestText}\n${recipe}`, {loader: {
+      loadResource: name => resources[name],
+      join: (prefix, path) => path,
+    }});
+    dataflow = await Dataflow.analyze(manifest.recipes[0], {privateTags: ['private'], isNetworkCapable});
+    assert.isTrue(dataflow.isNetworkCapable(manifest.recipes[0].particles[0]));
+  });
+
+  it('follows data through inner arcs', async () => {
+    const {manifest, dataflow: outer} = await analyze(`
+      recipe
+        map 'contacts' as contacts
+        Show
+          things <- contacts
+    `);
+    assert.isEmpty(outer.violations);
+    const [recipe, inner] = await Promise.all([manifest.recipes[0], Manifest.parse(`${manifestText}
+      recipe
+        create as local
+        use 'board' as board
+        Copy
+          input <- local
+          output -> board
+    `, {loader: {loadResource: name => resources[name], join: (prefix, path) => path}})]);
+    const innerArcs = new Map([[recipe.particles[0], {activeRecipe: inner.recipes[0]}]]);
+    const dataflow = await Dataflow.analyze(recipe, {context: manifest, innerArcs});
+    assert.deepEqual(dataflow.violations.map(violation => violation.message), [
+      `Data from #private store 'contacts' reaches shared store 'board' through 'Show'`,
+    ]);
+  });
+});
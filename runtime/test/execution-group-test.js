@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {handleFor} from '../ts-build/handle.js';
+import {Loader} from '../ts-build/loader.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import {SlotComposer} from '../ts-build/slot-composer.js';
+import {StubLoader} from '../testing/stub-loader.js';
+import * as util from '../testing/test-util.js';
+
+// Returns a pecFactory that records the id of each PEC it creates in `ids`.
+function pecFactoryFor(loader, ids = []) {
+  return id => {
+    ids.push(id);
+    const channel = new MessageChannel();
+    new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+    return channel.port2;
+  };
+}
+
+describe('execution groups', function() {
+  it('are declared by particles', async () => {
+    const manifest = await Manifest.parse(`
+      particle Sandboxed in 'sandboxed.js'
+        group sandboxed
+      particle Trusted in 'trusted.js'`);
+    const [sandboxed, trusted] = manifest.particles;
+    assert.equal(sandboxed.group, 'sandboxed');
+    assert.isNull(trusted.group);
+    assert.equal(sandboxed.toString(), `particle Sandboxed in 'sandboxed.js'\n  affordance dom\n  group sandboxed`);
+    assert.equal(sandboxed.clone().group, 'sandboxed');
+
+    try {
+      await Manifest.parse(`
+        particle Sandboxed in 'sandboxed.js'
+          group sandboxed
+          group trusted`);
+      assert.fail();
+    } catch (e) {
+      assert.include(e.message, 'Particle Sandboxed declares more than one execution group');
+    }
+  });
+
+  it('run in separate PECs that share the arc\'s stores and slots', async () => {
+    const loader = new StubLoader({
+      'main.manifest': `
+        schema Data
+          Text value
+
+        particle Upper in 'upper.js'
+          in Data input
+          out Data output
+          group sandboxed
+        particle Show in 'show.js'
+          in Data data
+          consume root
+          group trusted
+
+        recipe
+          slot 'rootslotid-root' as slot0
+          use as input
+          create as upper
+          Upper
+            input <- input
+            output -> upper
+          Show
+            data <- upper
+            consume root as slot0
+      `,
+      'upper.js': `defineParticle(({Particle}) => class extends Particle {
+        setHandles(handles) {
+          this.output = handles.get('output');
+        }
+        onHandleSync(handle, model) {
+          if (model) {
+            const output = this.output;
+            output.set(new output.entityClass({value: model.value.toUpperCase()}));
+          }
+        }
+        onHandleUpdate(handle, update) {
+          this.onHandleSync(handle, update.data);
+        }
+      });`,
+      'show.js': `defineParticle(({DomParticle}) => class extends DomParticle {
+        get template() {
+          return '<span>{{value}}</span>';
+        }
+        render({data}) {
+          return {value: data ? data.value : ''};
+        }
+      });`,
+    });
+    const context = await Manifest.load('main.manifest', loader);
+    const [defaultIds, sandboxedIds] = [[], []];
+    const slotComposer = new SlotComposer({rootContainer: {'root': 'test'}, affordance: 'mock'});
+    const arc = new Arc({id: 'test', context, loader, slotComposer,
+                         pecFactory: pecFactoryFor(loader, defaultIds), pecFactories: {sandboxed: pecFactoryFor(loader, sandboxedIds)}});
+    const Data = context.findSchemaByName('Data').entityClass();
+    const input = await arc.createStore(Data.type, undefined, 'input');
+    await handleFor(input).set(new Data({value: 'hello'}));
+    const recipe = context.recipes[0];
+    recipe.handles[0].mapToStorage(input);
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.idle;
+
+    // The trusted group has no factory of its own, so it uses the default one.
+    assert.lengthOf(defaultIds, 2);
+    assert.lengthOf(sandboxedIds, 1);
+    const [upper, show] = ['Upper', 'Show'].map(name => arc.activeRecipe.particles.find(particle => particle.name === name));
+    assert.lengthOf(arc.pecs, 3);
+    assert.sameMembers(arc.pecs, [arc.pec, arc.pecFor(upper), arc.pecFor(show)]);
+
+    const upperStore = arc.findStoreById(upper.connections['output'].handle.id);
+    assert.equal((await upperStore.get()).rawData.value, 'HELLO');
+    const [consumer] = slotComposer.consumers;
+    assert.equal(consumer.consumeConn.particle, show);
+    assert.deepEqual(consumer.renderings.map(([subId, {model}]) => model), [{value: 'HELLO'}]);
+
+    arc.stopParticle(upper);
+    await handleFor(input).set(new Data({value: 'again'}));
+    await arc.idle;
+    assert.equal((await upperStore.get()).rawData.value, 'HELLO');
+  });
+
+  it('include the particles in inner arcs of their particles', async () => {
+    const loader = new Loader();
+    const manifest = await Manifest.parse(`
+      import './runtime/test/artifacts/test-particles.manifest'
+
+      particle SandboxedOuter in 'runtime/test/artifacts/outer-particle.js'
+        host TestShape particle
+        in Foo input
+        out Bar output
+        group sandboxed
+
+      recipe
+        create as h0
+        create as h1
+        SandboxedOuter
+          particle <- TestParticle
+          output -> h0
+          input <- h1
+      `, {loader, fileName: './test.manifest'});
+    const sandboxedIds = [];
+    const arc = new Arc({id: 'test', context: manifest, pecFactory: pecFactoryFor(loader), pecFactories: {sandboxed: pecFactoryFor(loader, sandboxedIds)}});
+    const recipe = manifest.recipes[0];
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.findStoresByType(manifest.findTypeByName('Foo'))[0].set({id: 'id', rawData: {value: 'a foo'}});
+    await util.assertSingletonWillChangeTo(arc, arc.findStoresByType(manifest.findTypeByName('Bar'))[0], 'value', 'a foo1');
+
+    const [outer] = arc.activeRecipe.particles;
+    const [hosted] = arc.recipes[0].innerArcs.get(outer).activeRecipe.particles;
+    assert.equal(hosted.name, 'TestParticle');
+    assert.lengthOf(sandboxedIds, 1);
+    assert.strictEqual(arc.pecFor(hosted), arc.pecFor(outer));
+    assert.notStrictEqual(arc.pecFor(hosted), arc.pec);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {now} from '../../platform/date-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {Loader} from '../ts-build/loader.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {GarbageCollector} from '../ts-build/storage/garbage-collector.js';
+
+describe('GarbageCollector', function() {
+  const manifestText = `
+    schema Session
+      expires after 30 minutes
+      Text token
+    schema Note
+      Text body
+    store Notes of [Note] in NotesResource
+      description \`scratch notes\`
+      expires after 2 days
+    resource NotesResource
+      start
+      []
+  `;
+
+  async function createArc() {
+    const loader = new Loader();
+    const manifest = await Manifest.parse(manifestText);
+    const arc = new Arc({id: 'test', loader, context: manifest});
+    return {arc, manifest};
+  }
+
+  it('parses and prints the ttls of schemas and stores', async () => {
+    const manifest = await Manifest.parse(manifestText);
+    assert.equal(manifest.schemas.Session.ttl, 30 * 60 * 1000);
+    assert.isNull(manifest.schemas.Note.ttl);
+    assert.equal(manifest.schemas.Session.toManifestString(), `schema Session\n  expires after 30 minutes\n  Text token`);
+    assert.equal(manifest.findTypeByName('Session').toLiteral().data.ttl, 30 * 60 * 1000);
+
+    const store = manifest.findStoreByName('Notes');
+    assert.equal(store.description, 'scratch notes');
+    assert.equal(store.ttl, 2 * 24 * 60 * 60 * 1000);
+    assert.include(store.toString([]), '  expires after 2 days');
+
+    const reparsed = await Manifest.parse(manifest.schemas.Session.toManifestString());
+    assert.equal(reparsed.schemas.Session.ttl, manifest.schemas.Session.ttl);
+
+    for (const [text, error] of [
+        ['expires after 1 hour\n  expires after 2 hours', 'Duplicate schema expiry'],
+        ['expires after 0 seconds', 'Schema expiry must be a positive duration']]) {
+      try {
+        await Manifest.parse(`schema Session\n  ${text}`);
+        assert.fail();
+      } catch (e) {
+        assert.include(e.message, error);
+      }
+    }
+  });
+
+  it('removes entities that have outlived their store\'s ttl', async () => {
+    const {arc, manifest} = await createArc();
+    const sessionType = manifest.findTypeByName('Session');
+    const sessions = await arc.createStore(sessionType.collectionOf(), 'sessions');
+    const current = await arc.createStore(sessionType, 'current');
+    const notes = await arc.createStore(manifest.findTypeByName('Note').collectionOf(), 'notes');
+    const ttl = sessions.ttl;
+    assert.equal(ttl, 30 * 60 * 1000);
+    assert.isNull(notes.ttl);
+
+    const gc = new GarbageCollector(() => [sessions, current, notes]);
+    await sessions.store({id: 's1', rawData: {token: 'a'}}, ['k1']);
+    await current.set({id: 's1', rawData: {token: 'a'}});
+    await notes.store({id: 'n1', rawData: {body: 'kept'}}, ['k2']);
+    assert.deepEqual(await gc.collect(now() + ttl / 2), {expired: 0, unreferenced: 0});
+
+    // Writing an entity again restarts its ttl.
+    await sessions.store({id: 's2', rawData: {token: 'b'}}, ['k3']);
+    const written = sessions.lastWritten('s2');
+    assert.deepEqual(await gc.collect(current.lastWritten('s1') + ttl), {expired: 2, unreferenced: 0});
+    assert.deepEqual((await sessions.toList()).map(session => session.id), ['s2']);
+    assert.isNull(await current.get());
+    assert.lengthOf(await notes.toList(), 1);
+
+    // The arc's stores are in referenceMode, so s1 is also removed from their backing store.
+    assert.deepEqual(await gc.collect(written + ttl), {expired: 1, unreferenced: 1});
+    assert.isEmpty(await sessions.toList());
+    assert.isUndefined(sessions.lastWritten('s2'));
+  });
+
+  it('removes entities from backing stores once they are unreferenced', async () => {
+    const {arc, manifest} = await createArc();
+    const noteType = manifest.findTypeByName('Note');
+    const storageKey = 'volatile://!1234:backed';
+    const first = await arc.storageProviderFactory.construct('first', noteType.collectionOf(), `${storageKey}/first`);
+    const second = await arc.storageProviderFactory.construct('second', noteType.collectionOf(), `${storageKey}/second`);
+    first.enableReferenceMode();
+    second.enableReferenceMode();
+    const backingStore = await first.ensureBackingStore();
+    assert.strictEqual(await second.ensureBackingStore(), backingStore);
+
+    await first.store({id: 'n1', rawData: {body: 'one'}}, ['k1']);
+    await first.store({id: 'n2', rawData: {body: 'two'}}, ['k2']);
+    await second.store({id: 'n2', rawData: {body: 'two'}}, ['k3']);
+    await first.remove('n1');
+    await first.remove('n2');
+    // A value that a store has written but not yet referred to.
+    await backingStore.store({id: 'n3', rawData: {body: 'three'}}, ['k4']);
+
+    // The second store isn't given to the collector, but still refers into the backing store.
+    const gc = new GarbageCollector(() => [first]);
+    assert.deepEqual(await gc.collect(), {expired: 0, unreferenced: 0});
+    await first.store({id: 'n3', rawData: {body: 'three'}}, ['k5']);
+
+    // Collections wait for the write locks of the stores they read and remove from.
+    const release = await second.lockWrites();
+    const collecting = gc.collect();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.lengthOf(await backingStore.toList(), 3);
+    release();
+
+    // n1 was unreferenced by both collections; n2 is still referenced by the second store.
+    assert.deepEqual(await collecting, {expired: 0, unreferenced: 1});
+    assert.sameMembers((await backingStore.toList()).map(note => note.id), ['n2', 'n3']);
+
+    // Backing stores whose referrers can't all be known are left alone.
+    await first.remove('n3');
+    backingStore.referrers = () => null;
+    await gc.collect();
+    assert.deepEqual(await gc.collect(), {expired: 0, unreferenced: 0});
+    assert.sameMembers((await backingStore.toList()).map(note => note.id), ['n2', 'n3']);
+  });
+
+  it('skips periodic collections while one is running, and carries on after failures', async () => {
+    const {arc, manifest} = await createArc();
+    const sessions = await arc.createStore(manifest.findTypeByName('Session').collectionOf(), 'sessions');
+    const wait = () => new Promise(resolve => setTimeout(resolve, 20));
+
+    // Collections wait for the write lock that's held here.
+    let collections = 0;
+    const gc = new GarbageCollector(() => {
+      collections++;
+      return [sessions];
+    });
+    const release = await sessions.lockWrites();
+    gc.start(1);
+    await wait();
+    assert.equal(collections, 1);
+    release();
+    gc.stop();
+
+    let failures = 0;
+    const failing = new GarbageCollector(() => {
+      failures++;
+      throw new Error('stores unavailable');
+    });
+    failing.start(1);
+    await wait();
+    failing.stop();
+    assert.isAbove(failures, 1);
+  });
+
+  it('collects periodically for arcs with a gcInterval', async () => {
+    const manifest = await Manifest.parse(`
+      schema Session
+        expires after 5 milliseconds
+        Text token`);
+    const arc = new Arc({id: 'test', loader: new Loader(), context: manifest, gcInterval: 5});
+    const sessions = await arc.createStore(manifest.findTypeByName('Session').collectionOf(), 'sessions');
+    await sessions.store({id: 's1', rawData: {token: 'a'}}, ['k1']);
+    for (let i = 0; i < 200 && (await sessions.toList()).length > 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    assert.isEmpty(await sessions.toList());
+    arc.dispose();
+  });
+});
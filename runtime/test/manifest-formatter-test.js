@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {formatManifest} from '../ts-build/manifest-formatter.js';
+
+describe('formatManifest', function() {
+  it('normalizes indentation, whitespace and blank lines', () => {
+    const manifest = `
+
+    // Things.
+    schema Thing
+         Text name
+           // The value.
+         Number value
+
+
+    particle Show in 'show.js'
+       in Thing thing
+       consume root
+       // consume other
+         // provide nested
+    // Recipes.
+    recipe
+     Show   // Shows a thing.
+         thing <- handle0
+     create as handle0
+
+`;
+    assert.equal(formatManifest(manifest), `// Things.
+schema Thing
+  Text name
+    // The value.
+  Number value
+
+particle Show in 'show.js'
+  in Thing thing
+  consume root
+  // consume other
+    // provide nested
+// Recipes.
+recipe
+  Show   // Shows a thing.
+    thing <- handle0
+  create as handle0
+`);
+    assert.equal(formatManifest(manifest, {indent: 4}).split('\n')[4], '    Number value');
+  });
+
+  it('keeps strings and resource bodies as they are', () => {
+    const manifest = `
+      schema Thing
+          Text name
+          description \`thing
+              of   
+            the day\`
+
+      resource ThingResource
+          start
+          [
+            {"name": "a  "}
+          ]
+
+      store Things of [Thing] in ThingResource
+    `;
+    const formatted = formatManifest(manifest);
+    assert.include(formatted, 'description `thing\n              of   \n            the day`\n');
+    assert.include(formatted, 'resource ThingResource\n  start\n  [\n    {"name": "a  "}\n  ]\n');
+  });
+
+  it('round trips through Manifest.parse', async () => {
+    const manifest = `
+      schema Thing
+        Text name
+      particle Show in 'show.js'
+          in Thing thing
+          consume root
+            provide details
+      recipe Showing &show
+          ? as handle0 // Any thing.
+          Show
+            thing <- handle0`;
+    const formatted = formatManifest(manifest);
+    assert.equal(formatManifest(formatted), formatted);
+    const [original, reparsed] = await Promise.all([manifest, formatted].map(content => Manifest.parse(content)));
+    assert.equal(reparsed.toString(), original.toString());
+  });
+
+  it('reports where a manifest fails to parse', () => {
+    try {
+      formatManifest(`schema Thing\n  Text name\nrecipe\n  create as as handle0\n`, {fileName: 'things.manifest'});
+      assert.fail();
+    } catch (e) {
+      assert.equal(e.name, 'Error');
+      assert.match(e.message, /^Parse error in 'things.manifest' line 4\./);
+      assert.equal(e.sourceLocation.start.line, 4);
+    }
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {ManifestLanguageService} from '../ts-build/manifest-language-service.js';
+import {ManifestLanguageServer} from '../ts-build/manifest-language-server.js';
+
+const shared = `
+schema Thing
+  Text name
+
+particle Reader in 'reader.js'
+  in Thing thing
+  consume root
+`;
+
+const main = `
+import 'shared.manifest'
+
+particle Writer &make in 'writer.js'
+  out Thing thing
+
+recipe
+  create as handle0
+  Writer
+    thing -> handle0
+  Reader
+    thing <- handle0
+`;
+
+const sharedUri = 'file:///manifests/shared.manifest';
+const mainUri = 'file:///manifests/main.manifest';
+
+// Finds the 0-based position of the n'th occurrence of text in the document.
+function position(document, text, n = 1) {
+  let offset = -1;
+  while (n-- > 0) {
+    offset = document.indexOf(text, offset + 1);
+  }
+  const lines = document.substring(0, offset).split('\n');
+  return {line: lines.length - 1, character: lines[lines.length - 1].length};
+}
+
+describe('ManifestLanguageService', function() {
+  let service;
+  beforeEach(() => {
+    service = new ManifestLanguageService();
+    service.update(sharedUri, shared);
+    service.update(mainUri, main);
+  });
+
+  it('reports errors at their location', async () => {
+    assert.isEmpty(await service.diagnostics(mainUri));
+
+    service.update(mainUri, main.replace('  Writer\n', '  Writerr\n'));
+    const [error] = await service.diagnostics(mainUri);
+    assert.equal(error.message, 'could not find particle Writerr');
+    assert.equal(error.severity, 1);
+    assert.deepEqual(error.range.start, position(main, 'Writer', 2));
+
+    service.update(mainUri, main.replace('create as', 'create as as'));
+    const [syntaxError] = await service.diagnostics(mainUri);
+    assert.equal(syntaxError.range.start.line, position(main, 'create').line);
+  });
+
+  it('reports warnings at their location', async () => {
+    service.update(mainUri, main.replace(`import 'shared.manifest'`, `import 'missing.manifest'\nimport 'shared.manifest'`));
+    const [warning] = await service.diagnostics(mainUri);
+    assert.equal(warning.message, `Error importing '/manifests/missing.manifest'`);
+    assert.equal(warning.severity, 2);
+    assert.deepEqual(warning.range.start, {line: 1, character: 0});
+  });
+
+  it('finds definitions across imports', async () => {
+    const definition = await service.definition(mainUri, position(main, 'Thing'));
+    assert.equal(definition.uri, sharedUri);
+    assert.deepEqual(definition.range.start, position(shared, 'schema Thing'));
+
+    const reader = await service.definition(mainUri, position(main, 'Reader'));
+    assert.deepEqual(reader.range.start, position(shared, 'particle Reader'));
+
+    const writer = await service.definition(mainUri, position(main, 'Writer', 2));
+    assert.equal(writer.uri, mainUri);
+    assert.deepEqual(writer.range.start, position(main, 'particle Writer'));
+
+    const imported = await service.definition(mainUri, position(main, 'shared.manifest'));
+    assert.equal(imported.uri, sharedUri);
+
+    assert.isNull(await service.definition(mainUri, position(main, 'handle0', 2)));
+  });
+
+  it('describes types on hover', async () => {
+    const hover = async (text, n) => {
+      const result = await service.hover(mainUri, position(main, text, n));
+      return result && result.contents.value;
+    };
+    assert.include(await hover('Thing'), 'schema Thing\n  Text name');
+    assert.include(await hover('Reader'), 'particle Reader');
+    assert.include(await hover('thing'), 'out Thing {Text name} thing');
+    assert.include(await hover('thing ->'), 'out Thing {Text name} Writer::thing');
+    assert.include(await hover('thing ->'), 'handle0: Thing {Text name}');
+    assert.include(await hover('create'), 'handle0: Thing {Text name}');
+    assert.isNull(await hover('recipe'));
+  });
+
+  it('describes nothing on hover over a recipe header', async () => {
+    const edited = main.replace('recipe\n', 'recipe Copy &make\n');
+    service.update(mainUri, edited);
+    assert.isNull(await service.hover(mainUri, position(edited, 'Copy')));
+    assert.isNull(await service.hover(mainUri, position(edited, 'make', 2)));
+  });
+
+  it('completes connection names and verbs', async () => {
+    // The document is completed from the last version that could be processed.
+    await service.diagnostics(mainUri);
+    const edited = main.replace('    thing <- handle0', '    th\n  &ma');
+    service.update(mainUri, edited);
+    const after = text => {
+      const {line, character} = position(edited, text);
+      return {line, character: character + text.length};
+    };
+    const connections = await service.completion(mainUri, position(edited, '\n  &ma'));
+    assert.deepEqual(connections.map(item => item.label), ['thing']);
+    assert.equal(connections[0].detail, 'in Thing {Text name}');
+
+    const verbs = await service.completion(mainUri, after('&ma'));
+    assert.deepEqual(verbs.map(item => item.label), ['make']);
+
+    assert.isEmpty(await service.completion(mainUri, after('create')));
+  });
+});
+
+describe('ManifestLanguageServer', function() {
+  it('publishes diagnostics and answers requests', async () => {
+    const notifications = [];
+    const server = new ManifestLanguageServer(new ManifestLanguageService(), message => notifications.push(message));
+
+    const {result} = await server.handle({jsonrpc: '2.0', id: 1, method: 'initialize', params: {}});
+    assert.isTrue(result.capabilities.hoverProvider);
+
+    const textDocument = {uri: mainUri, text: main.replace(`import 'shared.manifest'`, 'schema Thing')};
+    assert.isNull(await server.handle({jsonrpc: '2.0', method: 'textDocument/didOpen', params: {textDocument}}));
+    assert.deepEqual(notifications, [{
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: {uri: mainUri, diagnostics: [{
+        range: {start: {line: 10, character: 2}, end: {line: 12, character: 0}},
+        severity: 1,
+        source: 'manifest',
+        message: 'could not find particle Reader',
+      }]},
+    }]);
+
+    const definition = await server.handle({jsonrpc: '2.0', id: 2, method: 'textDocument/definition',
+        params: {textDocument, position: position(main, 'Writer', 2)}});
+    assert.deepEqual(definition.result.range.start, {line: 3, character: 0});
+
+    const unknown = await server.handle({jsonrpc: '2.0', id: 3, method: 'workspace/symbol', params: {}});
+    assert.equal(unknown.error.code, -32601);
+  });
+});
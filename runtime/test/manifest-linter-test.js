@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {ManifestLinter} from '../ts-build/manifest-linter.js';
+import {StubLoader} from '../testing/stub-loader.js';
+
+const files = {
+  'main.manifest': `
+import 'shared.manifest'
+
+schema Unused
+schema Thing
+  Text name
+
+store Things of [Thing] 'things' in 'things.json'
+
+particle Show &show in 'show.js'
+  in [Thing] things
+  in Thing selected
+  in Thing? hint
+  consume root
+    provide details
+    provide list
+
+recipe
+  map 'things' as handle0
+  map 'missing' as handle1
+  Show
+    things <- handle0
+  &show
+  &unknown
+`,
+  'shared.manifest': `
+schema Other
+particle List in 'list.js'
+  consume list
+`,
+  'things.json': '[]',
+};
+
+async function lint(overrides = {}, options = {}) {
+  const loader = new StubLoader(Object.assign({}, files, overrides));
+  const manifest = await Manifest.load('main.manifest', loader);
+  const messages = await new ManifestLinter(Object.assign({loader}, options)).lint(manifest);
+  return messages.map(({rule, severity, fileName, location}) => `${rule} ${severity} ${fileName}:${location && location.start.line}`);
+}
+
+describe('ManifestLinter', function() {
+  it('reports problems with their locations', async () => {
+    assert.deepEqual(await lint(), [
+      'unused-schema warning main.manifest:4',
+      'unused-schema warning shared.manifest:2',
+      'unbound-in-connection warning main.manifest:12',
+      'undeclared-store error main.manifest:20',
+      'unconsumed-slot warning main.manifest:15',
+      'unknown-verb error main.manifest:24',
+    ]);
+  });
+
+  it('explains the problems', async () => {
+    const loader = new StubLoader(files);
+    const manifest = await Manifest.load('main.manifest', loader);
+    const messages = await new ManifestLinter({loader}).lint(manifest);
+    assert.deepEqual(messages.map(message => message.message), [
+      `Schema 'Unused' is never used`,
+      `Schema 'Other' is never used`,
+      `Connection 'selected' of particle 'Show' is never bound by a recipe`,
+      `Handle maps store 'missing', which isn't declared`,
+      `Slot 'details' provided by particle 'Show' is never consumed`,
+      `No particle or recipe has the verb 'unknown'`,
+    ]);
+  });
+
+  it('applies configured severities', async () => {
+    const rules = {'unused-schema': 'off', 'unknown-verb': 'warning'};
+    assert.deepEqual(await lint({}, {rules}), [
+      'unbound-in-connection warning main.manifest:12',
+      'undeclared-store error main.manifest:20',
+      'unconsumed-slot warning main.manifest:15',
+      'unknown-verb warning main.manifest:24',
+    ]);
+    assert.throws(() => new ManifestLinter({rules: {'unused-schemas': 'off'}}), `Unknown lint rule 'unused-schemas'`);
+  });
+
+  it('reports problems without locations when sources are unavailable', async () => {
+    const manifest = await Manifest.parse(`
+      schema Unused
+      particle Show in 'show.js'
+        in Unused unused`);
+    const messages = await new ManifestLinter().lint(manifest);
+    assert.deepEqual(messages.map(({rule, location}) => [rule, location]), [['unbound-in-connection', null]]);
+  });
+
+  it('honors suppression comments', async () => {
+    const main = files['main.manifest']
+        .replace('schema Unused', 'schema Unused // lint-disable-line unused-schema')
+        .replace('  in Thing selected', '  // lint-disable-next-line\n  in Thing selected')
+        .replace('  &unknown', '  &unknown // lint-disable-line unused-schema');
+    const shared = `// lint-disable unused-schema, unconsumed-slot\n${files['shared.manifest']}`;
+    assert.deepEqual(await lint({'main.manifest': main, 'shared.manifest': shared}), [
+      'undeclared-store error main.manifest:21',
+      'unconsumed-slot warning main.manifest:16',
+      'unknown-verb error main.manifest:25',
+    ]);
+  });
+});
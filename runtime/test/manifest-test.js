@@ -218,6 +218,36 @@ ${particleStr1}
     assert.lengthOf(manifest.particles, 1);
     assert.equal(manifestString, manifest.particles[0].toString());
   });
+  it('can round-trip particles with supervision policies', async () => {
+    const manifestString = `particle TestParticle in 'a.js'
+  in Product {} input
+  affordance dom
+  supervision restart
+    maxRestarts 5
+    backoff 250`;
+
+    const manifest = await Manifest.parse(manifestString);
+    const [particle] = manifest.particles;
+    assert.deepEqual(particle.supervision, {policy: 'restart', maxRestarts: 5, backoff: 250});
+    assert.equal(manifestString, particle.toString());
+    assert.deepEqual(particle.clone().supervision, particle.supervision);
+
+    const unsupervised = (await Manifest.parse(`particle TestParticle in 'a.js'`)).particles[0];
+    assert.isNull(unsupervised.supervision);
+  });
+  it('rejects invalid supervision policies', async () => {
+    const parse = async body => {
+      try {
+        await Manifest.parse(`particle TestParticle in 'a.js'\n${body}`);
+        assert.fail();
+      } catch (e) {
+        return e.message;
+      }
+    };
+    assert.include(await parse(`  supervision stop\n    backoff 10`), 'backoff only applies to the restart supervision policy');
+    assert.include(await parse(`  supervision stop\n  supervision ignore`), 'more than one supervision policy');
+    assert.include(await parse(`  supervision reboot`), 'Expected');
+  });
   it('can parse a manifest containing a schema', async () => {
     const manifest = await Manifest.parse(`
       schema Bar
@@ -1667,6 +1697,29 @@ resource SomeName
     assert(!invalidRecipe.normalize());
   });
 
+  it('warns about recipes whose handle types do not unify', async () => {
+    const manifest = await Manifest.parse(`
+      particle P
+        out * {Text value} foo
+      particle P2
+        in * {Text value, Text value2} foo
+
+      recipe
+        create as handle
+        P
+          foo -> handle
+        P2
+          foo <- handle
+    `);
+    assert.lengthOf(manifest.recipes, 1);
+    const [warning] = manifest.warnings;
+    // No single connection is at fault, so the warning points at the recipe.
+    assert.equal(warning.location.start.line, 7);
+    assert.equal(warning.message, `Type validations failed for handle 'handle'\n` +
+        `  connections read * {Text value, Text value2}, but only * {Text value} is written`);
+    assert.lengthOf(warning.diagnostics, 1);
+  });
+
   it('can infer field types of inline schemas from external schemas', async () => {
     const manifest = await Manifest.parse(`
       schema Thing
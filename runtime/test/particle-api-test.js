@@ -263,6 +263,12 @@ describe('particle-api', function() {
     const newStore = arc.findStoresByType(Result.type)[2];
     assert.equal(newStore.name, 'the-out');
     await util.assertSingletonWillChangeTo(arc, newStore, 'value', 'success');
+
+    // Undoing the recipe also tears down the inner arc of its particle, and the inner arc's stores.
+    assert.lengthOf(arc.loadedParticles(), 2);
+    await arc.undo();
+    assert.isEmpty(arc.loadedParticles());
+    assert.deepEqual(arc._stores, [resultStore]);
   });
 
   it('can load a recipe referencing a manifest store', async () => {
@@ -758,4 +764,291 @@ describe('particle-api', function() {
     await arc.instantiate(recipe);
     await inspector.verify('v1,v2,v3', 'v4,v5', 'done');
   });
+
+  it('queries collections and big collections', async function() {
+    const {manifest, arc} = await loadFilesIntoNewArc({
+      manifest: `
+        schema Data
+          Text value
+          Number num
+
+        particle P in 'a.js'
+          in [Data] col
+          in BigCollection<Data> big
+          out [Data] res
+
+        recipe
+          use 'test:0' as handle0
+          use 'test:1' as handle1
+          use 'test:2' as handle2
+          P
+            col <- handle0
+            big <- handle1
+            res -> handle2
+      `,
+      'a.js': `
+        'use strict';
+
+        defineParticle(({Particle}) => {
+          return class P extends Particle {
+            async setHandles(handles) {
+              this.resHandle = handles.get('res');
+              const query = {where: [{field: 'num', op: '>', value: 1}], orderBy: [{field: 'num', descending: true}], limit: 2};
+              const col = await handles.get('col').query(query);
+              await this.addResult('col:' + col.map(item => item.value).join(','));
+              const big = await handles.get('big').query(query);
+              await this.addResult('big:' + big.map(item => item.value).join(','));
+              try {
+                await handles.get('big').query({limit: -1});
+              } catch (e) {
+                await this.addResult(e.message);
+              }
+              // Queries that fail in storage reject too.
+              try {
+                await handles.get('big')._proxy.query({where: [{field: 'num', op: '~', value: 1}]});
+              } catch (e) {
+                await this.addResult('storage: ' + e.message);
+              }
+            }
+
+            async addResult(value) {
+              await this.resHandle.store(new this.resHandle.entityClass({value}));
+            }
+          }
+        });
+      `
+    });
+
+    const Data = manifest.findSchemaByName('Data').entityClass();
+    const colStore = await arc.createStore(Data.type.collectionOf(), 'col', 'test:0');
+    const bigStore = await arc.createStore(Data.type.bigCollectionOf(), 'big', 'test:1');
+    for (let i = 1; i <= 4; i++) {
+      await colStore.store({id: 'c' + i, rawData: {value: 'c' + i, num: i}}, ['k' + i]);
+      await bigStore.store({id: 'b' + i, rawData: {value: 'b' + i, num: i}}, ['k' + i]);
+    }
+
+    const resStore = await arc.createStore(Data.type.collectionOf(), 'res', 'test:2');
+    const inspector = new util.ResultInspector(arc, resStore, 'value');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(colStore);
+    recipe.handles[1].mapToStorage(bigStore);
+    recipe.handles[2].mapToStorage(resStore);
+    recipe.normalize();
+    await arc.instantiate(recipe);
+    await inspector.verify('col:c4,c3', 'big:b4,b3', 'Query limit must be a non-negative integer',
+                           `storage: Unsupported query operator '~'`);
+  });
+
+  it('streams big collections over an index range', async function() {
+    const {manifest, arc} = await loadFilesIntoNewArc({
+      manifest: `
+        schema Data
+          Text value
+          Number num
+
+        index Data.num
+
+        particle P in 'a.js'
+          in BigCollection<Data> big
+          out [Data] res
+
+        recipe
+          use 'test:0' as handle0
+          use 'test:1' as handle1
+          P
+            big <- handle0
+            res -> handle1
+      `,
+      'a.js': `
+        'use strict';
+
+        defineParticle(({Particle}) => {
+          return class P extends Particle {
+            async setHandles(handles) {
+              this.resHandle = handles.get('res');
+              const cursor = await handles.get('big').stream({pageSize: 2, forward: false, index: 'num', lower: 2, upper: 4});
+              for (let {value, done} = await cursor.next(); !done; {value, done} = await cursor.next()) {
+                await this.addResult(value.map(item => item.value).join(','));
+              }
+              try {
+                await handles.get('big').stream({pageSize: 2, index: 'value'});
+              } catch (e) {
+                await this.addResult(e.message);
+              }
+            }
+
+            async addResult(value) {
+              await this.resHandle.store(new this.resHandle.entityClass({value}));
+            }
+          }
+        });
+      `
+    });
+
+    const Data = manifest.findSchemaByName('Data').entityClass();
+    const bigStore = await arc.createStore(Data.type.bigCollectionOf(), 'big', 'test:0');
+    for (const num of [3, 5, 1, 4, 2]) {
+      await bigStore.store({id: 'b' + num, rawData: {value: 'b' + num, num}}, ['k' + num]);
+    }
+
+    const resStore = await arc.createStore(Data.type.collectionOf(), 'res', 'test:1');
+    const inspector = new util.ResultInspector(arc, resStore, 'value');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(bigStore);
+    recipe.handles[1].mapToStorage(resStore);
+    recipe.normalize();
+    await arc.instantiate(recipe);
+    await inspector.verify('b4,b3', 'b2', `Schema Data has no index on 'value'`);
+  });
+
+  it('moves entities between collections in a transaction', async () => {
+    const {manifest, arc} = await loadFilesIntoNewArc({
+      manifest: `
+        schema Data
+          Text value
+
+        particle P in 'a.js'
+          inout [Data] from
+          out [Data] to
+          out [Data] res
+
+        recipe
+          use 'test:0' as handle0
+          use 'test:1' as handle1
+          use 'test:2' as handle2
+          P
+            from = handle0
+            to -> handle1
+            res -> handle2
+      `,
+      'a.js': `
+        'use strict';
+
+        defineParticle(({Particle}) => {
+          return class P extends Particle {
+            setHandles(handles) {
+              this.myHandles = handles;
+            }
+
+            async onHandleSync(handle, model) {
+              if (handle.name !== 'from') {
+                return;
+              }
+              const to = this.myHandles.get('to');
+              const transaction = handle.transaction();
+              for (const entity of model) {
+                await handle.remove(entity, transaction);
+                await to.store(new to.entityClass({value: entity.value}), transaction);
+              }
+              await transaction.commit();
+              const res = this.myHandles.get('res');
+              await res.store(new res.entityClass({value: 'committed'}));
+            }
+          }
+        });
+      `
+    });
+
+    const Data = manifest.findSchemaByName('Data').entityClass();
+    const fromStore = await arc.createStore(Data.type.collectionOf(), 'from', 'test:0');
+    await fromStore.store({id: 'i1', rawData: {value: 'v1'}}, ['k1']);
+    await fromStore.store({id: 'i2', rawData: {value: 'v2'}}, ['k2']);
+    const toStore = await arc.createStore(Data.type.collectionOf(), 'to', 'test:1');
+    const resStore = await arc.createStore(Data.type.collectionOf(), 'res', 'test:2');
+    const fromEvents = [];
+    const toEvents = [];
+    fromStore.on('change', event => fromEvents.push(event), {});
+    toStore.on('change', event => toEvents.push(event), {});
+
+    const inspector = new util.ResultInspector(arc, resStore, 'value');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(fromStore);
+    recipe.handles[1].mapToStorage(toStore);
+    recipe.handles[2].mapToStorage(resStore);
+    recipe.normalize();
+    await arc.instantiate(recipe);
+    await inspector.verify('committed');
+
+    assert.isEmpty(await fromStore.toList());
+    assert.sameMembers((await toStore.toList()).map(item => item.rawData.value), ['v1', 'v2']);
+    assert.lengthOf(fromEvents, 1);
+    assert.lengthOf(fromEvents[0].remove, 2);
+    assert.lengthOf(toEvents, 1);
+    assert.lengthOf(toEvents[0].add, 2);
+  });
+
+  it('resynchronizes handles written in a rejected transaction', async () => {
+    const {manifest, arc} = await loadFilesIntoNewArc({
+      manifest: `
+        schema Data
+          Text value
+
+        particle P in 'a.js'
+          inout [Data] from
+          out BigCollection<Data> big
+          out [Data] res
+
+        recipe
+          use 'test:0' as handle0
+          use 'test:1' as handle1
+          use 'test:2' as handle2
+          P
+            from = handle0
+            big -> handle1
+            res -> handle2
+      `,
+      'a.js': `
+        'use strict';
+
+        defineParticle(({Particle}) => {
+          return class P extends Particle {
+            setHandles(handles) {
+              this.myHandles = handles;
+            }
+
+            async onHandleSync(handle, model) {
+              if (handle.name !== 'from') {
+                return;
+              }
+              const res = this.myHandles.get('res');
+              if (this.rejected) {
+                await res.store(new res.entityClass({value: 'synced ' + model.map(entity => entity.value)}));
+                return;
+              }
+              const big = this.myHandles.get('big');
+              const transaction = handle.transaction();
+              for (const entity of model) {
+                await handle.remove(entity, transaction);
+                await big.store(new big.entityClass({value: entity.value}), transaction);
+              }
+              try {
+                await transaction.commit();
+              } catch (e) {
+                this.rejected = true;
+                await res.store(new res.entityClass({value: 'rejected'}));
+              }
+            }
+          }
+        });
+      `
+    });
+
+    const Data = manifest.findSchemaByName('Data').entityClass();
+    const fromStore = await arc.createStore(Data.type.collectionOf(), 'from', 'test:0');
+    await fromStore.store({id: 'i1', rawData: {value: 'v1'}}, ['k1']);
+    const bigStore = await arc.createStore(Data.type.bigCollectionOf(), 'big', 'test:1');
+    const resStore = await arc.createStore(Data.type.collectionOf(), 'res', 'test:2');
+
+    const inspector = new util.ResultInspector(arc, resStore, 'value');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(fromStore);
+    recipe.handles[1].mapToStorage(bigStore);
+    recipe.handles[2].mapToStorage(resStore);
+    recipe.normalize();
+    await arc.instantiate(recipe);
+    await inspector.verify('rejected', 'synced v1');
+
+    assert.lengthOf(await fromStore.toList(), 1);
+    assert.equal(fromStore.version, 1);
+  });
 });
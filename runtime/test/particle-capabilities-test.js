@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import {PolicyEngine} from '../ts-build/policy.js';
+import {SlotComposer} from '../ts-build/slot-composer.js';
+import {StubLoader} from '../testing/stub-loader.js';
+import {assertSingletonWillChangeTo} from '../testing/test-util.js';
+
+describe('particle capabilities', function() {
+  it('are declared by particles', async () => {
+    const manifest = await Manifest.parse(`
+      particle Fetcher in 'fetcher.js'
+        capabilities network, innerArcs
+      particle Inert in 'inert.js'
+        capabilities none
+      particle Anything in 'anything.js'`);
+    const [fetcher, inert, anything] = manifest.particles;
+    assert.deepEqual(fetcher.capabilities, ['network', 'innerArcs']);
+    assert.isTrue(fetcher.permits('network'));
+    assert.isFalse(fetcher.permits('slots'));
+    assert.deepEqual(inert.capabilities, []);
+    assert.isFalse(inert.permits('innerArcs'));
+    assert.isNull(anything.capabilities);
+    assert.isTrue(anything.permits('backingStore'));
+    assert.include(fetcher.toString(), '\n  capabilities network, innerArcs');
+    assert.include(inert.toString(), '\n  capabilities none');
+    assert.deepEqual(fetcher.clone().capabilities, ['network', 'innerArcs']);
+
+    try {
+      await Manifest.parse(`
+        particle Fetcher in 'fetcher.js'
+          capabilities network
+          capabilities slots`);
+      assert.fail();
+    } catch (e) {
+      assert.include(e.message, 'Particle Fetcher declares its capabilities more than once');
+    }
+  });
+
+  it('are enforced when particles run', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        schema Result
+          Text value
+
+        particle Builder in 'builder.js'
+          out Result out
+          capabilities none
+        particle Dereferencer in 'dereferencer.js'
+          in Reference<Result> in
+          out Result out
+          capabilities slots
+        particle Painter in 'painter.js'
+          consume root
+          capabilities network
+          supervision ignore
+
+        recipe
+          create as handle0
+          create as handle1
+          create as handle2
+          slot 'rootslotid-root' as slot0
+          Builder
+            out -> handle0
+          Dereferencer
+            in <- handle1
+            out -> handle2
+          Painter
+            consume root as slot0
+      `,
+      'builder.js': `defineParticle(({Particle}) => class extends Particle {
+        async setHandles(handles) {
+          const out = handles.get('out');
+          try {
+            await this.constructInnerArc();
+          } catch (e) {
+            out.set(new out.entityClass({value: e.message}));
+          }
+        }
+      });`,
+      'dereferencer.js': `defineParticle(({Particle}) => class extends Particle {
+        setHandles(handles) {
+          this.out = handles.get('out');
+        }
+        async onHandleUpdate(handle, update) {
+          try {
+            await update.data.dereference();
+          } catch (e) {
+            this.out.set(new this.out.entityClass({value: e.message}));
+          }
+        }
+      });`,
+      'painter.js': `defineParticle(({DomParticle}) => class extends DomParticle {
+        get template() {
+          return '<span>painted</span>';
+        }
+      });`,
+    });
+    const pecFactory = id => {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const slotComposer = new SlotComposer({rootContainer: {'root': 'test'}, affordance: 'mock'});
+    const arc = new Arc({id: 'test', pecFactory, loader, slotComposer});
+    const recipe = (await Manifest.load('manifest', loader)).recipes[0];
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    const [built, reference, dereferenced] = arc.activeRecipe.handles.map(handle => arc.findStoreById(handle.id));
+
+    await assertSingletonWillChangeTo(arc, built, 'value',
+        `Particle 'Builder' can't construct inner arcs without declaring the 'innerArcs' capability`);
+
+    await reference.set({id: 'id:1', storageKey: null});
+    await assertSingletonWillChangeTo(arc, dereferenced, 'value',
+        `Particle 'Dereferencer' can't access backing stores without declaring the 'backingStore' capability`);
+
+    // The host drops the rendering of a particle that may not render into slots.
+    await arc.idle;
+    const [painter] = slotComposer.consumers;
+    assert.equal(painter.consumeConn.particle.name, 'Painter');
+    assert.deepEqual(painter.renderings.map(([subId, {model, templateName}]) => [model, templateName]), [[undefined, undefined]]);
+
+    // The host only accepts calls on behalf of the PEC's own particles.
+    assert.equal(arc.pec.capabilityError('test:other', 'backingStore', 'GetBackingStore').message,
+        `GetBackingStore calls must be made by a particle in the PEC, but 'test:other' isn't one`);
+  });
+
+  it('are enforced by the host for particles without a supervision policy', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        particle Inert in 'inert.js'
+          capabilities none
+
+        recipe
+          Inert
+      `,
+      'inert.js': `defineParticle(({Particle}) => class extends Particle {});`,
+    });
+    const pecFactory = id => {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const arc = new Arc({id: 'test', pecFactory, loader});
+    const recipe = (await Manifest.load('manifest', loader)).recipes[0];
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.idle;
+    const [particle] = arc.activeRecipe.particles;
+
+    // Calls made as the particle, skipping the PEC's own checks, are still answered.
+    const port = arc.pec._apiPort;
+    const replies = [];
+    port.ConstructArcCallback = ({callback, error}) => replies.push([callback, error]);
+    port.SimpleCallback = ({callback, data}) => replies.push([callback, data]);
+    port.onConstructInnerArc({callback: 1, particle});
+    await port.onGetBackingStore({callback: 2, type: null, storageKey: null, particleId: particle.id});
+    port.onRender({particle, slotName: 'root', content: {}});
+    assert.deepEqual(replies, [
+      [1, `Particle 'Inert' can't construct inner arcs without declaring the 'innerArcs' capability`],
+      [2, `Particle 'Inert' can't access backing stores without declaring the 'backingStore' capability`],
+    ]);
+    assert.equal(arc.supervisor.status(particle).exceptions, 3);
+  });
+
+  it('that are forbidden by policies veto plans', async () => {
+    const manifest = await Manifest.parse(`
+      policy Offline
+        particles may not use network
+        particle Builder may not use innerArcs, slots
+
+      particle Builder in 'builder.js'
+        capabilities innerArcs
+      particle Fetcher in 'fetcher.js'
+        capabilities network, slots
+      particle Anything in 'anything.js'
+
+      recipe
+        Builder
+        Fetcher
+        Anything
+    `);
+    const [policy] = manifest.policies;
+    assert.equal(policy.toString(), `policy Offline
+  particles may not use network
+  particle Builder may not use innerArcs, slots`);
+    assert.deepEqual(new PolicyEngine(manifest.policies).check(manifest.recipes[0], manifest).map(violation => violation.reason), [
+      `Policy 'Offline' forbids particle 'Fetcher' from using the 'network' capability`,
+      `Policy 'Offline' forbids particle 'Anything' from using the 'network' capability`,
+      `Policy 'Offline' forbids particle 'Builder' from using the 'innerArcs' capability`,
+    ]);
+  });
+});
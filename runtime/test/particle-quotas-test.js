@@ -0,0 +1,272 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Arc} from '../ts-build/arc.js';
+import {assert} from './chai-web.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {StubLoader} from '../testing/stub-loader.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import {ParticleQuotaTracker, QuotaExceededError} from '../ts-build/particle-quotas.js';
+
+// Sets up an arc running a particle that writes three Foos, and tries to construct two inner arcs.
+async function setup(quotas, supervision = 'supervision ignore') {
+  const loader = new StubLoader({
+    manifest: `
+      schema Foo
+        Text value
+
+      particle Writer in 'writer.js'
+        out [Foo] foos
+        out Foo result
+        ${supervision}
+
+      recipe
+        use as handle0
+        use as handle1
+        Writer
+          foos -> handle0
+          result -> handle1
+    `,
+    'writer.js': `
+      defineParticle(({Particle}) => class Writer extends Particle {
+        async setHandles(handles) {
+          const foos = handles.get('foos');
+          for (const value of ['a', 'b', 'c']) {
+            await foos.store(new foos.entityClass({value}));
+          }
+          const errors = [];
+          for (let i = 0; i < 2; i++) {
+            try {
+              await this.constructInnerArc();
+            } catch (e) {
+              errors.push(e.message);
+            }
+          }
+          const result = handles.get('result');
+          await result.set(new result.entityClass({value: errors.join()}));
+        }
+      });
+    `
+  });
+  const pecFactory = function(id) {
+    const channel = new MessageChannel();
+    new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+    return channel.port2;
+  };
+  const arc = new Arc({id: 'test', pecFactory, loader, quotas});
+  const manifest = await Manifest.load('manifest', loader);
+  const Foo = manifest.findSchemaByName('Foo').entityClass();
+  const foosStore = await arc.createStore(Foo.type.collectionOf(), undefined, 'test:0');
+  const resultStore = await arc.createStore(Foo.type, undefined, 'test:1');
+  const recipe = manifest.recipes[0];
+  recipe.handles[0].mapToStorage(foosStore);
+  recipe.handles[1].mapToStorage(resultStore);
+  assert.isTrue(recipe.normalize());
+  await arc.instantiate(recipe);
+  await arc.idle;
+  const [particle] = arc.activeRecipe.particles;
+  const foos = async () => (await foosStore.toList()).map(foo => foo.rawData.value);
+  const result = async () => {
+    const entity = await resultStore.get();
+    return entity ? entity.rawData.value : null;
+  };
+  return {arc, particle, foos, result};
+}
+
+describe('ParticleQuotas', function() {
+  it('tracks usage against quotas', () => {
+    const tracker = new ParticleQuotaTracker({messagesPerSecond: 2, bytesPerStore: 10});
+    tracker.setQuotas('p1', {innerArcs: 0, cpuTimePerSecond: 50});
+    assert.deepEqual(tracker.quotasFor('p1'), {messagesPerSecond: 2, bytesPerStore: 10, innerArcs: 0, cpuTimePerSecond: 50});
+
+    assert.isNull(tracker.recordMessage('p1', 1000));
+    assert.isNull(tracker.recordMessage('p1', 1500));
+    const violation = tracker.recordMessage('p1', 1999);
+    assert.instanceOf(violation, QuotaExceededError);
+    assert.include(violation, {name: 'QuotaExceededError', particleId: 'p1', quota: 'messagesPerSecond', limit: 2, usage: 3});
+    // The next second starts a new window.
+    assert.isNull(tracker.recordMessage('p1', 2000));
+
+    // CPU time has already been spent when it's reported, so it's recorded even over the quota.
+    assert.isNull(tracker.recordCpuTime('p1', 30, 2100));
+    assert.include(tracker.recordCpuTime('p1', 30, 2200), {quota: 'cpuTimePerSecond', limit: 50, usage: 60});
+    assert.isNull(tracker.recordCpuTime('p1', 30, 3000));
+
+    assert.isNull(tracker.recordWrite('p1', 's1', 'abcdef'));
+    assert.include(tracker.recordWrite('p1', 's1', 'abc'), {quota: 'bytesPerStore', storeId: 's1', usage: 13});
+    assert.isNull(tracker.recordWrite('p1', 's2', 'abc'));
+    assert.include(tracker.recordInnerArc('p1'), {quota: 'innerArcs', limit: 0});
+    // Other particles only have the defaults.
+    assert.isNull(tracker.recordInnerArc('p2'));
+
+    assert.deepEqual(tracker.usageFor('p1'), {messagesPerSecond: 0, cpuTimePerSecond: 30, bytesPerStore: {s1: 8, s2: 5}, innerArcs: 0});
+    tracker.release('p1');
+    assert.deepEqual(tracker.usageFor('p1'), {messagesPerSecond: 0, cpuTimePerSecond: 0, bytesPerStore: {}, innerArcs: 0});
+    assert.deepEqual(tracker.quotasFor('p1'), {messagesPerSecond: 2, bytesPerStore: 10});
+  });
+
+  it('runs particles within their quotas', async () => {
+    const {arc, particle, foos, result} = await setup({});
+    assert.sameMembers(await foos(), ['a', 'b', 'c']);
+    assert.equal(await result(), '');
+    assert.equal(arc.supervisor.status(particle).exceptions, 0);
+    assert.equal(arc.pec.quotas.usageFor(particle.id).innerArcs, 2);
+  });
+
+  it('rejects writes over the bytes per store quota', async () => {
+    // Each Foo serializes to around 60 bytes.
+    const {arc, particle, foos, result} = await setup({bytesPerStore: 150});
+    assert.sameMembers(await foos(), ['a', 'b']);
+    assert.equal(await result(), '');
+    assert.equal(arc.supervisor.status(particle).exceptions, 1);
+  });
+
+  it('rejects messages over the rate quota', async () => {
+    const {arc, particle, foos, result} = await setup({messagesPerSecond: 2});
+    assert.sameMembers(await foos(), ['a', 'b']);
+    assert.isNull(await result());
+    // The third store, both inner arcs and setting the result.
+    assert.equal(arc.supervisor.status(particle).exceptions, 4);
+  });
+
+  it('rejects inner arcs over the quota', async () => {
+    const {arc, particle, result} = await setup({innerArcs: 1});
+    assert.match(await result(), /^Particle .* exceeded its innerArcs quota of 1 \(2\)$/);
+    assert.equal(arc.supervisor.status(particle).exceptions, 1);
+    assert.equal(arc.pec.quotas.usageFor(particle.id).innerArcs, 1);
+  });
+
+  it('rejects inner arcs over the quota for particles without a supervision policy', async () => {
+    const {arc, particle, result} = await setup({innerArcs: 1}, '');
+    assert.match(await result(), /^Particle .* exceeded its innerArcs quota of 1 \(2\)$/);
+    assert.equal(arc.supervisor.status(particle).exceptions, 1);
+  });
+
+  it('rejects writes over quota back to particles without a supervision policy', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        schema Foo
+          Text value
+
+        particle Writer in 'writer.js'
+          inout BigCollection<Foo> foos
+          out Foo result
+
+        recipe
+          use as handle0
+          use as handle1
+          Writer
+            foos = handle0
+            result -> handle1
+      `,
+      'writer.js': `
+        defineParticle(({Particle}) => class Writer extends Particle {
+          async setHandles(handles) {
+            const foos = handles.get('foos');
+            const result = handles.get('result');
+            try {
+              await foos.store(new foos.entityClass({value: 'x'.repeat(200)}));
+              await result.set(new result.entityClass({value: 'stored'}));
+            } catch (e) {
+              await result.set(new result.entityClass({value: e.message}));
+            }
+          }
+        });
+      `
+    });
+    const pecFactory = function(id) {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const arc = new Arc({id: 'test', pecFactory, loader, quotas: {bytesPerStore: 200}});
+    const manifest = await Manifest.load('manifest', loader);
+    const Foo = manifest.findSchemaByName('Foo').entityClass();
+    const foosStore = await arc.createStore(Foo.type.bigCollectionOf(), undefined, 'test:0');
+    const resultStore = await arc.createStore(Foo.type, undefined, 'test:1');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(foosStore);
+    recipe.handles[1].mapToStorage(resultStore);
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.idle;
+
+    assert.match((await resultStore.get()).rawData.value, /^Particle .* exceeded its bytesPerStore quota of 200 for store test:0 \(\d+\)$/);
+    const [particle] = arc.activeRecipe.particles;
+    assert.equal(arc.supervisor.status(particle).exceptions, 1);
+  });
+
+  it('reports particles over the CPU time quota to their supervision policy', async () => {
+    const {arc, particle} = await setup({cpuTimePerSecond: 10});
+    arc.pec._apiPort.onReportCpuTime({particleId: particle.id, time: 5});
+    assert.equal(arc.supervisor.status(particle).exceptions, 0);
+    arc.pec._apiPort.onReportCpuTime({particleId: particle.id, time: 10});
+    assert.equal(arc.supervisor.status(particle).exceptions, 1);
+    assert.isAtLeast(arc.pec.quotas.usageFor(particle.id).cpuTimePerSecond, 15);
+  });
+
+  it('counts the time until asynchronous particle calls complete against the CPU time quota', async () => {
+    const loader = new StubLoader({
+      manifest: `
+        schema Foo
+          Text value
+
+        particle Sleeper in 'sleeper.js'
+          in [Foo] foos
+
+        recipe
+          use as handle0
+          Sleeper
+            foos <- handle0
+      `,
+      'sleeper.js': `
+        defineParticle(({Particle}) => class Sleeper extends Particle {
+          async setHandles(handles) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+          }
+          async onHandleUpdate(handle, update) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+          }
+        });
+      `
+    });
+    const pecFactory = function(id) {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const arc = new Arc({id: 'test', pecFactory, loader, quotas: {}});
+    const manifest = await Manifest.load('manifest', loader);
+    const Foo = manifest.findSchemaByName('Foo').entityClass();
+    const foosStore = await arc.createStore(Foo.type.collectionOf(), undefined, 'test:0');
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(foosStore);
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    await arc.idle;
+    const [particle] = arc.activeRecipe.particles;
+    assert.isAtLeast(arc.pec.quotas.usageFor(particle.id).cpuTimePerSecond, 15);
+
+    await foosStore.store({id: 'foo1', rawData: {value: 'a'}}, ['key1']);
+    await arc.idle;
+    await new Promise(resolve => setTimeout(resolve, 40));
+    await arc.idle;
+    assert.isAtLeast(arc.pec.quotas.usageFor(particle.id).cpuTimePerSecond, 30);
+  });
+
+  it('forgets the usage of removed particles', async () => {
+    const {arc, particle} = await setup({innerArcs: 5});
+    arc.pec.quotas.setQuotas(particle.id, {innerArcs: 10});
+    await arc.undo();
+    assert.deepEqual(arc.pec.quotas.quotasFor(particle.id), {innerArcs: 5});
+    assert.equal(arc.pec.quotas.usageFor(particle.id).innerArcs, 0);
+  });
+});
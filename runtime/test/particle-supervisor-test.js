@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Arc} from '../ts-build/arc.js';
+import {assert} from './chai-web.js';
+import {handleFor} from '../ts-build/handle.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {SlotComposer} from '../ts-build/slot-composer.js';
+import {StubLoader} from '../testing/stub-loader.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+
+// Sets up an arc running a particle that copies foo to bar, throwing when foo is 'boom'.
+async function setup(supervision) {
+  const loader = new StubLoader({
+    manifest: `
+      schema Foo
+        Text value
+
+      particle Copier in 'copier.js'
+        in Foo foo
+        out Foo bar
+        consume root
+        ${supervision}
+
+      recipe
+        slot 'rootslotid-root' as slot0
+        use as handle0
+        use as handle1
+        Copier
+          foo <- handle0
+          bar -> handle1
+          consume root as slot0
+    `,
+    'copier.js': `
+      defineParticle(({DomParticle}) => class Copier extends DomParticle {
+        get template() {
+          return 'copier';
+        }
+        onHandleSync(handle, model) {
+          this.copy(handle, model);
+        }
+        onHandleUpdate(handle, update) {
+          this.copy(handle, update.data);
+        }
+        copy(handle, foo) {
+          if (handle.name !== 'foo' || !foo) {
+            return;
+          }
+          if (foo.value === 'boom') {
+            throw new Error('boom');
+          }
+          const bar = this.handles.get('bar');
+          bar.set(new bar.entityClass({value: foo.value}));
+        }
+      });
+    `
+  });
+  const pecFactory = function(id) {
+    const channel = new MessageChannel();
+    new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+    return channel.port2;
+  };
+  const slotComposer = new SlotComposer({rootContainer: {'root': 'test'}, affordance: 'mock'});
+  const arc = new Arc({id: 'test', pecFactory, slotComposer, loader});
+  const manifest = await Manifest.load('manifest', loader);
+  const Foo = manifest.findSchemaByName('Foo').entityClass();
+  const fooStore = await arc.createStore(Foo.type, undefined, 'test:0');
+  const barStore = await arc.createStore(Foo.type, undefined, 'test:1');
+  const recipe = manifest.recipes[0];
+  recipe.handles[0].mapToStorage(fooStore);
+  recipe.handles[1].mapToStorage(barStore);
+  assert.isTrue(recipe.normalize());
+  await arc.instantiate(recipe);
+  await arc.idle;
+  const [particle] = arc.activeRecipe.particles;
+  const foo = handleFor(fooStore);
+  const set = async value => {
+    await foo.set(new Foo({value}));
+    await arc.idle;
+  };
+  const bar = async () => (await barStore.get()).rawData.value;
+  return {arc, slotComposer, particle, set, bar};
+}
+
+// Resolves once the particle reaches the given state.
+function stateReached(arc, particle, state) {
+  const registration = {};
+  return new Promise(resolve => arc.supervisor.onStateChange((changed, status) => {
+    if (changed === particle && status.state === state) {
+      arc.supervisor.clearStateChange(registration);
+      resolve(status);
+    }
+  }, registration));
+}
+
+describe('ParticleSupervisor', function() {
+  it('tracks particles started and stopped by the arc', async () => {
+    const {arc, particle} = await setup('supervision ignore');
+    assert.deepEqual(arc.supervisor.status(particle), {state: 'running', exceptions: 0, restarts: 0});
+    arc.stopParticle(particle);
+    assert.equal(arc.supervisor.state(particle), 'stopped');
+    arc.restartParticle(particle);
+    assert.equal(arc.supervisor.state(particle), 'running');
+    await arc.undo();
+    assert.isUndefined(arc.supervisor.state(particle));
+  });
+
+  it('ignores exceptions', async () => {
+    const {arc, particle, set, bar} = await setup('supervision ignore');
+    await set('boom');
+    await set('fine');
+    assert.equal(await bar(), 'fine');
+    assert.deepEqual(arc.supervisor.status(particle), {state: 'running', exceptions: 1, restarts: 0});
+  });
+
+  it('stops crashed particles and releases their slots', async () => {
+    const {arc, slotComposer, particle, set, bar} = await setup('supervision stop');
+    assert.lengthOf(slotComposer.consumers, 1);
+    await set('before');
+    const crashed = stateReached(arc, particle, 'crashed');
+    await set('boom');
+    assert.deepEqual(await crashed, {state: 'crashed', exceptions: 1, restarts: 0});
+    assert.isEmpty(slotComposer.consumers);
+    await set('after');
+    assert.equal(await bar(), 'before');
+  });
+
+  it('restarts crashed particles with backoff', async () => {
+    const {arc, slotComposer, particle, set, bar} = await setup(`supervision restart
+          maxRestarts 2
+          backoff 10`);
+    const states = [];
+    arc.supervisor.onStateChange((changed, {state}) => states.push(state), {});
+
+    // The particle throws again each time it's restarted and syncs 'boom', until it runs out of restarts.
+    const stopped = stateReached(arc, particle, 'crashed').then(() => stateReached(arc, particle, 'running'))
+        .then(() => stateReached(arc, particle, 'crashed')).then(() => stateReached(arc, particle, 'running'))
+        .then(() => stateReached(arc, particle, 'crashed'));
+    await set('boom');
+    assert.deepEqual(await stopped, {state: 'crashed', exceptions: 3, restarts: 2});
+    assert.deepEqual(states, ['crashed', 'running', 'crashed', 'running', 'crashed']);
+    assert.isEmpty(slotComposer.consumers);
+
+    // Restarting a crashed particle by hand resumes it.
+    await set('recovered');
+    arc.restartParticle(particle);
+    await arc.idle;
+    assert.equal(await bar(), 'recovered');
+  });
+
+  it('recovers particles that are restarted', async () => {
+    const {arc, particle, set, bar} = await setup(`supervision restart
+          backoff 200`);
+    const running = stateReached(arc, particle, 'crashed').then(() => stateReached(arc, particle, 'running'));
+    await set('boom');
+    // The restarted particle syncs the latest value.
+    await set('fine');
+    assert.deepEqual(await running, {state: 'running', exceptions: 1, restarts: 1});
+    await arc.idle;
+    assert.equal(await bar(), 'fine');
+  });
+});
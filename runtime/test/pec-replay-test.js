@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {handleFor} from '../ts-build/handle.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {MessageChannel} from '../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../ts-build/particle-execution-context.js';
+import {PecRecorder, PecReplayer} from '../ts-build/pec-replay.js';
+import {Random} from '../ts-build/random.js';
+import {SlotComposer} from '../ts-build/slot-composer.js';
+import {StubLoader} from '../testing/stub-loader.js';
+
+const manifest = `
+  schema Data
+    Text value
+
+  particle Echo in 'echo.js'
+    in Data input
+    out [Data] output
+    consume root
+
+  recipe
+    slot 'rootslotid-root' as slot0
+    use as handle0
+    create as handle1
+    Echo
+      input <- handle0
+      output -> handle1
+      consume root as slot0
+`;
+
+const echo = `
+  defineParticle(({DomParticle}) => class Echo extends DomParticle {
+    get template() {
+      return '<span>{{value}}</span>';
+    }
+    render({input}) {
+      return {value: input ? input.value : ''};
+    }
+    onHandleUpdate(handle, update) {
+      if (handle.name === 'input' && update.data) {
+        const output = this.handles.get('output');
+        output.store(new output.entityClass({value: update.data.value.toUpperCase()}));
+      }
+      super.onHandleUpdate(handle, update);
+    }
+  });
+`;
+
+// Runs an arc that echoes each of the values, with particles created by the pecFactory.
+async function run(loader, pecFactory, values) {
+  const context = await Manifest.load('manifest', loader);
+  const slotComposer = new SlotComposer({rootContainer: {'root': 'test'}, affordance: 'mock'});
+  const arc = new Arc({id: 'test', context, loader, slotComposer, pecFactory});
+  const Data = context.findSchemaByName('Data').entityClass();
+  const input = await arc.createStore(Data.type, undefined, 'input');
+  const recipe = context.recipes[0];
+  recipe.handles[0].mapToStorage(input);
+  assert.isTrue(recipe.normalize());
+  await arc.instantiate(recipe);
+  await arc.idle;
+  for (const value of values) {
+    await handleFor(input).set(new Data({value}));
+    await arc.idle;
+  }
+  return arc;
+}
+
+const loaderFor = particleCode => new StubLoader({manifest, 'echo.js': particleCode});
+
+function particleExecutionContexts(loader) {
+  return id => {
+    const channel = new MessageChannel();
+    new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+    return channel.port2;
+  };
+}
+
+describe('PEC replay', function() {
+  let log;
+
+  beforeEach(async () => {
+    const loader = loaderFor(echo);
+    const recorder = new PecRecorder(particleExecutionContexts(loader));
+    recorder.start();
+    log = await recorder.finish(await run(loader, recorder.pecFactory, ['a', 'b']));
+  });
+
+  it('records messages in order with their timing', async () => {
+    assert.deepEqual(log.entries.map(entry => entry.sequence), log.entries.map((entry, index) => index));
+    const types = log.entries.map(entry => entry.message.messageType);
+    assert.equal(types[0], 'DefineHandle');
+    assert.includeMembers(types, ['InstantiateParticle', 'Render', 'HandleStore']);
+    assert.notInclude(types, 'AwaitIdle');
+    assert.isTrue(log.entries.every((entry, i) => i === 0 || entry.time >= log.entries[i - 1].time));
+    const output = Object.values(log.stores).find(model => model.length === 2);
+    assert.sameMembers(output.map(({value}) => value.rawData.value), ['A', 'B']);
+    assert.deepEqual(Object.keys(log.slots), ['Echo::root']);
+  });
+
+  it('replays an arc without running its particles', async () => {
+    // The replayed particles come from the log, so their code isn't run.
+    const broken = `defineParticle(() => { throw new Error('not run'); });`;
+    const replayer = new PecReplayer(JSON.parse(JSON.stringify(log)));
+    replayer.start();
+    const arc = await run(loaderFor(broken), replayer.pecFactory, ['a', 'b']);
+    assert.isEmpty(await replayer.verify(arc));
+  });
+
+  it('reports where a replay diverges', async () => {
+    const replayer = new PecReplayer(log);
+    replayer.start();
+    const arc = await run(loaderFor(echo), replayer.pecFactory, ['a', 'c']);
+    const problems = await replayer.verify(arc);
+    assert.match(problems[0], /^Message \d+ differs from the log; expected .*"b".*, got .*"c"/);
+    assert.match(problems[problems.length - 1], /^Store 'input' contains .*"c".*, but contained .*"b".* when recorded$/);
+  });
+
+  it('seeds the random number generator only while recording and replaying', async () => {
+    const restore = Random.seed(0.25);
+    try {
+      const sequence = [Random.next(), Random.next(), Random.next(), Random.next(), Random.next()];
+      Random.seed(0.25);
+      // The recorder takes its seed from the generator in use when it's started.
+      const recorder = new PecRecorder(particleExecutionContexts(loaderFor(echo)));
+      assert.equal(Random.next(), sequence[0]);
+      recorder.start();
+      const log = await recorder.finish(await run(loaderFor(echo), recorder.pecFactory, ['a']));
+      assert.equal(log.seed, sequence[1]);
+      assert.equal(Random.next(), sequence[2]);
+
+      const replayer = new PecReplayer(JSON.parse(JSON.stringify(log)));
+      replayer.start();
+      assert.isEmpty(await replayer.verify(await run(loaderFor(echo), replayer.pecFactory, ['a'])));
+      assert.equal(Random.next(), sequence[3]);
+
+      // Replays that are abandoned restore the generator when stopped.
+      const abandoned = new PecReplayer(JSON.parse(JSON.stringify(log)));
+      abandoned.start();
+      abandoned.stop();
+      assert.equal(Random.next(), sequence[4]);
+    } finally {
+      restore();
+    }
+  });
+});
@@ -65,4 +65,31 @@ describe('plan consumer', function() {
     assert.equal(planChangeCount, 1);
     assert.equal(suggestChangeCount, 2);
   });
+
+  it('filters suggestions by policy', async function() {
+    const helper = await TestHelper.createAndPlan({
+      manifestFilename: './runtime/test/artifacts/Products/Products.recipes'
+    });
+    helper.arc.storageKey = 'firebase://xxx.firebaseio.com/yyy/serialization/zzz';
+    const store = await Planificator._initStore(helper.arc, {userid: 'TestUser', protocol: 'volatile'});
+    const consumer = new PlanConsumer(helper.arc, store);
+    const result = new PlanningResult(helper.arc);
+    result.set({plans: [helper.plans[0]]});
+    await store.set(result.serialize());
+    await new Promise(resolve => setTimeout(resolve, 100));
+    consumer.setSuggestFilter(true);
+    assert.lengthOf(consumer.getCurrentSuggestions(), 1);
+    assert.isEmpty(consumer.getRejectedSuggestions());
+
+    const name = helper.plans[0].plan.particles[0].name;
+    helper.arc.policyEngine.add({
+      name: 'NoParticle',
+      check: recipe => recipe.particles.filter(particle => particle.name === name)
+          .map(particle => ({policy: 'NoParticle', reason: `${name} isn't allowed`}))
+    });
+    assert.isEmpty(consumer.getCurrentSuggestions());
+    const rejected = consumer.getRejectedSuggestions();
+    assert.lengthOf(rejected, 1);
+    assert.deepEqual(rejected[0].violations, [{policy: 'NoParticle', reason: `${name} isn't allowed`}]);
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {PolicyEngine} from '../ts-build/policy.js';
+import {StubLoader} from '../testing/stub-loader.js';
+
+const loader = new StubLoader({
+  'main.manifest': `
+    import 'policies.manifest'
+
+    schema Thing
+      Text name
+
+    store Contacts of [Thing] 'contacts' #sensitive #people in 'things.json'
+    store Places of [Thing] 'places' in 'things.json'
+
+    particle Keep in 'keep.js'
+      in [Thing] things
+    particle ShowContacts in 'show.js'
+      in [Thing] things
+      consume root
+        provide details
+
+    recipe Copying
+      copy 'contacts' as contacts
+      copy 'places' as places
+      Keep
+        things <- contacts
+      Keep
+        things <- places
+
+    recipe Showing
+      map 'contacts' as contacts
+      slot 'rootslotid-root' as slot0
+      ShowContacts
+        things <- contacts
+        consume root as slot0
+  `,
+  'policies.manifest': `
+    policy NoSensitiveCopies
+      store #sensitive may not be copied, created
+    policy Privacy
+      store 'places' may not be copied
+      particle ShowContacts may not consume slot root
+  `,
+  'things.json': '[]',
+});
+
+describe('policies', function() {
+  it('are declared in manifests', async () => {
+    const manifest = await Manifest.load('main.manifest', loader);
+    assert.isEmpty(manifest.policies);
+    assert.deepEqual(manifest.allPolicies.map(policy => policy.name), ['NoSensitiveCopies', 'Privacy']);
+    assert.equal(manifest.imports[0].toString(), `policy NoSensitiveCopies
+  store #sensitive may not be copied, created
+policy Privacy
+  store 'places' may not be copied
+  particle ShowContacts may not consume slot root`);
+
+    try {
+      await Manifest.parse(`
+        policy Privacy
+        policy Privacy`);
+      assert.fail();
+    } catch (e) {
+      assert.include(e.message, `Duplicate definition of policy 'Privacy'`);
+    }
+  });
+
+  it('explain why recipes violate them', async () => {
+    const manifest = await Manifest.load('main.manifest', loader);
+    const engine = new PolicyEngine(manifest.allPolicies);
+    const [copying, showing] = manifest.recipes;
+    assert.deepEqual(engine.check(copying, manifest), [
+      {policy: 'NoSensitiveCopies', reason: `Policy 'NoSensitiveCopies' forbids copying store 'contacts' (#sensitive #people)`},
+      {policy: 'Privacy', reason: `Policy 'Privacy' forbids copying store 'places'`},
+    ]);
+    assert.deepEqual(engine.check(showing, manifest).map(violation => violation.reason), [
+      `Policy 'Privacy' forbids particle 'ShowContacts' from consuming slot 'root'`,
+    ]);
+
+    // Policies that aren't declared in manifests can be added.
+    const custom = {name: 'Nothing', check: recipe => [{policy: 'Nothing', reason: `Nothing is allowed`}]};
+    engine.add(custom);
+    assert.lengthOf(engine.check(showing, manifest), 2);
+    engine.remove(custom);
+    assert.lengthOf(engine.check(showing, manifest), 1);
+  });
+
+  it('veto instantiation', async () => {
+    const context = await Manifest.load('main.manifest', loader);
+    const arc = new Arc({id: 'test', context, loader});
+    const recipe = context.recipes[0].clone();
+    assert.isTrue(recipe.normalize());
+    try {
+      await arc.instantiate(recipe);
+      assert.fail();
+    } catch (e) {
+      assert.equal(e.message, `Recipe violates policies:
+  Policy 'NoSensitiveCopies' forbids copying store 'contacts' (#sensitive #people)
+  Policy 'Privacy' forbids copying store 'places'`);
+      assert.lengthOf(e.violations, 2);
+    }
+    assert.isEmpty(arc.recipes);
+    assert.isEmpty(arc.loadedParticles());
+  });
+});
@@ -412,4 +412,28 @@ describe('recipe', function() {
     assert.equal(recipeClone.toString(), recipeClone.toString({showUnresolved: true}));
     assert.notEqual(hash, hashResolvedClone);
   });
+
+  it('explains why handle types fail to unify', async () => {
+    const manifest = await Manifest.parse(`
+      particle A
+        in * {Text value} foo
+      particle B
+        in * {Number value} foo
+      recipe
+        create as handle0
+        A
+          foo <- handle0
+        B
+          foo <- handle0
+    `);
+    const [recipe] = manifest.recipes;
+    const options = {errors: new Map(), diagnostics: new Map()};
+    assert.isFalse(recipe.normalize(options));
+    const [handle] = recipe.handles;
+    const [diagnostic] = options.diagnostics.get(handle);
+    assert.strictEqual(diagnostic.connection, recipe.particles[1].connections['foo']);
+    assert.equal(diagnostic.location.start.line, 11);
+    assert.equal(diagnostic.message, `B::foo: reads * {Number value}, which conflicts with the handle's canWriteSuperset * {Text value}`);
+    assert.include(options.errors.get(handle), diagnostic.message);
+  });
 });
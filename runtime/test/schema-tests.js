@@ -361,6 +361,201 @@ describe('schema', function() {
     }));
   });
 
+  it('parses schema versions and migrations', async function() {
+    const manifest = await Manifest.parse(`
+      schema Unversioned
+        Text name
+
+      schema Product
+        version 3
+        Text name
+        (Text or Number) price
+        Boolean inStock
+        migrate from 1
+          rename title to name
+        migrate from 2
+          widen price from Number
+          default inStock true`);
+    assert.equal(manifest.schemas.Unversioned.version, 1);
+    assert.isEmpty(manifest.schemas.Unversioned.migrations);
+    assert.notProperty(manifest.schemas.Unversioned.toLiteral(), 'version');
+
+    const Product = manifest.schemas.Product;
+    assert.equal(Product.version, 3);
+    assert.deepEqual(Product.migrations, [
+      {from: 1, steps: [{kind: 'rename', from: 'title', to: 'name'}]},
+      {from: 2, steps: [{kind: 'widen', name: 'price', from: 'Number'}, {kind: 'default', name: 'inStock', value: true}]},
+    ]);
+
+    const fromLiteral = Schema.fromLiteral(JSON.parse(JSON.stringify(Product.toLiteral())));
+    assert.equal(fromLiteral.version, 3);
+    assert.deepEqual(fromLiteral.migrations, Product.migrations);
+
+    const reparsed = await Manifest.parse(Product.toManifestString());
+    assert.equal(reparsed.schemas.Product.version, 3);
+    assert.deepEqual(reparsed.schemas.Product.migrations, Product.migrations);
+  });
+
+  it('migrates raw data from earlier schema versions', async function() {
+    const manifest = await Manifest.parse(`
+      schema Product
+        version 3
+        Text name
+        Text code
+        Boolean inStock
+        migrate from 1
+          rename title to name
+          widen code from Number
+        migrate from 2
+          default inStock false`);
+    const Product = manifest.schemas.Product;
+    assert.deepEqual(Product.migrate({title: 'Fork', code: 12}, 1), {name: 'Fork', code: '12', inStock: false});
+    assert.deepEqual(Product.migrate({name: 'Fork', code: '12'}, 2), {name: 'Fork', code: '12', inStock: false});
+    assert.deepEqual(Product.migrate({name: 'Fork', code: '12', inStock: true}, 2),
+                     {name: 'Fork', code: '12', inStock: true});
+    const current = {name: 'Fork', code: '12', inStock: true};
+    assert.strictEqual(Product.migrate(current, 3), current);
+
+    // The migrated data is valid for the current entity class.
+    const entity = new (Product.entityClass())(Product.migrate({title: 'Spoon', code: 7}, 1));
+    assert.equal(entity.code, '7');
+  });
+
+  it('rejects invalid schema migrations', async function() {
+    const invalid = [
+      [`schema Foo
+          version 2
+          version 3`, /Duplicate schema version/],
+      [`schema Foo
+          Text name
+          migrate from 1
+            rename title to name`, /must be from an earlier version/],
+      [`schema Foo
+          version 2
+          Number count
+          migrate from 1
+            widen count from Text`, /Cannot widen field 'count' from Text to Number/],
+      [`schema Foo
+          version 2
+          migrate from 1
+            widen count from Number`, /Cannot widen field 'count' from Number; not in schema/],
+      [`schema Foo
+          version 3
+          migrate from 1
+            rename a to b
+          migrate from 1
+            rename b to c`, /Duplicate migration from version 1/],
+      [`schema Foo
+          version 2
+          Text name
+          migrate from 1
+            rename title to nme`, /Cannot rename field 'title' to 'nme'; not in schema/],
+      [`schema Foo
+          version 2
+          Text name
+          migrate from 1
+            default count 0`, /Cannot default field 'count'; not in schema/],
+      [`schema Foo
+          version 2
+          Number count
+          migrate from 1
+            default count 'none'`, /Cannot default field 'count' of type Number to "none"/],
+    ];
+    for (const [manifest, error] of invalid) {
+      try {
+        await Manifest.parse(manifest);
+        assert.fail();
+      } catch (e) {
+        assert.match(e.message, error);
+      }
+    }
+
+    // Renames may go through names that a later migration renames again.
+    const manifest = await Manifest.parse(`
+      schema Foo
+        version 3
+        Text name
+        migrate from 1
+          rename title to label
+          default label 'untitled'
+        migrate from 2
+          rename label to name`);
+    assert.deepEqual(manifest.schemas.Foo.migrate({}, 1), {name: 'untitled'});
+  });
+
+  it('parses schema indexes', async function() {
+    const manifest = await Manifest.parse(`
+      schema Product
+        Text name
+        Number price
+        Boolean inStock
+
+      index Product.price
+      index Product.name
+      index Product.price
+
+      schema Order
+        Text name
+        Number total
+        index total
+        index name`);
+    const Product = manifest.schemas.Product;
+    assert.deepEqual(Product.indexes, ['price', 'name']);
+    assert.deepEqual(manifest.schemas.Order.indexes, ['total', 'name']);
+
+    const fromLiteral = Schema.fromLiteral(JSON.parse(JSON.stringify(Product.toLiteral())));
+    assert.deepEqual(fromLiteral.indexes, ['price', 'name']);
+
+    // Indexes are printed within the schema, so the manifest reparses.
+    assert.include(Product.toManifestString(), '  index price\n  index name');
+    const reparsed = await Manifest.parse(manifest.toString());
+    assert.deepEqual(reparsed.schemas.Product.indexes, ['price', 'name']);
+    assert.deepEqual(reparsed.schemas.Order.indexes, ['total', 'name']);
+  });
+
+  it('rejects invalid schema indexes', async function() {
+    const invalid = [
+      [`index Foo.name`, /Could not find schema 'Foo' to index/],
+      [`
+        schema Foo
+          Text name
+        index Foo.title`, /Schema 'Foo' has no field 'title' to index/],
+      [`
+        schema Foo
+          [Text] tags
+        index Foo.tags`, /Cannot index field 'tags'/],
+      [`
+        schema Foo
+          Text name
+          index title`, /Schema 'Foo' has no field 'title' to index/],
+    ];
+    for (const [manifest, error] of invalid) {
+      try {
+        await Manifest.parse(manifest);
+        assert.fail();
+      } catch (e) {
+        assert.match(e.message, error);
+      }
+    }
+
+    // Imported schemas are shared with other importers, so they can't be given indexes.
+    const manifests = {
+      a: `import 'b'\nindex Foo.name`,
+      b: `schema Foo\n  Text name`,
+    };
+    const loader = {
+      loadResource: name => manifests[name],
+      path: file => '',
+      join: (path, file) => file,
+    };
+    try {
+      await Manifest.load('a', loader);
+      assert.fail();
+    } catch (e) {
+      assert.match(e.message, /Cannot index schema 'Foo', which is imported/);
+    }
+  });
+
   // Firebase doesn't store empty lists or objects, so we need to
   // handle instantiation of an empty schema from an undefined literal.
   it('handles schema instantiation from undefined spec', async function() {
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Arc} from '../ts-build/arc.js';
+import {StorageBase} from '../ts-build/storage/storage-provider-base.js';
+import {StorageProviderFactory} from '../ts-build/storage/storage-provider-factory.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {Type} from '../ts-build/type.js';
+import {assert} from './chai-web.js';
+
+// An engine for 'test://' keys that keeps its stores in volatile storage and
+// records its lifecycle.
+class TestStorage extends StorageBase {
+  constructor(arcId, config, events) {
+    super(arcId);
+    this.config = config;
+    this.events = events;
+    this.backing = new StorageProviderFactory('test-backing');
+  }
+
+  async init() {
+    this.events.push('init');
+    if (this.config.failedInits > 0) {
+      this.config.failedInits--;
+      throw new Error('init failed');
+    }
+  }
+
+  async construct(id, type, keyFragment) {
+    this.events.push(`construct ${id}`);
+    return this.backing.construct(id, type, 'volatile');
+  }
+
+  async connect(id, type, key) {
+    return this.backing.connect(id, type, key);
+  }
+
+  baseStorageKey(type, key) {
+    return key;
+  }
+
+  async baseStorageFor(type, key) {
+    return this.backing.baseStorageFor(type, 'volatile');
+  }
+
+  parseStringAsKey(s) {
+    const protocol = this.config.protocol || 'test';
+    return {protocol, toString: () => s, childKeyForHandle: id => this.parseStringAsKey(`${s}/${id}`)};
+  }
+
+  shutdown() {
+    this.events.push('shutdown');
+  }
+}
+
+describe('StorageProviderFactory', function() {
+  let events;
+  let BarType;
+
+  before(async () => {
+    const manifest = await Manifest.parse(`
+      schema Bar
+        Text value
+    `);
+    BarType = Type.newEntity(manifest.schemas.Bar);
+  });
+
+  beforeEach(() => {
+    events = [];
+    StorageProviderFactory.register('test', (arcId, config) => new TestStorage(arcId, config, events));
+  });
+
+  afterEach(() => {
+    StorageProviderFactory.unregister('test');
+  });
+
+  it('resolves registered engines for arcs', async () => {
+    assert.includeMembers(StorageProviderFactory.registeredProtocols, ['volatile', 'firebase', 'pouchdb', 'synthetic', 'sqlite', 'test']);
+    const arc = new Arc({id: 'test', storageKey: 'test://arc', storageConfig: {test: {bucket: 'bar'}}});
+    const store = await arc.createStore(BarType, 'bar', 'bar-id');
+    await store.set({id: 'id1', value: 'stored'});
+    assert.equal((await store.get()).value, 'stored');
+
+    const engine = arc.storageProviderFactory.engineFor('test');
+    assert.instanceOf(engine, TestStorage);
+    assert.deepEqual(engine.config, {bucket: 'bar'});
+    assert.deepEqual(events, ['init', 'construct bar-id']);
+    assert.equal(arc.storageProviderFactory.newKey('baz', 'test://arc'), 'test://arc/baz');
+
+    await arc.storageProviderFactory.shutdown();
+    assert.deepEqual(events, ['init', 'construct bar-id', 'shutdown']);
+    assert.notStrictEqual(arc.storageProviderFactory.engineFor('test'), engine);
+  });
+
+  it('shuts down the engines of the factory an arc created when it is disposed', async () => {
+    const arc = new Arc({id: 'test', storageKey: 'test://arc'});
+    await arc.createStore(BarType, 'bar', 'bar-id');
+    await arc.dispose();
+    assert.deepEqual(events, ['init', 'construct bar-id', 'shutdown']);
+
+    events.length = 0;
+    const storageProviderFactory = new StorageProviderFactory('shared');
+    const arc2 = new Arc({id: 'test2', storageKey: 'test://arc', storageProviderFactory});
+    await arc2.createStore(BarType, 'bar', 'bar-id');
+    await arc2.dispose();
+    assert.deepEqual(events, ['init', 'construct bar-id']);
+    await storageProviderFactory.shutdown();
+  });
+
+  it('creates a new engine after one fails to initialize', async () => {
+    const storage = new StorageProviderFactory('test', {test: {failedInits: 1}});
+    let error = null;
+    await storage.construct('bar-id', BarType, 'test://arc').catch(e => error = e);
+    assert.equal(error.message, 'init failed');
+
+    const engine = storage.engineFor('test');
+    await storage.construct('bar-id', BarType, 'test://arc');
+    assert.strictEqual(storage.engineFor('test'), engine);
+    assert.deepEqual(events, ['init', 'init', 'construct bar-id']);
+  });
+
+  it('passes the storage configuration of manifests to their engines', async () => {
+    const manifest = await Manifest.parse(`
+      schema Bar
+        Text value
+    `, {storageConfig: {test: {bucket: 'manifest'}}});
+    assert.deepEqual(manifest.storageProviderFactory.engineFor('test').config, {bucket: 'manifest'});
+  });
+
+  it('rejects unknown protocols, duplicate registrations and mismatched keys', async () => {
+    assert.throws(() => StorageProviderFactory.register('test', () => null),
+        `a storage engine is already registered for protocol 'test'`);
+    assert.throws(() => StorageProviderFactory.register('Not A Protocol', () => null),
+        `invalid storage protocol 'Not A Protocol'`);
+
+    const storage = new StorageProviderFactory('test', {test: {protocol: 'other'}});
+    let error = null;
+    await storage.construct('id', BarType, 'missing://somewhere').catch(e => error = e);
+    assert.equal(error.message, `no storage engine is registered for protocol 'missing'`);
+    assert.throws(() => storage.parseStringAsKey('test://somewhere'),
+        `the storage engine for protocol 'test' parsed 'test://somewhere' as a key with protocol 'other'`);
+  });
+});
@@ -74,6 +74,13 @@ class TestCollection {
     this._listeners = [];
     this._nextKey = 0;
     this._arcId = arcId;
+    // Set to an array to log every change, including those whose events aren't sent, and to
+    // answer HandleChangesSince from the log.
+    this.changeLog = null;
+  }
+
+  changesSince(version) {
+    return this.changeLog ? this.changeLog.filter(change => change.version > version) : null;
   }
 
   attachListener(callback) {
@@ -99,9 +106,12 @@ class TestCollection {
     }
     const effective = this._model.add(id, entry, keys);
     this._version = (version !== undefined) ? version : this._version + 1;
+    const item = {value: entry, effective, keys};
+    const event = {add: [item], version: this._version, originatorId};
+    if (this.changeLog) {
+      this.changeLog.push(event);
+    }
     if (sendEvent) {
-      const item = {value: entry, effective, keys};
-      const event = {add: [item], version: this._version, originatorId};
       this._listeners.forEach(cb => cb(event));
     }
   }
@@ -261,6 +271,18 @@ class TestEngine {
     this._events.push('SynchronizeProxy:' + handle.name);
   }
 
+  HandleChangesSince({handle, version, callback}) {
+    const store = this._stores.get(handle.name);
+    if (store.changeLog) {
+      this._events.push('HandleChangesSince:' + handle.name);
+    }
+    callback(store.changesSince ? store.changesSince(version) : null);
+  }
+
+  ObserveSyncStatus({handle, callback}) {
+    // The test stores are never synced with a remote store.
+  }
+
   // `data` is optional; if not provided, the model will be retrieved from `store`.
   sendSync(store, data) {
     const callbacks = this._syncCallbacks.get(store.name);
@@ -295,6 +317,10 @@ class TestEngine {
   HandleRemove({handle, data}) {
     this._events.push('HandleRemove:' + handle.name + ':' + data.id);
   }
+
+  ReportCpuTime({particleId, time}) {
+    // Quotas aren't enforced here.
+  }
 }
 
 // TODO: test handles with different types observing the same proxy
@@ -483,6 +509,34 @@ describe('storage-proxy', function() {
                         'onHandleUpdate:P1:bar:-[v1]');
   });
 
+  it('catches up with dropped updates on a Collection from the change log', async function() {
+    const engine = new TestEngine('arc-id');
+    const barStore = engine.newCollection('bar');
+    const particle = engine.newParticle();
+    const [barProxy, barHandle] = engine.newProxyAndHandle(barStore, particle, CAN_READ, CAN_WRITE);
+
+    barHandle.configure({notifyDesync: true});
+    barProxy.register(particle, barHandle);
+    engine.sendSync(barStore);
+    await engine.verify('InitializeProxy:bar', 'SynchronizeProxy:bar', 'onHandleSync:P1:bar:[]');
+
+    // Drop events 2 and 3; desync is triggered by v4, and the missing updates are fetched
+    // without resynchronizing the full model.
+    barStore.changeLog = [];
+    barStore.store('i1', engine.newEntity('v1'));
+    barStore.store('i2', engine.newEntity('v2'), {sendEvent: false});
+    barStore.store('i3', engine.newEntity('v3'), {sendEvent: false});
+    barStore.store('i4', engine.newEntity('v4'));
+    await engine.verify(
+      'HandleChangesSince:bar',
+      'onHandleUpdate:P1:bar:+[v1]',
+      'onHandleDesync:P1:bar',
+      'onHandleUpdate:P1:bar:+[v2]',
+      'onHandleUpdate:P1:bar:+[v3]',
+      'onHandleUpdate:P1:bar:+[v4]');
+    assert.deepEqual(barProxy._model.toList().map(entity => entity.rawData.value), ['v1', 'v2', 'v3', 'v4']);
+  });
+
   it('handles misordered updates on a Collection', async function() {
     const engine = new TestEngine('arc-id');
     const barStore = engine.newCollection('bar');
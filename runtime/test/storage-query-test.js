@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {StorageProviderFactory} from '../ts-build/storage/storage-provider-factory.js';
+import {executeQuery, validateQuery} from '../ts-build/storage/query.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {Type} from '../ts-build/type.js';
+import {assert} from './chai-web.js';
+
+describe('storage-query', function() {
+  const fruit = [
+    {id: 'a', rawData: {name: 'apple', price: 3, ripe: true}},
+    {id: 'b', rawData: {name: 'banana', price: 1, ripe: false}},
+    {id: 'c', rawData: {name: 'cherry', price: 5, ripe: true}},
+    {id: 'd', rawData: {name: 'date', ripe: true}},
+    {id: 'e', rawData: {name: 'elderberry', price: 3, ripe: false}},
+  ];
+  const ids = results => results.map(entity => entity.id).join('');
+
+  it('filters by field predicates', () => {
+    assert.equal(ids(executeQuery(fruit, {where: [{field: 'ripe', op: '==', value: true}]})), 'acd');
+    assert.equal(ids(executeQuery(fruit, {where: [{field: 'price', op: '>=', value: 3}]})), 'ace');
+    assert.equal(ids(executeQuery(fruit, {where: [{field: 'price', op: '<', value: 3}]})), 'b');
+    assert.equal(ids(executeQuery(fruit, {where: [{field: 'price', op: '==', value: null}]})), 'd');
+    assert.equal(ids(executeQuery(fruit, {where: [{field: 'name', op: '>', value: 'c'}]})), 'cde');
+    assert.equal(ids(executeQuery(fruit, {where: [
+      {field: 'ripe', op: '!=', value: false},
+      {field: 'price', op: '<=', value: 3},
+    ]})), 'a');
+  });
+
+  it('orders and pages results', () => {
+    assert.equal(ids(executeQuery(fruit, {orderBy: [{field: 'price'}]})), 'dbaec');
+    assert.equal(ids(executeQuery(fruit, {orderBy: [{field: 'price', descending: true}, {field: 'name', descending: true}]})), 'ceabd');
+    assert.equal(ids(executeQuery(fruit, {orderBy: [{field: 'price'}], offset: 1, limit: 2})), 'ba');
+    assert.equal(ids(executeQuery(fruit, {offset: 4, limit: 10})), 'e');
+    assert.equal(ids(executeQuery(fruit, {limit: 0})), '');
+  });
+
+  it('rejects malformed queries', () => {
+    assert.throws(() => validateQuery({where: [{field: 'price', op: '~', value: 1}]}), /Unsupported query operator '~'/);
+    assert.throws(() => validateQuery({where: [{op: '==', value: 1}]}), /require a field/);
+    assert.throws(() => validateQuery({where: [{field: 'price', op: '==', value: {}}]}), /primitive value/);
+    assert.throws(() => validateQuery({orderBy: [{}]}), /ordering requires a field/);
+    assert.throws(() => validateQuery({limit: -1}), /limit must be a non-negative integer/);
+    assert.throws(() => validateQuery({offset: 1.5}), /offset must be a non-negative integer/);
+    validateQuery({where: [{field: 'price', op: '==', value: null}], orderBy: [{field: 'name'}], limit: 1, offset: 0});
+  });
+
+  describe('volatile storage', () => {
+    let storage;
+    let FruitType;
+
+    before(async () => {
+      const manifest = await Manifest.parse(`
+        schema Fruit
+          Text name
+          Number price
+          Boolean ripe
+      `);
+      FruitType = Type.newEntity(manifest.schemas.Fruit);
+    });
+
+    beforeEach(() => {
+      storage = new StorageProviderFactory('test');
+    });
+
+    it('queries collections', async () => {
+      const collection = await storage.construct('test0', FruitType.collectionOf(), 'volatile');
+      for (const entity of fruit) {
+        await collection.store(entity, [entity.id + 'key']);
+      }
+      const results = await collection.query({where: [{field: 'ripe', op: '==', value: true}], orderBy: [{field: 'name', descending: true}]});
+      assert.equal(ids(results), 'dca');
+      assert.deepEqual(results[0], fruit[3]);
+    });
+
+    it('queries big collections in insertion order', async () => {
+      const collection = await storage.construct('test0', FruitType.bigCollectionOf(), 'volatile');
+      for (const entity of [...fruit].reverse()) {
+        await collection.store(entity, [entity.id + 'key']);
+      }
+      assert.equal(ids(await collection.query({where: [{field: 'price', op: '>', value: 1}]})), 'eca');
+      assert.equal(ids(await collection.query({orderBy: [{field: 'price'}], limit: 3})), 'dbe');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {StorageProviderFactory} from '../ts-build/storage/storage-provider-factory.js';
+import {lockStores} from '../ts-build/storage/storage-provider-base.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {Type} from '../ts-build/type.js';
+import {assert} from './chai-web.js';
+
+describe('storage-transaction', function() {
+  let storage;
+  let BarType;
+
+  before(async () => {
+    const manifest = await Manifest.parse(`
+      schema Bar
+        Text value
+    `);
+    BarType = Type.newEntity(manifest.schemas.Bar);
+  });
+
+  beforeEach(() => {
+    storage = new StorageProviderFactory('test');
+  });
+
+  function recordEvents(store, events = []) {
+    store.on('change', event => events.push(event), {});
+    return events;
+  }
+
+  it('moves an entity between collections with one event per store', async () => {
+    const from = await storage.construct('from', BarType.collectionOf(), 'volatile');
+    const to = await storage.construct('to', BarType.collectionOf(), 'volatile');
+    await from.store({id: 'id1', value: 'moving'}, ['key1']);
+    await from.store({id: 'id2', value: 'staying'}, ['key2']);
+    const fromEvents = recordEvents(from);
+    const toEvents = recordEvents(to);
+
+    const transaction = storage.transaction('particle');
+    transaction.remove(from, 'id1');
+    transaction.store(to, {id: 'id1', value: 'moving'}, ['key3']);
+    transaction.store(to, {id: 'id3', value: 'new'}, ['key4']);
+    assert.equal(transaction.size, 3);
+    await transaction.commit();
+
+    assert.deepEqual((await from.toList()).map(item => item.id), ['id2']);
+    assert.deepEqual((await to.toList()).map(item => item.id), ['id1', 'id3']);
+
+    assert.lengthOf(fromEvents, 1);
+    assert.equal(fromEvents[0].version, 3);
+    assert.equal(fromEvents[0].baseVersion, 2);
+    assert.equal(fromEvents[0].originatorId, 'particle');
+    assert.deepEqual(fromEvents[0].remove.map(({value}) => value.id), ['id1']);
+    assert.notProperty(fromEvents[0], 'add');
+
+    assert.lengthOf(toEvents, 1);
+    assert.equal(toEvents[0].version, 2);
+    assert.equal(toEvents[0].baseVersion, 0);
+    assert.deepEqual(toEvents[0].add.map(({value}) => value.id), ['id1', 'id3']);
+    assert.notProperty(toEvents[0], 'remove');
+  });
+
+  it('coalesces variable writes to the last value', async () => {
+    const variable = await storage.construct('var', Type.newReference(BarType), 'volatile');
+    const events = recordEvents(variable);
+
+    const transaction = storage.transaction();
+    transaction.set(variable, {id: 'id1', storageKey: 'a'});
+    transaction.clear(variable);
+    transaction.set(variable, {id: 'id2', storageKey: 'b'}, 'barrier');
+    await transaction.commit();
+
+    assert.equal((await variable.get()).id, 'id2');
+    assert.lengthOf(events, 1);
+    assert.deepEqual(events[0], {
+      data: {id: 'id2', storageKey: 'b'}, version: 3, baseVersion: 0, originatorId: null, barrier: 'barrier'
+    });
+  });
+
+  it('rolls back every store if an operation fails', async () => {
+    const from = await storage.construct('from', BarType.collectionOf(), 'volatile');
+    const to = await storage.construct('to', BarType.collectionOf(), 'volatile');
+    const variable = await storage.construct('var', Type.newReference(BarType), 'volatile');
+    await from.store({id: 'id1', value: 'moving'}, ['key1']);
+    const events = [];
+    [from, to, variable].forEach(store => recordEvents(store, events));
+
+    const transaction = storage.transaction();
+    transaction.remove(from, 'id1');
+    transaction.set(variable, {id: 'id1', storageKey: 'a'});
+    // Stores require keys, so this fails after the other operations have been applied.
+    transaction.store(to, {id: 'id1', value: 'moving'}, []);
+
+    let error;
+    try {
+      await transaction.commit();
+    } catch (e) {
+      error = e;
+    }
+    assert.isDefined(error);
+    assert.deepEqual((await from.toList()).map(item => item.id), ['id1']);
+    assert.equal(from.version, 1);
+    assert.isEmpty(await to.toList());
+    assert.isNull(await variable.get());
+    assert.equal(variable.version, 0);
+    assert.isEmpty(events);
+
+    // The stores are usable afterwards.
+    await from.remove('id1');
+    assert.isEmpty(await from.toList());
+  });
+
+  it('waits for other writers holding the stores\' write locks', async () => {
+    const collection = await storage.construct('collection', BarType.collectionOf(), 'volatile');
+    const events = recordEvents(collection);
+    const transaction = storage.transaction('particle');
+    transaction.store(collection, {id: 'id1', value: 'transaction'}, ['key1']);
+
+    const release = await lockStores([collection]);
+    const committed = transaction.commit();
+    await collection.store({id: 'id2', value: 'other'}, ['key2'], 'other');
+    release();
+    await committed;
+
+    // The other writer's event isn't folded into the transaction's.
+    assert.deepEqual(events.map(({originatorId, version, baseVersion}) => [originatorId, version, baseVersion]),
+                     [['other', 1, undefined], ['particle', 2, 1]]);
+  });
+
+  it('rejects operations that don\'t match the store', async () => {
+    const collection = await storage.construct('collection', BarType.collectionOf(), 'volatile');
+    const big = await storage.construct('big', BarType.bigCollectionOf(), 'volatile');
+    for (const [store, apply, message] of [
+        [collection, transaction => transaction.set(collection, {id: 'id1'}), /Variable operations to Collection/],
+        [big, transaction => transaction.store(big, {id: 'id1'}, ['key1']), /Collection operations to BigCollection/]]) {
+      const transaction = storage.transaction();
+      apply(transaction);
+      let error;
+      try {
+        await transaction.commit();
+      } catch (e) {
+        error = e;
+      }
+      assert.match(error.message, message);
+      assert.equal(store.version, 0);
+    }
+  });
+
+  it('cannot be committed twice', async () => {
+    const transaction = storage.transaction();
+    await transaction.commit();
+    let error;
+    try {
+      await transaction.commit();
+    } catch (e) {
+      error = e;
+    }
+    assert.match(error.message, /already been committed/);
+  });
+});
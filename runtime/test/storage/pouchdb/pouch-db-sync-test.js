@@ -0,0 +1,356 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Arc} from '../../../ts-build/arc.js';
+import {CrdtRegisterModel} from '../../../ts-build/storage/crdt-register-model.js';
+import {Manifest} from '../../../ts-build/manifest.js';
+import {MessageChannel} from '../../../ts-build/message-channel.js';
+import {ParticleExecutionContext} from '../../../ts-build/particle-execution-context.js';
+import {PouchDbKey} from '../../../ts-build/storage/pouchdb/pouch-db-key.js';
+import {StorageProviderFactory} from '../../../ts-build/storage/storage-provider-factory.js';
+import {WriteQueue, syncedStatus} from '../../../ts-build/storage/write-queue.js';
+import {Type} from '../../../ts-build/type.js';
+import {StubLoader} from '../../../testing/stub-loader.js';
+import {assert} from '../../chai-web.js';
+import PouchDB from 'pouchdb';
+import PouchDbMemory from 'pouchdb-adapter-memory';
+
+PouchDB.plugin(PouchDbMemory);
+
+// A memory database standing in for a remote one. Writes to it fail while
+// it's offline, but its feed of changes keeps going until it's broken; new
+// feeds fail while feedsFail is set.
+class RemoteStandIn {
+  constructor(name) {
+    this.db = new PouchDB(name, {adapter: 'memory'});
+    this.online = true;
+    this.feedsFail = false;
+    this.feeds = [];
+    const guard = method => async (...args) => {
+      if (!this.online) {
+        throw new Error('remote database unreachable');
+      }
+      return this.db[method](...args);
+    };
+    this.database = {
+      get: guard('get'),
+      put: guard('put'),
+      info: guard('info'),
+      changes: options => {
+        const feed = this.db.changes(options);
+        this.feeds.push({feed, options});
+        if (this.feedsFail) {
+          setTimeout(() => this.breakFeed(), 0);
+        }
+        return feed;
+      },
+    };
+  }
+
+  // Fails the latest feed of changes, as a dropped connection would.
+  breakFeed() {
+    const {feed} = this.feeds[this.feeds.length - 1];
+    feed.emit('error', new Error('connection dropped'));
+    feed.cancel();
+  }
+
+  // Writes to a document as another device would.
+  async update(id, mutate) {
+    let doc;
+    try {
+      doc = await this.db.get(id);
+    } catch (e) {
+      doc = {_id: id};
+    }
+    mutate(doc);
+    await this.db.put(doc);
+  }
+}
+
+async function until(condition) {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  assert.fail('timed out waiting for condition');
+}
+
+describe('pouchdb remote sync', function() {
+  let storageInstances = [];
+
+  function createStorage(id, remote) {
+    const storage = new StorageProviderFactory(id, {pouchdb: {adapter: 'memory', remote: () => remote.database, retryDelay: 5}});
+    storageInstances.push(storage);
+    return storage;
+  }
+
+  async function barType() {
+    const manifest = await Manifest.parse(`
+      schema Bar
+        Text value
+    `);
+    return Type.newEntity(manifest.schemas.Bar);
+  }
+
+  afterEach(async () => {
+    await Promise.all(storageInstances.map(storage => storage.shutdown()));
+    storageInstances = [];
+  });
+
+  it('logs queued writes until they can be sent', async () => {
+    const log = new PouchDB('write-queue-test', {adapter: 'memory'});
+    const sent = [];
+    let reachable = false;
+    const send = async write => {
+      if (!reachable) {
+        throw new Error('unreachable');
+      }
+      sent.push(write);
+    };
+    const queue = new WriteQueue(log, send, 5);
+    const statuses = [];
+    queue.onStatusChange(status => statuses.push(status));
+
+    await queue.enqueue('doc', {n: 1});
+    await queue.flush();
+    assert.deepEqual(queue.pendingOps('doc'), [{n: 1}]);
+    assert.deepEqual(statuses, [
+      {state: 'online', pending: 1, lastError: null},
+      {state: 'offline', pending: 1, lastError: 'unreachable'},
+    ]);
+    queue.dispose();
+
+    // A queue on the same log, such as after a restart, sends the logged writes first.
+    reachable = true;
+    const restarted = new WriteQueue(log, send, 5);
+    await restarted.enqueue('doc', {n: 2});
+    await until(() => restarted.status.pending === 0);
+    assert.deepEqual(sent, [{location: 'doc', op: {n: 1}}, {location: 'doc', op: {n: 2}}]);
+    assert.deepEqual(restarted.status, syncedStatus);
+    assert.lengthOf((await log.allDocs()).rows, 0);
+    restarted.dispose();
+  });
+
+  it('reports failures to update the log of queued writes', async () => {
+    const log = new PouchDB('write-queue-closed-test', {adapter: 'memory'});
+    let reachable = false;
+    const queue = new WriteQueue(log, async () => {
+      if (!reachable) {
+        throw new Error('unreachable');
+      }
+    }, 5);
+    await queue.enqueue('doc', {n: 1});
+    await queue.flush();
+    await log.close();
+
+    reachable = true;
+    const failed = queue.flush();
+    await failed;
+    assert.equal(queue.status.state, 'offline');
+    assert.include(queue.status.lastError, 'Updating the log of queued writes failed');
+
+    // Later flushes try again rather than returning the failed one.
+    const retried = queue.flush();
+    assert.notStrictEqual(retried, failed);
+    await retried;
+    queue.dispose();
+  });
+
+  it('merges writes made offline with those of other devices', async () => {
+    const remote = new RemoteStandIn('remote-merge');
+    remote.online = false;
+    const storage = createStorage('device-a', remote);
+    const BarType = await barType();
+    const collection = await storage.construct('c', BarType.collectionOf(), 'pouchdb://remote.example/merge/collection');
+    const variable = await storage.construct('v', BarType, 'pouchdb://remote.example/merge/variable');
+    const statuses = [];
+    collection.on('syncStatus', status => statuses.push(status.state), {});
+
+    await collection.store({id: 'id1', value: 'from a'}, ['a1']);
+    await variable.set({id: 'id1', value: 'from a'});
+    await until(() => collection.syncStatus.state === 'offline');
+    assert.include(collection.syncStatus.lastError, 'remote database unreachable');
+    assert.isAbove(variable.syncStatus.pending, 0);
+
+    // Meanwhile, another device adds to the collection and writes the variable.
+    const backingKey = collection.backingStore.storageKey;
+    await remote.update(new PouchDbKey(backingKey).location, doc => {
+      doc.model = [{id: 'id2', value: {id: 'id2', value: 'from b'}, keys: ['b1']}];
+    });
+    await remote.update('collection', doc => {
+      doc.model = [{id: 'id2', value: {id: 'id2', storageKey: backingKey}, keys: ['b1']}];
+      doc.referenceMode = true;
+    });
+    const register = new CrdtRegisterModel('device-b');
+    register.set({id: 'id2', storageKey: backingKey});
+    await remote.update('variable', doc => {
+      doc.value = register.value;
+      doc.register = register.toState();
+    });
+
+    // Remote changes are merged with the writes that are still queued...
+    await until(async () => (await collection.toList()).length === 2);
+    assert.sameMembers((await collection.toList()).map(bar => bar.value), ['from a', 'from b']);
+
+    // ... and the queued writes are merged into the remote documents once they can be sent.
+    remote.online = true;
+    await until(() => collection.syncStatus.pending === 0);
+    assert.deepEqual(collection.syncStatus, syncedStatus);
+    assert.include(statuses, 'offline');
+    assert.equal(statuses[statuses.length - 1], 'online');
+    assert.sameMembers((await remote.db.get('collection')).model.map(({id}) => id), ['id1', 'id2']);
+
+    // Both writes to the variable were concurrent, so both are kept and one is chosen.
+    const remoteVariable = await remote.db.get('variable');
+    assert.sameMembers(remoteVariable.register.entries.map(({value}) => value.id), ['id1', 'id2']);
+    const localVariable = await storage.engineFor('pouchdb').dbForKey(new PouchDbKey(variable.storageKey)).get('variable');
+    assert.deepEqual(localVariable.value, remoteVariable.value);
+  });
+
+  it('gives the concurrent values of multi-value variables with their changes', async () => {
+    const remote = new RemoteStandIn('remote-conflicts');
+    const storage = createStorage('device-a', remote);
+    const manifest = await Manifest.parse(`
+      schema Bar
+        conflicts multi-value
+        Text value
+    `);
+    const BarType = Type.newEntity(manifest.schemas.Bar);
+    const variable = await storage.construct('v', BarType, 'pouchdb://remote.example/conflicts/variable');
+    const events = [];
+    variable.on('change', event => events.push(event), {});
+    await variable.set({id: 'id1', value: 'from a'});
+    await until(() => variable.syncStatus.pending === 0);
+
+    // Another device writes the variable without having seen the first write.
+    const backingKey = variable.backingStore.storageKey;
+    await remote.update(new PouchDbKey(backingKey).location, doc => {
+      doc.model = [...doc.model, {id: 'id2', value: {id: 'id2', value: 'from b'}, keys: ['b1']}];
+    });
+    const write = new CrdtRegisterModel('device-b');
+    write.set({id: 'id2', storageKey: backingKey});
+    await remote.update('variable', doc => {
+      const register = new CrdtRegisterModel('', doc.register);
+      register.merge(write.toState());
+      doc.value = register.value;
+      doc.register = register.toState();
+    });
+
+    await until(() => events.some(event => event.conflicts));
+    const {data, conflicts} = events.find(event => event.conflicts);
+    assert.sameMembers(conflicts.map(bar => bar.value), ['from a', 'from b']);
+    assert.deepEqual(conflicts[0], data);
+
+    // Writing the winning value again resolves the conflict.
+    await variable.set(data);
+    await until(async () => (await remote.db.get('variable')).register.entries.length === 1);
+  });
+
+  it('restarts the feed of remote changes from where it failed', async () => {
+    const remote = new RemoteStandIn('remote-feed');
+    const storage = createStorage('device-a', remote);
+    const collection = await storage.construct('c', (await barType()).collectionOf(), 'pouchdb://remote.example/feed/collection');
+
+    await collection.store({id: 'id1', value: 'local'}, ['key-id1']);
+    await until(() => collection.syncStatus.pending === 0);
+    const backingKey = collection.backingStore.storageKey;
+    const storeRemotely = async id => {
+      await remote.update(new PouchDbKey(backingKey).location, doc => {
+        doc.model.push({id, value: {id, value: 'remote'}, keys: [`key-${id}`]});
+      });
+      await remote.update('collection', doc => {
+        doc.model.push({id, value: {id, storageKey: backingKey}, keys: [`key-${id}`]});
+      });
+    };
+    await storeRemotely('id2');
+    await until(async () => (await collection.toList()).length === 2);
+
+    remote.feedsFail = true;
+    remote.breakFeed();
+    assert.equal(collection.syncStatus.state, 'offline');
+    assert.include(collection.syncStatus.lastError, 'connection dropped');
+
+    // Restarts fail until the remote can be reached again, and each resumes from the last change.
+    await until(() => remote.feeds.length > 2);
+    assert.notEqual(remote.feeds[2].options.since, 0);
+    assert.equal(remote.feeds[2].options.since, remote.feeds[1].options.since);
+
+
+    remote.feedsFail = false;
+    await until(() => collection.syncStatus.state === 'online');
+    await storeRemotely('id3');
+    await until(async () => (await collection.toList()).length === 3);
+    assert.deepEqual(collection.syncStatus, syncedStatus);
+  });
+
+  it('reports the sync status of stores to particles', async () => {
+    const remote = new RemoteStandIn('remote-status');
+    remote.online = false;
+    const loader = new StubLoader({
+      manifest: `
+        schema Bar
+          Text value
+        schema Result
+          Text value
+
+        particle Watcher in 'watcher.js'
+          in Bar bar
+          out Result result
+
+        recipe
+          create as handle0
+          create as handle1
+          Watcher
+            bar <- handle0
+            result -> handle1
+      `,
+      'watcher.js': `defineParticle(({Particle}) => class extends Particle {
+        setHandles(handles) {
+          this.result = handles.get('result');
+        }
+        onHandleSyncStatus(handle, {state}) {
+          // Writing the result changes the status too, as it's stored in the same database.
+          if (state !== this.state) {
+            this.state = state;
+            this.result.set(new this.result.entityClass({value: state}));
+          }
+        }
+      });`,
+    });
+    const pecFactory = id => {
+      const channel = new MessageChannel();
+      new ParticleExecutionContext(channel.port1, `${id}:inner`, loader);
+      return channel.port2;
+    };
+    const storageConfig = {pouchdb: {adapter: 'memory', remote: () => remote.database, retryDelay: 5}};
+    const arc = new Arc({id: 'test', pecFactory, loader, storageKey: 'pouchdb://remote.example/status/', storageConfig});
+    storageInstances.push(arc.storageProviderFactory);
+    const recipe = (await Manifest.load('manifest', loader)).recipes[0];
+    assert.isTrue(recipe.normalize());
+    await arc.instantiate(recipe);
+    const [bar, result] = arc.activeRecipe.handles.map(handle => arc.findStoreById(handle.id));
+
+    await bar.set({id: 'id1', rawData: {value: 'offline'}});
+    const resultIs = async value => {
+      const stored = await result.get();
+      return stored !== null && stored.rawData.value === value;
+    };
+    // The write is queued before it's first sent, so the particle may be told that the store is
+    // online before it's told that it's offline.
+    await until(() => bar.syncStatus.state === 'offline');
+    await until(() => resultIs('offline'));
+
+    remote.online = true;
+    await until(() => resultIs('online'));
+    await until(() => bar.syncStatus.pending === 0);
+  });
+});
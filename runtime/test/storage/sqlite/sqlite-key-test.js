@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+/**
+ * Unit tests for SqliteKey.
+ */
+
+import {SqliteKey} from '../../../ts-build/storage/sqlite/sqlite-key.js';
+
+import 'chai/register-assert';
+
+describe('sqlite-key', () => {
+  it('fails for non sqlite: prefixed keys', () => {
+    assert.throws(() => {
+      new SqliteKey('pouchdb://memory/user/');
+    }, Error);
+  });
+
+  it('fails for keys without a database', () => {
+    assert.throws(() => {
+      new SqliteKey('sqlite://some/location');
+    }, Error);
+  });
+
+  it('parses a memory url', () => {
+    const key = 'sqlite://memory/';
+    const skey = new SqliteKey(key);
+    assert.equal(skey.toString(), key);
+    assert.equal(skey.dbPath, 'memory');
+    assert.equal(skey.location, '');
+    assert.isTrue(skey.isMemory);
+  });
+
+  it('parses a relative file url', () => {
+    const key = 'sqlite://data/arcs.db/stores/abc';
+    const skey = new SqliteKey(key);
+    assert.equal(skey.toString(), key);
+    assert.equal(skey.dbPath, 'data/arcs.db');
+    assert.equal(skey.location, 'stores/abc');
+    assert.isFalse(skey.isMemory);
+  });
+
+  it('parses an absolute file url', () => {
+    const key = 'sqlite:///var/lib/arcs/user.db/stores/abc';
+    const skey = new SqliteKey(key);
+    assert.equal(skey.toString(), key);
+    assert.equal(skey.dbPath, '/var/lib/arcs/user.db');
+    assert.equal(skey.location, 'stores/abc');
+  });
+
+  it('creates child keys', () => {
+    const skey = new SqliteKey('sqlite://memory/arcs/123');
+    const child = skey.childKeyForHandle('456');
+    assert.equal(child.toString(), 'sqlite://memory/arcs/123/handles/456');
+    assert.equal(child.dbPath, 'memory');
+  });
+});
@@ -0,0 +1,507 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {StorageProviderFactory} from '../../../ts-build/storage/storage-provider-factory.js';
+import {SqliteStorage} from '../../../ts-build/storage/sqlite/sqlite-storage.js';
+import {Arc} from '../../../ts-build/arc.js';
+import {Manifest} from '../../../ts-build/manifest.js';
+import {Type} from '../../../ts-build/type.js';
+import {assert} from '../../chai-web.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('sqlite', function() {
+  const storeKey = 'sqlite://memory/';
+
+  let storageInstances = [];
+
+  function createStorage(id) {
+    const storage = new StorageProviderFactory(id);
+    storageInstances.push(storage);
+    return storage;
+  }
+
+  async function barType() {
+    const manifest = await Manifest.parse(`
+      schema Bar
+        Text value
+    `);
+    return Type.newEntity(manifest.schemas.Bar);
+  }
+
+  beforeEach(async () => {
+    await SqliteStorage.resetSqliteStorageForTesting();
+  });
+
+  after(async () => {
+    await Promise.all(storageInstances.map(s => s.shutdown()));
+    storageInstances = [];
+  });
+
+  describe('variable', () => {
+    it('supports basic construct and mutate', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const value = 'Hi there' + Math.random();
+      const variable = await storage.construct('test0', BarType, storeKey);
+      await variable.set({id: 'test0:test', value});
+      const result = await variable.get();
+      assert.equal(value, result.value);
+    });
+
+    it('resolves concurrent set', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const var1 = await storage.construct('test0', BarType, storeKey);
+      const var2 = await storage.connect('test0', BarType, var1.storageKey);
+      await Promise.all([var1.set({id: 'id1', value: 'value1'}), var2.set({id: 'id2', value: 'value2'})]);
+      assert.deepEqual(await var1.get(), await var2.get());
+    });
+
+    it('enables referenceMode by default', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+
+      const var1 = await storage.construct('test0', BarType, storeKey);
+      await var1.set({id: 'id1', value: 'underlying'});
+
+      const result = await var1.get();
+      assert.equal('underlying', result.value);
+
+      assert.isTrue(var1.referenceMode);
+      assert.isNotNull(var1.backingStore);
+
+      assert.deepEqual(await var1.backingStore.get('id1'), await var1.get());
+    });
+
+    it('supports references', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+
+      const var1 = await storage.construct('test0', Type.newReference(BarType), storeKey);
+      await var1.set({id: 'id1', storageKey: 'underlying'});
+
+      const result = await var1.get();
+      assert.equal('underlying', result.storageKey);
+
+      assert.isFalse(var1.referenceMode);
+      assert.isNull(var1.backingStore);
+    });
+
+    it('does not construct over an existing store', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const var1 = await storage.construct('test0', BarType, storeKey);
+      assert.isNull(await storage.construct('test0', BarType, var1.storageKey));
+      assert.isNull(await storage.connect('test1', BarType, 'sqlite://memory/no/such/store'));
+    });
+  });
+
+  describe('collection', () => {
+    it('supports basic construct and mutate', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const value1 = 'Hi there' + Math.random();
+      const value2 = 'Goodbye' + Math.random();
+      const collection = await storage.construct('test1', BarType.collectionOf(), storeKey);
+      await collection.store({id: 'id0', value: value1}, ['key0']);
+      await collection.store({id: 'id1', value: value2}, ['key1']);
+      let result = await collection.get('id0');
+      assert.equal(value1, result.value);
+      result = await collection.toList();
+      assert.deepEqual(result, [{id: 'id0', value: value1}, {id: 'id1', value: value2}]);
+    });
+
+    it('resolves concurrent add/remove of same id', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const collection1 = await storage.construct('test1', BarType.collectionOf(), storeKey);
+      const collection2 = await storage.connect('test1', BarType.collectionOf(), collection1.storageKey);
+      collection1.store({id: 'id1', value: 'value'}, ['key1']);
+      collection2.store({id: 'id1', value: 'value'}, ['key2']);
+      collection1.remove('id1', ['key1']);
+      await collection2.remove('id1', ['key2']);
+      assert.isEmpty(await collection1.toList());
+      assert.isEmpty(await collection2.toList());
+    });
+
+    it('enables referenceMode by default', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+
+      const collection1 = await storage.construct('test0', BarType.collectionOf(), storeKey);
+
+      await collection1.store({id: 'id1', value: 'value1'}, ['key1']);
+      await collection1.store({id: 'id2', value: 'value2'}, ['key2']);
+
+      let result = await collection1.get('id1');
+      assert.equal('value1', result.value);
+      result = await collection1.get('id2');
+      assert.equal('value2', result.value);
+
+      assert.isTrue(collection1.referenceMode);
+      assert.isNotNull(collection1.backingStore);
+
+      assert.deepEqual(await collection1.backingStore.toList(), await collection1.toList());
+    });
+
+    it('supports removeMultiple', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const collection = await storage.construct('test1', BarType.collectionOf(), storeKey);
+      await collection.store({id: 'id1', value: 'value'}, ['key1']);
+      await collection.store({id: 'id2', value: 'value'}, ['key2']);
+      await collection.removeMultiple([
+        {id: 'id1', keys: ['key1']}, {id: 'id2', keys: ['key2']}
+      ]);
+      assert.isEmpty(await collection.toList());
+    });
+
+    it('fires change events with versions', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const collection = await storage.construct('test1', Type.newReference(BarType).collectionOf(), storeKey);
+      const events = [];
+      collection.on('change', details => events.push(details), {});
+      await collection.store({id: 'id1', storageKey: 'a'}, ['key1']);
+      await collection.remove('id1');
+      assert.lengthOf(events, 2);
+      assert.equal(events[0].add[0].value.id, 'id1');
+      assert.equal(events[0].version, 1);
+      assert.equal(events[1].remove[0].value.id, 'id1');
+      assert.equal(events[1].version, 2);
+    });
+  });
+
+  describe('transaction', () => {
+    it('rolls back the database if an operation fails', async () => {
+      const storage = createStorage(new Arc({id: 'test'}).id);
+      const BarType = await barType();
+      const from = await storage.construct('from', BarType.collectionOf(), storeKey);
+      const to = await storage.construct('to', BarType.collectionOf(), storeKey);
+      await from.store({id: 'id1', value: 'moving'}, ['key1']);
+      const events = [];
+      [from, to].forEach(store => store.on('change', event => events.push(event), {}));
+
+      const transaction = storage.transaction();
+      transaction.remove(from, 'id1');
+      transaction.store(to, {id: 'id1', value: 'moving'}, ['key2']);
+      transaction.store(to, {id: 'id2', value: 'invalid'}, []);
+      let error;
+      try {
+        await transaction.commit();
+      } catch (e) {
+        error = e;
+      }
+      assert.match(error.message, /keys required/);
+      assert.deepEqual((await from.toList()).map(item => item.id), ['id1']);
+      assert.equal(from.version, 1);
+      assert.isEmpty(await to.toList());
+      assert.isEmpty(events);
+
+      // The database is usable afterwards.
+      await to.store({id: 'id3', value: 'after'}, ['key3']);
+      assert.deepEqual((await to.toList()).map(item => item.id), ['id3']);
+    });
+  });
+
+  describe('big collection', () => {
+    async function checkNext(col, cid, ids) {
+      const {value, done} = await col.cursorNext(cid);
+      assert.isFalse(done);
+      assert.equal(value.length, ids.length);
+      for (let i = 0; i < value.length; i++) {
+        assert.equal(value[i].id, ids[i]);
+        assert.equal(value[i].data, 'v' + ids[i]);
+      }
+    }
+
+    async function checkDone(col, cid) {
+      const {value, done} = await col.cursorNext(cid);
+      assert.isTrue(done);
+      assert.isUndefined(value);
+    }
+
+    async function populate(col) {
+      const ids = ['r01', 'i02', 'z03', 'q04', 'h05', 'y06', 'p07', 'g08', 'x09', 'o10'];
+      for (let i = 0; i < ids.length; i++) {
+        await col.store({id: ids[i], data: 'v' + ids[i]}, ['k' + ids[i]]);
+      }
+      // Re-store a couple of ids so we know the cursor is ordering results based on the index.
+      await col.store({id: 'p07', data: 'vp07'}, ['kXX']);
+      await col.store({id: 'q04', data: 'vq04'}, ['kYY']);
+    }
+
+    it('supports get, store and remove', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const collection1 = await storage.construct('test0', BarType.bigCollectionOf(), storeKey);
+      const collection2 = await storage.connect('test0', BarType.bigCollectionOf(), collection1.storageKey);
+
+      await Promise.all([
+        collection1.store({id: 'id1', data: 'ab'}, ['k34']),
+        collection2.store({id: 'id2', data: 'cd'}, ['k12'])
+      ]);
+      assert.equal((await collection2.get('id1')).data, 'ab');
+      assert.equal((await collection1.get('id2')).data, 'cd');
+
+      await collection1.remove('id2');
+      assert.isNull(await collection2.get('id2'));
+      assert.isNull(await collection1.get('non-existent'));
+      await collection1.remove('non-existent');
+    });
+
+    it('supports queries', async () => {
+      const storage = createStorage(new Arc({id: 'test'}).id);
+      const BarType = await barType();
+      const collection = await storage.construct('test0', BarType.bigCollectionOf(), storeKey);
+      for (const [id, value] of [['id1', 'c'], ['id2', 'a'], ['id3', 'b'], ['id4', 'd']]) {
+        await collection.store({id, rawData: {value}}, ['k' + id]);
+      }
+      await collection.remove('id3');
+      const results = await collection.query({where: [{field: 'value', op: '<', value: 'd'}], orderBy: [{field: 'value'}]});
+      assert.deepEqual(results.map(item => item.id), ['id2', 'id1']);
+      assert.deepEqual((await collection.query({offset: 1, limit: 1})).map(item => item.id), ['id2']);
+    });
+
+    it('supports version-stable streamed reads forwards', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const col = await storage.construct('test0', BarType.bigCollectionOf(), storeKey);
+      await populate(col);
+
+      const cid1 = await col.stream(6);
+      await checkNext(col, cid1, ['r01', 'i02', 'z03', 'h05', 'y06', 'g08']);
+
+      await col.store({id: 'f11', data: 'vf11'}, ['kf11']);
+      await col.remove('g08');
+      await col.remove('x09');
+
+      // Interleave another cursor at a different version.
+      const cid2 = await col.stream(20);
+      assert.equal(col.cursorVersion(cid2), col.cursorVersion(cid1) + 3);
+      await checkNext(col, cid2, ['r01', 'i02', 'z03', 'h05', 'y06', 'o10', 'p07', 'q04', 'f11']);
+
+      // x09 was removed ahead of the first cursor, so is returned at the end of its stream.
+      await checkNext(col, cid1, ['o10', 'p07', 'q04', 'x09']);
+      await checkDone(col, cid1);
+      await checkDone(col, cid2);
+
+      // Verify close().
+      const cid3 = await col.stream(3);
+      await checkNext(col, cid3, ['r01', 'i02', 'z03']);
+      col.cursorClose(cid3);
+      await checkDone(col, cid3);
+    });
+
+    it('supports version-stable streamed reads backwards', async () => {
+      const arc = new Arc({id: 'test'});
+      const storage = createStorage(arc.id);
+      const BarType = await barType();
+      const col = await storage.construct('test0', BarType.bigCollectionOf(), storeKey);
+      await populate(col);
+
+      const cid1 = await col.stream(6, false);
+      await checkNext(col, cid1, ['q04', 'p07', 'o10', 'x09', 'g08', 'y06']);
+
+      await col.store({id: 'f11', data: 'vf11'}, ['kf11']);
+      await col.remove('y06');
+      await col.remove('o10');
+
+      const cid2 = await col.stream(20, false);
+      assert.equal(col.cursorVersion(cid2), col.cursorVersion(cid1) + 3);
+      await checkNext(col, cid2, ['f11', 'q04', 'p07', 'x09', 'g08', 'h05', 'z03', 'i02', 'r01']);
+
+      await checkNext(col, cid1, ['h05', 'z03', 'i02', 'r01']);
+      await checkDone(col, cid1);
+      await checkDone(col, cid2);
+    });
+
+    it('supports streamed reads over an index range', async () => {
+      const manifest = await Manifest.parse(`
+        schema Product
+          Text name
+          Number price
+          Boolean inStock
+        index Product.price
+        index Product.inStock
+      `);
+      const ProductType = Type.newEntity(manifest.schemas.Product);
+      const storage = createStorage(new Arc({id: 'test'}).id);
+      const col = await storage.construct('test0', ProductType.bigCollectionOf(), storeKey);
+
+      const products = {a: [5, true], b: [2, false], c: [8, true], d: [2, true], e: [undefined, false], f: [11, true]};
+      for (const [id, [price, inStock]] of Object.entries(products)) {
+        await col.store({id, rawData: {name: id, price, inStock}}, ['k' + id]);
+      }
+      await col.store({id: 'a', rawData: {name: 'a', price: 9, inStock: true}}, ['kXX']);
+
+      const next = async cid => {
+        const {value, done} = await col.cursorNext(cid);
+        return done ? null : value.map(item => item.id).join('');
+      };
+
+      const cid1 = await col.stream(3, true, {index: 'price', lower: 2, upper: 9});
+      assert.equal(await next(cid1), 'bdc');
+      // a was removed ahead of the cursor, so is returned at the end of its stream.
+      await col.remove('a');
+      await col.store({id: 'g', rawData: {name: 'g', price: 3}}, ['kg']);
+      assert.equal(await next(cid1), 'a');
+      assert.isNull(await next(cid1));
+
+      const cid2 = await col.stream(10, false, {index: 'price', lower: 3});
+      assert.equal(await next(cid2), 'fcg');
+      assert.isNull(await next(cid2));
+
+      const cid3 = await col.stream(10, true, {index: 'inStock', lower: true});
+      assert.equal(await next(cid3), 'cdf');
+    });
+
+    it('leaves no index entries behind after a reset', async () => {
+      const manifest = await Manifest.parse(`
+        schema Product
+          Number price
+        index Product.price
+      `);
+      const ProductType = Type.newEntity(manifest.schemas.Product);
+      const storage = createStorage(new Arc({id: 'test'}).id);
+      const col = await storage.construct('test0', ProductType.bigCollectionOf(), storeKey);
+      await col.store({id: 'a', rawData: {price: 5}}, ['ka']);
+      assert.lengthOf(await col.db.all('SELECT id FROM indexEntries'), 1);
+
+      await SqliteStorage.resetSqliteStorageForTesting();
+      assert.isEmpty(await col.db.all('SELECT id FROM indexEntries'));
+    });
+  });
+
+  describe('persistence', () => {
+    const dbFile = path.join(os.tmpdir(), `arcs-sqlite-test-${process.pid}.db`);
+
+    after(() => {
+      if (fs.existsSync(dbFile)) {
+        fs.unlinkSync(dbFile);
+      }
+    });
+
+    it('reloads stores from the database file', async () => {
+      const BarType = await barType();
+      const key = `sqlite://${dbFile}/`;
+
+      let storage = new StorageProviderFactory(new Arc({id: 'test'}).id);
+      const variable = await storage.construct('var', BarType, key);
+      await variable.set({id: 'id0', value: 'variable'});
+      const collection = await storage.construct('col', BarType.collectionOf(), key);
+      await collection.store({id: 'id1', value: 'first'}, ['key1']);
+      await collection.store({id: 'id2', value: 'second'}, ['key2']);
+      const big = await storage.construct('big', BarType.bigCollectionOf(), key);
+      await big.store({id: 'id3', value: 'big'}, ['key3']);
+      await storage.shutdown();
+
+      storage = createStorage(new Arc({id: 'test2'}).id);
+      const variable2 = await storage.connect('var', BarType, variable.storageKey);
+      assert.notStrictEqual(variable2, variable);
+      assert.equal((await variable2.get()).value, 'variable');
+      assert.equal(variable2.version, variable.version);
+
+      const collection2 = await storage.connect('col', BarType.collectionOf(), collection.storageKey);
+      assert.isTrue(collection2.referenceMode);
+      assert.deepEqual((await collection2.toList()).map(item => item.value), ['first', 'second']);
+      assert.equal(collection2.version, 2);
+
+      const big2 = await storage.connect('big', BarType.bigCollectionOf(), big.storageKey);
+      assert.equal((await big2.get('id3')).value, 'big');
+      assert.equal(big2.version, 1);
+    });
+
+    it('migrates values written under an earlier schema version', async () => {
+      const manifest = await Manifest.parse(`
+        schema Bar
+          Text value
+          Number count`);
+      const BarV1 = Type.newEntity(manifest.schemas.Bar);
+      const manifest2 = await Manifest.parse(`
+        schema Bar
+          version 2
+          Text label
+          Text count
+          Boolean done
+          migrate from 1
+            rename value to label
+            widen count from Number
+            default done false`);
+      const BarV2 = Type.newEntity(manifest2.schemas.Bar);
+      const key = `sqlite://${dbFile}/`;
+
+      let storage = new StorageProviderFactory(new Arc({id: 'test'}).id);
+      const variable = await storage.construct('var-v1', BarV1, key);
+      await variable.set({id: 'id0', rawData: {value: 'variable', count: 1}});
+      const collection = await storage.construct('col-v1', BarV1.collectionOf(), key);
+      await collection.store({id: 'id1', rawData: {value: 'first', count: 2}}, ['key1']);
+      const big = await storage.construct('big-v1', BarV1.bigCollectionOf(), key);
+      await big.store({id: 'id2', rawData: {value: 'big', count: 3}}, ['key2']);
+      await storage.shutdown();
+
+      storage = createStorage(new Arc({id: 'test2'}).id);
+      const variable2 = await storage.connect('var-v1', BarV2, variable.storageKey);
+      assert.deepEqual((await variable2.get()).rawData, {label: 'variable', count: '1', done: false});
+
+      const collection2 = await storage.connect('col-v1', BarV2.collectionOf(), collection.storageKey);
+      assert.deepEqual((await collection2.toList()).map(item => item.rawData),
+                       [{label: 'first', count: '2', done: false}]);
+      // Values written after the upgrade are recorded at the new version and read back unchanged.
+      await collection2.store({id: 'id3', rawData: {label: 'second', count: '4', done: true}}, ['key3']);
+
+      const big2 = await storage.connect('big-v1', BarV2.bigCollectionOf(), big.storageKey);
+      assert.deepEqual((await big2.get('id2')).rawData, {label: 'big', count: '3', done: false});
+      await storage.shutdown();
+
+      storage = createStorage(new Arc({id: 'test3'}).id);
+      const collection3 = await storage.connect('col-v1', BarV2.collectionOf(), collection.storageKey);
+      assert.deepEqual((await collection3.toList()).map(item => item.rawData),
+                       [{label: 'first', count: '2', done: false}, {label: 'second', count: '4', done: true}]);
+    });
+
+    it('indexes existing values when an index is added', async () => {
+      const schema = `
+        schema Bar
+          Number value`;
+      const BarType = Type.newEntity((await Manifest.parse(schema)).schemas.Bar);
+      const IndexedBarType = Type.newEntity((await Manifest.parse(`${schema}
+        index Bar.value`)).schemas.Bar);
+      const key = `sqlite://${dbFile}/`;
+
+      let storage = new StorageProviderFactory(new Arc({id: 'test'}).id);
+      const big = await storage.construct('big-indexed', BarType.bigCollectionOf(), key);
+      for (const [id, value] of [['id1', 3], ['id2', 1], ['id3', 2]]) {
+        await big.store({id, rawData: {value}}, ['k' + id]);
+      }
+      await storage.shutdown();
+
+      storage = createStorage(new Arc({id: 'test2'}).id);
+      const big2 = await storage.connect('big-indexed', IndexedBarType.bigCollectionOf(), big.storageKey);
+      const cid = await big2.stream(10, true, {index: 'value', upper: 2});
+      const {value} = await big2.cursorNext(cid);
+      assert.deepEqual(value.map(item => item.id), ['id2', 'id3']);
+    });
+  });
+});
@@ -360,4 +360,46 @@ describe('TypeChecker', () => {
     assert(result.isResolved());
     assert(result.resolvedType().isSlot);
   });
+
+  describe('diagnostics', () => {
+    const entity = fields => Type.newEntity(new Schema({names: [], fields}));
+
+    it('explains conflicting reads', () => {
+      const a = {type: entity({value: 'Text'}), direction: 'in'};
+      const b = {type: entity({value: 'Number'}), direction: 'in'};
+      const diagnostics = [];
+      assert.isNull(TypeChecker.processTypeList(undefined, [a, b], {diagnostics}));
+      assert.lengthOf(diagnostics, 1);
+      assert.equal(diagnostics[0].message, `reads * {Number value}, which conflicts with the handle's canWriteSuperset * {Text value}`);
+      assert.strictEqual(diagnostics[0].canWriteSuperset, a.type);
+      assert.strictEqual(diagnostics[0].type, b.type);
+    });
+
+    it('explains conflicting type variable bounds', () => {
+      const a = Type.newVariable(new TypeVariable('a', entity({value: 'Text'}), null));
+      const b = Type.newVariable(new TypeVariable('b', entity({value: 'Number'}), null));
+      const diagnostics = [];
+      assert.isNull(TypeChecker.processTypeList(undefined, [{type: a, direction: 'in'}, {type: b, direction: 'in'}], {diagnostics}));
+      assert.lengthOf(diagnostics, 1);
+      assert.equal(diagnostics[0].variable, 'b');
+      assert.equal(diagnostics[0].canWriteSuperset.toString(), '* {Text value}');
+      assert.equal(diagnostics[0].type.toString(), '* {Number value}');
+    });
+
+    it('explains reads that no connection writes', () => {
+      const writer = {type: entity({value: 'Text'}), direction: 'out'};
+      const reader = {type: entity({value: 'Text', other: 'Text'}), direction: 'in'};
+      const diagnostics = [];
+      assert.isNull(TypeChecker.processTypeList(undefined, [writer, reader], {diagnostics}));
+      assert.deepEqual(diagnostics.map(diagnostic => diagnostic.message),
+                       ['connections read * {Text value, Text other}, but only * {Text value} is written']);
+    });
+
+    it('explains mismatched containers', () => {
+      const collection = {type: entity({}).collectionOf(), direction: 'inout'};
+      const diagnostics = [];
+      assert.isNull(TypeChecker.processTypeList(entity({}), [collection], {diagnostics}));
+      assert.equal(diagnostics[0].message, `[* {}] doesn't match the handle's type * {}`);
+    });
+  });
 });
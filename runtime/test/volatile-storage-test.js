@@ -241,6 +241,41 @@ describe('volatile', function() {
       assert.isFalse(collection1.referenceMode);
       assert.isNull(collection1.backingStore);
     }); 
+    it('keeps a resumable feed of changes', async () => {
+      const manifest = await Manifest.parse(`
+        schema Bar
+          Text value
+      `);
+      const arc = new Arc({id: 'test'});
+      const storage = new StorageProviderFactory(arc.id);
+      const BarType = Type.newEntity(manifest.schemas.Bar);
+      const collection = await storage.construct('test2', BarType.collectionOf(), storeKey);
+      collection.changeLogSize = 3;
+      await collection.store({id: 'id1', value: 'value1'}, ['key1']);
+      await collection.store({id: 'id2', value: 'value2'}, ['key2']);
+      await collection.remove('id1', ['key1']);
+      assert.deepEqual(collection.changesSince(3), []);
+      assert.deepEqual(collection.changesSince(1).map(change => change.version), [2, 3]);
+      assert.equal(collection.changesSince(1)[1].remove[0].value.id, 'id1');
+
+      // A subscriber that has seen version 1 is given the changes since then, and then new ones.
+      const versions = [];
+      assert.isTrue(collection.subscribe(1, change => versions.push(change.version), {}));
+      await collection.store({id: 'id3', value: 'value3'}, ['key3']);
+      assert.deepEqual(versions, [2, 3, 4]);
+
+      // The log only reaches back changeLogSize changes.
+      assert.isNull(collection.changesSince(0));
+      assert.isFalse(collection.subscribe(0, () => assert.fail(), {}));
+
+      // Changes made in a batch are logged as one.
+      collection.beginBatch('batch');
+      await collection.store({id: 'id4', value: 'value4'}, ['key4'], 'batch');
+      await collection.store({id: 'id5', value: 'value5'}, ['key5'], 'batch');
+      await collection.commitBatch(null);
+      const [batch] = collection.changesSince(4);
+      assert.deepEqual([batch.baseVersion, batch.version, batch.add.length], [4, 6, 2]);
+    });
   });
 
   describe('big collection', () => {
@@ -378,5 +413,44 @@ describe('volatile', function() {
       col.cursorClose(cid3);
       await checkDone(col, cid3);
     });
+
+    it('supports streamed reads over an index range', async () => {
+      const manifest = await Manifest.parse(`
+        schema Product
+          Text name
+          Number price
+        index Product.price
+      `);
+      const arc = new Arc({id: 'test'});
+      const storage = new StorageProviderFactory(arc.id);
+      const ProductType = Type.newEntity(manifest.schemas.Product);
+      const col = await storage.construct('test0', ProductType.bigCollectionOf(), storeKey);
+
+      const prices = {a: 5, b: 2, c: 8, d: 2, e: undefined, f: 11};
+      for (const [id, price] of Object.entries(prices)) {
+        await col.store({id, rawData: {name: id, price}}, ['k' + id]);
+      }
+      // Changing a price moves the entity within the index.
+      await col.store({id: 'a', rawData: {name: 'a', price: 9}}, ['kXX']);
+
+      const next = async cid => {
+        const {value, done} = await col.cursorNext(cid);
+        return done ? null : value.map(item => item.id).join('');
+      };
+
+      const cid1 = await col.stream(3, true, {index: 'price', lower: 2, upper: 9});
+      assert.equal(await next(cid1), 'bdc');
+      await col.remove('a');
+      assert.equal(await next(cid1), 'a');
+      assert.isNull(await next(cid1));
+
+      const cid2 = await col.stream(10, false, {index: 'price', lower: 3});
+      assert.equal(await next(cid2), 'fc');
+      assert.isNull(await next(cid2));
+
+      // Entities without a value for the indexed field are not streamed.
+      const cid3 = await col.stream(10, true, {index: 'price'});
+      assert.equal(await next(cid3), 'bdcf');
+    });
   });
 });
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from './chai-web.js';
+import {Arc} from '../ts-build/arc.js';
+import {handleFor} from '../ts-build/handle.js';
+import {Loader} from '../ts-build/loader.js';
+import {Manifest} from '../ts-build/manifest.js';
+import {WorkerPecFactory} from '../ts-build/worker-pec-factory.js';
+import * as util from '../testing/test-util.js';
+
+describe('WorkerPecFactory', function() {
+  it('runs particles in a worker thread', async () => {
+    const loader = new Loader();
+    const arc = new Arc({id: 'test', loader, pecFactory: WorkerPecFactory});
+    const manifest = await Manifest.parse(`
+      import 'runtime/test/artifacts/test-particles.manifest'
+      recipe
+        use as handle0
+        use as handle1
+        TestParticle
+          foo <- handle0
+          bar -> handle1
+    `, {loader, fileName: process.cwd() + '/input.manifest'});
+    const Foo = manifest.findSchemaByName('Foo').entityClass();
+    const Bar = manifest.findSchemaByName('Bar').entityClass();
+    const fooStore = await arc.createStore(Foo.type, undefined, 'test:1');
+    const barStore = await arc.createStore(Bar.type, undefined, 'test:2');
+    await handleFor(fooStore).set(new Foo({value: 'a Foo'}));
+    const recipe = manifest.recipes[0];
+    recipe.handles[0].mapToStorage(fooStore);
+    recipe.handles[1].mapToStorage(barStore);
+    assert.isTrue(recipe.normalize());
+    try {
+      await arc.instantiate(recipe);
+      await util.assertSingletonWillChangeTo(arc, barStore, 'value', 'a Foo1');
+      assert.lengthOf(arc.loadedParticles(), 1);
+    } finally {
+      arc.dispose();
+    }
+  });
+});
@@ -0,0 +1,202 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../platform/assert-web.js';
+import {Arc} from './arc.js';
+import {PECInnerPort} from '../api-channel.js';
+import {SlotComposer} from './slot-composer.js';
+import {Loader} from './loader.js';
+import {Manifest} from './manifest.js';
+
+/**
+ * The state of an arc at a point in time. Snapshots are frozen once recorded.
+ */
+export interface ArcSnapshot {
+  readonly id: number;
+  readonly timestamp: number;
+  // What prompted the snapshot: 'instantiate', 'change', or a caller-supplied reason.
+  readonly reason: string;
+  // The version of each of the arc's stores, keyed by store id.
+  readonly storeVersions: Readonly<{[storeId: string]: number}>;
+  readonly particles: ReadonlyArray<string>;
+  readonly activeRecipe: string;
+  // The arc serialized with the contents of all of its stores, suitable for Arc.deserialize().
+  readonly serialization: string;
+}
+
+export interface ArcSnapshotDiff {
+  storesAdded: string[];
+  storesRemoved: string[];
+  storesChanged: {id: string, from: number, to: number}[];
+  particlesAdded: string[];
+  particlesRemoved: string[];
+  activeRecipeChanged: boolean;
+}
+
+export type ArcHistoryOptions = {
+  // The number of snapshots retained; the oldest are discarded first.
+  maxSnapshots?: number;
+  // Whether to record a snapshot whenever a plan is instantiated or a store changes.
+  automatic?: boolean;
+};
+
+export type ForkOptions = {
+  pecFactory?: (id: string) => PECInnerPort;
+  slotComposer?: SlotComposer;
+  loader?: Loader;
+  context?: Manifest;
+};
+
+/**
+ * Records the history of an arc as a sequence of immutable snapshots, which
+ * can be listed, compared and used to fork new arcs from past states.
+ */
+export class ArcHistory {
+  private readonly snapshots: ArcSnapshot[] = [];
+  private readonly maxSnapshots: number;
+  private nextId = 0;
+  // Snapshots are captured one at a time, in the order they were requested.
+  private queue: Promise<ArcSnapshot|null> = Promise.resolve(null);
+  // An automatic snapshot that has been requested but not yet started.
+  private scheduled: Promise<ArcSnapshot|null>|null = null;
+  private readonly onPlanInstantiated = () => this.schedule('instantiate');
+  private disposed = false;
+
+  constructor(readonly arc: Arc, {maxSnapshots = 100, automatic = true}: ArcHistoryOptions = {}) {
+    assert(maxSnapshots > 0, 'maxSnapshots must be positive');
+    this.maxSnapshots = maxSnapshots;
+    if (automatic) {
+      arc.registerInstantiatePlanCallback(this.onPlanInstantiated);
+      arc.onDataChange(() => this.schedule('change'), this);
+    }
+  }
+
+  /**
+   * Records a snapshot of the arc once it is idle. Resolves to null if the
+   * arc hasn't changed since the previous snapshot.
+   */
+  async record(reason = 'manual'): Promise<ArcSnapshot|null> {
+    const snapshot = this.queue.then(() => this.capture(reason));
+    this.queue = snapshot.catch(() => null);
+    return snapshot;
+  }
+
+  /**
+   * Resolves once any pending snapshots have been recorded.
+   */
+  get idle(): Promise<void> {
+    return this.queue.then(() => undefined);
+  }
+
+  /** Returns the recorded snapshots, oldest first. */
+  list(): ArcSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  get(id: number): ArcSnapshot|undefined {
+    return this.snapshots.find(snapshot => snapshot.id === id);
+  }
+
+  get latest(): ArcSnapshot|undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  /**
+   * Describes the changes made to the arc between two snapshots.
+   */
+  static diff(from: ArcSnapshot, to: ArcSnapshot): ArcSnapshotDiff {
+    const fromIds = Object.keys(from.storeVersions);
+    const toIds = Object.keys(to.storeVersions);
+    const removeEach = (list: ReadonlyArray<string>, other: ReadonlyArray<string>) => {
+      const remaining = [...list];
+      for (const item of other) {
+        const index = remaining.indexOf(item);
+        if (index !== -1) {
+          remaining.splice(index, 1);
+        }
+      }
+      return remaining;
+    };
+    return {
+      storesAdded: toIds.filter(id => !(id in from.storeVersions)),
+      storesRemoved: fromIds.filter(id => !(id in to.storeVersions)),
+      storesChanged: fromIds.filter(id => id in to.storeVersions && from.storeVersions[id] !== to.storeVersions[id])
+                            .map(id => ({id, from: from.storeVersions[id], to: to.storeVersions[id]})),
+      particlesAdded: removeEach(to.particles, from.particles),
+      particlesRemoved: removeEach(from.particles, to.particles),
+      activeRecipeChanged: from.activeRecipe !== to.activeRecipe,
+    };
+  }
+
+  /**
+   * Creates a new arc in the state captured by snapshot. The loader and
+   * context default to those of the arc whose history this is.
+   */
+  async fork(snapshot: ArcSnapshot, {pecFactory, slotComposer, loader, context}: ForkOptions = {}): Promise<Arc> {
+    assert(this.snapshots.includes(snapshot), `snapshot ${snapshot.id} is not part of this history`);
+    return Arc.deserialize({
+      serialization: snapshot.serialization,
+      pecFactory,
+      slotComposer,
+      loader: loader || this.arc.loader,
+      fileName: `${this.arc.id}-snapshot-${snapshot.id}`,
+      context: context || this.arc.context
+    });
+  }
+
+  /**
+   * Stops recording automatic snapshots. Existing snapshots remain available.
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.arc.unregisterInstantiatePlanCallback(this.onPlanInstantiated);
+    this.arc.clearDataChange(this);
+  }
+
+  private schedule(reason: string): void {
+    if (this.disposed || this.scheduled) {
+      return;
+    }
+    this.scheduled = this.queue = this.queue.then(() => {
+      this.scheduled = null;
+      return this.capture(reason);
+    }).catch(e => {
+      console.warn(`Failed to record a snapshot of arc ${this.arc.id}: ${e}`);
+      return null;
+    });
+  }
+
+  private async capture(reason: string): Promise<ArcSnapshot|null> {
+    await this.arc.idle;
+    // The versions are read first, so that an unchanged arc isn't serialized, and so that a
+    // store written during serialization is recorded as changed again by the next snapshot.
+    const storeVersions = {};
+    this.arc.getStoresState({}).forEach((version, id) => storeVersions[id] = version);
+    const activeRecipe = this.arc.activeRecipe.toString();
+    const previous = this.latest;
+    if (previous && previous.activeRecipe === activeRecipe
+        && JSON.stringify(previous.storeVersions) === JSON.stringify(storeVersions)) {
+      return null;
+    }
+    const serialization = await this.arc.serialize({inlineStores: true});
+    const snapshot: ArcSnapshot = Object.freeze({
+      id: this.nextId++,
+      timestamp: Date.now(),
+      reason,
+      storeVersions: Object.freeze(storeVersions),
+      particles: Object.freeze(this.arc.activeRecipe.particles.map(particle => particle.name)),
+      activeRecipe,
+      serialization
+    });
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots.shift();
+    }
+    return snapshot;
+  }
+}
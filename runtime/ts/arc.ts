@@ -17,7 +17,7 @@ import {Manifest, StorageStub} from './manifest.js';
 import {Description} from './description.js';
 import {compareComparables} from './recipe/util.js';
 import {FakePecFactory} from './fake-pec-factory.js';
-import {StorageProviderFactory} from './storage/storage-provider-factory.js';
+import {StorageEngineConfig, StorageProviderFactory} from './storage/storage-provider-factory.js';
 import {DevtoolsConnection} from '../debug/devtools-connection.js';
 import {Id} from './id.js';
 import {ArcDebugHandler} from '../debug/arc-debug-handler.js';
@@ -28,26 +28,51 @@ import {ParticleSpec} from './particle-spec.js';
 import {PECInnerPort} from '../api-channel.js';
 import {Particle} from './recipe/particle.js';
 import {SlotComposer} from './slot-composer.js';
+import {Slot} from './recipe/slot.js';
+import {ParticleSupervisor} from './particle-supervisor.js';
+import {ParticleQuotas} from './particle-quotas.js';
+import {PolicyEngine} from './policy.js';
+import {GarbageCollector} from './storage/garbage-collector.js';
 
 type ArcOptions = {
   id: string;
   context: Manifest;
   pecFactory?: (id: string) => PECInnerPort;
+  // Factories for the PECs of particular execution groups; other groups use pecFactory.
+  pecFactories?: {[group: string]: (id: string) => PECInnerPort};
   slotComposer?: SlotComposer;
   loader: Loader;
   storageKey?: string;
   storageProviderFactory?: StorageProviderFactory;
+  // Configuration for the storage engines of the arc's default storageProviderFactory.
+  storageConfig?: StorageEngineConfig;
   speculative?: boolean;
   recipeIndex?: RecipeIndex;
+  // Resource quotas applied to each of the arc's particles.
+  quotas?: ParticleQuotas;
+  // Decides which recipes may be instantiated; by default, one with the context's policies.
+  policyEngine?: PolicyEngine;
+  // How often, in milliseconds, to expire and garbage collect the entities in the arc's stores.
+  gcInterval?: number;
 };
 
 type PlanCallback = (recipe: Recipe) => void;
 
-type SerializeContext = {handles: string, resources: string, interfaces: string, dataResources: Map<string, string>};
+// The parts of the active recipe merged in by an instantiated recipe.
+type ArcRecipe = {particles: Particle[], handles: Handle[], slots: Slot[], innerArcs: Map<Particle, {}>, patterns: string[]};
+
+type SerializeContext = {handles: string, resources: string, interfaces: string, dataResources: Map<string, string>, inlineStores: boolean};
 
 export class Arc {
   private readonly _context: Manifest;
   private readonly pecFactory: (id: string) => PECInnerPort;
+  private readonly pecFactories: {[group: string]: (id: string) => PECInnerPort};
+  private readonly quotas: ParticleQuotas;
+  // The host of each execution group's PEC, created when the group's first particle is
+  // instantiated. The default group, keyed by null, is hosted by `pec`.
+  private readonly pecsByGroup = new Map<string|null, ParticleExecutionHost>();
+  // The execution group of each instantiated particle, by particle id.
+  private readonly particleGroups = new Map<string, string|null>();
   private readonly speculative: boolean;
   private nextLocalID = 0;
   private _activeRecipe = new Recipe();
@@ -60,6 +85,8 @@ export class Arc {
   private storageKeys: {[index: string]: string} = {};
   readonly storageKey: string;
   storageProviderFactory: StorageProviderFactory;
+  // Whether the arc created storageProviderFactory, and so shuts it down when disposed.
+  private readonly ownsStorageProviderFactory: boolean;
   // Map from each store to a set of tags.
   private storeTags = new Map<StorageProviderBase, Set<string>>();
   // Map from each store to its description (originating in the manifest).
@@ -68,17 +95,37 @@ export class Arc {
   private instantiatePlanCallbacks: PlanCallback[] = [];
   private readonly _recipeIndex: RecipeIndex;
   private waitForIdlePromise: Promise<void> | null;
+  // Recipes instantiated into this arc (excluding inner arcs), most recent last, with the
+  // stores that were created for them, by the recipe's handle.
+  private instantiations: {recipe: Recipe, arcRecipe: ArcRecipe, stores: Map<Handle, StorageProviderBase>}[] = [];
+  // Recipes backed out by undo(), most recent last, with the stores that were created for them
+  // (and their tags), which are kept until the recipe can no longer be redone.
+  private undone: {recipe: Recipe, stores: {handle: Handle, store: StorageProviderBase, tags: string[], description?: Description}[]}[] = [];
+  // The stores created for the inner arc of each transformation particle, by recipes
+  // instantiated into it or by its particles.
+  private readonly innerArcStores = new Map<Particle, StorageProviderBase[]>();
+  private readonly storeChangeCallback = () => this._onDataChange();
+  // While hot reloading is enabled, a function that stops watching each particle implementation file.
+  private hotReloadWatchers: Map<string, () => void>|null = null;
 
   sessionId = Id.newSessionId();
   id: Id;
   particleHandleMaps = new Map<string, {spec: ParticleSpec, handles: Map<string, StorageProviderBase>}>();
+  // The host of the default execution group's PEC, which runs particles that don't declare a group.
   pec: ParticleExecutionHost;
+  // Tracks whether each particle is running, and applies supervision policies when particles throw.
+  readonly supervisor = new ParticleSupervisor(this);
+  readonly policyEngine: PolicyEngine;
+  // Removes expired entities from the arc's stores, and unreferenced ones from their backing stores.
+  readonly garbageCollector = new GarbageCollector(() => this._stores);
 
-  constructor({id, context, pecFactory, slotComposer, loader, storageKey, storageProviderFactory, speculative, recipeIndex} : ArcOptions) {
+  constructor({id, context, pecFactory, pecFactories, slotComposer, loader, storageKey, storageProviderFactory, storageConfig, speculative, recipeIndex, quotas, policyEngine, gcInterval} : ArcOptions) {
     // TODO: context should not be optional.
     this._context = context || new Manifest({id});
     // TODO: pecFactory should not be optional. update all callers and fix here.
     this.pecFactory = pecFactory || FakePecFactory.bind(null);
+    this.pecFactories = pecFactories || {};
+    this.quotas = quotas;
 
     // for now, every Arc gets its own session
     this.id = this.sessionId.fromString(id);
@@ -90,16 +137,24 @@ export class Arc {
 
     const pecId = this.generateID();
     const innerPecPort = this.pecFactory(pecId);
-    this.pec = new ParticleExecutionHost(innerPecPort, slotComposer, this);
+    this.pec = new ParticleExecutionHost(innerPecPort, slotComposer, this, quotas);
+    this.pecsByGroup.set(null, this.pec);
     if (slotComposer) {
       slotComposer.arc = this;
     }
-    this.storageProviderFactory = storageProviderFactory || new StorageProviderFactory(this.id);
+    this.ownsStorageProviderFactory = !storageProviderFactory;
+    this.storageProviderFactory = storageProviderFactory || new StorageProviderFactory(this.id, storageConfig);
 
     this._description = new Description(this);
 
+    this.policyEngine = policyEngine || new PolicyEngine(this._context.allPolicies);
+
     this._recipeIndex = recipeIndex || new RecipeIndex(this._context, loader, slotComposer && slotComposer.affordance);
 
+    if (gcInterval) {
+      this.garbageCollector.start(gcInterval);
+    }
+
     DevtoolsConnection.onceConnected.then(
         devtoolsChannel => new ArcDebugHandler(this, devtoolsChannel));
   }
@@ -128,24 +183,58 @@ export class Arc {
     return false;
   }
 
-  dispose() {
+  // Resolves once the storage engines of the arc's own storageProviderFactory have shut down.
+  async dispose(): Promise<void> {
     this.instantiatePlanCallbacks = [];
+    this.discardUndone();
+    this.disableHotReload();
+    this.garbageCollector.stop();
+    this.supervisor.dispose();
     // TODO: disconnect all assocated store event handlers
-    this.pec.close();
+    this.pecs.forEach(pec => pec.close());
     if (this.pec.slotComposer) {
       this.pec.slotComposer.dispose();
     }
+    if (this.ownsStorageProviderFactory) {
+      await this.storageProviderFactory.shutdown();
+    }
   }
 
-  // Returns a promise that spins sending a single `AwaitIdle` message until it
-  // sees no other messages were sent.
+  // Returns a promise that spins sending a single `AwaitIdle` message to each
+  // PEC until it sees no other messages were sent.
   async _waitForIdle() {
-    let messageCount;
+    let pecs: ParticleExecutionHost[];
+    let messageCounts: number[];
     do {
-      messageCount = this.pec.messageCount;
-      await this.pec.idle;
+      pecs = this.pecs;
+      messageCounts = pecs.map(pec => pec.messageCount);
+      await Promise.all(pecs.map(pec => pec.idle));
       // We expect two messages here, one requesting the idle status, and one answering it.
-    } while (this.pec.messageCount !== messageCount + 2);
+    } while (this.pecs.length !== pecs.length || pecs.some((pec, i) => pec.messageCount !== messageCounts[i] + 2));
+  }
+
+  /** The hosts of the arc's PECs, one for each execution group in use, starting with `pec`. */
+  get pecs(): ParticleExecutionHost[] {
+    return [...this.pecsByGroup.values()];
+  }
+
+  /**
+   * Returns the host of the PEC that runs a particle. Particles that haven't
+   * been instantiated in this arc belong to the default group.
+   */
+  pecFor(particle: Particle): ParticleExecutionHost {
+    return this.pecsByGroup.get(this.particleGroups.get(particle.id) || null);
+  }
+
+  // Returns the host of a group's PEC, creating the PEC if the group has none yet.
+  private pecForGroup(group: string|null): ParticleExecutionHost {
+    let pec = this.pecsByGroup.get(group);
+    if (!pec) {
+      const pecFactory = this.pecFactories[group] || this.pecFactory;
+      pec = new ParticleExecutionHost(pecFactory(this.generateID()), this.pec.slotComposer, this, this.quotas);
+      this.pecsByGroup.set(group, pec);
+    }
+    return pec;
   }
 
   get idle() {
@@ -180,9 +269,11 @@ export class Arc {
       combinedId += `!!'${originalId}'`;
     }
 
-    switch (key.protocol) {
+    // Inlined stores are written out as resources, regardless of where they're stored.
+    switch (context.inlineStores ? 'volatile' : key.protocol) {
       case 'firebase':
       case 'pouchdb':
+      case 'sqlite':
         context.handles += `store ${id} of ${handle.type.toString()} ${combinedId} @${handle.version === null ? 0 : handle.version} ${handleTags} at '${handle.storageKey}'\n`;
         break;
       case 'volatile': {
@@ -240,8 +331,8 @@ export class Arc {
     }
   }
 
-  async _serializeHandles() {
-    const context = {handles: '', resources: '', interfaces: '', dataResources: new Map()};
+  async _serializeHandles(inlineStores: boolean) {
+    const context = {handles: '', resources: '', interfaces: '', dataResources: new Map(), inlineStores};
 
     let id = 0;
     const importSet = new Set();
@@ -280,14 +371,20 @@ export class Arc {
     return '';
   }
 
-  async serialize(): Promise<string> {
+  /**
+   * Returns a manifest describing this arc, from which it can be restored by deserialize().
+   * Volatile stores are serialized along with their contents; other stores are referenced by
+   * their storage keys unless inlineStores is set, in which case their current contents are
+   * included too.
+   */
+  async serialize({inlineStores = false}: {inlineStores?: boolean} = {}): Promise<string> {
     await this.idle;
     return `
 meta
   name: '${this.id}'
   ${this._serializeStorageKey()}
 
-${await this._serializeHandles()}
+${await this._serializeHandles(inlineStores)}
 
 ${this._serializeParticles()}
 
@@ -295,13 +392,14 @@ ${this._serializeParticles()}
 ${this.activeRecipe.toString()}`;
   }
 
-  static async deserialize({serialization, pecFactory, slotComposer, loader, fileName, context}): Promise<Arc> {
-    const manifest = await Manifest.parse(serialization, {loader, fileName, context});
+  static async deserialize({serialization, pecFactory, pecFactories = undefined, slotComposer, loader, fileName, context, storageConfig = undefined}): Promise<Arc> {
+    const manifest = await Manifest.parse(serialization, {loader, fileName, context, storageConfig});
     const arc = new Arc({
       id: manifest.meta.name,
       storageKey: manifest.meta.storageKey,
       slotComposer,
       pecFactory,
+      pecFactories,
       loader,
       storageProviderFactory: manifest.storageProviderFactory,
       context
@@ -331,8 +429,12 @@ ${this.activeRecipe.toString()}`;
     return [...this.particleHandleMaps.values()].map(({spec}) => spec);
   }
 
-  _instantiateParticle(recipeParticle : Particle) {
+  // Particles run in the execution group their spec declares. Those that don't declare one run
+  // in the group of the particle whose inner arc they're in, or else in the default group.
+  _instantiateParticle(recipeParticle : Particle, innerArc: {particle: Particle}|undefined = undefined) {
     recipeParticle.id = this.generateID('particle');
+    const group = recipeParticle.spec.group || (innerArc ? this.particleGroups.get(innerArc.particle.id) || null : null);
+    this.particleGroups.set(recipeParticle.id, group);
     const handleMap = {spec: recipeParticle.spec, handles: new Map()};
     this.particleHandleMaps.set(recipeParticle.id, handleMap);
 
@@ -349,7 +451,9 @@ ${this.activeRecipe.toString()}`;
     // At least all non-optional connections must be resolved
     assert(handleMap.handles.size >= handleMap.spec.connections.filter(c => !c.isOptional).length,
            `Not all mandatory connections are resolved for {$particle}`);
-    this.pec.instantiate(recipeParticle, handleMap.spec, handleMap.handles);
+    this.pecForGroup(group).instantiate(recipeParticle, handleMap.spec, handleMap.handles);
+    this.supervisor.particleStarted(recipeParticle);
+    this._watchImplementation(recipeParticle);
   }
 
   generateID(component: string = '') {
@@ -366,7 +470,7 @@ ${this.activeRecipe.toString()}`;
 
   // Makes a copy of the arc used for speculative execution.
   async cloneForSpeculativeExecution() {
-    const arc = new Arc({id: this.generateID().toString(), pecFactory: this.pecFactory, context: this.context, loader: this._loader, recipeIndex: this._recipeIndex, speculative: true});
+    const arc = new Arc({id: this.generateID().toString(), pecFactory: this.pecFactory, pecFactories: this.pecFactories, context: this.context, loader: this._loader, recipeIndex: this._recipeIndex, speculative: true});
     const storeMap = new Map();
     for (const store of this._stores) {
       const clone = await arc.storageProviderFactory.construct(store.id, store.type, 'volatile');
@@ -436,6 +540,10 @@ ${this.activeRecipe.toString()}`;
 
   async instantiate(recipe: Recipe, innerArc = undefined) {
     assert(recipe.isResolved(), `Cannot instantiate an unresolved recipe: ${recipe.toString({showUnresolved: true})}`);
+    // Speculative arcs only estimate the relevance of plans, which PlanConsumer filters by policy.
+    if (!this.speculative) {
+      this.policyEngine.enforce(recipe, this);
+    }
 
     let currentArc = {activeRecipe: this._activeRecipe, recipes: this._recipes};
     if (innerArc) {
@@ -445,8 +553,10 @@ ${this.activeRecipe.toString()}`;
       }
       currentArc = innerArcs.get(innerArc.particle);
     }
-    const {handles, particles, slots} = recipe.mergeInto(currentArc.activeRecipe);
-    currentArc.recipes.push({particles, handles, slots, innerArcs: new Map(), patterns: recipe.patterns});
+    const {handles, particles, slots, cloneMap} = recipe.mergeInto(currentArc.activeRecipe);
+    const arcRecipe = {particles, handles, slots, innerArcs: new Map(), patterns: recipe.patterns};
+    currentArc.recipes.push(arcRecipe);
+    const createdStores = new Map<Handle, StorageProviderBase>();
 
     // TODO(mmandlis): Get rid of populating the missing local slot IDs here,
     // it should be done at planning stage.
@@ -463,6 +573,7 @@ ${this.activeRecipe.toString()}`;
         assert(type.isResolved(), `Can't create handle for unresolved type ${type}`);
 
         const newStore = await this.createStore(type, /* name= */ null, this.generateID(), recipeHandle.tags);
+        createdStores.set(recipe.handles.find(handle => cloneMap.get(handle) === recipeHandle), newStore);
         if (recipeHandle.id && recipeHandle.type.isInterface
             && recipeHandle.id.includes(':particle-literal:')) {
           // 'particle-literal' handles are created by the FindHostedParticle strategy.
@@ -512,19 +623,245 @@ ${this.activeRecipe.toString()}`;
       this._registerStore(store, recipeHandle.tags);
     }
 
-    particles.forEach(recipeParticle => this._instantiateParticle(recipeParticle));
+    particles.forEach(recipeParticle => this._instantiateParticle(recipeParticle, innerArc));
 
     if (this.pec.slotComposer) {
       // TODO: pass slot-connections instead
       this.pec.slotComposer.initializeRecipe(particles);
     }
 
+    if (innerArc) {
+      createdStores.forEach(store => this.addInnerArcStore(innerArc.particle, store));
+    } else {
+      this.instantiations.push({recipe, arcRecipe, stores: createdStores});
+      this.discardUndone();
+    }
+
     if (!this.isSpeculative && !innerArc) {
       // Note: callbacks not triggered for inner-arc recipe instantiation or speculative arcs.
       this.instantiatePlanCallbacks.forEach(callback => callback(recipe));
     }
   }
 
+  /**
+   * Records a store created for the inner arc of a transformation particle, which is
+   * discarded along with the particle.
+   */
+  addInnerArcStore(particle: Particle, store: StorageProviderBase) {
+    this.innerArcStores.set(particle, [...(this.innerArcStores.get(particle) || []), store]);
+  }
+
+  /**
+   * Reverses instantiate(recipe): stops the particles it added, along with any
+   * inner arcs they host, detaches their slots, removes the stores created for
+   * its 'create' and 'copy' handles and removes its particles, handles and
+   * slots from the active recipe. Stores still connected to particles from
+   * other recipes are retained. Returns the removed stores, by the recipe's handle.
+   */
+  async uninstantiate(recipe: Recipe): Promise<Map<Handle, StorageProviderBase>> {
+    const index = this.instantiations.map(instantiation => instantiation.recipe).lastIndexOf(recipe);
+    assert(index >= 0, `Cannot uninstantiate a recipe that has not been instantiated: ${recipe.toString()}`);
+    const [{arcRecipe, stores}] = this.instantiations.splice(index, 1);
+    this._recipes.splice(this._recipes.indexOf(arcRecipe), 1);
+
+    if (this.pec.slotComposer) {
+      this.pec.slotComposer.detachParticles(arcRecipe.particles);
+    }
+    // Handles merged into ones already in the arc don't appear in arcRecipe.handles.
+    const handles = new Set(arcRecipe.handles);
+    const removed = new Map<Handle, StorageProviderBase>();
+    for (const particle of arcRecipe.particles) {
+      this._removeParticle(particle);
+      this._removeInnerArc(particle, arcRecipe.innerArcs);
+      for (const connection of particle.allConnections().filter(connection => connection.handle)) {
+        handles.add(connection.handle);
+        connection.disconnectHandle();
+      }
+      this._activeRecipe.removeParticle(particle);
+    }
+    const retained = new Set([].concat(...this._recipes.map(recipe => recipe.handles)));
+    for (const handle of handles) {
+      if (handle.connections.length > 0 || retained.has(handle)) {
+        continue;
+      }
+      this._activeRecipe.removeHandle(handle);
+      for (const [recipeHandle, store] of stores) {
+        if (store.id === handle.id) {
+          this._removeStore(store);
+          removed.set(recipeHandle, store);
+        }
+      }
+    }
+    // Slots are removed along with their last consumer; this catches slots that had none.
+    for (const slot of arcRecipe.slots) {
+      if (this._activeRecipe.slots.includes(slot) && slot.consumeConnections.length === 0) {
+        this._activeRecipe.removeSlot(slot);
+      }
+    }
+    this._onDataChange();
+    return removed;
+  }
+
+  // Stops a particle and forgets it, leaving the caller to remove it from its recipe.
+  private _removeParticle(particle: Particle) {
+    const pec = this.pecFor(particle);
+    pec.stopParticle(particle);
+    pec.particleRemoved(particle);
+    this.particleHandleMaps.delete(particle.id);
+    this.particleGroups.delete(particle.id);
+    this.supervisor.particleRemoved(particle);
+  }
+
+  // Removes the particles of the inner arc hosted by particle, and of the inner arcs that they
+  // host in turn, and disposes of the stores created for them.
+  private _removeInnerArc(particle: Particle, innerArcs: Map<Particle, {}>) {
+    const innerArc = innerArcs.get(particle) as {recipes: ArcRecipe[]}|undefined;
+    for (const arcRecipe of innerArc ? innerArc.recipes : []) {
+      if (this.pec.slotComposer) {
+        this.pec.slotComposer.detachParticles(arcRecipe.particles);
+      }
+      for (const innerParticle of arcRecipe.particles) {
+        this._removeParticle(innerParticle);
+        this._removeInnerArc(innerParticle, arcRecipe.innerArcs);
+      }
+    }
+    for (const store of this.innerArcStores.get(particle) || []) {
+      this._removeStore(store);
+      store.dispose();
+    }
+    this.innerArcStores.delete(particle);
+  }
+
+  get canUndo(): boolean {
+    return this.instantiations.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  /**
+   * Uninstantiates the most recently instantiated recipe, returning it, or
+   * null if there is nothing to undo. The recipe can be reinstated with
+   * redo() until another recipe is instantiated.
+   */
+  async undo(): Promise<Recipe|null> {
+    if (!this.canUndo) {
+      return null;
+    }
+    const {recipe} = this.instantiations[this.instantiations.length - 1];
+    const tags = new Map(this._stores.map(store => [store, [...this.findStoreTags(store)]] as [StorageProviderBase, string[]]));
+    const descriptions = new Map(this._stores.map(store => [store, this.getStoreDescription(store)] as [StorageProviderBase, Description]));
+    const removed = await this.uninstantiate(recipe);
+    const stores = [...removed].map(([handle, store]) => ({handle, store, tags: tags.get(store), description: descriptions.get(store)}));
+    this.undone.push({recipe, stores});
+    return recipe;
+  }
+
+  /**
+   * Instantiates the most recently undone recipe again, with the stores that
+   * were created for it, returning it, or null if there is nothing to redo.
+   */
+  async redo(): Promise<Recipe|null> {
+    if (!this.canRedo) {
+      return null;
+    }
+    const {recipe, stores} = this.undone.pop();
+    // A copy of the recipe whose handles use the stores instead of creating new ones.
+    const cloneMap = new Map();
+    const clone = recipe.clone(cloneMap);
+    for (const {handle, store, tags, description} of stores) {
+      this._registerStore(store, tags);
+      if (description) {
+        this.storeDescriptions.set(store, description);
+      }
+      cloneMap.get(handle).mapToStorage(store);
+      cloneMap.get(handle).fate = 'use';
+    }
+    assert(clone.normalize({}), `Cannot redo ${recipe.toString()}`);
+    // Instantiating the copy mustn't discard the recipes that can still be redone.
+    const undone = this.undone;
+    this.undone = [];
+    try {
+      await this.instantiate(clone);
+    } finally {
+      this.undone = undone;
+    }
+    this.instantiations[this.instantiations.length - 1].recipe = recipe;
+    this.instantiations[this.instantiations.length - 1].stores = new Map(stores.map(({handle, store}) => [handle, store] as [Handle, StorageProviderBase]));
+    return recipe;
+  }
+
+  // Disposes of the stores of recipes that can no longer be redone.
+  private discardUndone() {
+    for (const {stores} of this.undone) {
+      stores.forEach(({store}) => store.dispose());
+    }
+    this.undone = [];
+  }
+
+  /**
+   * Stops a single particle. It keeps its place in the active recipe but
+   * receives no further storage or UI events until it is restarted.
+   */
+  stopParticle(particle: Particle) {
+    assert(this.particleHandleMaps.has(particle.id), `Cannot stop particle ${particle.name}, which isn't running in this arc`);
+    this.supervisor.particleStopped(particle);
+    this.pecFor(particle).stopParticle(particle);
+  }
+
+  /**
+   * Replaces a running or stopped particle with a new instance connected to
+   * the same handles, which are re-synced. With reload set, the particle's
+   * implementation is loaded again rather than reused.
+   */
+  restartParticle(particle: Particle, {reload = false}: {reload?: boolean} = {}) {
+    assert(this.particleHandleMaps.has(particle.id), `Cannot restart particle ${particle.name}, which isn't in this arc`);
+    this.supervisor.particleStarted(particle);
+    this.pecFor(particle).restartParticle(particle, reload);
+  }
+
+  /**
+   * Watches the implementation files of the arc's particles through the
+   * Loader, and restarts the particles with the new implementation whenever
+   * one changes. Particles stopped with stopParticle() are left stopped, but
+   * crashed particles are restarted.
+   */
+  enableHotReload() {
+    if (!this.hotReloadWatchers && this.loader) {
+      this.hotReloadWatchers = new Map();
+      this._activeRecipe.particles.forEach(particle => this._watchImplementation(particle));
+    }
+  }
+
+  disableHotReload() {
+    if (this.hotReloadWatchers) {
+      this.hotReloadWatchers.forEach(unwatch => unwatch());
+      this.hotReloadWatchers = null;
+    }
+  }
+
+  private _watchImplementation(particle: Particle) {
+    const implFile = particle.spec && particle.spec.implFile;
+    if (!this.hotReloadWatchers || !implFile || this.hotReloadWatchers.has(implFile)) {
+      return;
+    }
+    let timeout = null;
+    const unwatch = this.loader.watch(implFile, () => {
+      // A save is often reported as several changes; reload once they've settled.
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        this._activeRecipe.particles
+            .filter(p => p.spec.implFile === implFile && this.supervisor.state(p) !== 'stopped')
+            .forEach(p => this.restartParticle(p, {reload: true}));
+      }, 50);
+    });
+    this.hotReloadWatchers.set(implFile, () => {
+      clearTimeout(timeout);
+      unwatch();
+    });
+  }
+
   _connectParticleToHandle(particle, name, targetHandle) {
     assert(targetHandle, 'no target handle provided');
     const handleMap = this.particleHandleMaps.get(particle.id);
@@ -559,6 +896,11 @@ ${this.activeRecipe.toString()}`;
     const store = await this.storageProviderFactory.construct(id, type, storageKey);
     assert(store, `failed to create store with id [${id}]`);
     store.name = name;
+    // Particles' writes lock the backing store along with the store, which can only
+    // be done without delaying them once the backing store exists.
+    if (store.referenceMode) {
+      await store.ensureBackingStore();
+    }
 
     this._registerStore(store, tags);
     return store;
@@ -575,7 +917,16 @@ ${this.activeRecipe.toString()}`;
     this.storeTags.set(store, new Set(tags));
 
     this.storageKeys[store.id] = store.storageKey;
-    store.on('change', () => this._onDataChange(), this);
+    store.on('change', this.storeChangeCallback, this);
+  }
+
+  _removeStore(store: StorageProviderBase) {
+    assert(this.storesById.get(store.id) === store, `Store not registered '${store.id}'`);
+    store.off('change', this.storeChangeCallback);
+    this.storesById.delete(store.id);
+    this.storeTags.delete(store);
+    this.storeDescriptions.delete(store);
+    delete this.storageKeys[store.id];
   }
 
   _tagStore(store, tags) {
@@ -688,7 +1039,7 @@ ${this.activeRecipe.toString()}`;
   }
 
   stop(): void {
-    this.pec.stop();
+    this.pecs.forEach(pec => pec.stop());
   }
 
   toContextString(options): string {
@@ -12,6 +12,7 @@ import {Symbols} from './symbols.js';
 import {assert} from '../../platform/assert-web.js';
 import {ParticleSpec} from './particle-spec.js';
 import {StorageProxy} from '../storage-proxy.js';
+import {IndexRange, Query, QueryValue, validateIndexRange, validateQuery} from './storage/query.js';
 
 // TODO: This won't be needed once runtime is transferred between contexts.
 function cloneData(data) {
@@ -109,11 +110,68 @@ export class Handle {
     throw new Error('unimplemented');
   }
 
+  /** @method transaction()
+   * Returns a new HandleTransaction. Pass it to the write methods of this or
+   * any other of the particle's handles, then call commit() to apply them.
+   */
+  transaction(): HandleTransaction {
+    return new HandleTransaction(this._proxy);
+  }
+
   toManifestString() {
     return `'${this._id}'`;
   }
 }
 
+/** @class HandleTransaction
+ * Groups writes to one or more handles so that they are applied to the backing
+ * stores atomically, with a single change event per store. Writes made with a
+ * transaction are reflected in the particle's handles immediately, but are not
+ * sent to the backing stores until commit() is called.
+ */
+export class HandleTransaction {
+  readonly id: string;
+  private readonly _proxy: StorageProxy;
+  private _committed = false;
+  // The proxies of the handles written with this transaction.
+  private readonly _proxies = new Set<StorageProxy>();
+
+  constructor(proxy: StorageProxy) {
+    this._proxy = proxy;
+    this.id = proxy.generateID();
+  }
+
+  // Called by the Handle write methods; returns the id to send with the write.
+  _enlist(proxy: StorageProxy): string {
+    if (this._committed) {
+      throw new Error('Transaction has already been committed');
+    }
+    this._proxies.add(proxy);
+    return this.id;
+  }
+
+  /** @method commit()
+   * Applies the writes made with this transaction. Rejects if any of them
+   * fails, in which case none of them are applied and the written handles
+   * are resynchronized with their backing stores.
+   */
+  async commit() {
+    if (this._committed) {
+      throw new Error('Transaction has already been committed');
+    }
+    this._committed = true;
+    if (this._proxies.size === 0) {
+      return;
+    }
+    try {
+      await this._proxy.commitTransaction(this.id);
+    } catch (e) {
+      this._proxies.forEach(proxy => proxy.resynchronize());
+      throw e;
+    }
+  }
+}
+
 /** @class Collection
  * A handle on a set of Entity data. Note that, as a set, a Collection can only
  * contain a single version of an Entity for each given ID. Further, no order is
@@ -122,13 +180,13 @@ export class Handle {
  * which handles are connected.
  */
 class Collection extends Handle {
-  // Called by StorageProxy.
+  // Called by StorageProxy. Returns what the particle's handler returns, so that the
+  // scheduler can time asynchronous handlers.
   _notify(kind, particle, details) {
     assert(this.canRead, '_notify should not be called for non-readable handles');
     switch (kind) {
       case 'sync':
-        particle.onHandleSync(this, this._restore(details));
-        return;
+        return particle.onHandleSync(this, this._restore(details));
       case 'update': {
         // tslint:disable-next-line: no-any
         const update: {added?: any, removed?: any, originator?: any} = {};
@@ -140,12 +198,12 @@ class Collection extends Handle {
           update.removed = this._restore(details.remove);
         }
         update.originator = details.originatorId === this._particleId;
-        particle.onHandleUpdate(this, update);
-        return;
+        return particle.onHandleUpdate(this, update);
       }
       case 'desync':
-        particle.onHandleDesync(this);
-        return;
+        return particle.onHandleDesync(this);
+      case 'syncStatus':
+        return particle.onHandleSyncStatus(this, details);
       default:
         throw new Error('unsupported');
     }
@@ -176,22 +234,38 @@ class Collection extends Handle {
     return this._restore(await this._proxy.toList(this._particleId));
   }
 
+  /** @method async query(query)
+   * Returns the Entities contained by the handle that match query, e.g.
+   * `{where: [{field: 'price', op: '<', value: 10}], orderBy: [{field: 'name'}], limit: 20}`.
+   * Unless the handle is synchronized, the query is run by storage and only the
+   * matching Entities are returned to the particle.
+   * throws: Error if the query is malformed, or if this handle is not configured as a
+   * readable handle (i.e. 'in' or 'inout') in the particle's manifest.
+   */
+  async query(query: Query) {
+    if (!this.canRead) {
+      throw new Error('Handle not readable');
+    }
+    validateQuery(query);
+    return this._restore(await this._proxy.query(query, this._particleId));
+  }
+
   _restore(list) {
     return (list !== null) ? list.map(a => restore(a, this.entityClass)) : null;
   }
 
-  /** @method store(entity)
-   * Stores a new entity into the Handle.
+  /** @method store(entity, transaction?)
+   * Stores a new entity into the Handle, or adds the store to transaction if one is given.
    * throws: Error if this handle is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async store(entity) {
+  async store(entity, transaction: HandleTransaction = null) {
     if (!this.canWrite) {
       throw new Error('Handle not writeable');
     }
     const serialization = this._serialize(entity);
     const keys = [this._proxy.generateID() + 'key'];
-    return this._proxy.store(serialization, keys, this._particleId);
+    return this._proxy.store(serialization, keys, this._particleId, transaction && transaction._enlist(this._proxy));
   }
 
   /** @method clear()
@@ -206,19 +280,19 @@ class Collection extends Handle {
     return this._proxy.clear();
   }
 
-  /** @method remove(entity)
-   * Removes an entity from the Handle.
+  /** @method remove(entity, transaction?)
+   * Removes an entity from the Handle, or adds the removal to transaction if one is given.
    * throws: Error if this handle is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async remove(entity) {
+  async remove(entity, transaction: HandleTransaction = null) {
     if (!this.canWrite) {
       throw new Error('Handle not writeable');
     }
     const serialization = this._serialize(entity);
     // Remove the keys that exist at storage/proxy.
     const keys = [];
-    return this._proxy.remove(serialization.id, keys, this._particleId);
+    return this._proxy.remove(serialization.id, keys, this._particleId, transaction && transaction._enlist(this._proxy));
   }
 }
 
@@ -240,8 +314,13 @@ class Variable extends Handle {
         }
         return;
       case 'update': {
+        // Concurrent values are only given for variables with the 'multi-value' conflict policy.
+        const update = {data: this._restore(details.data)};
+        if (details.conflicts) {
+          Object.assign(update, {conflicts: details.conflicts.map(value => this._restore(value))});
+        }
         try {
-          await particle.onHandleUpdate(this, {data: this._restore(details.data)});
+          await particle.onHandleUpdate(this, update);
         } catch (e) {
           this.raiseSystemException(e, `${particle.name}::onHandleUpdate`);
         }
@@ -254,6 +333,13 @@ class Variable extends Handle {
           this.raiseSystemException(e, `${particle.name}::onHandleDesync`);
         }
         return;
+      case 'syncStatus':
+        try {
+          await particle.onHandleSyncStatus(this, details);
+        } catch (e) {
+          this.raiseSystemException(e, `${particle.name}::onHandleSyncStatus`);
+        }
+        return;
       default:
         throw new Error('unsupported');
     }
@@ -284,38 +370,39 @@ class Variable extends Handle {
       return ParticleSpec.fromLiteral(model);
     }
     if (this.type.isReference) {
-      return new Reference(model, this.type, this._proxy.pec);
+      return new Reference(model, this.type, this._proxy.pec, this._particleId);
     }
     assert(false, `Don't know how to deliver handle data of type ${this.type}`);
   }
 
-  /** @method set(entity)
-   * Stores a new entity into the Variable, replacing any existing entity.
+  /** @method set(entity, transaction?)
+   * Stores a new entity into the Variable, replacing any existing entity, or adds the
+   * write to transaction if one is given.
    * throws: Error if this variable is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async set(entity) {
+  async set(entity, transaction: HandleTransaction = null) {
     try {
       if (!this.canWrite) {
         throw new Error('Handle not writeable');
       }
-      return this._proxy.set(this._serialize(entity), this._particleId);
+      return this._proxy.set(this._serialize(entity), this._particleId, transaction && transaction._enlist(this._proxy));
     } catch (e) {
       this.raiseSystemException(e, 'Handle::set');
       throw e;
     }
   }
 
-  /** @method clear()
-   * Clears any entity currently in the Variable.
+  /** @method clear(transaction?)
+   * Clears any entity currently in the Variable, or adds the clear to transaction if one is given.
    * throws: Error if this variable is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async clear() {
+  async clear(transaction: HandleTransaction = null) {
     if (!this.canWrite) {
       throw new Error('Handle not writeable');
     }
-    return this._proxy.clear(this._particleId);
+    return this._proxy.clear(this._particleId, transaction && transaction._enlist(this._proxy));
   }
 }
 
@@ -371,34 +458,50 @@ class BigCollection extends Handle {
     await particle.onHandleSync(this, []);
   }
 
-  /** @method store(entity)
-   * Stores a new entity into the Handle.
+  /** @method store(entity, transaction?)
+   * Stores a new entity into the Handle, or adds the store to transaction if one is given.
    * throws: Error if this handle is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async store(entity) {
+  async store(entity, transaction: HandleTransaction = null) {
     if (!this.canWrite) {
       throw new Error('Handle not writeable');
     }
     const serialization = this._serialize(entity);
     const keys = [this._proxy.generateID() + 'key'];
-    return this._proxy.store(serialization, keys, this._particleId);
+    return this._proxy.store(serialization, keys, this._particleId, transaction && transaction._enlist(this._proxy));
   }
 
-  /** @method remove(entity)
-   * Removes an entity from the Handle.
+  /** @method remove(entity, transaction?)
+   * Removes an entity from the Handle, or adds the removal to transaction if one is given.
    * throws: Error if this handle is not configured as a writeable handle (i.e. 'out' or 'inout')
    * in the particle's manifest.
    */
-  async remove(entity) {
+  async remove(entity, transaction: HandleTransaction = null) {
     if (!this.canWrite) {
       throw new Error('Handle not writeable');
     }
     const serialization = this._serialize(entity);
-    return this._proxy.remove(serialization.id, [], this._particleId);
+    return this._proxy.remove(serialization.id, [], this._particleId, transaction && transaction._enlist(this._proxy));
+  }
+
+  /** @method async query(query)
+   * Returns the Entities in the collection that match query. The query is run by storage, so
+   * only the matching Entities are returned to the particle; use limit and offset to page
+   * through large results.
+   * throws: Error if the query is malformed, or if this handle is not configured as a
+   * readable handle (i.e. 'in' or 'inout') in the particle's manifest.
+   */
+  async query(query: Query) {
+    if (!this.canRead) {
+      throw new Error('Handle not readable');
+    }
+    validateQuery(query);
+    const results = await this._proxy.query(query, this._particleId);
+    return results.map(a => restore(a, this.entityClass));
   }
 
-  /** @method stream({pageSize, forward})
+  /** @method stream({pageSize, forward, index, lower, upper})
    * Returns a Cursor instance that iterates over the full set of entities, reading `pageSize`
    * entities at a time. The cursor views a snapshot of the collection, locked to the version
    * at which the cursor is created.
@@ -407,17 +510,28 @@ class BigCollection extends Handle {
    * caveat that items removed during a streamed read may be returned at the end). Set `forward`
    * to false to return items in reverse insertion order.
    *
+   * Set `index` to the name of a field indexed by the schema (declared in the manifest with
+   * `index Schema.field`) to read entities in order of their value for that field instead.
+   * Entities without a value for the field are skipped, as are those with values outside
+   * `lower` and `upper` (both inclusive and optional).
+   *
    * throws: Error if this variable is not configured as a readable handle (i.e. 'in' or 'inout')
-   * in the particle's manifest.
+   * in the particle's manifest, or if `index` is not indexed by the schema.
    */
-  async stream({pageSize, forward = true}) {
+  async stream({pageSize, forward = true, index = null, lower = null, upper = null}:
+               {pageSize: number, forward?: boolean, index?: string, lower?: QueryValue, upper?: QueryValue}) {
     if (!this.canRead) {
       throw new Error('Handle not readable');
     }
     if (isNaN(pageSize) || pageSize < 1) {
       throw new Error('Streamed reads require a positive pageSize');
     }
-    const cursorId = await this._proxy.stream(pageSize, forward);
+    let range: IndexRange = null;
+    if (index !== null) {
+      range = {index, lower, upper};
+      validateIndexRange(range, this._proxy.type.getEntitySchema());
+    }
+    const cursorId = await this._proxy.stream(pageSize, forward, range);
     return new Cursor(this, cursorId);
   }
 }
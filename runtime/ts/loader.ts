@@ -19,6 +19,7 @@ import {newClientReference} from './reference.js';
 import {TransformationDomParticle} from '../transformation-dom-particle.js';
 import {JsonldToManifest} from './converters/jsonldToManifest.js';
 import {ParticleExecutionContext} from './particle-execution-context.js';
+import {CapabilityError, ParticleSpec} from './particle-spec.js';
 
 const html = (strings, ...values) => (strings[0] + values.map((v, i) => v + strings[i + 1]).join('')).trim();
 
@@ -87,13 +88,30 @@ export class Loader {
     return fetch(url).then(res => res.text());
   }
 
+  /**
+   * Calls onChange whenever the local file fileName changes. Returns a
+   * function that stops watching. URLs, and files on hosts without file
+   * system access, are not watched.
+   */
+  watch(fileName: string, onChange: () => void): () => void {
+    if (/^https?:\/\//.test(fileName) || !fs.watch) {
+      return () => {};
+    }
+    const watcher = fs.watch(fileName, () => onChange());
+    return () => watcher.close();
+  }
+
   async loadParticleClass(spec) {
-    const clazz = await this.requireParticle(spec.implFile);
+    const clazz = await this.requireParticle(spec.implFile, spec);
     clazz.spec = spec;
     return clazz;
   }
 
-  async requireParticle(fileName) {
+  // Particles whose spec doesn't permit the network capability are given a fetch that fails.
+  // This is advisory: the script context isn't a sandbox, so a particle that must not reach
+  // the network needs a PEC without network access, such as a worker under a restrictive
+  // Content-Security-Policy.
+  async requireParticle(fileName, spec: ParticleSpec|null = null) {
     if (fileName === null) fileName = '';
     const src = await this.loadResource(fileName);
     // Note. This is not real isolation.
@@ -104,7 +122,7 @@ export class Loader {
         result.push(particleWrapper);
       },
       console,
-      fetch,
+      fetch: spec && !spec.permits('network') ? async () => { throw new CapabilityError(null, spec, 'network'); } : fetch,
       setTimeout,
       importScripts: s => null //console.log(`(skipping browser-space import for [${s}])`)
     };
@@ -0,0 +1,189 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {parser} from '../build/manifest-parser.js';
+import {ManifestParseError} from './manifest.js';
+
+export type FormatOptions = {
+  // Spaces per level of indentation; 2 by default.
+  indent?: number;
+  // Used in error messages.
+  fileName?: string;
+};
+
+type Line = {
+  text: string;
+  kind: 'code'|'comment'|'blank'|'verbatim'|'resource';
+  level?: number;
+  // Whether a code line ends within a string, whose trailing whitespace is kept.
+  endsInString?: boolean;
+  // For resource bodies, the indentation of the resource's start line.
+  startIndent?: number;
+};
+
+function parse(content: string, fileName: string) {
+  try {
+    return parser.parse(content);
+  } catch (e) {
+    if (!e.location) {
+      throw e;
+    }
+    throw new ManifestParseError(`Parse error in '${fileName}' line ${e.location.start.line}.\n${e.message}`,
+        fileName, e.location, e.message);
+  }
+}
+
+// The parsed items without their locations, which are all that formatting may change.
+function withoutLocations(items): string {
+  return JSON.stringify(items, (key, value) => key === 'location' ? undefined : value);
+}
+
+const leadingSpaces = (text: string) => text.match(/^ */)[0].length;
+
+// Returns the string, if any, that's open at the end of the line: a backquoted
+// pattern or a quoted id.
+function openStringAfter(text: string, open: string|null): string|null {
+  for (let i = 0; i < text.length; i++) {
+    if (open) {
+      if (text[i] === open) {
+        open = null;
+      }
+    } else if (text.startsWith('//', i)) {
+      break;
+    } else if (text[i] === '`' && !/^`(consume|provide|slot)\b/.test(text.substring(i))) {
+      open = '`';
+    } else if (text[i] === `'`) {
+      open = `'`;
+    }
+  }
+  return open;
+}
+
+/**
+ * Formats a manifest canonically: each level of a block is indented by the same
+ * number of spaces, comments are indented with the code around them, trailing
+ * whitespace and runs of blank lines are removed, and the file ends with a
+ * newline. Comments, the order of items and the text of items are preserved.
+ * The result is checked to parse to the same items as the original, so formatting
+ * never changes the manifest; it throws a ManifestParseError if the original
+ * doesn't parse.
+ */
+export function formatManifest(content: string, options: FormatOptions = {}): string {
+  const {indent = 2, fileName = '<manifest>'} = options;
+  const items = parse(content, fileName);
+  const resourceLines = new Set(items.filter(item => item.kind === 'resource').map(item => item.location.start.line - 1));
+
+  const lines: Line[] = [];
+  const source = content.split('\n');
+  const isSpace = (text: string) => /^ *(\/\/.*)?\r?$/.test(text);
+  const skipSpace = (i: number) => {
+    while (i + 1 < source.length && isSpace(source[i + 1])) {
+      i++;
+      lines.push({text: source[i], kind: source[i].trim() === '' ? 'blank' : 'comment'});
+    }
+    return i;
+  };
+  let open: string|null = null;
+  for (let i = 0; i < source.length; i++) {
+    const text = source[i];
+    if (open) {
+      // The line continues a string from the previous one.
+      open = openStringAfter(text, open);
+      lines.push({text, kind: 'verbatim'});
+    } else if (text.trim() === '') {
+      lines.push({text, kind: 'blank'});
+    } else if (text.trim().startsWith('//')) {
+      lines.push({text, kind: 'comment'});
+    } else {
+      open = openStringAfter(text, null);
+      lines.push({text, kind: 'code', endsInString: open !== null});
+    }
+    if (resourceLines.has(i)) {
+      // A resource's body follows its start line, and is kept as it is relative to that line.
+      i = skipSpace(i);
+      if (i + 1 < source.length) {
+        lines.push({text: source[++i], kind: 'code'});
+        const startIndent = leadingSpaces(source[i]);
+        i = skipSpace(i);
+        while (i + 1 < source.length && source[i + 1].length > 0 && leadingSpaces(source[i + 1]) >= startIndent) {
+          lines.push({text: source[++i], kind: 'resource', startIndent});
+        }
+      }
+    }
+  }
+
+  // Each block is indented further than the one that contains it, by any amount.
+  const indents: number[] = [];
+  const indentsBefore = new Map<Line, number[]>();
+  for (const line of lines) {
+    if (line.kind === 'comment') {
+      indentsBefore.set(line, indents.slice());
+    } else if (line.kind === 'code') {
+      const spaces = leadingSpaces(line.text);
+      while (indents.length > 0 && indents[indents.length - 1] > spaces) {
+        indents.pop();
+      }
+      if (indents.length === 0 || indents[indents.length - 1] < spaces) {
+        indents.push(spaces);
+      }
+      line.level = indents.length - 1;
+    }
+  }
+  // Comments are indented with the code that follows them, unless they're indented
+  // further, as commented out code at the end of a block is.
+  let next: Line|null = null;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    if (line.kind === 'code') {
+      next = line;
+    } else if (line.kind === 'comment') {
+      const spaces = leadingSpaces(line.text);
+      if (next && spaces <= leadingSpaces(next.text)) {
+        line.level = next.level;
+      } else {
+        const enclosing = indentsBefore.get(line);
+        const deeper = enclosing.length > 0 && spaces > enclosing[enclosing.length - 1];
+        line.level = Math.max(0, enclosing.filter(width => width <= spaces).length - (deeper ? 0 : 1));
+      }
+    }
+  }
+
+  const output: string[] = [];
+  let level = 0;
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'code':
+        level = line.level;
+        output.push(' '.repeat(level * indent) + (line.endsInString ? line.text.trimLeft() : line.text.trim()));
+        break;
+      case 'comment':
+        output.push(' '.repeat(line.level * indent) + line.text.trim());
+        break;
+      case 'resource':
+        // Indented with the start line that precedes it.
+        output.push(' '.repeat(level * indent) + line.text.substring(line.startIndent));
+        break;
+      case 'verbatim':
+        output.push(line.text);
+        break;
+      default:
+        if (output.length > 0 && output[output.length - 1] !== '') {
+          output.push('');
+        }
+    }
+  }
+  while (output.length > 0 && output[output.length - 1] === '') {
+    output.pop();
+  }
+  const formatted = output.join('\n') + '\n';
+
+  if (withoutLocations(parse(formatted, fileName)) !== withoutLocations(items)) {
+    throw new Error(`Formatting '${fileName}' would change its meaning`);
+  }
+  return formatted;
+}
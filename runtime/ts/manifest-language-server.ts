@@ -0,0 +1,94 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {ManifestLanguageService} from './manifest-language-service.js';
+
+export type Message = {jsonrpc: '2.0', id?: number|string, method?: string, params?, result?, error?: {code: number, message: string}};
+
+const MethodNotFound = -32601;
+const InternalError = -32603;
+
+/**
+ * The Language Server Protocol's JSON-RPC methods for manifest files, answered by a
+ * ManifestLanguageService. The transport (framing messages on stdio, for example)
+ * is left to the host: it passes each message it receives to handle, and sends the
+ * response that is returned and any notifications passed to notify.
+ */
+export class ManifestLanguageServer {
+  private shutdownRequested = false;
+
+  constructor(private readonly service: ManifestLanguageService,
+              private readonly notify: (message: Message) => void,
+              private readonly exit: (code: number) => void = () => {}) {}
+
+  // Returns the response to a request, or null for a notification.
+  async handle(message: Message): Promise<Message|null> {
+    const {id, method, params} = message;
+    try {
+      const result = await this.dispatch(method, params);
+      return id === undefined ? null : {jsonrpc: '2.0', id, result};
+    } catch (e) {
+      if (id === undefined) {
+        return null;
+      }
+      const code = e.code || InternalError;
+      return {jsonrpc: '2.0', id, error: {code, message: e.message}};
+    }
+  }
+
+  private async dispatch(method: string, params) {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            // Documents are synchronized by sending their full text.
+            textDocumentSync: 1,
+            hoverProvider: true,
+            definitionProvider: true,
+            completionProvider: {triggerCharacters: ['&']},
+          },
+        };
+      case 'initialized':
+        return null;
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'exit':
+        this.exit(this.shutdownRequested ? 0 : 1);
+        return null;
+      case 'textDocument/didOpen':
+        return this.updated(params.textDocument.uri, params.textDocument.text);
+      case 'textDocument/didChange': {
+        const changes = params.contentChanges;
+        return this.updated(params.textDocument.uri, changes[changes.length - 1].text);
+      }
+      case 'textDocument/didClose':
+        this.service.close(params.textDocument.uri);
+        this.notify({jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: {uri: params.textDocument.uri, diagnostics: []}});
+        return null;
+      case 'textDocument/hover':
+        return this.service.hover(params.textDocument.uri, params.position);
+      case 'textDocument/definition':
+        return this.service.definition(params.textDocument.uri, params.position);
+      case 'textDocument/completion':
+        return this.service.completion(params.textDocument.uri, params.position);
+      default: {
+        const error = new Error(`Unsupported method ${method}`);
+        error['code'] = MethodNotFound;
+        throw error;
+      }
+    }
+  }
+
+  private async updated(uri: string, text: string) {
+    this.service.update(uri, text);
+    const diagnostics = await this.service.diagnostics(uri);
+    this.notify({jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: {uri, diagnostics}});
+    return null;
+  }
+}
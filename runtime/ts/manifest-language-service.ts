@@ -0,0 +1,355 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {parser} from '../build/manifest-parser.js';
+import {Loader} from './loader.js';
+import {Manifest, ManifestError, ManifestParseError} from './manifest.js';
+import {Handle} from './recipe/handle.js';
+import {SourceLocation} from './recipe/type-checker.js';
+
+// The structures below follow the Language Server Protocol, where lines and
+// characters are 0-based (the parser's locations are 1-based).
+export type Position = {line: number, character: number};
+export type Range = {start: Position, end: Position};
+export type Location = {uri: string, range: Range};
+
+export enum DiagnosticSeverity {Error = 1, Warning = 2}
+export type Diagnostic = {range: Range, severity: DiagnosticSeverity, source: string, message: string};
+
+export type Hover = {contents: {kind: 'markdown', value: string}, range?: Range};
+
+export enum CompletionItemKind {Field = 5, Value = 12}
+export type CompletionItem = {label: string, kind: CompletionItemKind, detail?: string};
+
+// The fields of the parser's output that are used here.
+type AstNode = {
+  kind: string;
+  location: SourceLocation;
+  name?: string;
+  names?: string[];
+  alias?: string;
+  path?: string;
+  param?: string;
+  items?: AstNode[];
+};
+
+type Analysis = {
+  text: string;
+  // The parser's output, for mapping positions to manifest items.
+  ast: AstNode[]|null;
+  manifest: Manifest|null;
+  error: Error|null;
+};
+
+export function fileNameForUri(uri: string): string {
+  return uri.startsWith('file://') ? decodeURIComponent(uri.substring('file://'.length)) : uri;
+}
+
+export function uriForFileName(fileName: string): string {
+  return fileName.startsWith('/') ? `file://${encodeURI(fileName)}` : fileName;
+}
+
+function rangeOf(location: SourceLocation): Range {
+  return {
+    start: {line: location.start.line - 1, character: location.start.column - 1},
+    end: {line: location.end.line - 1, character: location.end.column - 1},
+  };
+}
+
+function offsetOf(text: string, {line, character}: Position): number {
+  const lines = text.split('\n');
+  let offset = 0;
+  for (let i = 0; i < line && i < lines.length; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + character;
+}
+
+// Returns the chain of AST nodes enclosing offset, outermost first.
+function nodesAt(ast: AstNode[], offset: number): AstNode[] {
+  const path: AstNode[] = [];
+  const visit = value => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const {location} = value;
+      if (location && location.start && (location.start.offset > offset || location.end.offset < offset)) {
+        return;
+      }
+      if (value.kind && location) {
+        path.push(value);
+      }
+      Object.keys(value).filter(key => key !== 'location').forEach(key => visit(value[key]));
+    }
+  };
+  visit(ast);
+  return path;
+}
+
+function wordAt(text: string, position: Position): string {
+  const line = text.split('\n')[position.line] || '';
+  let start = position.character;
+  let end = position.character;
+  while (start > 0 && /[\w]/.test(line[start - 1])) start--;
+  while (end < line.length && /[\w]/.test(line[end])) end++;
+  return line.substring(start, end);
+}
+
+function defines(item: AstNode, name: string): boolean {
+  switch (item.kind) {
+    case 'schema':
+      return item.names.includes(name) || item.alias === name;
+    case 'particle':
+    case 'shape':
+      return item.name === name;
+    default:
+      return false;
+  }
+}
+
+// Serves the open documents in place of their saved versions.
+class DocumentLoader extends Loader {
+  constructor(private readonly base: Loader, private readonly documents: Map<string, string>) {
+    super();
+  }
+
+  path(fileName) {
+    return this.base.path(fileName);
+  }
+
+  join(prefix, path) {
+    return this.base.join(prefix, path);
+  }
+
+  loadResource(fileName) {
+    const text = this.documents.get(fileName);
+    return text !== undefined ? Promise.resolve(text) : this.base.loadResource(fileName);
+  }
+}
+
+/**
+ * Answers editor queries about manifest files: their errors, where the schemas,
+ * particles and shapes they mention are defined, the types of their handles and
+ * the connections and verbs that can be completed. Documents are identified by
+ * URI; those that are open are read from the editor's text rather than from disk.
+ */
+export class ManifestLanguageService {
+  private readonly documents = new Map<string, string>();
+  private readonly loader: Loader;
+  private readonly analyses = new Map<string, Promise<Analysis>>();
+  // The last manifest that processed successfully, for completing while the document is being edited.
+  private readonly lastManifests = new Map<string, Manifest>();
+
+  constructor(loader = new Loader()) {
+    this.loader = new DocumentLoader(loader, this.documents);
+  }
+
+  // Opens a document, or replaces the text of an open one.
+  update(uri: string, text: string) {
+    this.documents.set(fileNameForUri(uri), text);
+    // Any of the other documents may import this one.
+    this.analyses.clear();
+  }
+
+  close(uri: string) {
+    this.documents.delete(fileNameForUri(uri));
+    this.lastManifests.delete(uri);
+    this.analyses.clear();
+  }
+
+  async diagnostics(uri: string): Promise<Diagnostic[]> {
+    const fileName = fileNameForUri(uri);
+    const {manifest, error} = await this.analyze(uri);
+    const diagnostics: Diagnostic[] = [];
+    if (error) {
+      const located = error instanceof ManifestParseError && error.sourceLocation && error.fileName === fileName;
+      diagnostics.push({
+        range: located ? rangeOf((error as ManifestParseError).sourceLocation) : {start: {line: 0, character: 0}, end: {line: 0, character: 0}},
+        severity: DiagnosticSeverity.Error,
+        source: 'manifest',
+        message: located ? (error as ManifestParseError).reason : error.message,
+      });
+    }
+    if (manifest) {
+      // Warnings from imported manifests are reported at their import.
+      for (const warning of manifest.warnings) {
+        if (warning instanceof ManifestError && warning.location) {
+          diagnostics.push({
+            range: rangeOf(warning.location),
+            severity: DiagnosticSeverity.Warning,
+            source: 'manifest',
+            message: warning.message,
+          });
+        }
+      }
+    }
+    return diagnostics;
+  }
+
+  async definition(uri: string, position: Position): Promise<Location|null> {
+    const fileName = fileNameForUri(uri);
+    const {text, ast} = await this.analyze(uri);
+    if (!ast) {
+      return null;
+    }
+    const path = nodesAt(ast, offsetOf(text, position));
+    if (path.length > 0 && path[0].kind === 'import') {
+      const target = this.loader.join(fileName, path[0].path);
+      return {uri: uriForFileName(target), range: {start: {line: 0, character: 0}, end: {line: 0, character: 0}}};
+    }
+    const name = wordAt(text, position);
+    return name ? this.findDefinition(fileName, name, new Set()) : null;
+  }
+
+  async hover(uri: string, position: Position): Promise<Hover|null> {
+    const {text, ast, manifest} = await this.analyze(uri);
+    if (!ast || !manifest) {
+      return null;
+    }
+    const describe = (value: string) => ({contents: {kind: 'markdown' as 'markdown', value: '```\n' + value + '\n```'}});
+
+    const name = wordAt(text, position);
+    const schema = manifest.findSchemaByName(name);
+    if (schema) {
+      return describe(schema.toManifestString());
+    }
+    const spec = manifest.findParticleByName(name);
+    if (spec) {
+      return describe(spec.toString());
+    }
+    const shape = manifest.findShapeByName(name);
+    if (shape) {
+      return describe(shape.toString());
+    }
+
+    const path = nodesAt(ast, offsetOf(text, position));
+    const [item, child] = path;
+    const node = path[path.length - 1];
+    if (!node) {
+      return null;
+    }
+    if (item.kind === 'particle' && node.kind === 'particle-argument') {
+      const connection = manifest.findParticleByName(item.name).connectionMap.get(node.name);
+      return connection ? describe(`${connection.direction} ${connection.type.toString()} ${connection.name}`) : null;
+    }
+    // Within a recipe, only its particles and handles are described, not its header.
+    if (item.kind !== 'recipe' || path.length < 2) {
+      return null;
+    }
+    const recipe = manifest.recipes[ast.filter(other => other.kind === 'recipe').indexOf(item)];
+    const typeOf = handle => {
+      const type = Handle.effectiveType(handle.mappedType, handle.connections);
+      return type ? type.resolvedType().toString() : 'types do not unify';
+    };
+    if (child.kind === 'particle' && node.kind === 'handle-connection') {
+      const particle = recipe.particles[item.items.filter(other => other.kind === 'particle').indexOf(child)];
+      const connection = particle.connections[node.param];
+      if (!connection || !connection.spec) {
+        return null;
+      }
+      const lines = [`${connection.direction} ${connection.type.toString()} ${connection.getQualifiedName()}`];
+      if (connection.handle) {
+        lines.push(`${connection.handle.localName || 'handle'}: ${typeOf(connection.handle)}`);
+      }
+      return describe(lines.join('\n'));
+    }
+    if (child.kind === 'handle') {
+      const handle = recipe.handles[item.items.filter(other => other.kind === 'handle').indexOf(child)];
+      return describe(`${handle.localName || 'handle'}: ${typeOf(handle)}`);
+    }
+    return null;
+  }
+
+  async completion(uri: string, position: Position): Promise<CompletionItem[]> {
+    const {text} = await this.analyze(uri);
+    const manifest = this.lastManifests.get(uri);
+    if (!manifest) {
+      return [];
+    }
+    const lines = text.split('\n');
+    const prefix = lines[position.line].substring(0, position.character);
+    if (/&\w*$/.test(prefix)) {
+      const verbs = new Set<string>();
+      manifest.particles.forEach(spec => spec.verbs.forEach(verb => verbs.add(verb)));
+      manifest.allRecipes.forEach(recipe => recipe.verbs.forEach(verb => verbs.add(verb)));
+      return [...verbs].map(verb => ({label: verb, kind: CompletionItemKind.Value}));
+    }
+    // Within a recipe, the lines indented under a particle are its connections.
+    const indent = line => line.match(/^ */)[0].length;
+    const enclosing = (line: number, depth: number) => {
+      for (let i = line - 1; i >= 0; i--) {
+        if (lines[i].trim() && !lines[i].trim().startsWith('//') && indent(lines[i]) < depth) {
+          return i;
+        }
+      }
+      return -1;
+    };
+    const particleLine = enclosing(position.line, indent(prefix));
+    const recipeLine = particleLine >= 0 ? enclosing(particleLine, indent(lines[particleLine])) : -1;
+    if (recipeLine < 0 || !/^\s*recipe\b/.test(lines[recipeLine])) {
+      return [];
+    }
+    const spec = manifest.findParticleByName(lines[particleLine].trim().split(/\s/)[0]);
+    if (!spec) {
+      return [];
+    }
+    return spec.connections.map(connection => ({
+      label: connection.name,
+      kind: CompletionItemKind.Field,
+      detail: `${connection.direction} ${connection.type.toString()}`,
+    }));
+  }
+
+  private analyze(uri: string): Promise<Analysis> {
+    if (!this.analyses.has(uri)) {
+      this.analyses.set(uri, (async () => {
+        const fileName = fileNameForUri(uri);
+        const text = await this.loader.loadResource(fileName);
+        let ast = null;
+        try {
+          ast = parser.parse(text);
+        } catch (e) {
+          // Reported by Manifest.parse below.
+        }
+        try {
+          const manifest = await Manifest.parse(text, {fileName, loader: this.loader});
+          this.lastManifests.set(uri, manifest);
+          return {text, ast, manifest, error: null};
+        } catch (error) {
+          return {text, ast, manifest: null, error};
+        }
+      })());
+    }
+    return this.analyses.get(uri);
+  }
+
+  // Looks for the definition in the file, and then in the files it imports.
+  private async findDefinition(fileName: string, name: string, visited: Set<string>): Promise<Location|null> {
+    if (visited.has(fileName)) {
+      return null;
+    }
+    visited.add(fileName);
+    let items;
+    try {
+      items = parser.parse(await this.loader.loadResource(fileName));
+    } catch (e) {
+      return null;
+    }
+    const item = items.find(item => defines(item, name));
+    if (item) {
+      return {uri: uriForFileName(fileName), range: rangeOf(item.location)};
+    }
+    for (const {path} of items.filter(item => item.kind === 'import')) {
+      const location = await this.findDefinition(this.loader.join(fileName, path), name, visited);
+      if (location) {
+        return location;
+      }
+    }
+    return null;
+  }
+}
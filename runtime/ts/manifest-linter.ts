@@ -0,0 +1,314 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {parser} from '../build/manifest-parser.js';
+import {Loader} from './loader.js';
+import {Manifest} from './manifest.js';
+import {ParticleSpec} from './particle-spec.js';
+import {SourceLocation} from './recipe/type-checker.js';
+
+export type LintSeverity = 'error'|'warning'|'off';
+
+export type LintMessage = {
+  rule: string;
+  severity: 'error'|'warning';
+  message: string;
+  // Where the problem is, when the manifest's source could be read.
+  fileName: string|null;
+  location: SourceLocation|null;
+};
+
+export type LintOptions = {
+  // Severities that override the rules' defaults.
+  rules?: {[rule: string]: LintSeverity};
+  // Reads the manifests' sources, for the locations of problems and suppression comments.
+  loader?: Loader;
+};
+
+// A manifest being linted, with its source if that could be read.
+type LintedManifest = {
+  manifest: Manifest;
+  lines: string[]|null;
+  items: AstNode[]|null;
+};
+
+type AstNode = {
+  kind: string;
+  location: SourceLocation;
+  name?: string;
+  names?: string[];
+  alias?: string;
+  ref?: {name?: string, verbs: string[]};
+  args?: AstNode[];
+  dependentConnections?: AstNode[];
+  slots?: AstNode[];
+  providedSlots?: AstNode[];
+  items?: AstNode[];
+};
+
+type Finding = {
+  linted: LintedManifest;
+  message: string;
+  // The AST node the finding is about, for its location.
+  node?: AstNode;
+};
+
+type LintRule = {
+  severity: LintSeverity;
+  description: string;
+  check(manifests: LintedManifest[]): Finding[];
+};
+
+const topLevelItem = (linted: LintedManifest, kind: string, name: string) =>
+    linted.items && linted.items.find(item => item.kind === kind && (item.name === name || item.alias === name ||
+                                                                     (item.names && item.names[0] === name)));
+
+function recipeItems(linted: LintedManifest, recipeIndex: number, kind: string): AstNode[] {
+  const recipe = linted.items && linted.items.filter(item => item.kind === 'recipe')[recipeIndex];
+  return recipe ? recipe.items.filter(item => item.kind === kind) : [];
+}
+
+// The particles defined by the manifest itself, rather than by its imports.
+function ownParticles(manifest: Manifest): ParticleSpec[] {
+  const imported = new Set(manifest.imports.reduce((specs, imported) => specs.concat(imported.particles), []));
+  return manifest.particles.filter(spec => !imported.has(spec));
+}
+
+// Adds the names of the schemas in a type's literal form, such as those of its
+// entities and the entities they reference.
+function addSchemaNames(literal, names: Set<string>) {
+  if (Array.isArray(literal)) {
+    literal.forEach(value => addSchemaNames(value, names));
+  } else if (literal && typeof literal === 'object') {
+    if (Array.isArray(literal.names) && literal.fields) {
+      literal.names.forEach(name => names.add(name));
+    }
+    Object.keys(literal).forEach(key => addSchemaNames(literal[key], names));
+  }
+}
+
+const rules: {[name: string]: LintRule} = {
+  'unused-schema': {
+    severity: 'warning',
+    description: 'Schemas that no particle, shape, store or other schema refers to',
+    check(manifests) {
+      const used = new Set<string>();
+      for (const {manifest} of manifests) {
+        ownParticles(manifest).forEach(spec => spec.connections.forEach(connection => addSchemaNames(connection.type.toLiteral(), used)));
+        manifest.shapes.forEach(shape => shape.handles.filter(handle => handle.type).forEach(handle => addSchemaNames(handle.type.toLiteral(), used)));
+        manifest.stores.filter(store => store.type).forEach(store => addSchemaNames(store.type.toLiteral(), used));
+        Object.values(manifest.schemas).forEach(schema => {
+          schema.names.slice(1).forEach(name => used.add(name));
+          Object.values(schema.fields).forEach(field => addSchemaNames(field, used));
+        });
+      }
+      const findings: Finding[] = [];
+      for (const linted of manifests) {
+        for (const [name, schema] of Object.entries(linted.manifest.schemas)) {
+          if (!used.has(name) && !used.has(schema.names[0])) {
+            findings.push({linted, message: `Schema '${name}' is never used`, node: topLevelItem(linted, 'schema', name)});
+          }
+        }
+      }
+      return findings;
+    }
+  },
+
+  'unbound-in-connection': {
+    severity: 'warning',
+    description: `Particles' required 'in' connections that no recipe binds`,
+    check(manifests) {
+      const bound = new Set<string>();
+      for (const {manifest} of manifests) {
+        for (const recipe of manifest.recipes) {
+          // Recipe particles have a connection for each of their spec's, which is bound if it has a handle.
+          recipe.particles.filter(particle => particle.spec).forEach(particle =>
+              Object.values(particle.connections).filter(connection => connection.handle)
+                  .forEach(connection => bound.add(`${particle.spec.name}.${connection.name}`)));
+        }
+      }
+      const findings: Finding[] = [];
+      for (const linted of manifests) {
+        for (const spec of ownParticles(linted.manifest)) {
+          const item = topLevelItem(linted, 'particle', spec.name);
+          const args: AstNode[] = [];
+          const addArgs = (nodes: AstNode[]) => nodes.forEach(node => {
+            args.push(node);
+            addArgs(node.dependentConnections || []);
+          });
+          addArgs(item ? item.args : []);
+          for (const connection of spec.connections) {
+            if (connection.direction === 'in' && !connection.isOptional && !bound.has(`${spec.name}.${connection.name}`)) {
+              findings.push({
+                linted,
+                message: `Connection '${connection.name}' of particle '${spec.name}' is never bound by a recipe`,
+                node: args.find(arg => arg.name === connection.name) || item,
+              });
+            }
+          }
+        }
+      }
+      return findings;
+    }
+  },
+
+  'undeclared-store': {
+    severity: 'error',
+    description: `Recipe handles that map a store which isn't declared`,
+    check(manifests) {
+      const findings: Finding[] = [];
+      for (const linted of manifests) {
+        linted.manifest.recipes.forEach((recipe, index) => {
+          const items = recipeItems(linted, index, 'handle');
+          recipe.handles.forEach((handle, i) => {
+            if (handle.fate === 'map' && handle.id && !linted.manifest.findStoreById(handle.id)) {
+              findings.push({linted, message: `Handle maps store '${handle.id}', which isn't declared`, node: items[i]});
+            }
+          });
+        });
+      }
+      return findings;
+    }
+  },
+
+  'unconsumed-slot': {
+    severity: 'warning',
+    description: 'Slots that particles provide but no particle consumes',
+    check(manifests) {
+      const consumed = new Set<string>();
+      manifests.forEach(({manifest}) => ownParticles(manifest).forEach(spec => spec.slots.forEach(slot => consumed.add(slot.name))));
+      const findings: Finding[] = [];
+      for (const linted of manifests) {
+        for (const spec of ownParticles(linted.manifest)) {
+          const item = topLevelItem(linted, 'particle', spec.name);
+          for (const slot of spec.slots.values()) {
+            const slotItem = item && item.slots.find(node => node.name === slot.name);
+            for (const provided of slot.providedSlots.filter(provided => !consumed.has(provided.name))) {
+              findings.push({
+                linted,
+                message: `Slot '${provided.name}' provided by particle '${spec.name}' is never consumed`,
+                node: (slotItem && slotItem.providedSlots.find(node => node.name === provided.name)) || item,
+              });
+            }
+          }
+        }
+      }
+      return findings;
+    }
+  },
+
+  'unknown-verb': {
+    severity: 'error',
+    description: 'Recipe particles referred to by a verb that no particle or recipe has',
+    check(manifests) {
+      const verbs = new Set<string>();
+      for (const {manifest} of manifests) {
+        ownParticles(manifest).forEach(spec => spec.verbs.forEach(verb => verbs.add(verb)));
+        manifest.recipes.forEach(recipe => recipe.verbs.forEach(verb => verbs.add(verb)));
+      }
+      const findings: Finding[] = [];
+      for (const linted of manifests) {
+        linted.manifest.recipes.forEach((recipe, index) => {
+          const items = recipeItems(linted, index, 'particle');
+          recipe.particles.forEach((particle, i) => {
+            const verb = particle.primaryVerb;
+            if (!particle.spec && verb && !verbs.has(verb)) {
+              findings.push({linted, message: `No particle or recipe has the verb '${verb}'`, node: items[i]});
+            }
+          });
+        });
+      }
+      return findings;
+    }
+  },
+};
+
+// Returns whether a suppression comment, such as `// lint-disable-line unused-schema`,
+// names the rule. A comment that names no rules suppresses all of them.
+function suppresses(line: string|undefined, directive: string, rule: string): boolean {
+  const match = line && line.match(new RegExp(`//\\s*${directive}(?![\\w-])(.*)$`));
+  if (!match) {
+    return false;
+  }
+  const names = match[1].split(/[\s,]+/).filter(name => name);
+  return names.length === 0 || names.includes(rule);
+}
+
+/**
+ * Checks a manifest, and the manifests it imports, for things that parse but are
+ * likely to be mistakes, such as schemas that are never used. Each of the named
+ * rules has a severity, which can be changed or set to 'off'. A problem can be
+ * suppressed by a comment on the line it's reported at (`// lint-disable-line`),
+ * on the line before (`// lint-disable-next-line`), or anywhere in its manifest
+ * (`// lint-disable`), followed by the rules to suppress or by nothing for all of
+ * them.
+ */
+export class ManifestLinter {
+  static readonly rules: {[name: string]: {severity: LintSeverity, description: string}} = rules;
+  private readonly severities: {[rule: string]: LintSeverity} = {};
+  private readonly loader: Loader;
+
+  constructor(options: LintOptions = {}) {
+    const overrides = options.rules || {};
+    for (const name of Object.keys(overrides)) {
+      if (!rules[name]) {
+        throw new Error(`Unknown lint rule '${name}'`);
+      }
+    }
+    for (const name of Object.keys(rules)) {
+      this.severities[name] = overrides[name] || rules[name].severity;
+    }
+    this.loader = options.loader || new Loader();
+  }
+
+  async lint(manifest: Manifest): Promise<LintMessage[]> {
+    const manifests: LintedManifest[] = [];
+    const visit = async (manifest: Manifest) => {
+      if (manifests.find(linted => linted.manifest === manifest)) {
+        return;
+      }
+      const linted = {manifest, lines: null, items: null};
+      manifests.push(linted);
+      if (manifest.fileName) {
+        try {
+          const source = await this.loader.loadResource(manifest.fileName);
+          linted.lines = source.split('\n');
+          linted.items = parser.parse(source);
+        } catch (e) {
+          // Problems are reported without locations.
+        }
+      }
+      for (const imported of manifest.imports) {
+        await visit(imported);
+      }
+    };
+    await visit(manifest);
+
+    const messages: LintMessage[] = [];
+    for (const rule of Object.keys(rules)) {
+      const severity = this.severities[rule];
+      if (severity === 'off') {
+        continue;
+      }
+      for (const {linted, message, node} of rules[rule].check(manifests)) {
+        const location = node ? node.location : null;
+        const {lines} = linted;
+        if (lines) {
+          const line = location ? location.start.line - 1 : -1;
+          if (lines.some(text => suppresses(text, 'lint-disable', rule)) ||
+              suppresses(lines[line], 'lint-disable-line', rule) ||
+              suppresses(lines[line - 1], 'lint-disable-next-line', rule)) {
+            continue;
+          }
+        }
+        messages.push({rule, severity, message, fileName: linted.manifest.fileName, location});
+      }
+    }
+    return messages;
+  }
+}
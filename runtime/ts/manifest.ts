@@ -13,6 +13,7 @@ import {digest} from '../../platform/digest-web.js';
 import {parser} from '../build/manifest-parser.js';
 import {Recipe} from './recipe/recipe.js';
 import {Handle} from './recipe/handle.js';
+import {SourceLocation, TypeDiagnostic} from './recipe/type-checker.js';
 import {ParticleSpec} from './particle-spec.js';
 import {Schema} from './schema.js';
 import {Search} from './recipe/search.js';
@@ -20,22 +21,34 @@ import {Shape} from './shape.js';
 import {Type} from './type.js';
 import {compareComparables} from './recipe/util.js';
 import {StorageProviderBase} from './storage/storage-provider-base.js';
-import {StorageProviderFactory} from './storage/storage-provider-factory.js';
+import {StorageEngineConfig, StorageProviderFactory} from './storage/storage-provider-factory.js';
 import {ManifestMeta} from './manifest-meta.js';
 import {ParticleEndPoint, HandleEndPoint, TagEndPoint} from './recipe/connection-constraint.js';
 import {Id} from './id.js';
 import {TypeVariable} from './type-variable.js';
 import {SlotInfo} from './slot-info.js';
+import {ManifestPolicy} from './policy.js';
 
-class ManifestError extends Error {
-  location: {offset: number, line: number, column: number};
+export class ManifestError extends Error {
+  location: SourceLocation;
   key: string;
+  // Why a recipe's handle connections don't unify, for type validation warnings.
+  diagnostics?: TypeDiagnostic[];
   constructor(location, message) {
     super(message);
     this.location = location;
   }
 }
 
+// The error thrown by Manifest.parse. Its message is formatted for the console; tools
+// that present errors themselves can use the unformatted reason and its location.
+export class ManifestParseError extends Error {
+  constructor(message: string, readonly fileName: string, readonly sourceLocation: SourceLocation,
+              readonly reason: string) {
+    super(message);
+  }
+}
+
 export class StorageStub {
   type: Type;
   id: string;
@@ -43,18 +56,21 @@ export class StorageStub {
   name: string;
   storageKey: string;
   storageProviderFactory: StorageProviderFactory;
-  constructor(type, id, name, storageKey, storageProviderFactory, originalId) {
+  ttl: number|null;
+  constructor(type, id, name, storageKey, storageProviderFactory, originalId, ttl = null) {
     this.type = type;
     this.id = id;
     this.originalId = originalId;
     this.name = name;
     this.storageKey = storageKey;
     this.storageProviderFactory = storageProviderFactory;
+    this.ttl = ttl;
   }
 
   async inflate() {
     const store = await this.storageProviderFactory.connect(this.id, this.type, this.storageKey);
     store.originalId = this.originalId;
+    store.expiresAfter = this.ttl;
     return store;
   }
 }
@@ -112,17 +128,20 @@ export class Manifest {
   private _schemas: {[index: string]: Schema} = {};
   private _stores = <StorageProviderBase[]>[];
   private _shapes = <Shape[]>[];
+  private _policies = <ManifestPolicy[]>[];
   storeTags: Map<StorageProviderBase, string[]> = new Map();
   private _fileName: string|null = null;
   private nextLocalID = 0;
   private readonly _id: Id;
   private _storageProviderFactory: StorageProviderFactory|undefined = undefined;
+  private readonly storageConfig: StorageEngineConfig;
   private _meta = new ManifestMeta();
   private _resources = {};
   private storeManifestUrls: Map<string, string> = new Map();
-  private warnings = <ManifestError[]>[];
-  constructor({id}) {
+  readonly warnings = <ManifestError[]>[];
+  constructor({id, storageConfig = {}}: {id, storageConfig?: StorageEngineConfig}) {
     this._id = id;
+    this.storageConfig = storageConfig;
   }
   get id() {
     if (this._meta.name) {
@@ -132,7 +151,7 @@ export class Manifest {
   }
   get storageProviderFactory() {
     if (this._storageProviderFactory == undefined) {
-      this._storageProviderFactory = new StorageProviderFactory(this.id);
+      this._storageProviderFactory = new StorageProviderFactory(this.id, this.storageConfig);
     }
     return this._storageProviderFactory;
   }
@@ -142,6 +161,12 @@ export class Manifest {
   get allRecipes() {
     return [...new Set(this._findAll(manifest => manifest._recipes))];
   }
+  get policies() {
+    return this._policies;
+  }
+  get allPolicies() {
+    return [...new Set(this._findAll(manifest => manifest._policies))];
+  }
 
   get activeRecipe() {
     return this._recipes.find(recipe => recipe.annotation === 'active');
@@ -199,8 +224,8 @@ export class Manifest {
     return store;
   }
 
-  newStorageStub(type, name, id, storageKey, tags, originalId) {
-    return this._addStore(new StorageStub(type, id, name, storageKey, this.storageProviderFactory, originalId), tags);
+  newStorageStub(type, name, id, storageKey, tags, originalId, ttl = null) {
+    return this._addStore(new StorageStub(type, id, name, storageKey, this.storageProviderFactory, originalId, ttl), tags);
   }
 
   _find<a>(manifestFinder : ManifestFinder<a>) : a {
@@ -295,6 +320,7 @@ export class Manifest {
   static async load(fileName, loader, options) {
     options = options || {};
     let {registry, id} = options;
+    const {storageConfig} = options;
     registry = registry || {};
     if (registry && registry[fileName]) {
       return await registry[fileName];
@@ -308,6 +334,7 @@ export class Manifest {
         fileName,
         loader,
         registry,
+        storageConfig,
         position: {line: 1, column: 0}
       });
     })();
@@ -318,6 +345,7 @@ export class Manifest {
     options = options || {};
     // TODO(sjmiles): allow `context` for including an existing manifest in the import list
     let {id, fileName, position, loader, registry, context} = options;
+    const {storageConfig} = options;
     registry = registry || {};
     position = position || {line: 1, column: 0};
     id = `manifest:${fileName}:`;
@@ -367,7 +395,7 @@ export class Manifest {
 ${e.message}
   ${line}
   ${highlight}`;
-      const err = new Error(message);
+      const err = new ManifestParseError(message, fileName, e.location, e.message);
       if (!parseError) {
         err.stack = e.stack;
       }
@@ -380,7 +408,7 @@ ${e.message}
     } catch (e) {
       throw processError(e, true);
     }
-    const manifest = new Manifest({id});
+    const manifest = new Manifest({id, storageConfig});
     manifest._fileName = fileName;
 
     // TODO(sjmiles): optionally include pre-existing context
@@ -395,7 +423,7 @@ ${e.message}
         const path = loader.path(manifest.fileName);
         const target = loader.join(path, item.path);
         try {
-          manifest._imports.push(await Manifest.load(target, loader, {registry}));
+          manifest._imports.push(await Manifest.load(target, loader, {registry, storageConfig}));
         } catch (e) {
           manifest.warnings.push(e);
           manifest.warnings.push(new ManifestError(item.location, `Error importing '${target}'`));
@@ -419,6 +447,8 @@ ${e.message}
       // similarly, resources may be referenced from other parts of the manifest.
       await processItems('resource', item => this._processResource(manifest, item));
       await processItems('schema', item => this._processSchema(manifest, item));
+      await processItems('index', item => this._processIndex(manifest, item));
+      await processItems('policy', item => this._processPolicy(manifest, item));
       await processItems('shape', item => this._processShape(manifest, item));
       await processItems('particle', item => this._processParticle(manifest, item, loader));
       await processItems('store', item => this._processStore(manifest, item, loader));
@@ -538,6 +568,11 @@ ${e.message}
   }
   static _processSchema(manifest, schemaItem) {
     let description;
+    let version;
+    let conflicts;
+    let ttl;
+    const migrations = [];
+    const indexes = [];
     const fields = {};
     let names = [...schemaItem.names];
     for (const item of schemaItem.items) {
@@ -552,7 +587,7 @@ ${e.message}
         }
         case 'schema-section': {
           const section = item;
-          manifest._warnings.push(new ManifestError(section.location, `Schema sections are deprecated`));
+          manifest.warnings.push(new ManifestError(section.location, `Schema sections are deprecated`));
           for (const field of section.fields) {
             if (fields[field.name]) {
               throw new ManifestError(field.location, `Duplicate definition of field '${field.name}'`);
@@ -568,6 +603,44 @@ ${e.message}
           description = item;
           break;
         }
+        case 'schema-version': {
+          if (version !== undefined) {
+            throw new ManifestError(item.location, `Duplicate schema version`);
+          }
+          if (item.version < 1) {
+            throw new ManifestError(item.location, `Schema version must be at least 1`);
+          }
+          version = item.version;
+          break;
+        }
+        case 'schema-conflicts': {
+          if (conflicts !== undefined) {
+            throw new ManifestError(item.location, `Duplicate schema conflict policy`);
+          }
+          conflicts = item.policy;
+          break;
+        }
+        case 'schema-expiry': {
+          if (ttl !== undefined) {
+            throw new ManifestError(item.location, `Duplicate schema expiry`);
+          }
+          if (item.ttl <= 0) {
+            throw new ManifestError(item.location, `Schema expiry must be a positive duration`);
+          }
+          ttl = item.ttl;
+          break;
+        }
+        case 'schema-index': {
+          indexes.push(item);
+          break;
+        }
+        case 'schema-migration': {
+          if (migrations.find(migration => migration.from === item.from)) {
+            throw new ManifestError(item.location, `Duplicate migration from version ${item.from}`);
+          }
+          migrations.push(item);
+          break;
+        }
         default:
           throw new ManifestError(item.location, `unknown parser artifact ${item.kind} while processing schema`);
       }
@@ -596,13 +669,112 @@ ${e.message}
           schemaItem.location,
           `Schema defined without name or alias`);
     }
+    for (const migration of migrations) {
+      if (version === undefined || migration.from >= version) {
+        throw new ManifestError(migration.location,
+            `Migration from version ${migration.from} must be from an earlier version than the schema's (${version || 1})`);
+      }
+      for (const step of migration.steps) {
+        if (step.kind === 'widen' && !Schema.isWidening(step.from, fields[step.name])) {
+          throw new ManifestError(step.location, `Cannot widen field '${step.name}' from ${step.from}` +
+              (fields[step.name] ? ` to ${Schema._typeString(fields[step.name])}` : `; not in schema`));
+        }
+      }
+    }
+    // Walk the migrations backwards from the current fields, tracking which field each name
+    // becomes, so that renames and defaults are checked against the fields they end up in.
+    const fieldNames = new Map(Object.keys(fields).map(field => [field, field] as [string, string]));
+    for (const migration of [...migrations].sort((a, b) => b.from - a.from)) {
+      for (const step of [...migration.steps].reverse()) {
+        if (step.kind === 'rename') {
+          if (!fieldNames.has(step.to)) {
+            throw new ManifestError(step.location, `Cannot rename field '${step.from}' to '${step.to}'; not in schema`);
+          }
+          fieldNames.set(step.from, fieldNames.get(step.to));
+          fieldNames.delete(step.to);
+        } else if (step.kind === 'default') {
+          const field = fieldNames.get(step.name);
+          if (!field) {
+            throw new ManifestError(step.location, `Cannot default field '${step.name}'; not in schema`);
+          }
+          if (!Schema.isValidDefault(step.value, fields[field])) {
+            throw new ManifestError(step.location, `Cannot default field '${step.name}' of type ` +
+                `${Schema._typeString(fields[field])} to ${JSON.stringify(step.value)}`);
+          }
+        }
+      }
+    }
+    for (const index of indexes) {
+      Manifest._checkIndexable(name, fields, index);
+    }
     const model = {names, fields, description};
+    if (indexes.length > 0) {
+      Object.assign(model, {indexes: [...new Set(indexes.map(index => index.field))]});
+    }
+    if (conflicts !== undefined) {
+      Object.assign(model, {conflicts});
+    }
+    if (ttl !== undefined) {
+      Object.assign(model, {ttl});
+    }
+    if (version !== undefined) {
+      Object.assign(model, {
+        version,
+        migrations: migrations.map(({from, steps}) => ({
+          from,
+          steps: steps.map(({location, ...step}) => step),
+        })),
+      });
+    }
     const schema = new Schema(model);
     if (schemaItem.alias) {
       schema.isAlias = true;
     }
     manifest._schemas[name] = schema;
   }
+  static _checkIndexable(schemaName: string, fields, indexItem) {
+    const fieldType = fields[indexItem.field];
+    if (!fieldType) {
+      throw new ManifestError(indexItem.location, `Schema '${schemaName}' has no field '${indexItem.field}' to index`);
+    }
+    if (!Schema.isIndexable(fieldType)) {
+      throw new ManifestError(indexItem.location,
+          `Cannot index field '${indexItem.field}' of type ${Schema._typeString(fieldType)}`);
+    }
+  }
+  static _processIndex(manifest, indexItem) {
+    const schema = manifest.findSchemaByName(indexItem.schema);
+    if (!schema) {
+      throw new ManifestError(indexItem.location, `Could not find schema '${indexItem.schema}' to index`);
+    }
+    // Schemas are shared with every manifest that imports them, so only the manifest that
+    // defines a schema can change its indexes.
+    if (!Object.values(manifest._schemas).includes(schema)) {
+      throw new ManifestError(indexItem.location,
+          `Cannot index schema '${indexItem.schema}', which is imported; declare the index where it is defined`);
+    }
+    Manifest._checkIndexable(indexItem.schema, schema.fields, indexItem);
+    if (!schema.indexes.includes(indexItem.field)) {
+      schema.addIndex(indexItem.field);
+    }
+  }
+  static _processPolicy(manifest, policyItem) {
+    if (manifest._policies.find(policy => policy.name === policyItem.name)) {
+      throw new ManifestError(policyItem.location, `Duplicate definition of policy '${policyItem.name}'`);
+    }
+    const selector = ({tags, id, name}) => tags ? {tags} : id ? {id} : {name};
+    const rules = policyItem.rules.map(rule => {
+      switch (rule.kind) {
+        case 'store-fate':
+          return {kind: rule.kind, store: selector(rule.store), fates: rule.fates};
+        case 'particle-slot':
+          return {kind: rule.kind, particle: rule.particle, slot: selector(rule.slot)};
+        default:
+          return {kind: rule.kind, particle: rule.particle, capabilities: rule.capabilities};
+      }
+    });
+    manifest._policies.push(new ManifestPolicy(policyItem.name, rules));
+  }
   static _processResource(manifest, schemaItem) {
     manifest._resources[schemaItem.name] = schemaItem.data;
   }
@@ -618,7 +790,7 @@ ${e.message}
     if (particleItem.hasParticleArgument) {
       const warning = new ManifestError(particleItem.location, `Particle uses deprecated argument body`);
       warning.key = 'hasParticleArgument';
-      manifest._warnings.push(warning);
+      manifest.warnings.push(warning);
 
     }
 
@@ -635,6 +807,17 @@ ${e.message}
     };
     processArgTypes(particleItem.args);
 
+    if (particleItem.supervision) {
+      const {policy, maxRestarts, backoff} = particleItem.supervision;
+      particleItem.supervision = {policy};
+      if (maxRestarts !== undefined) {
+        particleItem.supervision.maxRestarts = maxRestarts;
+      }
+      if (backoff !== undefined) {
+        particleItem.supervision.backoff = backoff;
+      }
+    }
+
     const particleSpec = new ParticleSpec(particleItem);
     manifest._particles[particleItem.name] = particleSpec;
   }
@@ -643,7 +826,7 @@ ${e.message}
     if (shapeItem.interface) {
       const warning = new ManifestError(shapeItem.location, `Shape uses deprecated argument body`);
       warning.key = 'hasShapeArgument';
-      manifest._warnings.push(warning);
+      manifest.warnings.push(warning);
     }
     const inHandles = shapeItem.interface ? shapeItem.interface.args : shapeItem.args;
     const handles = [];
@@ -859,6 +1042,9 @@ ${e.message}
           // TODO: else, merge tags? merge directions?
         }
         connection.tags = connectionItem.target ? connectionItem.target.tags : [];
+        if (!connection.location) {
+          connection.location = connectionItem.location;
+        }
         const direction = {'->': 'out', '<-': 'in', '=': 'inout', 'consume': '`consume', 'provide': '`provide'}[connectionItem.dir];
         if (connection.direction) {
           if (connection.direction !== direction &&
@@ -1012,6 +1198,20 @@ ${e.message}
     if (items.description && items.description.description) {
       recipe.description = items.description.description;
     }
+
+    // Recipes whose connections' types can't be unified won't normalize. They're still
+    // added to the manifest, but are reported here where their source is known.
+    for (const handle of recipe.handles) {
+      const diagnostics: TypeDiagnostic[] = [];
+      if (!Handle.effectiveType(handle.mappedType, handle.connections, {diagnostics}) && diagnostics.length > 0) {
+        const name = handle.localName || handle.id;
+        const warning = new ManifestError(diagnostics[0].location || recipeItem.location,
+            `Type validations failed for handle${name ? ` '${name}'` : ''}` +
+            diagnostics.map(diagnostic => `\n  ${diagnostic.message}`).join(''));
+        warning.diagnostics = diagnostics;
+        manifest.warnings.push(warning);
+      }
+    }
   }
   resolveTypeName(name) {
     const schema = this.findSchemaByName(name);
@@ -1036,12 +1236,15 @@ ${e.message}
     if (tags == null) {
       tags = [];
     }
+    if (item.ttl !== null && item.ttl <= 0) {
+      throw new ManifestError(item.location, `Store expiry must be a positive duration`);
+    }
 
 
     // Instead of creating links to remote firebase during manifest parsing,
     // we generate storage stubs that contain the relevant information.
     if (item.origin === 'storage') {
-      manifest.newStorageStub(type, name, id, item.source, tags, originalId);
+      manifest.newStorageStub(type, name, id, item.source, tags, originalId, item.ttl);
       return;
     }
 
@@ -1110,10 +1313,12 @@ ${e.message}
     // TODO(shans): Eventually the actual type will need to be part of the determination too.
     // TODO(shans): Need to take into account the possibility of multiple storage key mappings
     // at some point.
+    let dataStore = null;
     if (entities.length > 0 && entities[0].rawData && entities[0].rawData.storageKey) {
-      let storageKey = entities[0].rawData.storageKey;
-      storageKey = manifest.findStoreByName(storageKey).storageKey;
-      entities = entities.map(({id, rawData}) => ({id, storageKey}));
+      dataStore = manifest.findStoreByName(entities[0].rawData.storageKey);
+      const storageKey = dataStore.storageKey;
+      // References are serialized with the id of the entity they refer to.
+      entities = entities.map(({id, rawData}) => ({id: rawData.id || id, storageKey}));
     } else if (entities.length > 0) {
       store.referenceMode = false;
     }
@@ -1133,12 +1338,19 @@ ${e.message}
       model = entities.map(value => ({id: value.id, value}));
     }
     store.fromLiteral({version, model});
+    if (dataStore) {
+      // Referenced entities are read from the store's backing store, which
+      // (like the store itself) has been serialized as a separate resource.
+      await store.ensureBackingStore();
+      await store.backingStore.cloneFrom(dataStore);
+    }
   }
   static async _createStore(manifest, type, name, id, tags, item, originalId) {
     const store = await manifest.createStore(type, name, id, tags);
     store.source = item.source;
     store.description = item.description;
     store.originalId = originalId;
+    store.expiresAfter = item.ttl;
     return store;
   }
   _newRecipe(name) {
@@ -1174,6 +1386,10 @@ ${e.message}
       results.push(r.toString(options));
     });
 
+    this._policies.forEach(policy => {
+      results.push(policy.toString());
+    });
+
     const stores = [...this.stores].sort(compareComparables);
     stores.forEach(store => {
       results.push(store.toString(this.storeTags.get(store).map(a => `#${a}`)));
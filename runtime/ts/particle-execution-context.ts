@@ -13,13 +13,17 @@ import {handleFor} from './handle.js';
 import {assert} from '../../platform/assert-web.js';
 import {PECInnerPort} from '../api-channel.js';
 import {StorageProxy, StorageProxyScheduler} from '../storage-proxy.js';
-import {ParticleSpec} from './particle-spec.js';
+import {CapabilityError, ParticleSpec} from './particle-spec.js';
 import {Loader} from './loader.js';
 import {Particle} from './particle.js';
 
 export class ParticleExecutionContext {
   private apiPort : PECInnerPort;
+  // The running particles.
   private particles = <Particle[]>[];
+  // The proxies backing each particle's handles, by handle name. Stopped particles are
+  // retained so that they can be restarted.
+  private particleProxies = new Map<Particle, Map<string, StorageProxy>>();
   private idBase: string;
   private _nextLocalID = 0;
   private loader: Loader;
@@ -68,7 +72,8 @@ export class ParticleExecutionContext {
     };
 
     this.apiPort.onInnerArcRender = ({transformationParticle, transformationSlotName, hostedSlotId, content}) => {
-      transformationParticle.renderHostedSlot(transformationSlotName, hostedSlotId, content);
+      this.invoke(transformationParticle, 'renderHostedSlot',
+                  () => transformationParticle.renderHostedSlot(transformationSlotName, hostedSlotId, content));
     };
 
     this.apiPort.onStop = () => {
@@ -80,9 +85,13 @@ export class ParticleExecutionContext {
     this.apiPort.onInstantiateParticle =
       ({id, spec, handles}) => this._instantiateParticle(id, spec, handles);
 
+    this.apiPort.onStopParticle = ({particleId}) => this.stopParticle(particleId);
+
+    this.apiPort.onRestartParticle = ({particleId, reload}) => this.restartParticle(particleId, reload);
+
     this.apiPort.onSimpleCallback = ({callback, data}) => callback(data);
 
-    this.apiPort.onConstructArcCallback = ({callback, arc}) => callback(arc);
+    this.apiPort.onConstructArcCallback = ({callback, arc, error}) => callback(arc, error);
 
     this.apiPort.onAwaitIdle = ({version}) =>
       this.idle.then(a => {
@@ -91,7 +100,7 @@ export class ParticleExecutionContext {
         setTimeout(() => { this.apiPort.Idle({version, relevance: this.relevance}); }, 0);
       });
 
-    this.apiPort.onUIEvent = ({particle, slotName, event}) => particle.fireEvent(slotName, event);
+    this.apiPort.onUIEvent = ({particle, slotName, event}) => this.invoke(particle, 'fireEvent', () => particle.fireEvent(slotName, event));
 
     this.apiPort.onStartRender = ({particle, slotName, contentTypes}) => {
       /** @class Slot
@@ -141,7 +150,7 @@ export class ParticleExecutionContext {
       }
 
       particle._slotByName.set(slotName, new Slotlet(this, particle, slotName));
-      particle.renderSlot(slotName, contentTypes);
+      this.invoke(particle, 'renderSlot', () => particle.renderSlot(slotName, contentTypes));
     };
 
     this.apiPort.onStopRender = ({particle, slotName}) => {
@@ -203,11 +212,24 @@ export class ParticleExecutionContext {
     };
   }
 
-  getStorageProxy(storageKey, type) {
+  // Returns a proxy for a backing store, on behalf of the particle with the given id, or of
+  // all the PEC's particles if no id is given. The host rejects the request if they don't
+  // have the backingStore capability.
+  getStorageProxy(storageKey, type, particleId: string|null = null) {
+    const denied = this.particles.find(particle => (!particleId || particle.id === particleId) && !particle.spec.permits('backingStore'));
+    if (denied) {
+      return Promise.reject(new CapabilityError(denied.id, denied.spec, 'backingStore'));
+    }
     if (!this.keyedProxies[storageKey]) {      
       this.keyedProxies[storageKey] = new Promise((resolve, reject) => {
-        this.apiPort.GetBackingStore({storageKey, type, callback: (proxy, storageKey) => {
-          this.keyedProxies[storageKey] = proxy;
+        this.apiPort.GetBackingStore({storageKey, type, particleId, callback: (proxy, proxyStorageKey) => {
+          if (typeof proxy === 'string') {
+            // The host sends an error message instead of a proxy.
+            delete this.keyedProxies[storageKey];
+            reject(new Error(proxy));
+            return;
+          }
+          this.keyedProxies[proxyStorageKey] = proxy;
           resolve(proxy);
         }});
       });
@@ -215,26 +237,48 @@ export class ParticleExecutionContext {
     return this.keyedProxies[storageKey];
   }
 
-  defaultCapabilitySet() {
+  // The capabilities handed to a particle, according to those its spec permits.
+  capabilitySetFor(spec: ParticleSpec) {
+    if (!spec.permits('innerArcs')) {
+      return {};
+    }
     return {
       constructInnerArc: particle => {
         return new Promise((resolve, reject) =>
-          this.apiPort.ConstructInnerArc({callback: arcId => {resolve(this.innerArcHandle(arcId, particle.id));}, particle}));
+          this.apiPort.ConstructInnerArc({callback: (arcId, error) => {
+            if (error) {
+              reject(new Error(error));
+            } else {
+              resolve(this.innerArcHandle(arcId, particle.id));
+            }
+          }, particle}));
       }
     };
   }
 
   async _instantiateParticle(id, spec, proxies) {
-    const name = spec.name;
     let resolve : () => void = null;
     const p = new Promise<void>(res => resolve = res);
     this.pendingLoads.push(p);
     const clazz = await this.loader.loadParticleClass(spec);
-    const capabilities = this.defaultCapabilitySet();
+    const [particle, setHandles] = this._createParticle(clazz, id, spec, proxies);
+
+    return [particle, async () => {
+      await setHandles();
+      const idx = this.pendingLoads.indexOf(p);
+      this.pendingLoads.splice(idx, 1);
+      resolve();
+    }];
+  }
+
+  // Constructs a particle attached to proxies. The returned function hands the particle its handles.
+  private _createParticle(clazz, id, spec: ParticleSpec, proxies: Map<string, StorageProxy>): [Particle, () => Promise<void>] {
+    const capabilities = this.capabilitySetFor(spec);
     const particle = new clazz(); // TODO: how can i add an argument to DomParticle ctor?
     particle.id = id;
     particle.capabilities = capabilities;
     this.particles.push(particle);
+    this.particleProxies.set(particle, proxies);
 
     const handleMap = new Map();
     const registerList = [];
@@ -249,14 +293,112 @@ export class ParticleExecutionContext {
     });
 
     return [particle, async () => {
-      await particle.setHandles(handleMap);
+      await this.invoke(particle, 'setHandles', () => particle.setHandles(handleMap));
       registerList.forEach(({proxy, particle, handle}) => proxy.register(particle, handle));
-      const idx = this.pendingLoads.indexOf(p);
-      this.pendingLoads.splice(idx, 1);
-      resolve();
     }];
   }
 
+  // Calls into particle code, reporting any exception to the host so that the
+  // particle's supervision policy can be applied, and the time until the call
+  // completes so that its CPU time quota can be.
+  private async invoke(particle: Particle, methodName: string, f: () => void | Promise<void>) {
+    const start = Date.now();
+    try {
+      await f();
+    } catch (exception) {
+      this.raiseSystemException(exception, `${particle.spec.name}::${methodName}`, particle.id);
+    } finally {
+      const time = Date.now() - start;
+      if (time > 0) {
+        this.apiPort.ReportCpuTime({particleId: particle.id, time});
+      }
+    }
+  }
+
+  private raiseSystemException(exception, methodName: string, particleId: string) {
+    this.apiPort.RaiseSystemException({
+      exception: {message: exception.message, stack: exception.stack, name: exception.name},
+      methodName,
+      particleId
+    });
+  }
+
+  /**
+   * Detaches a particle from its handles and stops tracking it. The particle
+   * receives no further storage or UI events.
+   */
+  async stopParticle(particleId: string) {
+    // The particle may still be loading.
+    await Promise.all(this.pendingLoads);
+    const particle = this.particles.find(p => p.id === particleId);
+    if (particle) {
+      this._detachParticle(particle);
+    }
+  }
+
+  /**
+   * Replaces a particle, running or stopped, with a new instance attached to the
+   * same handles, which are re-synced. If reload is set the particle's
+   * implementation is loaded afresh through the Loader; otherwise the existing
+   * class is reused. The new instance has no rendered slots until the host
+   * starts rendering again.
+   */
+  async restartParticle(particleId: string, reload = false) {
+    let resolve : () => void = null;
+    const p = new Promise<void>(res => resolve = res);
+    // The PEC isn't idle until the restart completes, but it must wait for the particle to load.
+    const loading = Promise.all(this.pendingLoads);
+    const waitForLoads = this.pendingLoads.length > 0;
+    this.pendingLoads.push(p);
+    if (waitForLoads) {
+      await loading;
+    }
+    // When the particle is already loaded its mapping is replaced synchronously, so that
+    // messages that follow RestartParticle (e.g. StartRender) reach the new instance.
+    const previous = [...this.particleProxies.keys()].find(particle => particle.id === particleId);
+    if (!previous) {
+      this.pendingLoads.splice(this.pendingLoads.indexOf(p), 1);
+      resolve();
+      return;
+    }
+    if (this.particles.includes(previous)) {
+      this._detachParticle(previous);
+    }
+    const proxies = this.particleProxies.get(previous);
+    this.particleProxies.delete(previous);
+
+    const restart = async () => {
+      let particle: Particle;
+      let setHandles: () => Promise<void>;
+      try {
+        const clazz = reload ? await this.loader.loadParticleClass(previous.spec) : previous.constructor;
+        [particle, setHandles] = this._createParticle(clazz, particleId, previous.spec, proxies);
+      } catch (exception) {
+        // Leave the particle stopped; it can be restarted once its implementation is fixed.
+        this.particleProxies.set(previous, proxies);
+        this.raiseSystemException(exception, 'restartParticle', particleId);
+        return previous;
+      }
+      await setHandles();
+      return particle;
+    };
+    const restarted = restart();
+    try {
+      // Messages addressed to the particle are held until the new instance is ready.
+      await this.apiPort.replaceMapping(previous, restarted);
+    } finally {
+      this.pendingLoads.splice(this.pendingLoads.indexOf(p), 1);
+      resolve();
+    }
+  }
+
+  private _detachParticle(particle) {
+    this.particles.splice(this.particles.indexOf(particle), 1);
+    particle._slotByName.clear();
+    this.particleProxies.get(particle).forEach(proxy => proxy.deregister(particle));
+    this.scheduler.dequeue(particle);
+  }
+
   get relevance() {
     const rMap = new Map();
     this.particles.forEach(p => {
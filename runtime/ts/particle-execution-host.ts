@@ -13,9 +13,13 @@ import {assert} from '../../platform/assert-web.js';
 import {PECOuterPort} from '../api-channel.js';
 import {Manifest} from './manifest.js';
 import {RecipeResolver} from './recipe/recipe-resolver.js';
-import {reportSystemException} from './arc-exceptions.js';
 import {Arc} from './arc.js';
 import {SlotComposer} from './slot-composer.js';
+import {StorageTransaction} from './storage/storage-transaction.js';
+import {StorageProviderBase, lockStores, tryLockStores, withBackingStores} from './storage/storage-provider-base.js';
+import {syncedStatus} from './storage/write-queue.js';
+import {ParticleQuotas, ParticleQuotaTracker, QuotaExceededError} from './particle-quotas.js';
+import {CapabilityError, ParticleCapability, ParticleSpec} from './particle-spec.js';
 
 export class ParticleExecutionHost {
   private _apiPort : PECOuterPort;
@@ -26,18 +30,31 @@ export class ParticleExecutionHost {
   private idleVersion = 0;
   private idlePromise: Promise<number> | undefined;
   private idleResolve: ((relevance: number) => void) | undefined;
+  // Open transactions, keyed by the id assigned in the PEC, with the time they were opened.
+  private transactions: Map<string, {transaction: StorageTransaction, opened: number}> = new Map();
+  // How long, in milliseconds, a transaction may stay open before it is dropped.
+  transactionTimeout = 60 * 1000;
+  readonly quotas: ParticleQuotaTracker;
+  // The specs of the particles instantiated in the PEC, by particle id.
+  private readonly specs = new Map<string, ParticleSpec>();
 
-  constructor(port, slotComposer: SlotComposer, arc: Arc) {
+  constructor(port, slotComposer: SlotComposer, arc: Arc, quotas: ParticleQuotas = {}) {
     this._apiPort = new PECOuterPort(port, arc);
     this.close = () => {
       port.close();
       this._apiPort.close();
+      this.transactions.clear();
     };
     this.arc = arc;
     this.slotComposer = slotComposer;
+    this.quotas = new ParticleQuotaTracker(quotas);
 
     this._apiPort.onRender = ({particle, slotName, content}) => {
-      if (this.slotComposer) {
+      if (!this.withinQuota(this.quotas.recordMessage(particle.id), 'Render') || this.capabilityError(particle.id, 'slots', 'Render')) {
+        return;
+      }
+      // Renders may still arrive from particles that have since been stopped.
+      if (this.slotComposer && this.arc.particleHandleMaps.has(particle.id)) {
         this.slotComposer.renderSlot(particle, slotName, content);
       }
     };
@@ -47,11 +64,24 @@ export class ParticleExecutionHost {
       handle.on('change', data => this._apiPort.SimpleCallback({callback, data}), target);
     };
 
+    this._apiPort.onObserveSyncStatus = ({handle, callback}) => {
+      handle.on('syncStatus', data => this._apiPort.SimpleCallback({callback, data}), {});
+      // Stores start out synced, so particles are only told otherwise.
+      if (JSON.stringify(handle.syncStatus) !== JSON.stringify(syncedStatus)) {
+        this._apiPort.SimpleCallback({callback, data: handle.syncStatus});
+      }
+    };
+
     this._apiPort.onSynchronizeProxy = async ({handle, callback}) => {
       const data = await handle.modelForSynchronization();
       this._apiPort.SimpleCallback({callback, data});
     };
 
+    // Storage proxies catch up on the changes they missed from the store's change log.
+    this._apiPort.onHandleChangesSince = ({handle, callback, version}) => {
+      this._apiPort.SimpleCallback({callback, data: handle.changesSince(version)});
+    };
+
     this._apiPort.onHandleGet = async ({handle, callback}) => {
       this._apiPort.SimpleCallback({callback, data: await handle.get()});
     };
@@ -60,26 +90,94 @@ export class ParticleExecutionHost {
       this._apiPort.SimpleCallback({callback, data: await handle.toList()});
     };
 
-    this._apiPort.onHandleSet = ({handle, data, particleId, barrier}) => handle.set(data, particleId, barrier);
-    this._apiPort.onHandleClear = ({handle, particleId, barrier}) => handle.clear(particleId, barrier);
+    this._apiPort.onHandleQuery = async ({handle, callback, query}) => {
+      // If the query fails, the error message is sent instead of the results.
+      let data;
+      try {
+        data = await handle.query(query);
+      } catch (e) {
+        data = e.message;
+      }
+      this._apiPort.SimpleCallback({callback, data});
+    };
+
+    // Writes over quota are rejected back to the particle, whose proxy then resynchronizes.
+    // Sets and clears are only called back when they're rejected.
+    this._apiPort.onHandleSet = async ({handle, callback, data, particleId, barrier, transactionId}) => {
+      const violation = this.quotas.recordMessage(particleId) || this.quotas.recordWrite(particleId, handle.id, data);
+      if (!this.withinQuota(violation, 'HandleSet', this.errorReply(callback))) {
+        return;
+      }
+      if (transactionId) {
+        this.transactionFor(transactionId, particleId).set(handle, data, barrier);
+        return;
+      }
+      await this.locked(handle, () => handle.set(data, particleId, barrier));
+    };
+
+    this._apiPort.onHandleClear = async ({handle, callback, particleId, barrier, transactionId}) => {
+      if (!this.withinQuota(this.quotas.recordMessage(particleId), 'HandleClear', this.errorReply(callback))) {
+        return;
+      }
+      if (transactionId) {
+        this.transactionFor(transactionId, particleId).clear(handle, barrier);
+        return;
+      }
+      await this.locked(handle, () => handle.clear(particleId, barrier));
+    };
 
-    this._apiPort.onHandleStore = async ({handle, callback, data: {value, keys}, particleId}) => {
-      await handle.store(value, keys, particleId);
+    this._apiPort.onHandleStore = async ({handle, callback, data: {value, keys}, particleId, transactionId}) => {
+      const violation = this.quotas.recordMessage(particleId) || this.quotas.recordWrite(particleId, handle.id, value);
+      if (!this.withinQuota(violation, 'HandleStore', this.errorReply(callback))) {
+        return;
+      }
+      if (transactionId) {
+        this.transactionFor(transactionId, particleId).store(handle, value, keys);
+      } else {
+        await this.locked(handle, () => handle.store(value, keys, particleId));
+      }
       this._apiPort.SimpleCallback({callback});
     };
 
-    this._apiPort.onHandleRemove = async ({handle, callback, data: {id, keys}, particleId}) => {
-      await handle.remove(id, keys, particleId);
+    this._apiPort.onHandleRemove = async ({handle, callback, data: {id, keys}, particleId, transactionId}) => {
+      if (!this.withinQuota(this.quotas.recordMessage(particleId), 'HandleRemove', this.errorReply(callback))) {
+        return;
+      }
+      if (transactionId) {
+        this.transactionFor(transactionId, particleId).remove(handle, id, keys);
+      } else {
+        await this.locked(handle, () => handle.remove(id, keys, particleId));
+      }
       this._apiPort.SimpleCallback({callback});
     };
 
+    this._apiPort.onHandleCommitTransaction = async ({callback, transactionId}) => {
+      this.expireTransactions();
+      const open = this.transactions.get(transactionId);
+      this.transactions.delete(transactionId);
+      let error = null;
+      if (!open) {
+        error = `transaction was not committed within ${this.transactionTimeout}ms`;
+      } else {
+        try {
+          await open.transaction.commit();
+        } catch (e) {
+          error = e.message;
+        }
+      }
+      this._apiPort.SimpleCallback({callback, data: error});
+    };
+
     this._apiPort.onHandleRemoveMultiple = async ({handle, callback, data, particleId}) => {
-      await handle.removeMultiple(data, particleId);
+      if (!this.withinQuota(this.quotas.recordMessage(particleId), 'HandleRemoveMultiple', this.errorReply(callback))) {
+        return;
+      }
+      await this.locked(handle, () => handle.removeMultiple(data, particleId));
       this._apiPort.SimpleCallback({callback});
     };
 
-    this._apiPort.onHandleStream = async ({handle, callback, pageSize, forward}) => {
-      this._apiPort.SimpleCallback({callback, data: await handle.stream(pageSize, forward)});
+    this._apiPort.onHandleStream = async ({handle, callback, pageSize, forward, range}) => {
+      this._apiPort.SimpleCallback({callback, data: await handle.stream(pageSize, forward, range)});
     };
 
     this._apiPort.onStreamCursorNext = async ({handle, callback, cursorId}) => {
@@ -95,11 +193,21 @@ export class ParticleExecutionHost {
       }
     };
 
-    this._apiPort.onGetBackingStore = async ({callback, type, storageKey}) => {
-      if (!storageKey) {
-        storageKey = this.arc.storageProviderFactory.baseStorageKey(type, this.arc.storageKey || 'volatile');
+    this._apiPort.onGetBackingStore = async ({callback, type, storageKey, particleId}) => {
+      if (this.capabilityError(particleId, 'backingStore', 'GetBackingStore', this.errorReply(callback))) {
+        return;
+      }
+      let store;
+      try {
+        if (!storageKey) {
+          storageKey = this.arc.storageProviderFactory.baseStorageKey(type, this.arc.storageKey || 'volatile');
+        }
+        store = await this.arc.storageProviderFactory.baseStorageFor(type, storageKey);
+      } catch (e) {
+        // Such as when no storage engine is registered for the key's protocol.
+        this._apiPort.SimpleCallback({callback, data: e.message});
+        return;
       }
-      const store = await this.arc.storageProviderFactory.baseStorageFor(type, storageKey);
       // TODO(shans): THIS IS NOT SAFE!
       //
       // Without an auditor on the runtime side that inspects what is being fetched from
@@ -108,8 +216,16 @@ export class ParticleExecutionHost {
     };
 
     this._apiPort.onConstructInnerArc = ({callback, particle}) => {
+      const reply = (error: Error) => this._apiPort.ConstructArcCallback({callback, arc: null, error: error.message});
+      if (this.capabilityError(particle.id, 'innerArcs', 'ConstructInnerArc', reply)) {
+        return;
+      }
+      const violation = this.quotas.recordMessage(particle.id) || this.quotas.recordInnerArc(particle.id);
+      if (!this.withinQuota(violation, 'ConstructInnerArc', reply)) {
+        return;
+      }
       const arc = {particle};
-      this._apiPort.ConstructArcCallback({callback, arc});
+      this._apiPort.ConstructArcCallback({callback, arc, error: null});
     };
 
     this._apiPort.onArcCreateHandle = async ({callback, arc, type, name}) => {
@@ -118,6 +234,7 @@ export class ParticleExecutionHost {
       // created handles for inner arcs must always be volatile to prevent storage 
       // in firebase.
       const store = await this.arc.createStore(type, name, null, [], 'volatile');
+      this.arc.addInnerArcStore(arc.particle, store);
       this._apiPort.CreateHandleCallback(store, {type, name, callback, id: store.id});
     };
 
@@ -183,11 +300,111 @@ export class ParticleExecutionHost {
     };
 
     this._apiPort.onRaiseSystemException = async ({exception, methodName, particleId}) => {
-     const particle = this.arc.particleHandleMaps.get(particleId).spec.name;
-      reportSystemException(exception, methodName, particle);
+      this.arc.supervisor.handleException(particleId, exception, methodName);
+    };
+
+    this._apiPort.onReportCpuTime = ({particleId, time}) => {
+      this.withinQuota(this.quotas.recordCpuTime(particleId, time), 'ReportCpuTime');
     };
   }
 
+  // Reports a quota violation, returning whether the message that was checked may proceed.
+  private withinQuota(violation: QuotaExceededError|null, methodName: string, reply: ((error: Error) => void)|null = null): boolean {
+    if (!violation) {
+      return true;
+    }
+    this.reportError(violation.particleId, violation, methodName, reply);
+    return false;
+  }
+
+  // Reports an error in a particle's call through the particle's supervision policy. If the
+  // call has results, `reply` first sends the error back to the particle in their place.
+  // Particles without a policy have the error rethrown as a system exception, which mustn't
+  // escape the port's handlers.
+  private reportError(particleId: string, error: Error, methodName: string, reply: ((error: Error) => void)|null) {
+    if (reply) {
+      reply(error);
+    }
+    try {
+      this.arc.supervisor.handleException(particleId, error, methodName);
+    } catch (e) {
+      // Rethrown by the default system exception handler.
+    }
+  }
+
+  // Replies to a call made with a SimpleCallback with an error.
+  private errorReply(callback): (error: Error) => void {
+    return error => this._apiPort.SimpleCallback({callback, data: error.message});
+  }
+
+  // Returns an error, after sending it back with `reply` if the call has results and reporting
+  // it through the particle's supervision policy, if the particle's spec doesn't permit a
+  // capability that it used. Calls that aren't made on behalf
+  // of a particle, such as dereferencing references held by entities, need every particle in
+  // the PEC to have the capability.
+  //
+  // The PEC says which particle made each call, and only the ids of its own particles are
+  // accepted, but particles sharing a PEC aren't isolated from one another: these checks
+  // confine a PEC to the capabilities of its particles, and each particle to its own only if
+  // it runs in a PEC, or group, of its own.
+  private capabilityError(particleId: string|null, capability: ParticleCapability, methodName: string,
+                          reply: ((error: Error) => void)|null = null): Error|null {
+    const spec = particleId && this.specs.get(particleId);
+    if (spec && !spec.permits(capability)) {
+      const error = new CapabilityError(particleId, spec, capability);
+      this.reportError(particleId, error, methodName, reply);
+      return error;
+    }
+    let error: Error|null = null;
+    if (!particleId) {
+      const denied = [...this.specs.values()].find(spec => !spec.permits(capability));
+      if (denied) {
+        error = new Error(`${methodName} calls that aren't made by a particle need every particle in the PEC ` +
+                          `to declare the '${capability}' capability, but '${denied.name}' doesn't`);
+      }
+    } else if (!spec) {
+      error = new Error(`${methodName} calls must be made by a particle in the PEC, but '${particleId}' isn't one`);
+    }
+    if (error && reply) {
+      reply(error);
+    }
+    return error;
+  }
+
+  private transactionFor(transactionId: string, particleId: string): StorageTransaction {
+    this.expireTransactions();
+    let open = this.transactions.get(transactionId);
+    if (!open) {
+      open = {transaction: this.arc.storageProviderFactory.transaction(particleId), opened: Date.now()};
+      this.transactions.set(transactionId, open);
+    }
+    return open.transaction;
+  }
+
+  // Drops transactions that have been open longer than transactionTimeout, such as those of
+  // particles that never commit. Their writes haven't been applied, so there is nothing to undo.
+  private expireTransactions() {
+    const cutoff = Date.now() - this.transactionTimeout;
+    for (const [transactionId, {opened}] of this.transactions) {
+      if (opened < cutoff) {
+        this.transactions.delete(transactionId);
+      }
+    }
+  }
+
+  // Applies a write that isn't part of a transaction while holding the write locks of the store
+  // and its backing store, so that it can't interleave with a transaction's writes. If the locks
+  // are free the write starts immediately, so that it is applied ahead of later messages.
+  private async locked(store: StorageProviderBase, write: () => Promise<void>): Promise<void> {
+    const known = !store.referenceMode ? [store] : store.backingStore ? [store, store.backingStore] : null;
+    const release = (known && tryLockStores(known)) || await lockStores(await withBackingStores([store]));
+    try {
+      await write();
+    } finally {
+      release();
+    }
+  }
+
   stop() {
     this._apiPort.Stop();
   }
@@ -216,9 +433,27 @@ export class ParticleExecutionHost {
       this._apiPort.DefineHandle(handle, {type: handle.type.resolvedType(), name: handle.name});
     });
 
+    this.specs.set(particle.id, spec);
     this._apiPort.InstantiateParticle(particle, {id: particle.id, spec, handles});
     return particle;
   }
+
+  // Forgets a particle that has been removed from the arc.
+  particleRemoved(particle) {
+    this.specs.delete(particle.id);
+    this.quotas.release(particle.id);
+  }
+  stopParticle(particle) {
+    this._apiPort.StopParticle({particleId: particle.id});
+  }
+  restartParticle(particle, reload = false) {
+    this._apiPort.RestartParticle({particleId: particle.id, reload});
+    if (this.slotComposer) {
+      // The new instance starts out with no slots to render into.
+      this.slotComposer.restartRendering(particle);
+    }
+  }
+
   startRender({particle, slotName, contentTypes}) {
     this._apiPort.StartRender({particle, slotName, contentTypes});
   }
@@ -0,0 +1,136 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+// Limits on the resources a particle may use. Omitted limits aren't enforced.
+export type ParticleQuotas = {
+  // Messages the particle sends to the host (renders, writes and inner arc
+  // requests) in any one second.
+  messagesPerSecond?: number;
+  // Milliseconds the particle spends in calls from its PEC (storage events,
+  // setHandles, rendering and UI events) in any one second. The PEC times each
+  // call until the promise it returns settles, so time spent waiting counts,
+  // and overlapping calls are counted for each: the quota is advisory, a guard
+  // against runaway particles rather than a precise limit.
+  cpuTimePerSecond?: number;
+  // Bytes the particle writes to each store over its lifetime, measured as the
+  // length of the serialized entities.
+  bytesPerStore?: number;
+  // Inner arcs the particle creates.
+  innerArcs?: number;
+};
+
+export type QuotaName = keyof ParticleQuotas;
+
+export type ParticleUsage = {
+  messagesPerSecond: number;
+  cpuTimePerSecond: number;
+  bytesPerStore: {[storeId: string]: number};
+  innerArcs: number;
+};
+
+export class QuotaExceededError extends Error {
+  constructor(readonly particleId: string, readonly quota: QuotaName, readonly limit: number,
+              readonly usage: number, readonly storeId?: string) {
+    super(`Particle ${particleId} exceeded its ${quota} quota of ${limit}${storeId ? ` for store ${storeId}` : ''} (${usage})`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Records the resources used by each of an arc's particles against its
+ * quotas. Each record method returns the violation, without recording the
+ * usage, if it would take the particle over a quota; otherwise it returns null.
+ * CPU time has already been spent, so it is recorded regardless.
+ */
+export class ParticleQuotaTracker {
+  private readonly overrides = new Map<string, ParticleQuotas>();
+  private readonly usage = new Map<string, ParticleUsage & {windowStart: number}>();
+
+  constructor(readonly defaults: ParticleQuotas = {}) {}
+
+  /** Overrides the default quotas for a single particle. */
+  setQuotas(particleId: string, quotas: ParticleQuotas) {
+    this.overrides.set(particleId, quotas);
+  }
+
+  quotasFor(particleId: string): ParticleQuotas {
+    return {...this.defaults, ...this.overrides.get(particleId)};
+  }
+
+  usageFor(particleId: string): ParticleUsage {
+    const {messagesPerSecond = 0, cpuTimePerSecond = 0, bytesPerStore = {}, innerArcs = 0} = this.usage.get(particleId) || {};
+    return {messagesPerSecond, cpuTimePerSecond, bytesPerStore: {...bytesPerStore}, innerArcs};
+  }
+
+  recordMessage(particleId: string, now = Date.now()): QuotaExceededError|null {
+    const usage = this.usageAt(particleId, now);
+    const {messagesPerSecond} = this.quotasFor(particleId);
+    if (messagesPerSecond != undefined && usage.messagesPerSecond >= messagesPerSecond) {
+      return new QuotaExceededError(particleId, 'messagesPerSecond', messagesPerSecond, usage.messagesPerSecond + 1);
+    }
+    usage.messagesPerSecond++;
+    return null;
+  }
+
+  recordCpuTime(particleId: string, time: number, now = Date.now()): QuotaExceededError|null {
+    const usage = this.usageAt(particleId, now);
+    usage.cpuTimePerSecond += time;
+    const {cpuTimePerSecond} = this.quotasFor(particleId);
+    if (cpuTimePerSecond != undefined && usage.cpuTimePerSecond > cpuTimePerSecond) {
+      return new QuotaExceededError(particleId, 'cpuTimePerSecond', cpuTimePerSecond, usage.cpuTimePerSecond);
+    }
+    return null;
+  }
+
+  recordWrite(particleId: string, storeId: string, data): QuotaExceededError|null {
+    const usage = this.usageOf(particleId);
+    const written = (usage.bytesPerStore[storeId] || 0) + (JSON.stringify(data) || '').length;
+    const {bytesPerStore} = this.quotasFor(particleId);
+    if (bytesPerStore != undefined && written > bytesPerStore) {
+      return new QuotaExceededError(particleId, 'bytesPerStore', bytesPerStore, written, storeId);
+    }
+    usage.bytesPerStore[storeId] = written;
+    return null;
+  }
+
+  recordInnerArc(particleId: string): QuotaExceededError|null {
+    const usage = this.usageOf(particleId);
+    const {innerArcs} = this.quotasFor(particleId);
+    if (innerArcs != undefined && usage.innerArcs >= innerArcs) {
+      return new QuotaExceededError(particleId, 'innerArcs', innerArcs, usage.innerArcs + 1);
+    }
+    usage.innerArcs++;
+    return null;
+  }
+
+  /** Forgets the quotas and usage of a particle that has been removed from the arc. */
+  release(particleId: string) {
+    this.overrides.delete(particleId);
+    this.usage.delete(particleId);
+  }
+
+  private usageOf(particleId: string) {
+    let usage = this.usage.get(particleId);
+    if (!usage) {
+      usage = {messagesPerSecond: 0, cpuTimePerSecond: 0, bytesPerStore: {}, innerArcs: 0, windowStart: 0};
+      this.usage.set(particleId, usage);
+    }
+    return usage;
+  }
+
+  // The usage of a particle with its per second counts for the window that now falls in.
+  private usageAt(particleId: string, now: number) {
+    const usage = this.usageOf(particleId);
+    if (now - usage.windowStart >= 1000) {
+      usage.windowStart = now;
+      usage.messagesPerSecond = 0;
+      usage.cpuTimePerSecond = 0;
+    }
+    return usage;
+  }
+}
@@ -107,7 +107,32 @@ export class ProvidedSlotSpec {
   }
 }
 
-type SerializedParticleSpec = {name: string, id?: string, verbs: string[], args: SerializedConnectionSpec[], description: {pattern?: string}, implFile: string, affordance: string[], slots: SerializedSlotSpec[]};
+// How the runtime responds to exceptions thrown by a particle. With the restart policy the
+// particle is restarted after a delay of backoff milliseconds, doubling with each restart,
+// up to maxRestarts times before it is stopped.
+export type SupervisionPolicy = {policy: 'ignore' | 'restart' | 'stop' | 'fail', maxRestarts?: number, backoff?: number};
+
+// What a particle may do beyond reading and writing its handles: construct inner arcs, use the
+// network, render into slots and access backing stores through references.
+export type ParticleCapability = 'innerArcs' | 'network' | 'slots' | 'backingStore';
+
+const capabilityActions = {
+  innerArcs: 'construct inner arcs',
+  network: 'use the network',
+  slots: 'render into slots',
+  backingStore: 'access backing stores',
+};
+
+// Thrown when a particle attempts something that its spec doesn't permit. The particle's id is
+// null where the attempt can't be attributed to a single instance.
+export class CapabilityError extends Error {
+  constructor(readonly particleId: string|null, readonly spec: ParticleSpec, readonly capability: ParticleCapability) {
+    super(`Particle '${spec.name}' can't ${capabilityActions[capability]} without declaring the '${capability}' capability`);
+    this.name = 'CapabilityError';
+  }
+}
+
+type SerializedParticleSpec = {name: string, id?: string, verbs: string[], args: SerializedConnectionSpec[], description: {pattern?: string}, implFile: string, affordance: string[], slots: SerializedSlotSpec[], supervision?: SupervisionPolicy, group?: string, capabilities?: ParticleCapability[]};
 
 export class ParticleSpec {
   private readonly model: SerializedParticleSpec;
@@ -121,6 +146,12 @@ export class ParticleSpec {
   implFile: string;
   affordance: string[];
   slots: Map<string, SlotSpec>;
+  // Null if the particle doesn't declare a policy.
+  supervision: SupervisionPolicy | null;
+  // The execution group the particle runs in, or null for the arc's default group.
+  group: string | null;
+  // Null if the particle doesn't declare its capabilities, in which case it has all of them.
+  capabilities: ParticleCapability[] | null;
   constructor(model : SerializedParticleSpec) {
     this.model = model;
     this.name = model.name;
@@ -143,6 +174,9 @@ export class ParticleSpec {
 
     this.implFile = model.implFile;
     this.affordance = model.affordance;
+    this.supervision = model.supervision || null;
+    this.group = model.group || null;
+    this.capabilities = model.capabilities || null;
     this.slots = new Map();
     if (model.slots) {
       model.slots.forEach(s => this.slots.set(s.name, new SlotSpec(s)));
@@ -180,24 +214,28 @@ export class ParticleSpec {
     return (this.verbs.length > 0) ? this.verbs[0] : undefined;
   }
 
+  permits(capability: ParticleCapability): boolean {
+    return this.capabilities === null || this.capabilities.includes(capability);
+  }
+
   matchAffordance(affordance: string) {
     return this.slots.size <= 0 || this.affordance.includes(affordance);
   }
 
   toLiteral() : SerializedParticleSpec {
-    const {args, name, verbs, description, implFile, affordance, slots} = this.model;
+    const {args, name, verbs, description, implFile, affordance, slots, supervision, group, capabilities} = this.model;
     const connectionToLiteral : (input: SerializedConnectionSpec) => SerializedConnectionSpec = 
       ({type, direction, name, isOptional, dependentConnections}) => ({type: type.toLiteral(), direction, name, isOptional, dependentConnections: dependentConnections.map(connectionToLiteral)});
     const argsLiteral = args.map(a => connectionToLiteral(a));
-    return {args: argsLiteral, name, verbs, description, implFile, affordance, slots};
+    return {args: argsLiteral, name, verbs, description, implFile, affordance, slots, supervision, group, capabilities};
   }
 
   static fromLiteral(literal: SerializedParticleSpec) {
-    let {args, name, verbs, description, implFile, affordance, slots} = literal;
+    let {args, name, verbs, description, implFile, affordance, slots, supervision, group, capabilities} = literal;
     const connectionFromLiteral = ({type, direction, name, isOptional, dependentConnections}) =>
       ({type: Type.fromLiteral(type), direction, name, isOptional, dependentConnections: dependentConnections ? dependentConnections.map(connectionFromLiteral) : []});
     args = args.map(connectionFromLiteral);
-    return new ParticleSpec({args, name, verbs: verbs || [], description, implFile, affordance, slots});
+    return new ParticleSpec({args, name, verbs: verbs || [], description, implFile, affordance, slots, supervision, group, capabilities});
   }
 
   clone() {
@@ -298,6 +336,22 @@ export class ParticleSpec {
         }
       });
     }
+    if (this.supervision) {
+      const {policy, maxRestarts, backoff} = this.supervision;
+      results.push(`  supervision ${policy}`);
+      if (maxRestarts !== undefined) {
+        results.push(`    maxRestarts ${maxRestarts}`);
+      }
+      if (backoff !== undefined) {
+        results.push(`    backoff ${backoff}`);
+      }
+    }
+    if (this.group) {
+      results.push(`  group ${this.group}`);
+    }
+    if (this.capabilities) {
+      results.push(`  capabilities ${this.capabilities.join(', ') || 'none'}`);
+    }
     return results.join('\n');
   }
 
@@ -0,0 +1,182 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {Arc} from './arc.js';
+import {Particle} from './recipe/particle.js';
+import {SupervisionPolicy} from './particle-spec.js';
+import {reportSystemException} from './arc-exceptions.js';
+
+// 'crashed' particles were stopped by their supervision policy, and may be waiting to be
+// restarted; 'stopped' particles were stopped explicitly.
+export type ParticleState = 'running' | 'crashed' | 'stopped';
+
+export type ParticleStatus = {
+  state: ParticleState;
+  // The number of exceptions the particle has thrown.
+  exceptions: number;
+  // The number of times the particle has been restarted after crashing.
+  restarts: number;
+};
+
+export type ArcFailure = {particle: Particle, exception: {name: string, message: string, stack: string}, methodName: string};
+
+type StateChangeCallback = (particle: Particle, status: ParticleStatus) => void;
+
+const defaultMaxRestarts = 3;
+const defaultBackoff = 100;
+
+/**
+ * Tracks the state of an arc's particles and applies each particle's
+ * supervision policy when it throws an exception. Particles that don't
+ * declare a policy keep running, with their exceptions reported through
+ * reportSystemException.
+ */
+export class ParticleSupervisor {
+  private readonly statuses = new Map<Particle, ParticleStatus>();
+  private readonly pendingRestarts = new Map<Particle, ReturnType<typeof setTimeout>>();
+  private readonly stateChangeCallbacks = new Map<object, StateChangeCallback>();
+  private _failure: ArcFailure | null = null;
+
+  constructor(private readonly arc: Arc) {}
+
+  /** The exception that failed the arc, if a particle with the fail policy has thrown one. */
+  get failure(): ArcFailure | null {
+    return this._failure;
+  }
+
+  status(particle: Particle): ParticleStatus | undefined {
+    const status = this.statuses.get(particle);
+    return status ? {...status} : undefined;
+  }
+
+  state(particle: Particle): ParticleState | undefined {
+    const status = this.statuses.get(particle);
+    return status ? status.state : undefined;
+  }
+
+  onStateChange(callback: StateChangeCallback, registration: object) {
+    this.stateChangeCallbacks.set(registration, callback);
+  }
+
+  clearStateChange(registration: object) {
+    this.stateChangeCallbacks.delete(registration);
+  }
+
+  // Called by the arc as it starts, stops and removes particles.
+  particleStarted(particle: Particle) {
+    this.cancelRestart(particle);
+    const status = this.statuses.get(particle);
+    if (status) {
+      this.setState(particle, status, 'running');
+    } else {
+      this.statuses.set(particle, {state: 'running', exceptions: 0, restarts: 0});
+    }
+  }
+
+  particleStopped(particle: Particle) {
+    this.cancelRestart(particle);
+    this.setState(particle, this.statuses.get(particle), 'stopped');
+  }
+
+  particleRemoved(particle: Particle) {
+    this.cancelRestart(particle);
+    this.statuses.delete(particle);
+  }
+
+  /**
+   * Applies the supervision policy of the particle with the given id to an
+   * exception it threw.
+   */
+  handleException(particleId: string, exception, methodName: string) {
+    const particle = this.arc.activeRecipe.particles.find(p => p.id === particleId);
+    const status = particle && this.statuses.get(particle);
+    if (!status) {
+      // Not one of this arc's particles, e.g. one that has since been removed.
+      const handleMap = this.arc.particleHandleMaps.get(particleId);
+      reportSystemException(exception, methodName, handleMap ? handleMap.spec.name : particleId);
+      return;
+    }
+    status.exceptions++;
+    if (status.state !== 'running') {
+      // Exceptions raised before the particle was stopped.
+      return;
+    }
+    const supervision: SupervisionPolicy = particle.spec.supervision;
+    switch (supervision ? supervision.policy : null) {
+      case null:
+        reportSystemException(exception, methodName, particle.name);
+        break;
+      case 'ignore':
+        break;
+      case 'restart': {
+        const {maxRestarts = defaultMaxRestarts, backoff = defaultBackoff} = supervision;
+        if (status.restarts >= maxRestarts) {
+          this.crash(particle, status);
+          break;
+        }
+        this.arc.pecFor(particle).stopParticle(particle);
+        this.setState(particle, status, 'crashed');
+        const delay = backoff * Math.pow(2, status.restarts);
+        this.pendingRestarts.set(particle, setTimeout(() => {
+          this.pendingRestarts.delete(particle);
+          status.restarts++;
+          this.arc.restartParticle(particle);
+        }, delay));
+        break;
+      }
+      case 'stop':
+        this.crash(particle, status);
+        break;
+      case 'fail':
+        this._failure = {particle, exception, methodName};
+        for (const other of this.arc.activeRecipe.particles) {
+          const otherStatus = this.statuses.get(other);
+          if (other !== particle && otherStatus && otherStatus.state === 'running') {
+            this.arc.pecFor(other).stopParticle(other);
+            this.setState(other, otherStatus, 'stopped');
+          }
+        }
+        this.crash(particle, status);
+        reportSystemException(exception, methodName, particle.name);
+        break;
+      default:
+        throw new Error(`Unknown supervision policy ${supervision.policy}`);
+    }
+  }
+
+  dispose() {
+    this.pendingRestarts.forEach(timeout => clearTimeout(timeout));
+    this.pendingRestarts.clear();
+  }
+
+  // Stops the particle and releases its slots.
+  private crash(particle: Particle, status: ParticleStatus) {
+    this.arc.pecFor(particle).stopParticle(particle);
+    if (this.arc.pec.slotComposer) {
+      this.arc.pec.slotComposer.detachParticles([particle]);
+    }
+    this.setState(particle, status, 'crashed');
+  }
+
+  private cancelRestart(particle: Particle) {
+    if (this.pendingRestarts.has(particle)) {
+      clearTimeout(this.pendingRestarts.get(particle));
+      this.pendingRestarts.delete(particle);
+    }
+  }
+
+  private setState(particle: Particle, status: ParticleStatus | undefined, state: ParticleState) {
+    if (!status || status.state === state) {
+      return;
+    }
+    status.state = state;
+    for (const callback of this.stateChangeCallbacks.values()) {
+      callback(particle, {...status});
+    }
+  }
+}
@@ -11,8 +11,9 @@
 import {Tracing} from '../../tracelib/trace.js';
 import {assert} from '../../platform/assert-web.js';
 import {Handle} from './handle.js';
-import {ConnectionSpec, ParticleSpec} from './particle-spec.js';
+import {CapabilityError, ConnectionSpec, ParticleSpec} from './particle-spec.js';
 import {Relevance} from './relevance.js';
+import {SyncStatus} from './storage/write-queue.js';
 
 /** @class Particle
  * A basic particle. For particles that provide UI, you may like to
@@ -21,6 +22,8 @@ import {Relevance} from './relevance.js';
 export class Particle {
     public static spec: ParticleSpec;
     public spec: ParticleSpec;
+    // Assigned by the ParticleExecutionContext when the particle is instantiated.
+    public id?: string;
     public extraData: boolean;
     public relevances: Relevance[] = [];
     public handles: Map<string, Handle>;
@@ -88,26 +91,46 @@ export class Particle {
    *  - data: The full Entity for a Variable-backed Handle.
    *  - added: An Array of Entities added to a Collection-backed Handle.
    *  - removed: An Array of Entities removed from a Collection-backed Handle.
+   *  Updates of Variables with the 'multi-value' conflict policy also have `conflicts`, an Array of
+   *  the concurrently written Entities (starting with `data`), until a later write resolves them.
    */
   // tslint:disable-next-line: no-any
-  onHandleUpdate(handle: Handle, update: {data?: any, added?: any, removed?: any, originator?: any}) {
+  onHandleUpdate(handle: Handle, update: {data?: any, added?: any, removed?: any, originator?: any, conflicts?: any}) {
   }
 
   /**
    * Called for handles that are configured with both keepSynced and notifyDesync, when they are
    * detected as being out-of-date against the backing store. For Variables, the event that triggers
    * this will also resync the data and thus this call may usually be ignored. For Collections, the
-   * underlying proxy will automatically request a full copy of the stored data to resynchronize.
-   * onHandleSync will be invoked when that is received.
+   * underlying proxy will automatically request the updates it missed from the store's change log,
+   * and onHandleUpdate will be invoked for each. If the log no longer holds them all, the proxy
+   * requests a full copy of the stored data instead, and onHandleSync will be invoked when that is
+   * received.
    *
    * @param handle The Handle instance that was desynchronized.
    */
   onHandleDesync(handle: Handle) {
   }
 
+  /**
+   * Called when the writes to a handle's store stop or resume reaching the remote store that it's
+   * synced with, or its changes stop or resume arriving from it. Stores that aren't synced with a
+   * remote store never call this. Writes made while
+   * a store is offline are kept and sent once it's back online.
+   *
+   * @param handle The Handle instance whose store changed status.
+   * @param status An object with the following fields:
+   *  - state: 'online' or 'offline'.
+   *  - pending: The number of writes that haven't reached the remote store yet.
+   *  - lastError: Why the last write to or change from the remote store failed, or null once the
+   *    store is back online.
+   */
+  onHandleSyncStatus(handle: Handle, status: SyncStatus) {
+  }
+
   constructInnerArc() {
     if (!this.capabilities.constructInnerArc) {
-      throw new Error('This particle is not allowed to construct inner arcs');
+      throw new CapabilityError(this.id, this.spec, 'innerArcs');
     }
     return this.capabilities.constructInnerArc(this);
   }
@@ -0,0 +1,280 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {Arc} from './arc.js';
+import {PECInnerPort} from '../api-channel.js';
+import {Random} from './random.js';
+import {assert} from '../../platform/assert-web.js';
+
+type Message = {messageType: string, messageBody: {}};
+type Port = {postMessage(message: Message): void, onmessage: (e: {data: Message}) => void, close(): void};
+type PecFactory = (id: string) => PECInnerPort;
+
+export type PecLogEntry = {
+  sequence: number;
+  // Milliseconds since recording started.
+  time: number;
+  pecId: string;
+  direction: 'to-pec'|'from-pec';
+  message: Message;
+};
+
+// The contents of each store and the rendered content of each slot, keyed by
+// store ID and by `particle::slot`.
+export type ArcContents = {
+  stores: {[id: string]: {id: string, value: {}}[]};
+  slots: {[name: string]: {}[]};
+};
+
+// The seed is that of the random number generator while the arc was recorded.
+export type PecLog = ArcContents & {seed: number, entries: PecLogEntry[]};
+
+// Idle messages only synchronize the host with the PEC, so they aren't recorded;
+// the replayer answers AwaitIdle itself.
+const unrecorded = ['AwaitIdle', 'Idle'];
+
+function copyMessage(message): Message {
+  const {messageType, messageBody} = JSON.parse(JSON.stringify(message));
+  return {messageType, messageBody};
+}
+
+async function contentsOf(arc: Arc): Promise<ArcContents> {
+  await arc.idle;
+  const contents: ArcContents = {stores: {}, slots: {}};
+  for (const store of arc._stores) {
+    const {model} = await store.modelForSynchronization();
+    contents.stores[store.id] = model.map(({id, value}) => ({id, value}))
+                                     .sort((a, b) => a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  }
+  const composer = arc.pec.slotComposer;
+  for (const consumer of composer ? composer.consumers : []) {
+    const name = `${consumer.consumeConn.particle.name}::${consumer.consumeConn.name}`;
+    const renderings = consumer.renderings.map(([subId, {container, ...rendering}]) => ({subId: subId || null, ...rendering}));
+    contents.slots[name] = [...(contents.slots[name] || []), ...JSON.parse(JSON.stringify(renderings))];
+  }
+  return contents;
+}
+
+/**
+ * Records the messages that an arc exchanges with its particle execution
+ * contexts, in order and with their timing, so that the arc can later be
+ * replayed with PecReplayer. Recording starts with start(), which seeds the
+ * random number generator with a random seed that is recorded in the log, so
+ * it must be called before the arc is created; the arc is given the
+ * recorder's pecFactory. The previous generator is restored by stop(), which
+ * finish() calls.
+ */
+export class PecRecorder {
+  readonly entries: PecLogEntry[] = [];
+  readonly pecFactory: PecFactory;
+  private startTime = Date.now();
+  private seed: number|null = null;
+  private restoreRandom: (() => void)|null = null;
+
+  constructor(pecFactory: PecFactory) {
+    this.pecFactory = (pecId: string) => {
+      const port = pecFactory(pecId) as {} as Port;
+      const record = (direction: 'to-pec'|'from-pec', message: Message) => {
+        if (!unrecorded.includes(message.messageType)) {
+          this.entries.push({sequence: this.entries.length, time: Date.now() - this.startTime, pecId, direction, message: copyMessage(message)});
+        }
+      };
+      const recordingPort: Port = {
+        postMessage(message) {
+          record('to-pec', message);
+          port.postMessage(message);
+        },
+        set onmessage(handler) {
+          port.onmessage = e => {
+            record('from-pec', e.data);
+            return handler(e);
+          };
+        },
+        close() {
+          port.close();
+        },
+      };
+      return recordingPort as {} as PECInnerPort;
+    };
+  }
+
+  /** Seeds the random number generator and starts timing the recording. */
+  start(): void {
+    assert(!this.restoreRandom, 'the recorder has already been started');
+    this.startTime = Date.now();
+    this.seed = Random.next();
+    this.restoreRandom = Random.seed(this.seed);
+  }
+
+  /** Restores the random number generator that was in use when recording started. */
+  stop(): void {
+    if (this.restoreRandom) {
+      this.restoreRandom();
+      this.restoreRandom = null;
+    }
+  }
+
+  /**
+   * Returns the log once the arc is idle, with the contents of its stores and
+   * slots, and stops recording.
+   */
+  async finish(arc: Arc): Promise<PecLog> {
+    assert(this.seed !== null, 'the recorder was never started');
+    try {
+      const contents = await contentsOf(arc);
+      return {seed: this.seed, entries: this.entries.slice(), ...contents};
+    } finally {
+      this.stop();
+    }
+  }
+}
+
+/**
+ * Re-runs an arc from a PecLog. The replayer stands in for the arc's particle
+ * execution contexts: instead of running particles, it sends the host the
+ * messages they sent when the log was recorded, each once the host has sent the
+ * messages that preceded it, and checks that the host sends the messages it did
+ * then. Timing isn't reproduced, only order. Like the recorder, the replayer
+ * seeds the random number generator, with the log's seed, from start() until
+ * the replay is verified (or stop() is called), so it must be started before
+ * the arc is created; the arc must then be driven as the recorded one was, with
+ * the same id, manifests and recipes. Changes made to the arc while particles
+ * are busy, such as writes to stores before the arc is idle, may reach the host
+ * in a different order than they did when recorded, which is reported as a
+ * divergence.
+ */
+export class PecReplayer {
+  readonly pecFactory: PecFactory;
+  private readonly toPec: PecLogEntry[];
+  private readonly handlers = new Map<string, (e: {data: Message}) => void>();
+  private readonly divergences: string[] = [];
+  private readonly pendingIdles: {pecId: string, version: number}[] = [];
+  private cursor = 0;
+  private received = 0;
+  private pumping = false;
+  private pumpAgain = false;
+  private restoreRandom: (() => void)|null = null;
+
+  constructor(private readonly log: PecLog) {
+    this.toPec = log.entries.filter(entry => entry.direction === 'to-pec');
+    this.pecFactory = (pecId: string) => {
+      const replayer = this;
+      const port: Port = {
+        postMessage(message) {
+          replayer.receive(pecId, message);
+        },
+        set onmessage(handler) {
+          replayer.handlers.set(pecId, handler);
+          replayer.pump();
+        },
+        close() {},
+      };
+      return port as {} as PECInnerPort;
+    };
+  }
+
+  /** Seeds the random number generator with the log's seed. */
+  start(): void {
+    assert(!this.restoreRandom, 'the replayer has already been started');
+    this.restoreRandom = Random.seed(this.log.seed);
+  }
+
+  /** Restores the random number generator that was in use when the replay started. */
+  stop(): void {
+    if (this.restoreRandom) {
+      this.restoreRandom();
+      this.restoreRandom = null;
+    }
+  }
+
+  private receive(pecId: string, message: Message) {
+    if (message.messageType === 'AwaitIdle') {
+      this.pendingIdles.push({pecId, version: message.messageBody['version']});
+    } else {
+      const expected = this.toPec[this.received++];
+      const actual = {pecId, message: copyMessage(message)};
+      if (!expected) {
+        this.divergences.push(`Unexpected message after the end of the log: ${JSON.stringify(actual)}`);
+      } else if (JSON.stringify(actual) !== JSON.stringify({pecId: expected.pecId, message: expected.message})) {
+        this.divergences.push(`Message ${expected.sequence} differs from the log; expected ` +
+                              `${JSON.stringify(expected.message)}, got ${JSON.stringify(actual.message)}`);
+      }
+    }
+    this.pump();
+  }
+
+  // Sends the host the recorded messages that it's ready for, then answers any
+  // AwaitIdle messages if no more can be sent.
+  private async pump() {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+    do {
+      this.pumpAgain = false;
+      while (this.cursor < this.log.entries.length) {
+        const entry = this.log.entries[this.cursor];
+        if (entry.direction === 'to-pec') {
+          if (this.toPec.indexOf(entry) >= this.received) {
+            break;
+          }
+        } else {
+          const handler = this.handlers.get(entry.pecId);
+          if (!handler) {
+            break;
+          }
+          await handler({data: copyMessage(entry.message)});
+        }
+        this.cursor++;
+      }
+      if (!this.pumpAgain && this.pendingIdles.length > 0) {
+        // Let the host finish handling the messages before reporting that the PEC is idle.
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (!this.pumpAgain) {
+          for (const {pecId, version} of this.pendingIdles.splice(0)) {
+            await this.handlers.get(pecId)({data: {messageType: 'Idle', messageBody: {version, relevance: {}}}});
+          }
+        }
+      }
+    } while (this.pumpAgain);
+    this.pumping = false;
+  }
+
+  /**
+   * Returns the ways the replay differed from the recording, once the arc is
+   * idle: messages the host sent differently, messages that couldn't be replayed,
+   * and stores and slots whose contents differ. None means the replay matched.
+   * Stops the replay.
+   */
+  async verify(arc: Arc): Promise<string[]> {
+    let contents: ArcContents;
+    try {
+      contents = await contentsOf(arc);
+    } finally {
+      this.stop();
+    }
+    const problems = [...this.divergences];
+    if (this.cursor < this.log.entries.length) {
+      const entry = this.log.entries[this.cursor];
+      problems.push(`Replay stopped at message ${entry.sequence} of ${this.log.entries.length}, ` +
+                    `${entry.direction === 'to-pec' ? 'waiting for' : 'sending'} ${entry.message.messageType}`);
+    }
+    const compare = (kind: string, expected: {}, actual: {}) => {
+      for (const name of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+        const [was, is] = [expected[name], actual[name]].map(value => JSON.stringify(value || null));
+        if (was !== is) {
+          problems.push(`${kind} '${name}' contains ${is}, but contained ${was} when recorded`);
+        }
+      }
+    };
+    compare('Store', this.log.stores, contents.stores);
+    compare('Slot', this.log.slots, contents.slots);
+    return problems;
+  }
+}
@@ -14,6 +14,7 @@ import {Recipe} from '../recipe/recipe';
 import {PlanningResult} from './planning-result';
 import {StorageProviderBase} from '../storage/storage-provider-base';
 import {SuggestionComposer} from '../../suggestion-composer.js';
+import {PolicyViolation} from '../policy.js';
 
 type Callback = ({}) => void;
 
@@ -72,7 +73,8 @@ export class PlanConsumer {
 
   getCurrentSuggestions() {
     const suggestions = this.result.plans.filter(
-        suggestion => suggestion['plan'].slots.length > 0);
+        suggestion => suggestion['plan'].slots.length > 0 &&
+                      this.arc.policyEngine.check(suggestion['plan'], this.arc).length === 0);
 
     // `showAll`: returns all plans that render into slots.
     if (this.suggestFilter['showAll']) {
@@ -104,6 +106,13 @@ export class PlanConsumer {
     });
   }
 
+  // The plans that the arc's policies don't allow to be suggested, with the reasons why.
+  getRejectedSuggestions(): {suggestion: {}, violations: PolicyViolation[]}[] {
+    return this.result.plans
+        .map(suggestion => ({suggestion, violations: this.arc.policyEngine.check(suggestion['plan'], this.arc)}))
+        .filter(({violations}) => violations.length > 0);
+  }
+
   dispose() {
     this.store.off('change', this.storeCallback);
     this.plansChangeCallbacks = [];
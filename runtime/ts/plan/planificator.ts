@@ -97,6 +97,42 @@ export class Planificator {
     this.consumer.dispose();
   }
 
+  get canUndo(): boolean {
+    return this.arc.canUndo;
+  }
+
+  /**
+   * Backs out the most recently accepted suggestion and requests replanning.
+   * Returns the plan that was undone, or null if there was none.
+   */
+  async undo(): Promise<Recipe|null> {
+    const plan = await this.arc.undo();
+    if (plan) {
+      if (this.lastActivatedPlan === plan) {
+        this.lastActivatedPlan = null;
+      }
+      this.requestPlanning();
+    }
+    return plan;
+  }
+
+  get canRedo(): boolean {
+    return this.arc.canRedo;
+  }
+
+  /**
+   * Reinstates the most recently undone suggestion and requests replanning.
+   * Returns the plan that was redone, or null if there was none.
+   */
+  async redo(): Promise<Recipe|null> {
+    const plan = await this.arc.redo();
+    if (plan) {
+      this.lastActivatedPlan = plan;
+      this.requestPlanning();
+    }
+    return plan;
+  }
+
   getLastActivatedPlan() {
     return {plan: this.lastActivatedPlan};
   }
@@ -144,6 +180,12 @@ export class Planificator {
     switch (storageKey.protocol) {
       case 'firebase':
         return storage._join(id, type, storageKeyStr, /* shoudExist= */ 'unknown', /* referenceMode= */ false);
+      case 'sqlite':
+        // Suggestions persist across sessions, so the store may already exist.
+        store = await storage._construct(id, type, storageKeyStr, /* referenceMode= */ false) ||
+                await storage.connect(id, type, storageKeyStr);
+        assert(store, `Failed initializing '${protocol}' store.`);
+        return store;
       case 'volatile':
       case 'pouchdb':
         try {
@@ -0,0 +1,173 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {Recipe} from './recipe/recipe.js';
+import {Handle} from './recipe/handle.js';
+import {SlotConnection} from './recipe/slot-connection.js';
+import {StorageProviderBase} from './storage/storage-provider-base.js';
+import {ParticleCapability} from './particle-spec.js';
+
+// Where the stores that a recipe's handles map are found; an Arc or a Manifest.
+export type PolicyContext = {
+  findStoreById(id: string): StorageProviderBase;
+  findStoreTags(store: StorageProviderBase): string[]|Set<string>;
+};
+
+export type PolicyViolation = {
+  policy: string;
+  // Why the recipe violates the policy, for showing to users.
+  reason: string;
+};
+
+export interface Policy {
+  readonly name: string;
+  check(recipe: Recipe, context: PolicyContext|null): PolicyViolation[];
+}
+
+// Selects stores and slots by their tags (all of which must match), their ID or their name.
+export type PolicySelector = {tags?: string[], id?: string, name?: string};
+
+// Capability rules without a particle name apply to every particle.
+export type PolicyRule = {kind: 'store-fate', store: PolicySelector, fates: string[]}
+                       | {kind: 'particle-slot', particle: string, slot: PolicySelector}
+                       | {kind: 'particle-capability', particle: string|null, capabilities: ParticleCapability[]};
+
+const fateVerbs = {copy: 'copied', map: 'mapped', use: 'used', create: 'created'};
+const fateGerunds = {copy: 'copying', map: 'mapping', use: 'using', create: 'creating'};
+
+function selectorString(selector: PolicySelector): string {
+  if (selector.tags) {
+    return selector.tags.map(tag => `#${tag}`).join(' ');
+  }
+  return selector.id ? `'${selector.id}'` : selector.name;
+}
+
+function matches(selector: PolicySelector, {tags, id, name}: {tags: string[], id: string|null, name: string|null}): boolean {
+  if (selector.tags) {
+    return selector.tags.every(tag => tags.includes(tag));
+  }
+  return selector.id ? selector.id === id : selector.name === name;
+}
+
+/**
+ * A policy declared in a manifest, as a list of rules such as
+ *   store #sensitive may not be copied
+ *   particle ShowContacts may not consume slot root
+ *   particles may not use network, innerArcs
+ * A recipe violates the policy if it breaks any of the rules. Particles that
+ * don't declare their capabilities are taken to use all of them.
+ */
+export class ManifestPolicy implements Policy {
+  constructor(readonly name: string, readonly rules: PolicyRule[]) {}
+
+  check(recipe: Recipe, context: PolicyContext|null): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const violation = (reason: string) => violations.push({policy: this.name, reason: `Policy '${this.name}' forbids ${reason}`});
+    for (const rule of this.rules) {
+      if (rule.kind === 'store-fate') {
+        for (const handle of recipe.handles.filter(handle => rule.fates.includes(handle.fate))) {
+          const store = this.describeStore(handle, context);
+          if (matches(rule.store, store)) {
+            const tags = store.tags.length > 0 ? ` (${store.tags.map(tag => `#${tag}`).join(' ')})` : '';
+            violation(`${fateGerunds[handle.fate]} ${store.id ? `store '${store.id}'` : `handle '${handle.localName}'`}${tags}`);
+          }
+        }
+      } else if (rule.kind === 'particle-capability') {
+        for (const particle of recipe.particles.filter(particle => particle.spec && (!rule.particle || particle.name === rule.particle))) {
+          for (const capability of rule.capabilities.filter(capability => particle.spec.permits(capability))) {
+            violation(`particle '${particle.name}' from using the '${capability}' capability`);
+          }
+        }
+      } else {
+        for (const particle of recipe.particles.filter(particle => particle.name === rule.particle)) {
+          const slotConnections = Object.values(particle.consumedSlotConnections) as SlotConnection[];
+          for (const slotConnection of slotConnections.filter(slotConnection => slotConnection && slotConnection.targetSlot)) {
+            const slot = slotConnection.targetSlot;
+            const tags = [...slotConnection.tags, ...slot.tags];
+            if (matches(rule.slot, {tags, id: slot.id, name: slotConnection.name}) ||
+                matches(rule.slot, {tags, id: slot.id, name: slot.name})) {
+              violation(`particle '${particle.name}' from consuming slot '${slotConnection.name}'`);
+            }
+          }
+        }
+      }
+    }
+    return violations;
+  }
+
+  // The tags, ID and name of the store that a handle maps, including those of the handle itself.
+  private describeStore(handle: Handle, context: PolicyContext|null) {
+    const tags = [...handle.tags];
+    const store = handle.id && context ? context.findStoreById(handle.id) : null;
+    if (store) {
+      for (const tag of context.findStoreTags(store) || []) {
+        if (!tags.includes(tag)) {
+          tags.push(tag);
+        }
+      }
+    }
+    return {tags, id: handle.id || null, name: store ? store.name : null};
+  }
+
+  toString(): string {
+    const rules = this.rules.map(rule => {
+      switch (rule.kind) {
+        case 'store-fate':
+          return `  store ${selectorString(rule.store)} may not be ${rule.fates.map(fate => fateVerbs[fate]).join(', ')}`;
+        case 'particle-slot':
+          return `  particle ${rule.particle} may not consume slot ${selectorString(rule.slot)}`;
+        default:
+          return `  ${rule.particle ? `particle ${rule.particle}` : 'particles'} may not use ${rule.capabilities.join(', ')}`;
+      }
+    });
+    return [`policy ${this.name}`, ...rules].join('\n');
+  }
+}
+
+export class PolicyViolationError extends Error {
+  constructor(readonly violations: PolicyViolation[]) {
+    super(`Recipe violates ${violations.length === 1 ? 'a policy' : 'policies'}:\n` +
+          violations.map(violation => `  ${violation.reason}`).join('\n'));
+  }
+}
+
+/**
+ * Decides whether recipes may be suggested and instantiated, by checking them
+ * against a list of policies. An arc's engine starts with the policies declared
+ * in its context; others can be added.
+ */
+export class PolicyEngine {
+  private readonly policies: Policy[];
+
+  constructor(policies: Policy[] = []) {
+    this.policies = [...policies];
+  }
+
+  add(policy: Policy) {
+    this.policies.push(policy);
+  }
+
+  remove(policy: Policy) {
+    const index = this.policies.indexOf(policy);
+    if (index >= 0) {
+      this.policies.splice(index, 1);
+    }
+  }
+
+  check(recipe: Recipe, context: PolicyContext|null = null): PolicyViolation[] {
+    return [].concat(...this.policies.map(policy => policy.check(recipe, context)));
+  }
+
+  // Throws a PolicyViolationError if the recipe violates any of the policies.
+  enforce(recipe: Recipe, context: PolicyContext|null = null) {
+    const violations = this.check(recipe, context);
+    if (violations.length > 0) {
+      throw new PolicyViolationError(violations);
+    }
+  }
+}
@@ -25,7 +25,10 @@ class MathRandomRNG extends RNG {
  * Provides a deterministic Random Number Generator for Tests
  */
 class SeededRNG extends RNG {
-  private seed = 0;
+  constructor(private seed = 0) {
+    super();
+  }
+
   next(): number {
     this.seed = Math.pow(this.seed + Math.E, Math.PI) % 1;
     return this.seed;
@@ -40,8 +43,16 @@ export class Random {
     return random.next();
   }
 
+  // Makes the numbers that follow a fixed sequence, as when arcs are recorded and replayed.
+  // Returns a function that restores the generator that was in use.
+  static seed(seed = 0) : () => void {
+    const previous = random;
+    random = new SeededRNG(seed);
+    return () => random = previous;
+  }
+
   // TODO: remove test code and allow for injectable implementations.
   static seedForTests() : void {
-    random = new SeededRNG();
+    Random.seed();
   }
 }
@@ -0,0 +1,262 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {ParticleSpec} from '../particle-spec.js';
+import {StorageProviderBase} from '../storage/storage-provider-base.js';
+import {Handle} from './handle.js';
+import {Particle} from './particle.js';
+import {Recipe} from './recipe.js';
+import {Slot} from './slot.js';
+
+// An arc constructed by a particle, as recorded by Arc.
+export type InnerArc = {activeRecipe: Recipe};
+
+// Where the stores that handles map are found; an Arc or a Manifest.
+export type DataflowContext = {
+  findStoreById(id: string): StorageProviderBase;
+  findStoreTags(store: StorageProviderBase): string[]|Set<string>;
+};
+
+export type DataflowOptions = {
+  context?: DataflowContext;
+  // The arcs that the recipe's particles have constructed, by the particle that
+  // constructed them. By default, those recorded by the context if it's an Arc.
+  innerArcs?: Map<Particle, InnerArc>;
+  // Whether a particle's implementation can use the network. By default, those that declare
+  // the network capability can, as can those that declare no capabilities at all.
+  isNetworkCapable?: (spec: ParticleSpec) => boolean;
+  // Tags that mark a store's data as private; ['private'] by default.
+  privateTags?: string[];
+  // Whether a store's data is shared beyond the arc. By default, stores tagged
+  // #shared and those kept in Firebase are.
+  isShared?: (store: DataflowStore) => boolean;
+};
+
+// A store that the recipe's handles, or those of its inner arcs, refer to.
+export type DataflowStore = {
+  // Null for a handle that isn't yet mapped to a store.
+  id: string|null;
+  handles: Handle[];
+  tags: string[];
+  storageKey: string|null;
+};
+
+export type DataflowViolation = {
+  kind: 'network'|'shared-store';
+  source: DataflowStore;
+  // The tag that makes the source private.
+  tag: string;
+  // The network-capable particle, or the shared store, that the data reaches.
+  particle?: Particle;
+  store?: DataflowStore;
+  // The particles the data passes through, from the source onwards.
+  path: Particle[];
+  message: string;
+};
+
+type Node = DataflowStore|Particle|Slot;
+
+const defaultIsShared = (store: DataflowStore) =>
+    store.tags.includes('shared') || (store.storageKey !== null && store.storageKey.startsWith('firebase:'));
+
+function describe(node: Node): string {
+  if (node instanceof Particle) {
+    return `particle '${node.name}'`;
+  }
+  if (node instanceof Slot) {
+    return `slot '${node.name}'`;
+  }
+  return node.id ? `store '${node.id}'` : `handle '${node.handles[0].localName}'`;
+}
+
+/**
+ * The flow of data between a recipe's stores, particles and slots. Data flows
+ * from a store into the particles that read it, from a particle to the stores it
+ * writes and the slots it renders into, and from each of a particle's inputs to
+ * each of its outputs. A particle that constructs inner arcs is taken to read and
+ * write all of their stores, and a particle that hosts others (through a `host`
+ * connection) does whatever they do; the hosted particles are the specs in the
+ * stores of those connections, or are unknown if the stores can't be read.
+ */
+export class Dataflow {
+  readonly stores: DataflowStore[] = [];
+  readonly slots: Slot[] = [];
+  private readonly edges = new Map<Node, Set<Node>>();
+  // The particles that each particle hosts, or null where they're unknown.
+  private readonly hosted = new Map<Particle, ParticleSpec[]|null>();
+
+  private constructor(private readonly options: DataflowOptions) {}
+
+  static async analyze(recipe: Recipe, options: DataflowOptions = {}): Promise<Dataflow> {
+    const dataflow = new Dataflow(options);
+    let innerArcs = options.innerArcs;
+    if (!innerArcs) {
+      innerArcs = new Map();
+      // An Arc's recipes record the inner arcs of their particles; a Manifest's don't.
+      const context = options.context as {recipes?: {innerArcs?: Map<Particle, InnerArc & {recipes}>}[]};
+      const collect = recipes => recipes.filter(arcRecipe => arcRecipe.innerArcs).forEach(arcRecipe =>
+          arcRecipe.innerArcs.forEach((innerArc, particle) => {
+            innerArcs.set(particle, innerArc);
+            collect(innerArc.recipes || []);
+          }));
+      collect((context && context.recipes) || []);
+    }
+    await dataflow.addRecipe(recipe, innerArcs);
+    return dataflow;
+  }
+
+  private async addRecipe(recipe: Recipe, innerArcs: Map<Particle, InnerArc>) {
+    for (const particle of recipe.particles) {
+      for (const connection of Object.values(particle.connections)) {
+        if (!connection.handle) {
+          continue;
+        }
+        const store = this.storeFor(connection.handle);
+        if (connection.direction === 'host') {
+          await this.addHosted(particle, store);
+        }
+        if (connection.direction !== 'out') {
+          this.addEdge(store, particle);
+        }
+        if (connection.isOutput) {
+          this.addEdge(particle, store);
+        }
+      }
+      for (const slotConnection of Object.values(particle.consumedSlotConnections)) {
+        if (slotConnection && slotConnection.targetSlot) {
+          if (!this.slots.includes(slotConnection.targetSlot)) {
+            this.slots.push(slotConnection.targetSlot);
+          }
+          this.addEdge(particle, slotConnection.targetSlot);
+        }
+      }
+
+      const innerArc = innerArcs.get(particle) ||
+          [...innerArcs.entries()].filter(([host]) => particle.id && host.id === particle.id).map(([_, arc]) => arc)[0];
+      if (innerArc) {
+        await this.addRecipe(innerArc.activeRecipe, innerArcs);
+        for (const handle of innerArc.activeRecipe.handles) {
+          const store = this.storeFor(handle);
+          this.addEdge(store, particle);
+          this.addEdge(particle, store);
+        }
+      }
+    }
+  }
+
+  private async addHosted(particle: Particle, store: DataflowStore) {
+    let specs = this.hosted.has(particle) ? this.hosted.get(particle) : [];
+    const context = this.options.context;
+    const storage = store.id && context ? context.findStoreById(store.id) : null;
+    let spec: ParticleSpec|null = null;
+    if (storage) {
+      try {
+        const {model} = await storage.toLiteral();
+        spec = model.length > 0 ? ParticleSpec.fromLiteral(model[0].value) : null;
+      } catch (e) {
+        // The hosted particle is unknown.
+      }
+    }
+    if (specs && spec) {
+      specs.push(spec);
+    } else {
+      specs = null;
+    }
+    this.hosted.set(particle, specs);
+  }
+
+  private storeFor(handle: Handle): DataflowStore {
+    let store = this.stores.find(store => store.handles.includes(handle) || (handle.id && store.id === handle.id));
+    if (!store) {
+      store = {id: handle.id || null, handles: [], tags: [], storageKey: handle.storageKey || null};
+      const context = this.options.context;
+      const storage = handle.id && context ? context.findStoreById(handle.id) : null;
+      if (storage) {
+        store.tags.push(...(context.findStoreTags(storage) || []));
+        store.storageKey = store.storageKey || storage.storageKey;
+      }
+      this.stores.push(store);
+    }
+    if (!store.handles.includes(handle)) {
+      store.handles.push(handle);
+      handle.tags.filter(tag => !store.tags.includes(tag)).forEach(tag => store.tags.push(tag));
+    }
+    return store;
+  }
+
+  private addEdge(from: Node, to: Node) {
+    if (!this.edges.has(from)) {
+      this.edges.set(from, new Set());
+    }
+    this.edges.get(from).add(to);
+  }
+
+  // Each node that the store's data reaches, with the particles it passes through to get there.
+  private reach(store: DataflowStore): Map<Node, Particle[]> {
+    const paths = new Map<Node, Particle[]>([[store, []]]);
+    const queue: Node[] = [store];
+    while (queue.length > 0) {
+      const node = queue.shift();
+      const path = node instanceof Particle ? [...paths.get(node), node] : paths.get(node);
+      for (const next of this.edges.get(node) || []) {
+        if (!paths.has(next)) {
+          paths.set(next, path);
+          queue.push(next);
+        }
+      }
+    }
+    paths.delete(store);
+    return paths;
+  }
+
+  // The other stores that the store's data can reach.
+  reachableStores(store: DataflowStore): DataflowStore[] {
+    return [...this.reach(store).keys()].filter(node => this.stores.includes(node as DataflowStore)) as DataflowStore[];
+  }
+
+  reachableSlots(store: DataflowStore): Slot[] {
+    return [...this.reach(store).keys()].filter(node => node instanceof Slot) as Slot[];
+  }
+
+  reachableParticles(store: DataflowStore): Particle[] {
+    return [...this.reach(store).keys()].filter(node => node instanceof Particle) as Particle[];
+  }
+
+  // Whether the particle, or a particle it hosts, can use the network. Unknown hosted particles might.
+  isNetworkCapable(particle: Particle): boolean {
+    const isNetworkCapable = this.options.isNetworkCapable || (spec => spec.permits('network'));
+    const hosted = this.hosted.has(particle) ? this.hosted.get(particle) : [];
+    return (particle.spec && isNetworkCapable(particle.spec)) || hosted === null || hosted.some(isNetworkCapable);
+  }
+
+  // Flows of private data to particles that can use the network, and to shared stores.
+  get violations(): DataflowViolation[] {
+    const privateTags = this.options.privateTags || ['private'];
+    const isShared = this.options.isShared || defaultIsShared;
+    const violations: DataflowViolation[] = [];
+    for (const source of this.stores) {
+      const tag = privateTags.find(tag => source.tags.includes(tag));
+      if (!tag) {
+        continue;
+      }
+      for (const [node, path] of this.reach(source)) {
+        const via = path.length > 0 ? ` through ${path.map(particle => `'${particle.name}'`).join(', ')}` : '';
+        if (node instanceof Particle) {
+          if (this.isNetworkCapable(node)) {
+            violations.push({kind: 'network', source, tag, particle: node, path: [...path, node],
+                message: `Data from #${tag} ${describe(source)} reaches ${describe(node)}${via}, which can use the network`});
+          }
+        } else if (!(node instanceof Slot) && isShared(node)) {
+          violations.push({kind: 'shared-store', source, tag, store: node, path,
+              message: `Data from #${tag} ${describe(source)} reaches shared ${describe(node)}${via}`});
+        }
+      }
+    }
+    return violations;
+  }
+}
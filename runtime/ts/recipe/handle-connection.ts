@@ -12,6 +12,7 @@ import {Type} from '../type.js';
 import {Recipe} from './recipe.js';
 import {Particle} from './particle.js';
 import {Handle} from './handle.js';
+import {SourceLocation} from './type-checker.js';
 
 export type Direction = 'in' | 'out' | 'inout' | 'host';
 
@@ -24,6 +25,8 @@ export class HandleConnection {
   _direction: Direction | undefined = undefined;
   _particle: Particle;
   _handle: Handle | undefined = undefined;
+  // Where the connection was declared, if it came from a manifest.
+  private _location: SourceLocation | undefined = undefined;
 
   constructor(name, particle) {
     assert(particle);
@@ -44,6 +47,7 @@ export class HandleConnection {
     // scope.    
     handleConnection._rawType = this._rawType;
     handleConnection._direction = this._direction;
+    handleConnection._location = this._location;
     if (this._handle != undefined) {
       handleConnection._handle = cloneMap.get(this._handle);
       assert(handleConnection._handle !== undefined);
@@ -93,6 +97,8 @@ export class HandleConnection {
   }
   get handle() { return this._handle; } // Handle?
   get particle() { return this._particle; } // never null
+  get location() { return this._location; }
+  set location(location) { this._location = location; }
 
   set tags(tags) { this._tags = tags; }
   set type(type) {
@@ -7,7 +7,7 @@
 
 import {assert} from '../../../platform/assert-web.js';
 import {compareStrings, compareArrays, compareComparables} from './util.js';
-import {TypeChecker} from './type-checker.js';
+import {TypeChecker, TypeCheckOptions, TypeDiagnostic} from './type-checker.js';
 import {Type} from '../type.js';
 import {Recipe} from './recipe.js';
 import {HandleConnection} from './handle-connection.js';
@@ -143,17 +143,17 @@ export class Handle {
   set pattern(pattern) { this._pattern = pattern; }
   get mappedType() { return this._mappedType; }
 
-  static effectiveType(handleType, connections) {
+  static effectiveType(handleType, connections, options: TypeCheckOptions = {}) {
     const variableMap = new Map();
     // It's OK to use _cloneWithResolutions here as for the purpose of this test, the handle set + handleType 
     // contain the full set of type variable information that needs to be maintained across the clone.
-    const typeSet = connections.filter(connection => connection.type != null).map(connection => ({type: connection.type._cloneWithResolutions(variableMap), direction: connection.direction}));
-    return TypeChecker.processTypeList(handleType ? handleType._cloneWithResolutions(variableMap) : null, typeSet);
+    const typeSet = connections.filter(connection => connection.type != null).map(connection => ({type: connection.type._cloneWithResolutions(variableMap), direction: connection.direction, connection}));
+    return TypeChecker.processTypeList(handleType ? handleType._cloneWithResolutions(variableMap) : null, typeSet, options);
   }
 
-  static resolveEffectiveType(handleType, connections) {
-    const typeSet = connections.filter(connection => connection.type != null).map(connection => ({type: connection.type, direction: connection.direction}));
-    return TypeChecker.processTypeList(handleType, typeSet);   
+  static resolveEffectiveType(handleType, connections, options: TypeCheckOptions = {}) {
+    const typeSet = connections.filter(connection => connection.type != null).map(connection => ({type: connection.type, direction: connection.direction, connection}));
+    return TypeChecker.processTypeList(handleType, typeSet, options);
   }
 
   _isValid(options) {
@@ -168,7 +168,8 @@ export class Handle {
       }
       connection.tags.forEach(tag => tags.add(tag));
     }
-    const type = Handle.resolveEffectiveType(this._mappedType, this._connections);
+    const diagnostics: TypeDiagnostic[] = [];
+    const type = Handle.resolveEffectiveType(this._mappedType, this._connections, {diagnostics});
     if (type) {
       this._type = type;
       this._tags.forEach(tag => tags.add(tag));
@@ -176,8 +177,11 @@ export class Handle {
       return true;
     }
     if (options && options.errors) {
-      // TODO: pass options to TypeChecker.processTypeList for better error.
-      options.errors.set(this, `Type validations failed for handle '${this}'`);
+      const reasons = diagnostics.map(diagnostic => `\n  ${diagnostic.message}`).join('');
+      options.errors.set(this, `Type validations failed for handle '${this}'${reasons}`);
+    }
+    if (options && options.diagnostics) {
+      options.diagnostics.set(this, diagnostics);
     }
     return false;
   }
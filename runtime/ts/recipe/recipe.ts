@@ -247,6 +247,10 @@ export class Recipe {
     return digest(this.toString());
   }
 
+  // Returns false if the recipe is invalid. options.errors, if provided, maps each
+  // invalid part of the recipe to a description of the problem; options.diagnostics
+  // maps each handle whose connections' types don't unify to TypeDiagnostics that
+  // explain why.
   normalize(options) {
     if (Object.isFrozen(this)) {
       if (options && options.errors) {
@@ -7,6 +7,40 @@
 
 import {Type} from '../type.js';
 import {TypeVariable} from '../type-variable.js';
+import {HandleConnection} from './handle-connection.js';
+
+// A span of manifest source, as recorded on the parser's AST nodes.
+export type SourceLocation = {
+  start: {offset: number, line: number, column: number};
+  end: {offset: number, line: number, column: number};
+};
+
+// Explains why a list of types couldn't be unified.
+export type TypeDiagnostic = {
+  message: string;
+  // The connection whose type conflicted with the others, when the list came from a recipe.
+  connection?: HandleConnection;
+  // Where that connection was declared, if it came from a manifest.
+  location?: SourceLocation;
+  // The name of the type variable whose constraints conflicted.
+  variable?: string;
+  // The bounds that conflicted; the handle's, or the variable's if one is named.
+  canReadSubset?: Type;
+  canWriteSuperset?: Type;
+  // The type that didn't fit them.
+  type?: Type;
+};
+
+export type TypeListItem = {type: Type, direction: string, connection?: HandleConnection};
+
+export type TypeCheckOptions = {
+  // Receives a diagnostic for each reason the types couldn't be unified.
+  diagnostics?: TypeDiagnostic[];
+};
+
+type Reporter = (diagnostic: TypeDiagnostic) => void;
+
+const ignoreDiagnostic: Reporter = () => {};
 
 export class TypeChecker {
 
@@ -20,7 +54,26 @@ export class TypeChecker {
   //
   // NOTE: you probably don't want to call this function, if you think you
   // do, talk to shans@.
-  static processTypeList(baseType, list) {
+  //
+  // Returns null if the types can't be unified, adding the reasons to
+  // options.diagnostics if it is provided.
+  static processTypeList(baseType, list: TypeListItem[], options: TypeCheckOptions = {}) {
+    const reporterFor = (item: TypeListItem|null): Reporter => {
+      if (!options.diagnostics) {
+        return ignoreDiagnostic;
+      }
+      return diagnostic => {
+        if (item && item.connection) {
+          diagnostic.message = `${item.connection.getQualifiedName()}: ${diagnostic.message}`;
+          diagnostic.connection = item.connection;
+          if (item.connection.location) {
+            diagnostic.location = item.connection.location;
+          }
+        }
+        options.diagnostics.push(diagnostic);
+      };
+    };
+
     const newBaseTypeVariable = new TypeVariable('', null, null);
     if (baseType) {
       newBaseTypeVariable.resolution = baseType;
@@ -39,7 +92,7 @@ export class TypeChecker {
     // of all the other connected variables at the same time.
     for (const item of list) {
       if (item.type.resolvedType().hasVariable) {
-        baseType = TypeChecker._tryMergeTypeVariable(baseType, item.type);
+        baseType = TypeChecker._tryMergeTypeVariable(baseType, item.type, reporterFor(item));
         if (baseType == null) {
           return null;
         }
@@ -49,7 +102,7 @@ export class TypeChecker {
     }
 
     for (const item of concreteTypes) {
-      if (!TypeChecker._tryMergeConstraints(baseType, item)) {
+      if (!TypeChecker._tryMergeConstraints(baseType, item, reporterFor(item))) {
         return null;
       }
     }
@@ -67,6 +120,11 @@ export class TypeChecker {
         }
         return candidate;
       }
+      reporterFor(null)({
+        message: `connections read ${candidate.canWriteSuperset}, but only ${candidate.canReadSubset} is written`,
+        canReadSubset: candidate.canReadSubset,
+        canWriteSuperset: candidate.canWriteSuperset
+      });
       return null;
     };
 
@@ -84,14 +142,31 @@ export class TypeChecker {
     return getResolution(candidate);
   }
 
-  static _tryMergeTypeVariable(base, onto) {
+  static _tryMergeTypeVariable(base, onto, report: Reporter = ignoreDiagnostic) {
     const [primitiveBase, primitiveOnto] = Type.unwrapPair(base.resolvedType(), onto.resolvedType());
 
     if (primitiveBase.isVariable) {
       if (primitiveOnto.isVariable) {
         // base, onto both variables.
-        const result = primitiveBase.variable.maybeMergeConstraints(primitiveOnto.variable);
-        if (result === false) {
+        const baseVariable: TypeVariable = primitiveBase.variable;
+        const ontoVariable: TypeVariable = primitiveOnto.variable;
+        const {canReadSubset, canWriteSuperset} = baseVariable;
+        if (!baseVariable.maybeMergeCanReadSubset(ontoVariable.canReadSubset)) {
+          report({
+            message: `type variable ~${ontoVariable.name} has canReadSubset ${ontoVariable.canReadSubset}, which conflicts with ${canReadSubset}`,
+            variable: ontoVariable.name,
+            canReadSubset,
+            type: ontoVariable.canReadSubset
+          });
+          return null;
+        }
+        if (!baseVariable.maybeMergeCanWriteSuperset(ontoVariable.canWriteSuperset)) {
+          report({
+            message: `type variable ~${ontoVariable.name} has canWriteSuperset ${ontoVariable.canWriteSuperset}, which conflicts with ${canWriteSuperset}`,
+            variable: ontoVariable.name,
+            canWriteSuperset,
+            type: ontoVariable.canWriteSuperset
+          });
           return null;
         }
         // Here onto grows, one level at a time,
@@ -109,18 +184,20 @@ export class TypeChecker {
     } else if (primitiveBase.isInterface && primitiveOnto.isInterface) {
       const result = primitiveBase.interfaceShape.tryMergeTypeVariablesWith(primitiveOnto.interfaceShape);
       if (result == null) {
+        report({message: `interface ${primitiveOnto} doesn't unify with ${primitiveBase}`, type: onto});
         return null;
       }
       return Type.newInterface(result);
     } else if ((primitiveBase.isTypeContainer() && primitiveBase.hasVariable)
                || (primitiveOnto.isTypeContainer() && primitiveOnto.hasVariable)) {
       // Cannot merge [~a] with a type that is not a variable and not a collection.
+      report({message: `${onto} doesn't have the same structure as ${base.resolvedType()}`, type: onto});
       return null;
     }
     throw new Error('tryMergeTypeVariable shouldn\'t be called on two types without any type variables');
   }
 
-  static _tryMergeConstraints(handleType, {type, direction}) {
+  static _tryMergeConstraints(handleType, {type, direction}: TypeListItem, report: Reporter = ignoreDiagnostic) {
     let [primitiveHandleType, primitiveConnectionType] = Type.unwrapPair(handleType.resolvedType(), type.resolvedType());
     if (primitiveHandleType.isVariable) {
       while (primitiveConnectionType.isTypeContainer()) {
@@ -128,6 +205,12 @@ export class TypeChecker {
             || primitiveHandleType.variable.canReadSubset != null
             || primitiveHandleType.variable.canWriteSuperset != null) {
           // Resolved and/or constrained variables can only represent Entities, not sets.
+          report({
+            message: `${type} is a container, but the handle's type is constrained to a single entity`,
+            canReadSubset: primitiveHandleType.variable.canReadSubset,
+            canWriteSuperset: primitiveHandleType.variable.canWriteSuperset,
+            type
+          });
           return false;
         }
         // If this is an undifferentiated variable then we need to create structure to match against. That's
@@ -144,29 +227,52 @@ export class TypeChecker {
         // the canReadSubset of the handle represents the maximal type that can be read from the
         // handle, so we need to intersect out any type that is more specific than the maximal type
         // that could be written.
+        const canReadSubset = primitiveHandleType.variable.canReadSubset;
         if (!primitiveHandleType.variable.maybeMergeCanReadSubset(primitiveConnectionType.canWriteSuperset)) {
+          report({
+            message: `writes ${primitiveConnectionType.canWriteSuperset}, which conflicts with the handle's canReadSubset ${canReadSubset}`,
+            canReadSubset,
+            type: primitiveConnectionType.canWriteSuperset
+          });
           return false;
         }
       }
       if (direction === 'in' || direction === 'inout' || direction === '`consume') {
         // the canWriteSuperset of the handle represents the maximum lower-bound type that is read from the handle,
         // so we need to union it with the type that wants to be read here.
+        const canWriteSuperset = primitiveHandleType.variable.canWriteSuperset;
         if (!primitiveHandleType.variable.maybeMergeCanWriteSuperset(primitiveConnectionType.canReadSubset)) {
+          report({
+            message: `reads ${primitiveConnectionType.canReadSubset}, which conflicts with the handle's canWriteSuperset ${canWriteSuperset}`,
+            canWriteSuperset,
+            type: primitiveConnectionType.canReadSubset
+          });
           return false;
         }
       }
     } else {
       if (primitiveConnectionType.tag !== primitiveHandleType.tag) {
+        report({message: `${type} doesn't match the handle's type ${handleType.resolvedType()}`, type});
         return false;
       }
 
       if (direction === 'out' || direction === 'inout') {
         if (!TypeChecker._writeConstraintsApply(primitiveHandleType, primitiveConnectionType)) {
+          report({
+            message: `writes ${primitiveConnectionType.canWriteSuperset}, which isn't a subtype of the handle's canReadSubset ${primitiveHandleType.canReadSubset}`,
+            canReadSubset: primitiveHandleType.canReadSubset,
+            type: primitiveConnectionType.canWriteSuperset
+          });
           return false;
         }
       }
       if (direction === 'in' || direction === 'inout') {
         if (!TypeChecker._readConstraintsApply(primitiveHandleType, primitiveConnectionType)) {
+          report({
+            message: `reads ${primitiveConnectionType.canReadSubset}, which the handle's canWriteSuperset ${primitiveHandleType.canWriteSuperset} doesn't provide`,
+            canWriteSuperset: primitiveHandleType.canWriteSuperset,
+            type: primitiveConnectionType.canReadSubset
+          });
           return false;
         }
       }
@@ -19,19 +19,22 @@ export class Reference {
   private readonly id: string;
   private storageKey: string;
   private readonly context: ParticleExecutionContext;
+  // The particle that the reference was read by, if known, on whose behalf it's dereferenced.
+  private readonly particleId: string|null;
   private storageProxy = null;
   protected handle = null;
-  constructor(data : {id: string, storageKey: string | null}, type, context: ParticleExecutionContext) {
+  constructor(data : {id: string, storageKey: string | null}, type, context: ParticleExecutionContext, particleId: string|null = null) {
     this.id = data.id;
     this.storageKey = data.storageKey;
     this.context = context;
+    this.particleId = particleId;
     assert(type.isReference);
     this.type = type;
   }
 
   protected async ensureStorageProxy(): Promise<void> {
     if (this.storageProxy == null) {
-      this.storageProxy = await this.context.getStorageProxy(this.storageKey, this.type.referenceReferredType);
+      this.storageProxy = await this.context.getStorageProxy(this.storageKey, this.type.referenceReferredType, this.particleId);
       this.handle = handleFor(this.storageProxy);
       if (this.storageKey) {
         assert(this.storageKey === this.storageProxy.storageKey);
@@ -13,10 +13,26 @@ import {Type} from './type.js';
 import {TypeChecker} from './recipe/type-checker.js';
 import {Entity} from './entity.js';
 import { Reference } from './reference.js';
+import {ConflictPolicy} from './storage/crdt-register-model.js';
+import {formatDuration} from './util.js';
+
+// tslint:disable-next-line: no-any
+type MigrationValue = any;
+
+export type SchemaMigrationStep =
+    {kind: 'rename', from: string, to: string} |
+    {kind: 'default', name: string, value: MigrationValue} |
+    {kind: 'widen', name: string, from: string};
+
+/**
+ * Upgrades entities written under version `from` of a schema to version `from + 1`.
+ */
+export type SchemaMigration = {from: number, steps: SchemaMigrationStep[]};
 
 export class Schema {
   // tslint:disable-next-line: no-any
-  private readonly _model: {names: string[], fields: {[index: string]: any}};
+  private readonly _model: {names: string[], fields: {[index: string]: any}, version?: number, migrations?: SchemaMigration[],
+                            indexes?: string[], conflicts?: ConflictPolicy, ttl?: number};
   description: {[index: string]: string};
   isAlias: boolean;
 
@@ -73,10 +89,24 @@ export class Schema {
       fields[key] = updateField(this._model.fields[key]);
     } 
 
-    return {names: this._model.names, fields, description: this.description};
+    const literal = {names: this._model.names, fields, description: this.description};
+    if (this._model.version !== undefined) {
+      Object.assign(literal, {version: this._model.version, migrations: this.migrations});
+    }
+    if (this.indexes.length > 0) {
+      Object.assign(literal, {indexes: this.indexes});
+    }
+    if (this._model.conflicts !== undefined) {
+      Object.assign(literal, {conflicts: this._model.conflicts});
+    }
+    if (this._model.ttl !== undefined) {
+      Object.assign(literal, {ttl: this._model.ttl});
+    }
+    return literal;
   }
 
-  static fromLiteral(data = {fields: {}, names: [], description: {}}) {
+  // tslint:disable-next-line: no-any
+  static fromLiteral(data: any = {fields: {}, names: [], description: {}}) {
     const fields = {};
     const updateField = field => {
       if (field.kind === 'schema-reference') {
@@ -92,7 +122,8 @@ export class Schema {
       fields[key] = updateField(data.fields[key]);
     }
 
-    const result = new Schema({names: data.names, fields});
+    const result = new Schema({names: data.names, fields, version: data.version, migrations: data.migrations,
+                               indexes: data.indexes, conflicts: data.conflicts, ttl: data.ttl});
     result.description = data.description || {};
     return result;
   }
@@ -110,6 +141,109 @@ export class Schema {
     return this.names[0];
   }
 
+  // Schemas that don't declare a version are at version 1.
+  get version(): number {
+    return this._model.version || 1;
+  }
+
+  get migrations(): SchemaMigration[] {
+    return this._model.migrations || [];
+  }
+
+  // How concurrent writes to Variable stores of this schema are resolved.
+  get conflicts(): ConflictPolicy {
+    return this._model.conflicts || 'last-writer-wins';
+  }
+
+  // How long, in milliseconds, stores keep entities of this schema after
+  // they were last written; null if they're kept until removed.
+  get ttl(): number|null {
+    return this._model.ttl !== undefined ? this._model.ttl : null;
+  }
+
+  // Fields that BigCollection stores of this schema maintain an index on.
+  get indexes(): string[] {
+    return this._model.indexes || [];
+  }
+
+  addIndex(field: string) {
+    assert(Schema.isIndexable(this.fields[field]), `field ${field} of schema ${this.name} cannot be indexed`);
+    this._model.indexes = [...this.indexes, field];
+  }
+
+  // Indexes can only be maintained on fields with primitive, ordered values.
+  static isIndexable(fieldType): boolean {
+    return ['Text', 'URL', 'Number', 'Boolean'].includes(fieldType);
+  }
+
+  /**
+   * Upgrades raw entity data written under an earlier version of this schema
+   * by applying each declared migration from that version onwards. Data
+   * without a recorded version is treated as version 1. Returns a new object;
+   * rawData is not modified.
+   */
+  migrate(rawData: {}, fromVersion = 1): {} {
+    if (fromVersion >= this.version) {
+      return rawData;
+    }
+    const data = {...rawData};
+    const migrations = this.migrations.filter(m => m.from >= fromVersion).sort((a, b) => a.from - b.from);
+    for (const migration of migrations) {
+      for (const step of migration.steps) {
+        switch (step.kind) {
+          case 'rename':
+            if (step.from in data) {
+              data[step.to] = data[step.from];
+              delete data[step.from];
+            }
+            break;
+          case 'default':
+            if (data[step.name] === undefined || data[step.name] === null) {
+              data[step.name] = step.value;
+            }
+            break;
+          case 'widen':
+            if (data[step.name] !== undefined && data[step.name] !== null && this.fields[step.name] === 'Text') {
+              data[step.name] = String(data[step.name]);
+            }
+            break;
+          default:
+            throw new Error(`Unknown migration step ${(step as {kind}).kind} in schema ${this.name}`);
+        }
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Returns true if values of primitive type `from` are also valid for
+   * fieldType once passed through a 'widen' migration step.
+   */
+  static isWidening(from: string, fieldType): boolean {
+    if (fieldType === 'Object' || fieldType === from) {
+      return true;
+    }
+    if (fieldType === 'Text') {
+      return ['URL', 'Number', 'Boolean'].includes(from);
+    }
+    return typeof(fieldType) === 'object' && fieldType.kind === 'schema-union' && fieldType.types.includes(from);
+  }
+
+  /**
+   * Returns true if value, given by a 'default' migration step, is valid for
+   * fieldType.
+   */
+  static isValidDefault(value, fieldType): boolean {
+    if (fieldType === 'Object') {
+      return true;
+    }
+    if (typeof(fieldType) === 'object') {
+      return fieldType.kind === 'schema-union' && fieldType.types.some(type => Schema.isValidDefault(value, type));
+    }
+    const jsTypes = {Text: 'string', URL: 'string', Number: 'number', Boolean: 'boolean'};
+    return typeof(value) === jsTypes[fieldType];
+  }
+
   static typesEqual(fieldType1, fieldType2) {
     // TODO: structural check instead of stringification.
     return Schema._typeString(fieldType1) === Schema._typeString(fieldType2);
@@ -430,7 +564,34 @@ export class Schema {
   toManifestString() {
     const results:string[] = [];
     results.push(`schema ${this.names.join(' ')}`);
+    if (this._model.version !== undefined) {
+      results.push(`  version ${this.version}`);
+    }
+    if (this._model.conflicts !== undefined) {
+      results.push(`  conflicts ${this.conflicts}`);
+    }
+    if (this._model.ttl !== undefined) {
+      results.push(`  expires after ${formatDuration(this._model.ttl)}`);
+    }
     results.push(...Object.entries(this.fields).map(([name, type]) => `  ${Schema._typeString(type)} ${name}`));
+    results.push(...this.indexes.map(field => `  index ${field}`));
+    for (const migration of this.migrations) {
+      results.push(`  migrate from ${migration.from}`);
+      for (const step of migration.steps) {
+        switch (step.kind) {
+          case 'rename':
+            results.push(`    rename ${step.from} to ${step.to}`);
+            break;
+          case 'default':
+            results.push(`    default ${step.name} ${typeof(step.value) === 'string' ? `'${step.value}'` : step.value}`);
+            break;
+          case 'widen':
+            results.push(`    widen ${step.name} from ${step.from}`);
+            break;
+          default:
+        }
+      }
+    }
     if (Object.keys(this.description).length > 0) {
       results.push(`  description \`${this.description.pattern}\``);
       for (const name of Object.keys(this.description)) {
@@ -90,7 +90,8 @@ export class SlotComposer {
            `Unexpected transformation slot particle ${transformationParticle.name}:${transformationSlotName}, hosted particle ${hostedParticleName}, slot name ${hostedSlotName}`);
 
     const hostedSlotConsumer = new HostedSlotConsumer(transformationSlotConsumer, hostedParticleName, hostedSlotName, hostedSlotId, storeId, this.arc);
-    hostedSlotConsumer.renderCallback = this.arc.pec.innerArcRender.bind(this.arc.pec);
+    hostedSlotConsumer.renderCallback = (transformationParticle: Particle, transformationSlotName, hostedSlotId, content) =>
+        this.arc.pecFor(transformationParticle).innerArcRender(transformationParticle, transformationSlotName, hostedSlotId, content);
     this._addSlotConsumer(hostedSlotConsumer);
 
     const context = this.findContextById(transformationSlotConsumer.consumeConn.targetSlot.id);
@@ -100,8 +101,9 @@ export class SlotComposer {
   }
 
   _addSlotConsumer(slot: HostedSlotConsumer) {
-    slot.startRenderCallback = this.arc.pec.startRender.bind(this.arc.pec);
-    slot.stopRenderCallback = this.arc.pec.stopRender.bind(this.arc.pec);
+    // Render requests go to the PEC of the particle that consumes the slot.
+    slot.startRenderCallback = (args: {particle: Particle, slotName: string, contentTypes: string[]}) => this.arc.pecFor(args.particle).startRender(args);
+    slot.stopRenderCallback = (args: {particle: Particle, slotName: string}) => this.arc.pecFor(args.particle).stopRender(args);
     this._consumers.push(slot);
   }
 
@@ -144,12 +146,39 @@ export class SlotComposer {
     });
   }
 
+  /**
+   * Removes the slot consumers of the given particles, along with their
+   * rendered content and the slot contexts they provide. The reverse of
+   * initializeRecipe().
+   */
+  detachParticles(recipeParticles: Particle[]) {
+    const detached = this._consumers.filter(consumer => consumer.consumeConn && recipeParticles.includes(consumer.consumeConn.particle));
+    detached.forEach(consumer => {
+      consumer.dispose();
+      if (consumer.slotContext) {
+        consumer.slotContext.removeSlotConsumer(consumer);
+      }
+    });
+    this._contexts = this._contexts.filter(context => !detached.includes(context.sourceSlotConsumer));
+    this._consumers = this._consumers.filter(consumer => !detached.includes(consumer));
+  }
+
+  /**
+   * Asks particle to render again into each of its slots that has a container,
+   * e.g. after it has been restarted.
+   */
+  restartRendering(particle: Particle) {
+    this._consumers.filter(consumer => consumer.consumeConn && consumer.consumeConn.particle === particle)
+                   .filter(consumer => consumer.slotContext && consumer.slotContext.container)
+                   .forEach(consumer => consumer.startRender());
+  }
+
   async renderSlot(particle: Particle, slotName: string, content) {
     const slotConsumer = this.getSlotConsumer(particle, slotName);
     assert(slotConsumer, `Cannot find slot (or hosted slot) ${slotName} for particle ${particle.name}`);
 
     await slotConsumer.setContent(content, async (eventlet) => {
-      this.arc.pec.sendEvent(particle, slotName, eventlet);
+      this.arc.pecFor(particle).sendEvent(particle, slotName, eventlet);
       if (eventlet.data && eventlet.data.key) {
         const hostedConsumers = this.consumers.filter(c => c instanceof HostedSlotConsumer && c.transformationSlotConsumer === slotConsumer);
         for (const hostedConsumer of hostedConsumers) {
@@ -160,7 +189,7 @@ export class SlotComposer {
             // tslint:disable-next-line: no-any
             const value = await(store as any).get();
             if (value && (value.id === eventlet.data.key)) {
-              this.arc.pec.sendEvent(
+              this.arc.pecFor(hostedConsumer.consumeConn.particle).sendEvent(
                   hostedConsumer.consumeConn.particle,
                   hostedConsumer.consumeConn.name,
                   eventlet);
@@ -96,6 +96,14 @@ export class SlotContext {
     }
   }
 
+  removeSlotConsumer(slotConsumer) {
+    const index = this.slotConsumers.indexOf(slotConsumer);
+    if (index >= 0) {
+      this.slotConsumers.splice(index, 1);
+      slotConsumer.slotContext = null;
+    }
+  }
+
   clearSlotConsumers() {
     this.slotConsumers.forEach(slotConsumer => slotConsumer.slotContext = null);
     this.slotConsumers = [];
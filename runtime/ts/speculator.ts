@@ -36,11 +36,12 @@ export class Speculator {
     const relevanceByHash = this._relevanceByHash;
 
     async function awaitCompletion() {
-      const messageCount = newArc.pec.messageCount;
-      relevance.apply(await newArc.pec.idle);
+      const pecs = newArc.pecs;
+      const messageCounts = pecs.map(pec => pec.messageCount);
+      (await Promise.all(pecs.map(pec => pec.idle))).forEach(pecRelevance => relevance.apply(pecRelevance));
 
       // We expect two messages here, one requesting the idle status, and one answering it.
-      if (newArc.pec.messageCount !== messageCount + 2) {
+      if (newArc.pecs.length !== pecs.length || pecs.some((pec, i) => pec.messageCount !== messageCounts[i] + 2)) {
         return awaitCompletion();
       } else {
         relevance.newArc = newArc;
@@ -0,0 +1,128 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+// Building block for CRDT variables. Each replica of a register (such as
+// the copies of a store on different devices) writes with its own ID, and
+// every write carries a vector clock recording the writes that the replica
+// had seen. A write replaces the writes in its clock; writes that aren't in
+// each other's clocks are concurrent, and are all kept until a later write
+// replaces them.
+//
+// Replicas that have merged the same writes hold the same values, and pick
+// the same one as the register's value: the write with the most writes in
+// its clock (the sum of a vector clock is a Lamport timestamp), with ties
+// broken by the replica ID.
+
+// Counts of the writes made by each replica, by replica ID.
+export type VectorClock = {[replica: string]: number};
+
+// How concurrent writes to a variable are resolved. Under 'last-writer-wins'
+// particles only see the winning value; under 'multi-value' they are also
+// given all of the concurrent values until the conflict is resolved.
+export type ConflictPolicy = 'last-writer-wins' | 'multi-value';
+
+export interface RegisterEntry {
+  value: {}|null;
+  replica: string;
+  clock: VectorClock;
+}
+
+export interface RegisterState {
+  entries: RegisterEntry[];
+  clock: VectorClock;
+}
+
+export class CrdtRegisterModel {
+  // Concurrent writes, the winner first.
+  private entries: RegisterEntry[] = [];
+  // The writes seen by this replica.
+  private clock: VectorClock = {};
+
+  constructor(private readonly replica: string, state: RegisterState|null = null) {
+    if (state) {
+      this.merge(state);
+    }
+  }
+
+  /** Writes `value`, replacing all of the values this replica has seen. */
+  set(value: {}|null): void {
+    this.clock = {...this.clock, [this.replica]: (this.clock[this.replica] || 0) + 1};
+    this.entries = [{value, replica: this.replica, clock: this.clock}];
+  }
+
+  /**
+   * Merges the writes of another replica of this register. Returns whether
+   * the register's values changed.
+   */
+  merge({entries, clock}: RegisterState): boolean {
+    const candidates = [...this.entries];
+    for (const entry of entries) {
+      if (!candidates.some(candidate => CrdtRegisterModel.sameWrite(candidate, entry))) {
+        candidates.push(entry);
+      }
+    }
+    const merged = candidates
+        .filter(entry => !candidates.some(other => other !== entry && CrdtRegisterModel.happenedBefore(entry.clock, other.clock)))
+        .sort(CrdtRegisterModel.compare);
+    for (const [replica, count] of Object.entries(clock)) {
+      if (count > (this.clock[replica] || 0)) {
+        this.clock = {...this.clock, [replica]: count};
+      }
+    }
+    const changed = merged.length !== this.entries.length ||
+        merged.some((entry, i) => !CrdtRegisterModel.sameWrite(entry, this.entries[i]));
+    this.entries = merged;
+    return changed;
+  }
+
+  /** The value of the register: the winner of any concurrent writes. */
+  get value(): {}|null {
+    return this.entries.length > 0 ? this.entries[0].value : null;
+  }
+
+  /** All of the concurrent values, the winner first. */
+  get values(): ({}|null)[] {
+    return this.entries.map(entry => entry.value);
+  }
+
+  get conflicted(): boolean {
+    return this.entries.length > 1;
+  }
+
+  /** Whether the register holds the write of another replica's entry. */
+  has(entry: RegisterEntry): boolean {
+    return this.entries.some(local => CrdtRegisterModel.sameWrite(local, entry));
+  }
+
+  toState(): RegisterState {
+    return {entries: this.entries.map(entry => ({...entry})), clock: {...this.clock}};
+  }
+
+  // A replica's writes are numbered by its own count in their clocks.
+  private static sameWrite(a: RegisterEntry, b: RegisterEntry): boolean {
+    return a.replica === b.replica && a.clock[a.replica] === b.clock[b.replica];
+  }
+
+  private static happenedBefore(a: VectorClock, b: VectorClock): boolean {
+    const replicas = new Set([...Object.keys(a), ...Object.keys(b)]);
+    let before = false;
+    for (const replica of replicas) {
+      const [countA, countB] = [a[replica] || 0, b[replica] || 0];
+      if (countA > countB) {
+        return false;
+      }
+      before = before || countA < countB;
+    }
+    return before;
+  }
+
+  private static compare(a: RegisterEntry, b: RegisterEntry): number {
+    const sum = (clock: VectorClock) => Object.values(clock).reduce((total, count) => total + count, 0);
+    return (sum(b.clock) - sum(a.clock)) || (a.replica < b.replica ? 1 : a.replica > b.replica ? -1 : 0);
+  }
+}
@@ -6,7 +6,7 @@
 // subject to an additional IP rights grant found at
 // http://polymer.github.io/PATENTS.txt
 
-import {StorageBase, StorageProviderBase} from './storage-provider-base';
+import {CollectionStorageProvider, StorageBase, StorageProviderBase, VariableStorageProvider} from './storage-provider-base';
 
 // keep in sync with shell/source/ArcsLib.js
 import firebase from 'firebase/app';
@@ -18,6 +18,8 @@ import {KeyBase} from './key-base.js';
 import {atob} from '../../../platform/atob-web.js';
 import {btoa} from '../../../platform/btoa-web.js';
 import {CrdtCollectionModel} from './crdt-collection-model.js';
+import {CrdtRegisterModel, RegisterState} from './crdt-register-model.js';
+import {IndexRange, Query, QueryValue, executeQuery} from './query.js';
 import {Id} from '../id.js';
 import {Type} from '../type.js';
 import {setDiff} from '../util.js';
@@ -94,6 +96,11 @@ function getSnapshot(reference) : Promise<firebase.database.DataSnapshot> {
 
 let _nextAppNameSuffix = 0;
 
+/**
+ * Provides stores kept in Firebase databases. Unlike PouchDB stores synced with
+ * a remote database, writes aren't queued: they go straight to Firebase, and
+ * the providers' syncStatus is always online.
+ */
 export class FirebaseStorage extends StorageBase {
   private readonly apps: {[index: string]: {app: firebase.app.App, owned: boolean}};
   private readonly sharedStores: {[index: string]: FirebaseStorageProvider|null};
@@ -107,6 +114,14 @@ export class FirebaseStorage extends StorageBase {
     this.baseStorePromises = new Map();
   }
 
+  /**
+   * Identifies this arc's writes to the registers of variables. It's
+   * encoded, as it's also a key of the registers' clocks.
+   */
+  get replicaId(): string {
+    return FirebaseStorage.encodeKey(this.arcId.toString());
+  }
+
   async construct(id: string, type: Type, keyFragment: string) : Promise<FirebaseStorageProvider> {
     let referenceMode = !type.isReference;
     if (type.isBigCollection) {
@@ -122,13 +137,15 @@ export class FirebaseStorage extends StorageBase {
   }
 
   // Unit tests should call this in an 'after' block.
-  shutdown() {
+  async shutdown(): Promise<void> {
+    const deleted = [];
     for (const entry of Object.values(this.apps)) {
       if (entry.owned) {
-        entry.app.delete();
+        deleted.push(entry.app.delete());
         entry.owned = false;
       }
     }
+    await Promise.all(deleted);
   }
 
   baseStorageKey(type: Type, keyString: string): string {
@@ -349,9 +366,20 @@ abstract class FirebaseStorageProvider extends StorageProviderBase {
  * firebase, or if we have queued up multiple local
  * modifications), but the result will always be
  * monotonically increasing.
+ *
+ * Conflicts: alongside the value, firebase holds the register
+ * CRDT it was chosen from. A local modification is a write
+ * with the clock of the register last received from firebase,
+ * and is merged into the register by the transaction, so a
+ * write made without having seen another is kept as concurrent
+ * with it. Under the 'multi-value' conflict policy, change
+ * events have the concurrent values as `conflicts`.
  */
-class FirebaseVariable extends FirebaseStorageProvider {
+class FirebaseVariable extends FirebaseStorageProvider implements VariableStorageProvider {
   private value: {storageKey: string, id: string}|null;
+  // The register that `value` was chosen from, as last received from
+  // firebase.
+  private register: RegisterState|null = null;
   private localModified: boolean;
   private readonly initialized: Promise<void>;
   // TODO(sjmiles): localKeyId collisions occur when using device-client-pipe,
@@ -415,23 +443,49 @@ class FirebaseVariable extends FirebaseStorageProvider {
     // be accessed until the constructor's returned (nothing has a handle on the object before
     // that).
 
-    this.value = data.value || null;
+    this.value = this.migrateValue(data.value, data.schemaVersion) || null;
     this.version = data.version;
+    this.register = readRegister(data.register);
 
     this.resolveInitialized();
+    this.fireRemoteChange(data.schemaVersion);
+  }
+
+  // Fires a change event for the value last received from firebase. Under the
+  // 'multi-value' conflict policy, the concurrent values are given too, winner
+  // first.
+  private fireRemoteChange(schemaVersion: number) {
+    const version = this.version;
+    const value = this.value;
+    const register = new CrdtRegisterModel(this.storageEngine.replicaId, this.register);
+    let conflicts = null;
+    if (register.conflicted && this.conflictPolicy === 'multi-value') {
+      conflicts = register.values.map(value => this.migrateValue(value, schemaVersion) || null);
+    }
     // Firebase doesn't maintain a distinction between null and undefined, but we explicitly
     // require empty variables to store 'null'.
-    if (this.referenceMode && this.value) {
-      const version = this.version;
+    if (this.referenceMode && (value || conflicts)) {
       this.ensureBackingStore().then(async store => {
-        const data = await store.get(this.value.id);
-        this._fire('change', {data, version});
+        const dereference = async value => value && await store.get(value.id);
+        const event = {data: await dereference(value), version};
+        if (conflicts) {
+          Object.assign(event, {conflicts: await Promise.all(conflicts.map(dereference))});
+        }
+        this._fire('change', event);
       });
-      } else {
-      this._fire('change', {data: data.value || null, version: this.version});
+    } else {
+      const event = {data: value, version};
+      if (conflicts) {
+        Object.assign(event, {conflicts});
+      }
+      this._fire('change', event);
     }
   }
 
+  private get conflicted(): boolean {
+    return new CrdtRegisterModel(this.storageEngine.replicaId, this.register).conflicted;
+  }
+
   get _hasLocalChanges() {
     return this.localModified;
   }
@@ -447,6 +501,7 @@ class FirebaseVariable extends FirebaseStorageProvider {
     // the await required for fetching baseStorage can cause initialization/localModified
     // flag reordering if done before persisting a change.
     const value = this.value;
+    const seen = this.register;
 
     // We have to write the underlying storage before the local value, or it won't be present
     // when another connected storage object gets the update of the local value.
@@ -464,9 +519,23 @@ class FirebaseVariable extends FirebaseStorageProvider {
 
     const result = await this._transaction(data => {
       assert(this.version >= version);
+      const replicaId = this.storageEngine.replicaId;
+      const remote = readRegister(data.register);
+      const write = new CrdtRegisterModel(replicaId, seen);
+      if (remote) {
+        // Number the write after this replica's writes that are already in
+        // firebase, such as those of an earlier session. Other replicas'
+        // writes that weren't seen stay concurrent with it.
+        write.merge({entries: [], clock: {[replicaId]: remote.clock[replicaId] || 0}});
+      }
+      write.set(value);
+      const register = new CrdtRegisterModel(replicaId, remote);
+      register.merge(write.toState());
       return {
         version: Math.max(data.version + 1, version),
-        value,
+        value: register.value,
+        register: register.toState(),
+        schemaVersion: this.schemaVersion,
         referenceMode: this.referenceMode
       };
     });
@@ -484,7 +553,7 @@ class FirebaseVariable extends FirebaseStorageProvider {
     this.version = data.version;
     // Firebase will return 'undefined' when data is set to null, but should
     this.value = data.value || null;
-
+    this.register = readRegister(data.register);
   }
 
   get versionForTesting() {
@@ -512,8 +581,8 @@ class FirebaseVariable extends FirebaseStorageProvider {
       this.resolveInitialized();
     } else if (!this.referenceMode) {
       // If in reference mode, we can't actually determine if this value is identical to the previous
-      // one.
-      if (JSON.stringify(this.value) === JSON.stringify(value)) {
+      // one. Writing the same value again resolves a conflict, though.
+      if (JSON.stringify(this.value) === JSON.stringify(value) && !this.conflicted) {
          return;
       }
     }
@@ -532,6 +601,10 @@ class FirebaseVariable extends FirebaseStorageProvider {
     await this._persistChanges();
 
     this._fire('change', {data: value, version, originatorId, barrier});
+    // The write was concurrent with another, which may have won.
+    if (this.conflicted) {
+      this.fireRemoteChange(this.schemaVersion);
+    }
   }
 
   async clear(originatorId=null, barrier=null) {
@@ -599,6 +672,15 @@ class FirebaseVariable extends FirebaseStorageProvider {
 }
 
 
+// Firebase drops null fields, so the values of entries that cleared a
+// register are read back as undefined.
+function readRegister(register: RegisterState|undefined): RegisterState|null {
+  if (!register) {
+    return null;
+  }
+  return {entries: register.entries.map(entry => ({...entry, value: entry.value || null})), clock: register.clock};
+}
+
 /**
  * Models a Collection that is persisted to firebase in scheme similar
  * to the CRDT OR-set. We don't model sets of both observed
@@ -632,11 +714,11 @@ class FirebaseVariable extends FirebaseStorageProvider {
  * When we persist our changes to firebase we align it with the remote
  * version.
  */
-class FirebaseCollection extends FirebaseStorageProvider {
+class FirebaseCollection extends FirebaseStorageProvider implements CollectionStorageProvider {
   private localChanges: Map<string, {add: string[], remove: string[]}>;
   private addSuppressions: Map<string, {keys: Set<string>, barrierVersion: number}>;
   private model: CrdtCollectionModel;
-  private remoteState: {items: {[index: string]: {value: {}, keys: { [index: string]: null}}}};
+  private remoteState: {items: {[index: string]: {value: {}, keys: { [index: string]: null}, schemaVersion?: number}}};
   private readonly initialized: Promise<void>;
   private pendingWrites: {value: {}, storageKey: string}[] = [];
   private resolveInitialized: () => void;
@@ -717,6 +799,9 @@ class FirebaseCollection extends FirebaseStorageProvider {
       if (encId in newRemoteState.items) {
         let {keys: encKeys, value} = newRemoteState.items[encId];
         encKeys = Object.keys(encKeys);
+        // Each item records the schema version it was written under, as
+        // writers only update the items they have changed.
+        value = this.migrateValue(value, newRemoteState.items[encId].schemaVersion);
         if (encId in this.remoteState.items) {
           // 1. possibly updated remotely.
           const encOldkeys = Object.keys(this.remoteState.items[encId].keys);
@@ -760,7 +845,8 @@ class FirebaseCollection extends FirebaseStorageProvider {
         }
       } else {
         // 3. Removed remotely.
-        const {keys: encKeys, value} = this.remoteState.items[encId];
+        const {keys: encKeys, value: rawValue, schemaVersion} = this.remoteState.items[encId];
+        const value = this.migrateValue(rawValue, schemaVersion);
         const encKeysList = Object.keys(encKeys);
         const keys = encKeysList.map(FirebaseStorage.decodeKey);
         const effective = this.model.remove(id, keys);
@@ -988,6 +1074,7 @@ class FirebaseCollection extends FirebaseStorageProvider {
           if (add.length > 0) {
             assert(this.model.has(id));
             item.value = this.model.getValue(id);
+            item.schemaVersion = this.schemaVersion;
           }
           const keys = Object.keys(item.keys);
           if (keys.length > 0) {
@@ -1074,6 +1161,11 @@ class FirebaseCollection extends FirebaseStorageProvider {
     return (await this._toList()).map(item => item.value);
   }
 
+  /** Returns the entities matching query. */
+  async query(query: Query) {
+    return executeQuery(await this.toList(), query);
+  }
+
   async getMultiple(ids) {
     assert(!this.referenceMode, 'getMultiple not implemented for referenceMode stores');
     await this.initialized;
@@ -1283,6 +1375,81 @@ class FirebaseCursor {
   }
 }
 
+/**
+ * FirebaseIndexCursor provides paginated reads over a range of one of a BigCollection's indexes,
+ * ordered by the indexed field and then by item key. Items stored after the cursor was created
+ * are skipped. Unlike FirebaseCursor, items removed during the read are not returned.
+ */
+class FirebaseIndexCursor {
+  private readonly orderByField: firebase.database.Query;
+  private readonly pageSize: number;
+  private readonly forward: boolean;
+  private readonly range: IndexRange;
+  private boundary: {key: QueryValue, id: string}|null = null;
+  private done = false;
+
+  constructor(reference, readonly version: number, pageSize, forward, range: IndexRange) {
+    this.orderByField = reference.child('items').orderByChild(`value/rawData/${range.index}`);
+    this.pageSize = pageSize;
+    this.forward = forward;
+    this.range = range;
+  }
+
+  // Returns {value: [items], done: false} while there are items still available, or {done: true}
+  // when the cursor has completed reading the range.
+  async next() {
+    const value = [];
+    while (!this.done && value.length < this.pageSize) {
+      // Firebase orders null before false, so starting at false skips unindexed items.
+      const lower = (this.range.lower === undefined || this.range.lower === null) ? false : this.range.lower;
+      const upper = (this.range.upper === undefined || this.range.upper === null) ? undefined : this.range.upper;
+      let query = this.orderByField;
+      if (this.forward) {
+        query = this.boundary ? query.startAt(this.boundary.key, this.boundary.id) : query.startAt(lower);
+        query = upper === undefined ? query : query.endAt(upper);
+        query = query.limitToFirst(this.pageSize + 1);
+      } else {
+        query = query.startAt(lower);
+        if (this.boundary) {
+          query = query.endAt(this.boundary.key, this.boundary.id);
+        } else if (upper !== undefined) {
+          query = query.endAt(upper);
+        }
+        query = query.limitToLast(this.pageSize + 1);
+      }
+
+      const entries = [];
+      (await getSnapshot(query)).forEach(entry => {
+        entries.push({id: entry.key, data: entry.val()});
+      });
+      if (!this.forward) {
+        entries.reverse();
+      }
+      // startAt/endAt are inclusive, so the boundary item is returned again.
+      const fresh = entries.filter(({id}) => !this.boundary || id !== this.boundary.id);
+      if (entries.length < this.pageSize + 1) {
+        this.done = true;
+      }
+      for (const {id, data} of fresh) {
+        this.boundary = {key: data.value.rawData[this.range.index], id};
+        if (data.index <= this.version) {
+          value.push(data.value);
+          if (value.length === this.pageSize) {
+            // Resume after this item, even if more were read.
+            this.done = false;
+            break;
+          }
+        }
+      }
+    }
+    return value.length > 0 ? {value, done: false} : {done: true};
+  }
+
+  close() {
+    this.done = true;
+  }
+}
+
 /**
  * Provides access to large collections without pulling the entire contents locally.
  *
@@ -1292,6 +1459,10 @@ class FirebaseCursor {
  * The full collection can be read via a paginated FirebaseCursor returned by stream(). This views
  * a snapshot of the collection, locked to the version at which the cursor is created.
  *
+ * Cursors can also be opened over a range of any field indexed by the schema (declared in the
+ * manifest with `index Schema.field`); Firebase maintains those indexes itself, given rules
+ * such as `".indexOn": ["index", "value/rawData/price"]`.
+ *
  * To get pagination working, we need to add an index field to items as they are stored, and that
  * field must be marked for indexing in the Firebase rules:
  *
@@ -1308,7 +1479,7 @@ class FirebaseCursor {
  * ```
  */
 class FirebaseBigCollection extends FirebaseStorageProvider {
-  private cursors: Map<number, FirebaseCursor>;
+  private cursors: Map<number, FirebaseCursor|FirebaseIndexCursor>;
   private cursorIndex: number;
 
   constructor(type, storageEngine, id, reference, firebaseKey) {
@@ -1332,6 +1503,18 @@ class FirebaseBigCollection extends FirebaseStorageProvider {
     return (snapshot.val() !== null) ? snapshot.val().value : null;
   }
 
+  /**
+   * Returns the entities matching query. Entities are considered in insertion order.
+   */
+  async query(query: Query) {
+    const snapshot = await getSnapshot(this.reference.child('items').orderByChild('index'));
+    const values = [];
+    snapshot.forEach(entry => {
+      values.push(entry.val().value);
+    });
+    return executeQuery(values, query);
+  }
+
   // originatorId is included to maintain parity with Collection.store but is not used.
   async store(value, keys, originatorId) {
     // Technically we don't really need keys here; Firebase provides the central replicated storage
@@ -1394,12 +1577,22 @@ class FirebaseBigCollection extends FirebaseStorageProvider {
    * By default items are returned in order of original insertion into the collection (with the
    * caveat that items removed during a streamed read may be returned at the end). Set forward to
    * false to return items in reverse insertion order.
+   *
+   * If range is given, a FirebaseIndexCursor is used to return only items whose value for the
+   * indexed field lies within the range, ordered by that value.
    */
-  async stream(pageSize, forward = true) {
+  async stream(pageSize, forward = true, range: IndexRange = null) {
     assert(!isNaN(pageSize) && pageSize > 0);
+    assert(!range || this.indexedFields.includes(range.index), `no index on '${range && range.index}'`);
     this.cursorIndex++;
-    const cursor = new FirebaseCursor(this.reference, pageSize, forward);
-    await cursor._init();
+    let cursor;
+    if (range) {
+      const version = (await getSnapshot(this.reference.child('version'))).val() || 0;
+      cursor = new FirebaseIndexCursor(this.reference, version, pageSize, forward, range);
+    } else {
+      cursor = new FirebaseCursor(this.reference, pageSize, forward);
+      await cursor._init();
+    }
     this.cursors.set(this.cursorIndex, cursor);
     return this.cursorIndex;
   }
@@ -0,0 +1,160 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {now} from '../../../platform/date-web.js';
+import {reportSystemException} from '../arc-exceptions.js';
+import {CollectionStorageProvider, StorageProviderBase, VariableStorageProvider, lockStores, withBackingStores} from './storage-provider-base.js';
+
+/**
+ * Removes entities from stores once they've outlived their store's ttl, and
+ * removes entities from the backing stores of referenceMode stores once no
+ * store refers to them.
+ *
+ * An entity's age is counted from when this runtime last saw it written to
+ * the store, or otherwise from when the collector first found it there (such
+ * as for entities loaded from persistent storage). Entities are only removed
+ * from a backing store if they're found unreferenced by two collections in a
+ * row, as stores write to their backing store before they refer to an entity.
+ * Backing stores can be shared, so references are counted across all the
+ * stores that refer into them, including those of other arcs; backing stores
+ * whose referrers can't all be known, such as persistent ones, are left alone.
+ * The collector takes the write locks of the stores it removes entities from.
+ */
+export class GarbageCollector {
+  private readonly firstSeen: Map<StorageProviderBase, Map<string, number>> = new Map();
+  private unreferenced: Map<StorageProviderBase, Set<string>> = new Map();
+  private timer = null;
+  // Whether a periodic collection is still running.
+  private collecting = false;
+
+  constructor(private readonly stores: () => StorageProviderBase[]) {}
+
+  /**
+   * Collects every `interval` milliseconds, until stopped, skipping the
+   * collections due while the previous one is still running. Failed
+   * collections are reported as system exceptions.
+   */
+  start(interval: number) {
+    this.stop();
+    this.timer = setInterval(() => {
+      if (this.collecting) {
+        return;
+      }
+      this.collecting = true;
+      this.collect().catch(e => {
+        try {
+          reportSystemException(e, 'GarbageCollector::collect', null);
+        } catch (e) {
+          // Rethrown by the default system exception handler.
+        }
+      }).then(() => this.collecting = false);
+    }, interval);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Removes the entities that have expired at time `at` (on the clock of
+   * `now()`), and those that are no longer referenced. Resolves to the
+   * numbers of each removed.
+   */
+  async collect(at = now()): Promise<{expired: number, unreferenced: number}> {
+    const stores = this.stores();
+    for (const store of this.firstSeen.keys()) {
+      if (!stores.includes(store)) {
+        this.firstSeen.delete(store);
+      }
+    }
+    let expired = 0;
+    for (const store of stores) {
+      if (store.ttl !== null && !store.type.isBigCollection) {
+        expired += await this.expire(store, at);
+      }
+    }
+    return {expired, unreferenced: await this.collectUnreferenced(stores)};
+  }
+
+  private async expire(store: StorageProviderBase, at: number): Promise<number> {
+    const previouslySeen = this.firstSeen.get(store) || new Map();
+    const seen: Map<string, number> = new Map();
+    let expired = 0;
+    const release = await lockStores(await withBackingStores([store]));
+    try {
+      for (const id of await entityIds(store)) {
+        seen.set(id, previouslySeen.get(id) || at);
+        const written = store.lastWritten(id) || seen.get(id);
+        if (written + store.ttl > at) {
+          continue;
+        }
+        if (store.type.isCollection) {
+          await (store as CollectionStorageProvider).remove(id);
+        } else {
+          await (store as VariableStorageProvider).clear();
+        }
+        seen.delete(id);
+        expired++;
+      }
+    } finally {
+      release();
+    }
+    this.firstSeen.set(store, seen);
+    return expired;
+  }
+
+  private async collectUnreferenced(stores: StorageProviderBase[]): Promise<number> {
+    const backingStores: Set<StorageProviderBase> = new Set();
+    for (const store of stores) {
+      if (store.referenceMode) {
+        backingStores.add(await store.ensureBackingStore());
+      }
+    }
+
+    const unreferenced: Map<StorageProviderBase, Set<string>> = new Map();
+    let removed = 0;
+    for (const backingStore of backingStores) {
+      const referrers = backingStore.referrers();
+      if (referrers === null) {
+        continue;
+      }
+      const release = await lockStores([backingStore, ...referrers]);
+      try {
+        const ids: Set<string> = new Set();
+        for (const referrer of referrers) {
+          (await entityIds(referrer)).forEach(id => ids.add(id));
+        }
+        const previously = this.unreferenced.get(backingStore) || new Set();
+        const found: Set<string> = new Set();
+        for (const id of await entityIds(backingStore)) {
+          if (ids.has(id)) {
+            continue;
+          }
+          if (previously.has(id)) {
+            await (backingStore as CollectionStorageProvider).remove(id);
+            removed++;
+          } else {
+            found.add(id);
+          }
+        }
+        unreferenced.set(backingStore, found);
+      } finally {
+        release();
+      }
+    }
+    this.unreferenced = unreferenced;
+    return removed;
+  }
+}
+
+// The ids of the entities in a Collection or Variable store.
+async function entityIds(store: StorageProviderBase): Promise<string[]> {
+  const {model} = await store.toLiteral();
+  return model.map(({id}) => id);
+}
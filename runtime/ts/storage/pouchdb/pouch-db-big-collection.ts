@@ -24,10 +24,18 @@ export class PouchDbBigCollection extends PouchDbStorageProvider {
     throw new Error('NotImplemented');
   }
 
+  async query(query) {
+    throw new Error('NotImplemented');
+  }
+
   toLiteral() {
     throw new Error('NotImplemented');
   }
 
+  fromLiteral() {
+    throw new Error('NotImplemented');
+  }
+
   cloneFrom() {
     throw new Error('NotImplemented');
   }
@@ -1,8 +1,10 @@
 import {CrdtCollectionModel, Model} from '../crdt-collection-model.js';
+import {Query, executeQuery} from '../query.js';
 import {assert} from '../../../../platform/assert-web.js';
 import {PouchDbStorageProvider} from './pouch-db-storage-provider.js';
+import {CollectionStorageProvider} from '../storage-provider-base.js';
 import {Type} from '../../type.js';
-import {PouchDbStorage} from './pouch-db-storage';
+import {PouchDbStorage, PouchDbWriteOp} from './pouch-db-storage';
 import PouchDB from 'pouchdb';
 
 /**
@@ -14,7 +16,7 @@ interface CrdtCollectionModelMutator {
   (crdt: CrdtCollectionModel): CrdtCollectionModel;
 }
 
-export class PouchDbCollection extends PouchDbStorageProvider {
+export class PouchDbCollection extends PouchDbStorageProvider implements CollectionStorageProvider {
   /** The local synced model */
   private _model: CrdtCollectionModel; // NOTE: Private, but outside code accesses this :(
 
@@ -113,6 +115,11 @@ export class PouchDbCollection extends PouchDbStorageProvider {
     return (await this._toList()).map(item => item.value);
   }
 
+  /** Returns the entities matching query. */
+  async query(query: Query) {
+    return executeQuery(await this.toList(), query);
+  }
+
   /**
    * Returns an array of values for each of the specified ids.
    *
@@ -255,7 +262,7 @@ export class PouchDbCollection extends PouchDbStorageProvider {
       return;
     }
     // remote revision is different, update local copy.
-    const model = doc['model'];
+    const model = this.migrateModel(doc['model'], doc['schemaVersion']);
 
     this._model = new CrdtCollectionModel(model);
     this._rev = doc._rev;
@@ -267,6 +274,15 @@ export class PouchDbCollection extends PouchDbStorageProvider {
     //   this._fire('change', {originatorId: null, version: this.version, add, remove});
   }
 
+  /**
+   * Upgrades the items of a model that was written under an earlier
+   * schema version. The whole model is rewritten on every update, so a
+   * single version is recorded for the doc.
+   */
+  private migrateModel(model: Model[]|undefined, schemaVersion: number|undefined): Model[] {
+    return (model || []).map(item => ({...item, value: this.migrateValue(item.value, schemaVersion)}));
+  }
+
   /**
    * Updates the local model cache from PouchDB and returns the CRDT
    * model for use.
@@ -278,7 +294,7 @@ export class PouchDbCollection extends PouchDbStorageProvider {
       // compare revisions
       if (this._rev !== result._rev) {
         // remote revision is different, update local copy.
-        this._model = new CrdtCollectionModel(result['model']);
+        this._model = new CrdtCollectionModel(this.migrateModel(result['model'], result['schemaVersion']));
         this._rev = result._rev;
         this.version++; // yuck.
         // TODO(lindner): fire change events here?
@@ -324,7 +340,7 @@ export class PouchDbCollection extends PouchDbStorageProvider {
         // TODO(lindner): refactor with getModel above.
         if (this._rev !== doc._rev) {
           // remote revision is different, update local copy.
-          this._model = new CrdtCollectionModel(doc['model']);
+          this._model = new CrdtCollectionModel(this.migrateModel(doc['model'], doc['schemaVersion']));
           this._rev = doc._rev;
           this.version++;
           // TODO(lindner): fire change events here?
@@ -356,15 +372,19 @@ export class PouchDbCollection extends PouchDbStorageProvider {
       // Apply changes made by the mutator
       doc['model'] = newModel.toLiteral();
       doc['version'] = this.version;
+      doc['schemaVersion'] = this.schemaVersion;
 
       // Update on pouchdb
       try {
         const putResult = await this.db.put(doc);
+        const previousModel = this._model;
 
         // success! update local with new model
         this._rev = putResult.rev;
         this._model = newModel;
 
+        await this.recordWrite(this.writeOpFor(previousModel, newModel));
+
         return this._model;
       } catch (err) {
         if (err.name === 'conflict') {
@@ -381,6 +401,21 @@ export class PouchDbCollection extends PouchDbStorageProvider {
     return null;
   }
 
+  /**
+   * Describes the membership that an update added and removed, so that it
+   * can be merged into the remote copy of this collection.
+   */
+  private writeOpFor(previous: CrdtCollectionModel, next: CrdtCollectionModel): PouchDbWriteOp {
+    const add = next.toLiteral().filter(({id, value, keys}) => {
+      const previousKeys = previous.getKeys(id);
+      return keys.some(key => !previousKeys.includes(key)) || JSON.stringify(previous.getValue(id)) !== JSON.stringify(value);
+    });
+    const remove = previous.toLiteral()
+        .map(({id, keys}) => ({id, keys: keys.filter(key => !next.getKeys(id).includes(key))}))
+        .filter(({keys}) => keys.length > 0);
+    return {kind: 'collection', add, remove, referenceMode: this.referenceMode, type: this.type.toLiteral(), schemaVersion: this.schemaVersion};
+  }
+
   /**
    * Remove this item from the database for testing purposes.
    */
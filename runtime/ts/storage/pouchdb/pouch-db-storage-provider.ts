@@ -1,9 +1,10 @@
 import {StorageProviderBase} from '../storage-provider-base.js';
 
 import {PouchDbCollection} from './pouch-db-collection.js';
-import {PouchDbStorage} from './pouch-db-storage.js';
+import {PouchDbStorage, PouchDbWriteOp} from './pouch-db-storage.js';
 import {PouchDbKey} from './pouch-db-key.js';
 import {Type} from '../../type.js';
+import {SyncStatus} from '../write-queue.js';
 import PouchDB from 'pouchdb';
 
 /**
@@ -57,6 +58,26 @@ export abstract class PouchDbStorageProvider extends StorageProviderBase {
     return this.storageEngine.dbForKey(this.pouchDbKey);
   }
 
+  /** @inheritDoc */
+  get syncStatus(): SyncStatus {
+    return this.storageEngine.syncStatusFor(this.pouchDbKey);
+  }
+
+  /**
+   * Called when the writes to the remote pouchdb server succeed or fail.
+   */
+  public onSyncStatusChanged(status: SyncStatus): void {
+    this._fire('syncStatus', status);
+  }
+
+  /**
+   * Records a write made to the local document so that it's sent to the
+   * remote pouchdb server, if there is one.
+   */
+  protected async recordWrite(op: PouchDbWriteOp): Promise<void> {
+    await this.storageEngine.recordWrite(this.pouchDbKey, op);
+  }
+
   /**
    * Called when the remote pouchdb server updates locally.
    */
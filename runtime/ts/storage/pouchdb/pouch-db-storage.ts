@@ -15,10 +15,55 @@ import {PouchDbCollection} from './pouch-db-collection.js';
 import {PouchDbStorageProvider} from './pouch-db-storage-provider.js';
 import {PouchDbBigCollection} from './pouch-db-big-collection.js';
 import {PouchDbVariable} from './pouch-db-variable.js';
+import {CrdtCollectionModel} from '../crdt-collection-model.js';
+import {CrdtRegisterModel, RegisterState} from '../crdt-register-model.js';
+import {SyncStatus, WriteQueue, syncedStatus} from '../write-queue.js';
 
 import PouchDB from 'pouchdb';
 import PouchDbMemory from 'pouchdb-adapter-memory';
 
+/**
+ * Configures the PouchDB storage engine of an arc. `adapter` is the PouchDB
+ * adapter used for local databases, `remote` opens the database at a remote
+ * URL, and `retryDelay` is the initial delay in milliseconds before writes
+ * that failed to reach a remote database, or a failed feed of changes from
+ * it, are retried.
+ */
+export type PouchDbConfig = {
+  adapter?: string;
+  remote?: (url: string) => PouchDB.Database;
+  retryDelay?: number;
+};
+
+/**
+ * A write to a document of a remote database, as recorded by the provider
+ * that made it. Collections record the membership they added and removed;
+ * variables record the state of their register. Either can be merged into
+ * whatever the remote document holds by then.
+ */
+export type PouchDbWriteOp = {
+  kind: 'collection';
+  add: {id: string, value: {}, keys: string[]}[];
+  remove: {id: string, keys: string[]}[];
+  referenceMode: boolean;
+  type: {};
+  schemaVersion: number;
+} | {
+  kind: 'register';
+  state: RegisterState;
+  schemaVersion: number;
+};
+
+// The write queue and the feed of changes that keep a local database in sync
+// with a remote one. `feedError` is why the feed or the last change from it
+// failed, and `restart` the timer that restarts a failed feed.
+type RemoteSync = {
+  queue: WriteQueue,
+  changes: PouchDB.Core.Changes<{}>,
+  feedError: string,
+  restart: ReturnType<typeof setTimeout>
+};
+
 export class PouchDbStorage extends StorageBase {
   /**
    * A map of the key location to the actual provider.
@@ -34,14 +79,19 @@ export class PouchDbStorage extends StorageBase {
   /** Global map of database types/name to Pouch Database Instances */
   private static dbLocationToInstance: Map<string, PouchDB.Database> = new Map();
 
-  /** Tracks replication status and allows cancellation in tests */
-  private static syncHandler: PouchDB.Replication.Sync<{}> | undefined;
+  /** Global map of database types/name to the sync with their remote database */
+  private static remoteSyncs: Map<string, RemoteSync> = new Map();
 
-  constructor(arcId: Id) {
+  constructor(arcId: Id, private readonly config: PouchDbConfig = {}) {
     super(arcId);
     this.localIDBase = 0;
   }
 
+  /** Identifies this arc's writes to the registers of variables. */
+  get replicaId(): string {
+    return this.arcId.toString();
+  }
+
   /**
    * Instantiates a new key for id/type stored at keyFragment.
    */
@@ -94,16 +144,18 @@ export class PouchDbStorage extends StorageBase {
   }
 
   /** Unit tests should call this in an 'after' block. */
-  shutdown() {
-    // Stop syncing
-    if (PouchDbStorage.syncHandler) {
-      PouchDbStorage.syncHandler.cancel();
+  async shutdown(): Promise<void> {
+    // Stop syncing; queued writes stay in their logs.
+    for (const {queue, changes, restart} of PouchDbStorage.remoteSyncs.values()) {
+      queue.dispose();
+      changes.cancel();
+      clearTimeout(restart);
     }
+    PouchDbStorage.remoteSyncs.clear();
     // Close databases
-    for (const db of PouchDbStorage.dbLocationToInstance.values()) {
-      db.close();
-    }
+    const dbs = [...PouchDbStorage.dbLocationToInstance.values()];
     PouchDbStorage.dbLocationToInstance.clear();
+    await Promise.all(dbs.map(db => db.close()));
   }
 
   /** @inheritDoc */
@@ -176,18 +228,19 @@ export class PouchDbStorage extends StorageBase {
 
     // New connect to a database
     if (key.dbLocation === 'local') {
-      db = new PouchDB(key.dbName);
+      db = this.openLocal(key.dbName);
     } else if (key.dbLocation === 'memory') {
       PouchDB.plugin(PouchDbMemory);
       db = new PouchDB(key.dbName, {adapter: 'memory'});
     } else {
       // Create a local db to sync to the remote
-      db = new PouchDB(key.dbName);
+      db = this.openLocal(key.dbName);
 
       // Ensure a secure origin, http is okay for localhost, but other hosts need https
       const httpScheme = key.dbLocation.startsWith('localhost') ? 'http://' : 'https://';
+      const url = httpScheme + key.dbLocation + '/' + key.dbName;
 
-      const remoteDb = new PouchDB(httpScheme + key.dbLocation + '/' + key.dbName);
+      const remoteDb = this.config.remote ? this.config.remote(url) : new PouchDB(url);
       if (!remoteDb || !db) {
         throw new Error('unable to connect to remote database for ' + key.toString());
       }
@@ -202,7 +255,7 @@ export class PouchDbStorage extends StorageBase {
           console.warn('Error connecting to Remote Database', err);
         });
 
-      this.setupSync(db, remoteDb);
+      this.setupSync(key, db, remoteDb);
     }
 
     if (!db) {
@@ -214,53 +267,195 @@ export class PouchDbStorage extends StorageBase {
   }
 
   /**
-   * Starts syncing between the remote and local Pouch databases.
-   * Installs an event handler that propagates changes arriving from
-   * remote to local objects using matching location IDs.
+   * Queues a write that a provider has made to its local document, to be
+   * sent to the remote database that the document is synced with. Resolves
+   * once the write has been logged; does nothing for databases without a
+   * remote.
    */
-  private setupSync(localDb: PouchDB.Database, remoteDb: PouchDB.Database) {
+  async recordWrite(key: PouchDbKey, op: PouchDbWriteOp): Promise<void> {
+    const remoteSync = PouchDbStorage.remoteSyncs.get(key.dbCacheKey());
+    if (remoteSync) {
+      await remoteSync.queue.enqueue(key.location, op);
+    }
+  }
+
+  /**
+   * Whether the writes to the database of `key` have reached its remote
+   * database. The database is also offline while its feed of remote changes
+   * is failing.
+   */
+  syncStatusFor(key: PouchDbKey): SyncStatus {
+    const remoteSync = PouchDbStorage.remoteSyncs.get(key.dbCacheKey());
+    if (!remoteSync) {
+      return syncedStatus;
+    }
+    const status = remoteSync.queue.status;
+    return remoteSync.feedError ? {...status, state: 'offline', lastError: remoteSync.feedError} : status;
+  }
+
+  private notifySyncStatus(key: PouchDbKey) {
+    const status = this.syncStatusFor(key);
+    for (const provider of this.providerByLocationCache.values()) {
+      if (new PouchDbKey(provider.storageKey).dbCacheKey() === key.dbCacheKey()) {
+        provider.onSyncStatusChanged(status);
+      }
+    }
+  }
+
+  private openLocal(name: string): PouchDB.Database {
+    if (this.config.adapter) {
+      if (this.config.adapter === 'memory') {
+        PouchDB.plugin(PouchDbMemory);
+      }
+      return new PouchDB(name, {adapter: this.config.adapter});
+    }
+    return new PouchDB(name);
+  }
+
+  /**
+   * Starts syncing between the remote and local Pouch databases. Local
+   * writes are recorded in a queue that is logged in its own local database
+   * and sent to the remote as soon as it can be reached. Changes arriving
+   * from the remote are merged with the writes still queued for the same
+   * document, and propagated to local objects using matching location IDs.
+   */
+  private setupSync(key: PouchDbKey, localDb: PouchDB.Database, remoteDb: PouchDB.Database) {
     console.log('Replicating DBs');
 
-    const syncHandler = localDb.sync(remoteDb, {live: true, retry: true});
-
-    // Handle inbound changes.
-    syncHandler.on('change', info => {
-      const dir = info.direction; // push or pull.
-      if (dir === 'pull') {
-        // handle change from the server
-        for (const doc of info.change.docs) {
-          // Find the handler for the id and pass the changed doc to it.
-          const handler = this.providerByLocationCache.get(doc._id);
-          if (handler) {
-            handler.onRemoteStateSynced(doc);
-          }
+    const log = this.openLocal(`${key.dbName}-outbox`);
+    PouchDbStorage.dbLocationToInstance.set(`${key.dbCacheKey()}-outbox`, log);
+    const queue = new WriteQueue(log, write => this.sendWrite(remoteDb, write.location, write.op as PouchDbWriteOp), this.config.retryDelay);
+    queue.onStatusChange(() => this.notifySyncStatus(key));
+    const remoteSync: RemoteSync = {queue, changes: null, feedError: null, restart: null};
+    PouchDbStorage.remoteSyncs.set(key.dbCacheKey(), remoteSync);
+
+    const setFeedError = (feedError: string) => {
+      if (feedError !== remoteSync.feedError) {
+        remoteSync.feedError = feedError;
+        this.notifySyncStatus(key);
+      }
+    };
+
+    // The feed stops on errors, so it's restarted from the last change it
+    // delivered, after a delay that doubles with each failure in a row. It's
+    // back online once the remote database answers again.
+    const initialDelay = this.config.retryDelay || 1000;
+    let delay = initialDelay;
+    let since: string|number = 0;
+    const follow = () => {
+      remoteSync.changes = remoteDb.changes({live: true, since, include_docs: true});
+      remoteSync.changes
+        .on('change', ({doc, seq}) => {
+          since = seq;
+          delay = initialDelay;
+          this.receiveDoc(localDb, queue, doc).then(
+              () => setFeedError(null),
+              err => setFeedError(`Applying remote change to ${doc._id} failed: ${err.message}`));
+        })
+        .on('error', err => {
+          setFeedError(`Remote changes feed failed: ${err.message}`);
+          remoteSync.restart = setTimeout(restart, delay);
+          delay = Math.min(delay * 2, 60000);
+        });
+    };
+    const restart = () => {
+      remoteSync.restart = null;
+      follow();
+      remoteDb.info().then(() => {
+        if (!remoteSync.restart) {
+          setFeedError(null);
+        }
+      }, () => {});
+    };
+    follow();
+  }
+
+  // Merges a queued write into the remote document at `location`.
+  private async sendWrite(remoteDb: PouchDB.Database, location: string, op: PouchDbWriteOp) {
+    while (1) {
+      let doc;
+      try {
+        doc = await remoteDb.get(location);
+      } catch (err) {
+        if (err.name !== 'not_found') {
+          throw err;
         }
+        doc = {_id: location};
       }
-    });
-
-    // Set up remaining event handlers.
-    syncHandler
-      .on('paused', err => {
-        // replication paused (e.g. replication up to date, user went offline)
-        console.log('DB Replication paused', err);
-      })
-      .on('active', () => {
-        // replicate resumed (e.g. new changes replicating, user went back online)
-        console.log('DB Replication active');
-      })
-      .on('denied', err => {
-        // a document failed to replicate (e.g. due to permissions)
-        // TODO(lindner): we should do something here..
-        console.log('DB Replication denied', err);
-      })
-      .on('complete', info => {
-        console.log('DB Replication complete', info);
-      })
-      .on('error', err => {
-        // TODO(lindner): we should do something here..
-        console.log('DB Replication error', err);
-      });
-
-    PouchDbStorage.syncHandler = syncHandler;
+      applyWriteOp(doc, op);
+      try {
+        await remoteDb.put(doc);
+        return;
+      } catch (err) {
+        if (err.name !== 'conflict') {
+          throw err;
+        }
+        // The document changed since it was read; merge into the new revision.
+      }
+    }
   }
+
+  // Replaces a local document with a changed remote one, and then reapplies
+  // the local writes that the remote hasn't received yet.
+  private async receiveDoc(localDb: PouchDB.Database, queue: WriteQueue, remoteDoc: PouchDB.Core.ExistingDocument<{}>) {
+    const {_id, _rev, _deleted, ...content} = remoteDoc as PouchDB.Core.ExistingDocument<{}> & {_deleted?: boolean};
+    while (1) {
+      let localDoc = null;
+      try {
+        localDoc = await localDb.get(_id);
+      } catch (err) {
+        if (err.name !== 'not_found') {
+          throw err;
+        }
+      }
+      const doc = _deleted ? {_id} : {...content, _id};
+      queue.pendingOps(_id).forEach(op => applyWriteOp(doc, op as PouchDbWriteOp));
+      if (localDoc ? sameContent(localDoc, doc) : Object.keys(doc).length === 1) {
+        return;
+      }
+      if (localDoc) {
+        doc['_rev'] = localDoc._rev;
+      }
+      try {
+        const {rev} = await localDb.put(doc);
+        // Find the handler for the id and pass the changed doc to it.
+        const handler = this.providerByLocationCache.get(_id);
+        if (handler) {
+          handler.onRemoteStateSynced({...doc, _rev: rev});
+        }
+        return;
+      } catch (err) {
+        if (err.name !== 'conflict') {
+          throw err;
+        }
+        // A local write got in first; merge again.
+      }
+    }
+  }
+}
+
+function applyWriteOp(doc: {}, op: PouchDbWriteOp) {
+  if (op.kind === 'collection') {
+    const model = new CrdtCollectionModel(doc['model']);
+    for (const {id, value, keys} of op.add) {
+      // Membership that the document already has is left as it is.
+      if (keys.some(key => !model.getKeys(id).includes(key))) {
+        model.add(id, value, keys);
+      }
+    }
+    for (const {id, keys} of op.remove) {
+      model.remove(id, keys);
+    }
+    Object.assign(doc, {model: model.toLiteral(), referenceMode: op.referenceMode, type: op.type, schemaVersion: op.schemaVersion});
+  } else {
+    const register = new CrdtRegisterModel('', doc['register'] || null);
+    register.merge(op.state);
+    Object.assign(doc, {value: register.value, register: register.toState(), schemaVersion: op.schemaVersion});
+  }
+}
+
+// Providers keep their own version counts in documents, so they are ignored.
+function sameContent(a: {}, b: {}): boolean {
+  const content = doc => Object.keys(doc).filter(key => !['_rev', 'version'].includes(key)).sort().map(key => [key, doc[key]]);
+  return JSON.stringify(content(a)) === JSON.stringify(content(b));
 }
@@ -1,7 +1,9 @@
 import {assert} from '../../../../platform/assert-web.js';
 import {PouchDbStorageProvider} from './pouch-db-storage-provider';
+import {VariableStorageProvider} from '../storage-provider-base.js';
 import {PouchDbStorage} from './pouch-db-storage.js';
 import {Type} from '../../type.js';
+import {CrdtRegisterModel, RegisterState} from '../crdt-register-model.js';
 
 /**
  * Loosely defines the value object stored.
@@ -29,13 +31,18 @@ interface ValueStorageMutator {
 interface VariableStorage {
   value: ValueStorage;
   version: number;
+  schemaVersion?: number;
+  /** The writes that value was chosen from, merged with the remote's */
+  register?: RegisterState;
 }
 
 /**
  * The PouchDB-based implementation of a Variable.
  */
-export class PouchDbVariable extends PouchDbStorageProvider {
+export class PouchDbVariable extends PouchDbStorageProvider implements VariableStorageProvider {
   private _stored: ValueStorage | null = null;
+  // Whether the register that _stored was chosen from holds concurrent writes.
+  private conflicted = false;
   private localKeyId = 0;
 
   constructor(type: Type, storageEngine: PouchDbStorage, name: string, id: string, key: string) {
@@ -157,7 +164,7 @@ export class PouchDbVariable extends PouchDbStorageProvider {
 
   /**
    * Set the value for this variable.
-   * @param value the value we want to set.  If null remove the variable from storage
+   * @param value the value we want to set.  If null clear the variable
    * @param originatorId TBD
    * @param barrier TBD
    */
@@ -189,29 +196,18 @@ export class PouchDbVariable extends PouchDbStorageProvider {
       });
     } else {
       // If there's a barrier set, then the originating storage-proxy is expecting
-      // a result so we cannot suppress the event here.
+      // a result so we cannot suppress the event here. Nor can we if the write
+      // resolves a conflict.
       // TODO(lindner): determine if this is really needed
-      if (JSON.stringify(this._stored) === JSON.stringify(value) && barrier == null) {
+      if (JSON.stringify(this._stored) === JSON.stringify(value) && barrier == null && !this.conflicted) {
         return;
       }
 
-      // Update Pouch/_stored, If value is null delete key, otherwise store it.
-      if (value == null) {
-        try {
-          const doc = await this.db.get(this.pouchDbKey.location);
-          await this.db.remove(doc);
-        } catch (err) {
-          // Deleting an already deleted item is acceptable.
-          if (err.name !== 'not_found') {
-            console.warn('PouchDbVariable.remove err=', err);
-            throw err;
-          }
-        }
-      } else {
-        await this.getStoredAndUpdate(stored => {
-          return value;
-        });
-      }
+      // Update Pouch/_stored. A null value is stored rather than deleting
+      // the doc, so that clearing the variable is a write like any other.
+      await this.getStoredAndUpdate(stored => {
+        return value;
+      });
     }
     // Does anyone look at this?
     this.version++;
@@ -243,28 +239,44 @@ export class PouchDbVariable extends PouchDbStorageProvider {
 
     // This is null for deleted docs.
     // TODO(lindner): consider using doc._deleted to special case.
-    const value = doc.value;
+    const value = this.migrateValue(doc.value, doc.schemaVersion);
 
     // Store locally
     this._stored = value;
     this._rev = doc._rev;
+    this.conflicted = PouchDbVariable.isConflicted(doc);
     this.version++;
 
+    // Under the 'multi-value' conflict policy, concurrent values are given
+    // to particles, winner first, until a write resolves them.
+    let conflicts = null;
+    if (this.conflicted && this.conflictPolicy === 'multi-value') {
+      conflicts = new CrdtRegisterModel('', doc.register).values.map(value => this.migrateValue(value, doc.schemaVersion));
+    }
+
     // Skip if value == null, which is what happens when docs are deleted..
-    if (this.referenceMode && value) {
+    if (this.referenceMode && (value || conflicts)) {
+      const version = this.version;
       this.ensureBackingStore().then(async store => {
-        const data = await store.get(value.id);
-        if (!data) {
+        const dereference = async value => value && await store.get(value.id);
+        const data = await dereference(value);
+        if (value && !data) {
           // TODO(lindner): data referred to by this data is missing.
           console.log('PouchDbVariable.onRemoteSynced: possible race condition for id=' + value.id);
           return;
         }
-        this._fire('change', {data, version: this.version});
+        const event = {data, version};
+        if (conflicts) {
+          Object.assign(event, {conflicts: await Promise.all(conflicts.map(dereference))});
+        }
+        this._fire('change', event);
       });
-    } else {
-      if (value != null) {
-        this._fire('change', {data: value, version: this.version});
+    } else if (value != null || conflicts) {
+      const event = {data: value, version: this.version};
+      if (conflicts) {
+        Object.assign(event, {conflicts});
       }
+      this._fire('change', event);
     }
   }
 
@@ -278,13 +290,14 @@ export class PouchDbVariable extends PouchDbStorageProvider {
    */
   private async getStored(): Promise<ValueStorage> {
     try {
-      const result = await this.db.get(this.pouchDbKey.location);
+      const result = await this.db.get<VariableStorage>(this.pouchDbKey.location);
 
       // compare revisions
       if (this._rev !== result._rev) {
         // remote revision is different, update local copy.
-        this._stored = result['value'];
+        this._stored = this.migrateValue(result['value'], result['schemaVersion']);
         this._rev = result._rev;
+        this.conflicted = PouchDbVariable.isConflicted(result);
         this.version++;
       }
     } catch (err) {
@@ -292,6 +305,7 @@ export class PouchDbVariable extends PouchDbStorageProvider {
         // If the item was removed from storage empty out our local storage and bump the version.
         this._stored = null;
         this._rev = undefined;
+        this.conflicted = false;
         this.version++;
       } else {
         console.warn('PouchDbVariable.getStored err=', err);
@@ -327,8 +341,9 @@ export class PouchDbVariable extends PouchDbStorageProvider {
         // TODO(lindner): refactor with getStored above.
         if (this._rev !== doc._rev) {
           // remote revision is different, update local copy.
-          this._stored = doc['value'];
+          this._stored = this.migrateValue(doc['value'], doc['schemaVersion']);
           this._rev = doc._rev;
+          this.conflicted = PouchDbVariable.isConflicted(doc);
           this.version++;
         }
       } catch (err) {
@@ -345,16 +360,20 @@ export class PouchDbVariable extends PouchDbStorageProvider {
       // Run the mutator on a copy of the existing model
       const newValue = variableStorageMutator({...this._stored});
 
-      // Check if the mutator made any changes..
+      // Check if the mutator made any changes, or resolved a conflict.
       // TODO(lindner): add a deep equals method for VariableStorage
-      if (!notFound && JSON.stringify(this._stored) === JSON.stringify(newValue)) {
+      if (!notFound && !this.conflicted && JSON.stringify(this._stored) === JSON.stringify(newValue)) {
         // mutator didn't make any changes.
         return this._stored;
       }
 
-      // Apply changes made by the mutator
+      // Apply changes made by the mutator, replacing the writes it has seen.
+      const register = new CrdtRegisterModel(this.storageEngine.replicaId, doc['register'] || null);
+      register.set(newValue);
       doc['value'] = newValue;
       doc['version'] = this.version;
+      doc['schemaVersion'] = this.schemaVersion;
+      doc['register'] = register.toState();
 
       // Update on pouchdb
       try {
@@ -362,6 +381,9 @@ export class PouchDbVariable extends PouchDbStorageProvider {
         // success! update local with new stored value
         this._rev = putResult.rev;
         this._stored = newValue;
+        this.conflicted = false;
+
+        await this.recordWrite({kind: 'register', state: doc['register'], schemaVersion: this.schemaVersion});
 
         return this._stored;
       } catch (err) {
@@ -378,4 +400,8 @@ export class PouchDbVariable extends PouchDbStorageProvider {
     // can never get here..
     return null;
   }
+
+  private static isConflicted(doc: VariableStorage): boolean {
+    return !!doc.register && new CrdtRegisterModel('', doc.register).conflicted;
+  }
 }
@@ -0,0 +1,185 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+export type QueryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryValue = string | number | boolean | null;
+
+/**
+ * Matches entities whose `field` compares to `value` using `op`. Entities
+ * with no value for `field` only match '==' null and '!=' non-null.
+ */
+export interface QueryPredicate {
+  field: string;
+  op: QueryOperator;
+  value: QueryValue;
+}
+
+export interface QueryOrder {
+  field: string;
+  descending?: boolean;
+}
+
+/**
+ * A filtered, sorted and paged read of a Collection or BigCollection.
+ * Predicates in `where` must all match. Entities are ordered by each entry of
+ * `orderBy` in turn, with entities lacking a field ordered first; ties retain
+ * the collection's own order. `offset` and `limit` are applied last.
+ */
+export interface Query {
+  where?: QueryPredicate[];
+  orderBy?: QueryOrder[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Selects the entities of a BigCollection whose value for an indexed field
+ * lies between `lower` and `upper` (both inclusive, and both optional).
+ * Entities with no value for the field are not included in the index.
+ */
+export interface IndexRange {
+  index: string;
+  lower?: QueryValue;
+  upper?: QueryValue;
+}
+
+const operators: QueryOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+
+/**
+ * Throws if query is malformed. Called on the particle side, so that errors
+ * are reported before anything is sent to storage.
+ */
+export function validateQuery(query: Query): void {
+  if (!query || typeof query !== 'object') {
+    throw new Error('Query must be an object');
+  }
+  for (const predicate of query.where || []) {
+    if (!predicate || typeof predicate.field !== 'string') {
+      throw new Error('Query predicates require a field');
+    }
+    if (!operators.includes(predicate.op)) {
+      throw new Error(`Unsupported query operator '${predicate.op}'`);
+    }
+    if (predicate.value !== null && !['string', 'number', 'boolean'].includes(typeof predicate.value)) {
+      throw new Error(`Query predicate on '${predicate.field}' must compare against a primitive value`);
+    }
+  }
+  for (const order of query.orderBy || []) {
+    if (!order || typeof order.field !== 'string') {
+      throw new Error('Query ordering requires a field');
+    }
+  }
+  for (const bound of ['limit', 'offset']) {
+    const value = query[bound];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Query ${bound} must be a non-negative integer`);
+    }
+  }
+}
+
+/**
+ * Throws if range is malformed or names a field that isn't indexed by schema.
+ */
+export function validateIndexRange(range: IndexRange, schema: {name: string, indexes: string[]}): void {
+  if (!schema.indexes.includes(range.index)) {
+    throw new Error(`Schema ${schema.name} has no index on '${range.index}'`);
+  }
+  for (const bound of ['lower', 'upper']) {
+    const value = range[bound];
+    if (value !== undefined && value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(`Index range ${bound} bound must be a primitive value`);
+    }
+  }
+}
+
+function fieldValue(entity: {rawData?: {}}, field: string): QueryValue {
+  const value = entity.rawData ? entity.rawData[field] : undefined;
+  return value === undefined ? null : value;
+}
+
+/**
+ * Returns the key under which entity is filed in the index on field, or null
+ * if it is not in the index.
+ */
+export function indexKey(entity: {rawData?: {}}, field: string): QueryValue {
+  return entity ? fieldValue(entity, field) : null;
+}
+
+/**
+ * Returns true if key (which must be non-null) lies within range.
+ */
+export function inIndexRange(key: QueryValue, range: IndexRange): boolean {
+  const lower = range.lower === undefined ? null : range.lower;
+  const upper = range.upper === undefined ? null : range.upper;
+  return (lower === null || compareValues(key, lower) >= 0) && (upper === null || compareValues(key, upper) <= 0);
+}
+
+export function compareValues(a: QueryValue, b: QueryValue): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return -1;
+  }
+  if (b === null) {
+    return 1;
+  }
+  return a < b ? -1 : (a > b ? 1 : 0);
+}
+
+function matches(entity: {rawData?: {}}, {field, op, value}: QueryPredicate): boolean {
+  const actual = fieldValue(entity, field);
+  switch (op) {
+    case '==':
+      return actual === value;
+    case '!=':
+      return actual !== value;
+    default:
+  }
+  if (actual === null || value === null || typeof actual !== typeof value) {
+    return false;
+  }
+  const cmp = compareValues(actual, value);
+  switch (op) {
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    default:
+      throw new Error(`Unsupported query operator '${op}'`);
+  }
+}
+
+/**
+ * Applies query to a list of serialized entities ({id, rawData}), returning
+ * the matching page.
+ */
+export function executeQuery<T extends {rawData?: {}}>(entities: T[], query: Query): T[] {
+  let results = entities.filter(entity => entity && (query.where || []).every(predicate => matches(entity, predicate)));
+  const orderBy = query.orderBy || [];
+  if (orderBy.length > 0) {
+    // Array.prototype.sort is not guaranteed to be stable, so fall back to the original position.
+    results = results.map((entity, index) => ({entity, index})).sort((a, b) => {
+      for (const {field, descending} of orderBy) {
+        const cmp = compareValues(fieldValue(a.entity, field), fieldValue(b.entity, field));
+        if (cmp !== 0) {
+          return descending ? -cmp : cmp;
+        }
+      }
+      return a.index - b.index;
+    }).map(({entity}) => entity);
+  }
+  const offset = query.offset || 0;
+  const end = query.limit === undefined ? undefined : offset + query.limit;
+  return results.slice(offset, end);
+}
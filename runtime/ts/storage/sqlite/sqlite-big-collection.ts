@@ -0,0 +1,353 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../../platform/assert-web.js';
+import {SqliteStorageProvider} from './sqlite-storage-provider.js';
+import {SqliteStorage} from './sqlite-storage.js';
+import {IndexEntryRow, ItemRow, StoreRow} from './sqlite-database.js';
+import {Type} from '../../type.js';
+import {IndexRange, Query, QueryValue, compareValues, executeQuery, inIndexRange, indexKey} from '../query.js';
+
+/**
+ * A position within a stream: the item's index key (when streaming over an index) and
+ * the version at which it was stored.
+ */
+type CursorPosition = {key: QueryValue, idx: number};
+
+type PageRow = ItemRow & {indexKey?: string|number};
+
+function comparePositions(a: CursorPosition, b: CursorPosition): number {
+  return compareValues(a.key, b.key) || a.idx - b.idx;
+}
+
+// SQLite has no boolean type; index keys and range bounds are stored as 0 and 1.
+function sqlValue(value: QueryValue|undefined): QueryValue {
+  return typeof value === 'boolean' ? Number(value) : (value === undefined ? null : value);
+}
+
+/**
+ * SqliteCursor provides paginated reads over the contents of a BigCollection, locked to the
+ * version of the collection at which the cursor was created.
+ *
+ * Pages are read directly from the database in insertion order or, if a range was given, in
+ * order of the range's index. Items that are removed (or re-stored, which moves them past the
+ * cursor's end) before the cursor reaches them are reported by the collection via itemRemoved(),
+ * and returned once the stream is exhausted.
+ */
+class SqliteCursor {
+  private readonly pageSize: number;
+  private readonly forward: boolean;
+  private readonly range: IndexRange|null;
+  private boundary: CursorPosition|null = null;
+  private removed: {}[] = [];
+  private streaming = true;
+  private done = false;
+
+  constructor(private readonly collection: SqliteBigCollection, readonly version: number,
+              pageSize: number, forward: boolean, range: IndexRange|null) {
+    this.pageSize = pageSize;
+    this.forward = forward;
+    this.range = range && {index: range.index, lower: sqlValue(range.lower), upper: sqlValue(range.upper)};
+  }
+
+  // Returns {value: [items], done: false} while there are items still available, or {done: true}
+  // when the cursor has completed reading the collection.
+  async next(): Promise<{value?: {}[], done: boolean}> {
+    if (this.done) {
+      return {done: true};
+    }
+    let value: {}[] = [];
+    if (this.streaming) {
+      const rows = await this.collection.readPage(this.version, this.boundary, this.forward, this.pageSize, this.range);
+      value = rows.map(row => this.collection.parseValue(row));
+      if (rows.length > 0) {
+        const last = rows[rows.length - 1];
+        this.boundary = {key: this.range ? last.indexKey : null, idx: last.idx};
+      }
+      if (rows.length < this.pageSize) {
+        this.streaming = false;
+      }
+    }
+    if (!this.streaming) {
+      while (this.removed.length && value.length < this.pageSize) {
+        value.push(this.removed.pop());
+      }
+      if (this.removed.length === 0) {
+        this.close();
+      }
+    }
+    if (value.length === 0) {
+      return {done: true};
+    }
+    return {value, done: false};
+  }
+
+  // Called when the item at index is about to disappear from the collection.
+  itemRemoved(index: number, value: {}) {
+    if (!this.streaming || index > this.version) {
+      return;
+    }
+    let key = null;
+    if (this.range) {
+      key = sqlValue(indexKey(value, this.range.index));
+      if (key === null || !inIndexRange(key, this.range)) {
+        return;
+      }
+    }
+    const position = {key, idx: index};
+    if (this.boundary === null || (this.forward && comparePositions(position, this.boundary) > 0)
+                              || (!this.forward && comparePositions(position, this.boundary) < 0)) {
+      this.removed.push(value);
+    }
+  }
+
+  close() {
+    this.done = true;
+    this.removed = [];
+  }
+}
+
+/**
+ * Provides access to large collections without pulling the entire contents into memory.
+ *
+ * get(), store() and remove() all call immediately through to the database. Each item is
+ * indexed by the version at which it was last stored, so that stream() can page through the
+ * collection in insertion order. For each field indexed by the schema, items are also entered
+ * in `indexEntries` under their value for that field, so that stream() can page through a
+ * range of those values.
+ */
+export class SqliteBigCollection extends SqliteStorageProvider {
+  private cursors: Map<number, SqliteCursor> = new Map();
+  private cursorIndex = 0;
+
+  constructor(type: Type, storageEngine: SqliteStorage, name: string, id: string, key: string) {
+    super(type, storageEngine, name, id, key);
+  }
+
+  enableReferenceMode() {
+    assert(false, 'referenceMode is not supported for BigCollection');
+  }
+
+  backingType() {
+    return this.type.primitiveType();
+  }
+
+  async load(row: StoreRow): Promise<void> {
+    this.version = row.version;
+    // Build any indexes that were declared after items were stored.
+    for (const field of this.indexedFields) {
+      const entry = await this.db.get<IndexEntryRow>(
+          'SELECT id FROM indexEntries WHERE location = ? AND field = ? LIMIT 1', [this.location, field]);
+      if (!entry) {
+        await this.transaction(async () => {
+          const rows = await this.db.all<ItemRow>('SELECT id, value, idx, schemaVersion FROM items WHERE location = ?', [this.location]);
+          for (const row of rows) {
+            await this.persistIndexEntries(row.id, this.parseValue(row), row.idx, [field]);
+          }
+        });
+      }
+    }
+  }
+
+  async get(id: string) {
+    const row = await this.db.get<ItemRow>(
+        'SELECT value, schemaVersion FROM items WHERE location = ? AND id = ?', [this.location, id]);
+    return row ? this.parseValue(row) : null;
+  }
+
+  // originatorId is included to maintain parity with Collection.store but is not used.
+  async store(value, keys: string[], originatorId=null) {
+    assert(keys != null && keys.length > 0, 'keys required');
+    await this.transaction(async () => {
+      const existing = await this.db.get<ItemRow>(
+          'SELECT value, keys, idx FROM items WHERE location = ? AND id = ?', [this.location, value.id]);
+      if (existing) {
+        this.cursors.forEach(cursor => cursor.itemRemoved(existing.idx, JSON.parse(existing.value)));
+      }
+      const allKeys = new Set(existing ? JSON.parse(existing.keys) : []);
+      keys.forEach(key => allKeys.add(key));
+
+      this.version++;
+      await this.db.run('INSERT OR REPLACE INTO items (location, id, value, keys, idx, schemaVersion) VALUES (?, ?, ?, ?, ?, ?)',
+          [this.location, value.id, JSON.stringify(value), JSON.stringify([...allKeys]), this.version, this.schemaVersion]);
+      await this.persistIndexEntries(value.id, value, this.version);
+      await this.persistVersion();
+    });
+  }
+
+  // keys and originatorId are included to maintain parity with Collection.remove but are not used.
+  async remove(id: string, keys: string[] = [], originatorId=null) {
+    await this.transaction(async () => {
+      const existing = await this.db.get<ItemRow>(
+          'SELECT value, idx FROM items WHERE location = ? AND id = ?', [this.location, id]);
+      if (existing) {
+        this.cursors.forEach(cursor => cursor.itemRemoved(existing.idx, JSON.parse(existing.value)));
+      }
+      this.version++;
+      await this.db.run('DELETE FROM items WHERE location = ? AND id = ?', [this.location, id]);
+      await this.db.run('DELETE FROM indexEntries WHERE location = ? AND id = ?', [this.location, id]);
+      await this.persistVersion();
+    });
+  }
+
+  /**
+   * Returns the entities matching query. Entities are considered in insertion order.
+   */
+  async query(query: Query) {
+    const rows = await this.db.all<ItemRow>(
+        'SELECT value, schemaVersion FROM items WHERE location = ? ORDER BY idx', [this.location]);
+    return executeQuery(rows.map(row => this.parseValue(row)), query);
+  }
+
+  /**
+   * Returns a cursor id for paginated reads of the current version of this BigCollection.
+   * The id should be passed to cursorNext() to retrive the contained entities.
+   *
+   * By default items are returned in order of original insertion into the collection (with the
+   * caveat that items removed during a streamed read may be returned at the end). Set forward to
+   * false to return items in reverse insertion order.
+   *
+   * If range is given, only items whose value for the indexed field lies within the range are
+   * returned, ordered by that value (and then by insertion).
+   */
+  async stream(pageSize: number, forward = true, range: IndexRange = null) {
+    assert(!isNaN(pageSize) && pageSize > 0);
+    assert(!range || this.indexedFields.includes(range.index), `no index on '${range && range.index}'`);
+    this.cursorIndex++;
+    this.cursors.set(this.cursorIndex, new SqliteCursor(this, this.version, pageSize, forward, range));
+    return this.cursorIndex;
+  }
+
+  /**
+   * Calls next() on the cursor identified by cursorId. The cursor will be discarded once the end
+   * of the stream has been reached.
+   */
+  async cursorNext(cursorId: number) {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) {
+      return {done: true};
+    }
+    const data = await cursor.next();
+    if (data.done) {
+      this.cursors.delete(cursorId);
+    }
+    return data;
+  }
+
+  /** Calls close() on and discards the cursor identified by cursorId. */
+  cursorClose(cursorId: number) {
+    const cursor = this.cursors.get(cursorId);
+    if (cursor) {
+      this.cursors.delete(cursorId);
+      cursor.close();
+    }
+  }
+
+  /**
+   * Returns the version at which the cursor identified by cursorId is reading.
+   */
+  cursorVersion(cursorId: number) {
+    const cursor = this.cursors.get(cursorId);
+    return cursor ? cursor.version : null;
+  }
+
+  /**
+   * Reads up to pageSize items positioned beyond boundary (in the direction given by forward)
+   * and stored no later than version. Items are positioned by index, or by their entry in the
+   * index named by range followed by index.
+   */
+  async readPage(version: number, boundary: CursorPosition|null, forward: boolean, pageSize: number,
+                 range: IndexRange|null): Promise<PageRow[]> {
+    const direction = forward ? 'ASC' : 'DESC';
+    const after = forward ? '>' : '<';
+    if (!range) {
+      const params: {}[] = [this.location, version];
+      let query = 'SELECT value, idx, schemaVersion FROM items WHERE location = ? AND idx <= ?';
+      if (boundary !== null) {
+        query += ` AND idx ${after} ?`;
+        params.push(boundary.idx);
+      }
+      query += ` ORDER BY idx ${direction} LIMIT ?`;
+      params.push(pageSize);
+      return this.db.all<PageRow>(query, params);
+    }
+    const params: {}[] = [this.location, range.index, version];
+    let query = `SELECT items.value, items.schemaVersion, e.idx, e.indexKey
+                 FROM indexEntries e JOIN items ON items.location = e.location AND items.id = e.id
+                 WHERE e.location = ? AND e.field = ? AND e.idx <= ?`;
+    if (range.lower !== null) {
+      query += ' AND e.indexKey >= ?';
+      params.push(range.lower);
+    }
+    if (range.upper !== null) {
+      query += ' AND e.indexKey <= ?';
+      params.push(range.upper);
+    }
+    if (boundary !== null) {
+      query += ` AND (e.indexKey ${after} ? OR (e.indexKey = ? AND e.idx ${after} ?))`;
+      params.push(boundary.key, boundary.key, boundary.idx);
+    }
+    query += ` ORDER BY e.indexKey ${direction}, e.idx ${direction} LIMIT ?`;
+    params.push(pageSize);
+    return this.db.all<PageRow>(query, params);
+  }
+
+  /**
+   * Decodes the value of an item row, migrating it to the current schema version if needed.
+   */
+  parseValue(row: ItemRow): {} {
+    return this.migrateValue(JSON.parse(row.value), row.schemaVersion);
+  }
+
+  async cloneFrom(handle) {
+    await this.fromLiteral(await handle.toLiteral());
+  }
+
+  // Returns {version, model: [{id, index, value, keys: []}]}
+  async toLiteral() {
+    const rows = await this.db.all<ItemRow>(
+        'SELECT id, value, keys, idx, schemaVersion FROM items WHERE location = ? ORDER BY idx', [this.location]);
+    const model = rows.map(row => ({id: row.id, index: row.idx, value: this.parseValue(row), keys: JSON.parse(row.keys)}));
+    return {version: this.version, model};
+  }
+
+  async fromLiteral({version, model}) {
+    this.version = version;
+    await this.transaction(async () => {
+      await this.db.run('DELETE FROM items WHERE location = ?', [this.location]);
+      await this.db.run('DELETE FROM indexEntries WHERE location = ?', [this.location]);
+      for (const {id, index, value, keys} of model) {
+        await this.db.run('INSERT INTO items (location, id, value, keys, idx, schemaVersion) VALUES (?, ?, ?, ?, ?, ?)',
+            [this.location, id, JSON.stringify(value), JSON.stringify(keys), index, this.schemaVersion]);
+        await this.persistIndexEntries(id, value, index);
+      }
+      await this.persistVersion();
+    });
+  }
+
+  async clearItemsForTesting(): Promise<void> {
+    await this.transaction(async () => {
+      await this.db.run('DELETE FROM items WHERE location = ?', [this.location]);
+      await this.db.run('DELETE FROM indexEntries WHERE location = ?', [this.location]);
+    });
+  }
+
+  /**
+   * Replaces the index entries for an item. Must be called from within a transaction.
+   */
+  private async persistIndexEntries(id: string, value: {}, idx: number, fields = this.indexedFields): Promise<void> {
+    for (const field of fields) {
+      await this.db.run('DELETE FROM indexEntries WHERE location = ? AND field = ? AND id = ?', [this.location, field, id]);
+      const key = sqlValue(indexKey(value, field));
+      if (key !== null) {
+        await this.db.run('INSERT INTO indexEntries (location, field, id, indexKey, idx) VALUES (?, ?, ?, ?, ?)',
+            [this.location, field, id, key, idx]);
+      }
+    }
+  }
+}
@@ -0,0 +1,222 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../../platform/assert-web.js';
+import {Tracing} from '../../../../tracelib/trace.js';
+import {CrdtCollectionModel} from '../crdt-collection-model.js';
+import {Query, executeQuery} from '../query.js';
+import {CollectionStorageProvider} from '../storage-provider-base.js';
+import {SqliteStorageProvider} from './sqlite-storage-provider.js';
+import {SqliteStorage} from './sqlite-storage.js';
+import {ItemRow, StoreRow} from './sqlite-database.js';
+import {Type} from '../../type.js';
+
+/**
+ * The SQLite-based implementation of a Collection. Membership is tracked in a
+ * CrdtCollectionModel which is written through to one `items` row per entry.
+ */
+export class SqliteCollection extends SqliteStorageProvider implements CollectionStorageProvider {
+  private _model: CrdtCollectionModel = new CrdtCollectionModel();
+
+  constructor(type: Type, storageEngine: SqliteStorage, name: string, id: string, key: string) {
+    super(type, storageEngine, name, id, key);
+  }
+
+  /** @inheritDoc */
+  backingType() {
+    return this.type.primitiveType();
+  }
+
+  async load(row: StoreRow): Promise<void> {
+    this.version = row.version;
+    const items = await this.db.all<ItemRow>(
+        'SELECT id, value, keys, schemaVersion FROM items WHERE location = ? ORDER BY rowid', [this.location]);
+    this._model = new CrdtCollectionModel(items.map(({id, value, keys, schemaVersion}) =>
+        ({id, value: this.migrateValue(JSON.parse(value), schemaVersion), keys: JSON.parse(keys)})));
+    if (this.referenceMode && items.length > 0) {
+      this.persistedBackingStoreKey = this._model.toLiteral()[0].value.storageKey;
+    }
+  }
+
+  async cloneFrom(handle): Promise<void> {
+    this.referenceMode = handle.referenceMode;
+    const literal = await handle.toLiteral();
+    if (this.referenceMode && literal.model.length > 0) {
+      await Promise.all([this.ensureBackingStore(), handle.ensureBackingStore()]);
+      literal.model = literal.model.map(({id, value}) => ({id, value: {id: value.id, storageKey: this.backingStore.storageKey}}));
+      const underlying = await handle.backingStore.getMultiple(literal.model.map(({id}) => id));
+      await this.backingStore.storeMultiple(underlying, [this.storageKey]);
+    }
+    await this.fromLiteral(literal);
+  }
+
+  async modelForSynchronization() {
+    const model = await this._toList();
+    return {version: this.version, model};
+  }
+
+  // Returns {version, model: [{id, value, keys: []}]}
+  toLiteral() {
+    return {version: this.version, model: this._model.toLiteral()};
+  }
+
+  async fromLiteral({version, model}): Promise<void> {
+    this.version = version;
+    this._model = new CrdtCollectionModel(model);
+    await this.transaction(async () => {
+      await this.db.run('DELETE FROM items WHERE location = ?', [this.location]);
+      await this.persistItems(this._model.toLiteral().map(({id}) => id));
+    });
+  }
+
+  async _toList() {
+    if (this.referenceMode) {
+      const items = this.toLiteral().model;
+      if (items.length === 0) {
+        return [];
+      }
+      const refSet = new Set();
+      items.forEach(item => refSet.add(item.value.storageKey));
+      assert(refSet.size === 1, `multiple storageKeys in reference set of collection not yet supported.`);
+
+      await this.ensureBackingStore();
+
+      const ids = items.map(item => item.value.id);
+      const results = await this.backingStore.getMultiple(ids);
+      const output = [];
+      for (let i = 0; i < results.length; i++) {
+        output.push({id: ids[i], value: results[i], keys: items[i].keys});
+      }
+      return output;
+    }
+    return this.toLiteral().model;
+  }
+
+  async toList() {
+    return (await this._toList()).map(item => item.value);
+  }
+
+  /** Returns the entities matching query. */
+  async query(query: Query) {
+    return executeQuery(await this.toList(), query);
+  }
+
+  async getMultiple(ids: string[]) {
+    assert(!this.referenceMode, 'getMultiple not implemented for referenceMode stores');
+    return ids.map(id => this._model.getValue(id));
+  }
+
+  async storeMultiple(values, keys: string[], originatorId=null) {
+    assert(!this.referenceMode, 'storeMultiple not implemented for referenceMode stores');
+    values.map(value => this._model.add(value.id, value, keys));
+    this.version++;
+    await this.transaction(() => this.persistItems(values.map(value => value.id)));
+  }
+
+  async get(id: string) {
+    if (this.referenceMode) {
+      const ref = this._model.getValue(id);
+      if (ref == null) {
+        return null;
+      }
+      await this.ensureBackingStore();
+      return await this.backingStore.get(ref.id as string);
+    }
+    return this._model.getValue(id);
+  }
+
+  traceInfo() {
+    return {items: this._model.size};
+  }
+
+  async store(value, keys: string[], originatorId=null) {
+    assert(keys != null && keys.length > 0, 'keys required');
+    const trace = Tracing.start({cat: 'handle', name: 'SqliteCollection::store', args: {name: this.name}});
+
+    const changeEvent = {value, keys, effective: undefined};
+    if (this.referenceMode) {
+      const storageKey = this.backingStoreKey();
+
+      // It's important to store locally first, as the upstream consumers
+      // are set up to assume all writes are processed (at least locally) synchronously.
+      changeEvent.effective = this._model.add(value.id, {id: value.id, storageKey}, keys);
+      await this.ensureBackingStore();
+      await this.backingStore.store(value, keys, originatorId);
+    } else {
+      changeEvent.effective = this._model.add(value.id, value, keys);
+    }
+
+    this.version++;
+    await this.transaction(() => this.persistItems([value.id]));
+
+    await trace.wait(
+        this._fire('change', {add: [changeEvent], version: this.version, originatorId}));
+    trace.end({args: {value}});
+  }
+
+  async removeMultiple(items, originatorId=null) {
+    if (items.length === 0) {
+      items = this._model.toList().map(item => ({id: item.id, keys: []}));
+    }
+    items.forEach(item => {
+      if (item.keys.length === 0) {
+        item.keys = this._model.getKeys(item.id);
+      }
+      item.value = this._model.getValue(item.id);
+      if (item.value !== null) {
+        item.effective = this._model.remove(item.id, item.keys);
+      }
+    });
+    this.version++;
+    await this.transaction(() => this.persistItems(items.map(item => item.id)));
+
+    await this._fire('change', {remove: items, version: this.version, originatorId});
+  }
+
+  async remove(id: string, keys: string[] = [], originatorId=null) {
+    const trace = Tracing.start({cat: 'handle', name: 'SqliteCollection::remove', args: {name: this.name}});
+    if (keys.length === 0) {
+      keys = this._model.getKeys(id);
+    }
+    const value = this._model.getValue(id);
+    if (value !== null) {
+      const effective = this._model.remove(id, keys);
+      this.version++;
+      await this.transaction(() => this.persistItems([id]));
+      await trace.wait(
+          this._fire('change', {remove: [{value, keys, effective}], version: this.version, originatorId}));
+    }
+    trace.end({args: {entity: value}});
+  }
+
+  async clearItemsForTesting(): Promise<void> {
+    this._model = new CrdtCollectionModel();
+    await this.transaction(async () => {
+      await this.db.run('DELETE FROM items WHERE location = ?', [this.location]);
+    });
+  }
+
+  /**
+   * Writes the current model state of each id, and the current version.
+   * Must be called from within a transaction.
+   */
+  private async persistItems(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      if (this._model.has(id)) {
+        // Upsert rather than replace, so that rowid (and hence load order) is preserved.
+        await this.db.run(`INSERT INTO items (location, id, value, keys, schemaVersion) VALUES (?, ?, ?, ?, ?)
+                           ON CONFLICT (location, id) DO UPDATE SET value = excluded.value, keys = excluded.keys,
+                                                                    schemaVersion = excluded.schemaVersion`,
+            [this.location, id, JSON.stringify(this._model.getValue(id)), JSON.stringify(this._model.getKeys(id)), this.schemaVersion]);
+      } else {
+        await this.db.run('DELETE FROM items WHERE location = ? AND id = ?', [this.location, id]);
+      }
+    }
+    await this.persistVersion();
+  }
+}
@@ -0,0 +1,165 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {sqlite3} from '../../../../platform/sqlite-web.js';
+
+/**
+ * Row of the `stores` table. There is one row per storage location; variables
+ * keep their value inline, collections keep their entries in `items`.
+ * `schemaVersion` is the entity schema version the inline value was written under.
+ */
+export interface StoreRow {
+  location: string;
+  type: string;
+  referenceMode: number;
+  version: number;
+  value: string|null;
+  schemaVersion: number|null;
+}
+
+/**
+ * Row of the `items` table. `idx` is only used by BigCollections, where it records
+ * the version at which the item was last written. `schemaVersion` is the entity
+ * schema version the value was written under.
+ */
+export interface ItemRow {
+  location: string;
+  id: string;
+  value: string;
+  keys: string;
+  idx: number|null;
+  schemaVersion: number|null;
+}
+
+/**
+ * Row of the `indexEntries` table. BigCollections keep one row per item for
+ * each indexed field that the item has a value for.
+ */
+export interface IndexEntryRow {
+  location: string;
+  field: string;
+  id: string;
+  indexKey: string|number;
+  idx: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS stores (
+    location TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    referenceMode INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    value TEXT,
+    schemaVersion INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS items (
+    location TEXT NOT NULL,
+    id TEXT NOT NULL,
+    value TEXT NOT NULL,
+    keys TEXT NOT NULL,
+    idx INTEGER,
+    schemaVersion INTEGER,
+    PRIMARY KEY (location, id)
+  );
+  CREATE INDEX IF NOT EXISTS items_by_idx ON items (location, idx);
+  CREATE TABLE IF NOT EXISTS indexEntries (
+    location TEXT NOT NULL,
+    field TEXT NOT NULL,
+    id TEXT NOT NULL,
+    indexKey NOT NULL,
+    idx INTEGER NOT NULL,
+    PRIMARY KEY (location, field, id)
+  );
+  CREATE INDEX IF NOT EXISTS index_entries_by_key ON indexEntries (location, field, indexKey, idx);
+`;
+
+/**
+ * Wraps a sqlite3 database with a promise based API.
+ *
+ * sqlite3 runs statements on a single connection, so interleaved transactions
+ * would see (and commit) each other's writes. All writes therefore go through
+ * transaction(), which queues transactions so that only one is open at a time.
+ */
+export class SqliteDatabase {
+  // tslint:disable-next-line: no-any
+  private db: any;
+  private pending: Promise<void> = Promise.resolve();
+  readonly ready: Promise<void>;
+
+  constructor(readonly filename: string) {
+    if (!sqlite3) {
+      throw new Error('sqlite storage is not supported on this platform');
+    }
+    this.ready = new Promise((resolve, reject) => {
+      this.db = new sqlite3.Database(filename, err => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        this.db.exec(SCHEMA, err => err ? reject(err) : resolve());
+      });
+    });
+  }
+
+  async run(sql: string, params: {}[] = []): Promise<number> {
+    await this.ready;
+    return new Promise<number>((resolve, reject) => {
+      // sqlite3 reports the number of affected rows on the statement object,
+      // which is bound to `this` and so can't be read from an arrow function.
+      this.db.run(sql, params, function onRun(err) {
+        err ? reject(err) : resolve(this.changes);
+      });
+    });
+  }
+
+  async get<T>(sql: string, params: {}[] = []): Promise<T|undefined> {
+    await this.ready;
+    return new Promise<T>((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => err ? reject(err) : resolve(row));
+    });
+  }
+
+  async all<T>(sql: string, params: {}[] = []): Promise<T[]> {
+    await this.ready;
+    return new Promise<T[]>((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => err ? reject(err) : resolve(rows));
+    });
+  }
+
+  /**
+   * Runs body inside a transaction, after any previously queued transactions
+   * have completed. The transaction is rolled back if body throws.
+   */
+  async transaction<T>(body: () => Promise<T>): Promise<T> {
+    const previous = this.pending;
+    let release: () => void;
+    this.pending = new Promise(resolve => release = resolve);
+    await previous;
+    try {
+      await this.run('BEGIN');
+      try {
+        const result = await body();
+        await this.run('COMMIT');
+        return result;
+      } catch (e) {
+        await this.run('ROLLBACK');
+        throw e;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+    await this.ready;
+    return new Promise<void>((resolve, reject) => {
+      this.db.close(err => err ? reject(err) : resolve());
+    });
+  }
+}
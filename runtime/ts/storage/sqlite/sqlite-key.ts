@@ -0,0 +1,81 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../../platform/assert-web.js';
+import {KeyBase} from '../key-base.js';
+
+/**
+ * Keys for SQLite entities. A sqlite key looks like a file url of the following form:
+ *
+ *    sqlite://{dbpath}/{location}
+ *
+ * The scheme is sqlite, followed by the database path which can be:
+ *
+ * - memory (stores in an in-memory database, shared within this process)
+ * - a path to a database file; the path ends at the first segment with a `.db` suffix
+ *
+ * The remainder of the key is the location of the store inside the database.
+ *
+ * Some sample keys
+ *
+ * - sqlite://memory/nice/long-storage-key
+ * - sqlite://data/arcs.db/storagekey123
+ * - sqlite:///var/lib/arcs/user.db/arcs/123/handles/456
+ */
+export class SqliteKey extends KeyBase {
+  readonly dbPath: string;
+  location: string;
+
+  constructor(key: string) {
+    super();
+
+    if (!key.startsWith('sqlite://')) {
+      throw new Error(`can't construct sqlite key for input key ${key}`);
+    }
+
+    const parts = key.replace(/^sqlite:\/\//, '').split('/');
+    this.protocol = 'sqlite';
+
+    let dbPathLength = 1;
+    if (parts[0] !== 'memory') {
+      dbPathLength = parts.findIndex(part => part.endsWith('.db')) + 1;
+      if (dbPathLength === 0) {
+        throw new Error(`sqlite keys must start with 'memory' or a path ending in '.db' (input key ${key})`);
+      }
+    }
+    this.dbPath = parts.slice(0, dbPathLength).join('/');
+    this.location = parts.slice(dbPathLength).join('/');
+  }
+
+  /**
+   * Creates a new child SqliteKey relative to the current key, based on the value of id.
+   */
+  childKeyForHandle(id: string): SqliteKey {
+    assert(id && id.length > 0, 'invalid id');
+
+    let location = '';
+    if (this.location != undefined && this.location.length > 0) {
+      location = this.location + '/';
+    }
+    location += `handles/${id}`;
+
+    const newKey = new SqliteKey(this.toString());
+    newKey.location = location;
+
+    return newKey;
+  }
+
+  toString(): string {
+    return `sqlite://${this.dbPath}/${this.location}`;
+  }
+
+  /** True if this key refers to the process-wide in-memory database. */
+  get isMemory(): boolean {
+    return this.dbPath === 'memory';
+  }
+}
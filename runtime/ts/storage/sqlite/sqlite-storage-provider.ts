@@ -0,0 +1,112 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {StorageProviderBase} from '../storage-provider-base.js';
+import {Type} from '../../type.js';
+import {SqliteCollection} from './sqlite-collection.js';
+import {SqliteStorage} from './sqlite-storage.js';
+import {SqliteKey} from './sqlite-key.js';
+import {SqliteDatabase, StoreRow} from './sqlite-database.js';
+
+/**
+ * Base class for SQLite related Storage classes
+ * (SqliteVariable/SqliteCollection/SqliteBigCollection)
+ */
+export abstract class SqliteStorageProvider extends StorageProviderBase {
+  /** The Storage Engine instance we were initialized with */
+  protected storageEngine: SqliteStorage;
+
+  // Manages backing store
+  backingStore: SqliteCollection | null = null;
+  private pendingBackingStore: Promise<SqliteCollection> | null = null;
+  // The backing store location referred to by persisted references, if any.
+  // Backing stores are keyed by type, which changes when the entity schema is
+  // upgraded, so existing stores keep using the location they were written to.
+  protected persistedBackingStoreKey: string | null = null;
+  // Set while SqliteStorage.atomically runs writes to this provider inside
+  // its own transaction.
+  enlisted = false;
+
+  /** The SqliteKey for this provider */
+  protected readonly sqliteKey: SqliteKey;
+
+  protected constructor(type: Type, storageEngine: SqliteStorage, name: string, id: string, key: string) {
+    super(type, name, id, key);
+    this.storageEngine = storageEngine;
+    this.sqliteKey = new SqliteKey(key);
+  }
+
+  // A consequence of awaiting this function is that this.backingStore
+  // is guaranteed to exist once the await completes. This is because
+  // if backingStore doesn't yet exist, the assignment in the then()
+  // is guaranteed to execute before anything awaiting this function.
+  async ensureBackingStore(): Promise<SqliteCollection> {
+    if (this.backingStore) {
+      return this.backingStore;
+    }
+    if (!this.pendingBackingStore) {
+      this.pendingBackingStore = this.storageEngine.baseStorageFor(this.backingType(), this.backingStoreKey());
+      this.pendingBackingStore.then(backingStore => (this.backingStore = backingStore));
+    }
+    return this.pendingBackingStore;
+  }
+
+  /**
+   * The storage key of the backing store used in referenceMode.
+   */
+  protected backingStoreKey(): string {
+    return this.persistedBackingStoreKey || this.storageEngine.baseStorageKey(this.backingType(), this.storageKey);
+  }
+
+  /**
+   * The underlying type for the data.
+   */
+  abstract backingType(): Type;
+
+  /**
+   * Populates this provider from the persisted row for its location.
+   */
+  abstract load(row: StoreRow): Promise<void>;
+
+  /**
+   * Repopulates this provider from its persisted row, discarding any
+   * in-memory changes that weren't persisted.
+   */
+  async reload(): Promise<void> {
+    await this.load(await this.db.get<StoreRow>('SELECT * FROM stores WHERE location = ?', [this.location]));
+  }
+
+  /**
+   * The database holding this provider's data.
+   */
+  protected get db(): SqliteDatabase {
+    return this.storageEngine.dbForKey(this.sqliteKey);
+  }
+
+  /**
+   * Runs body inside a transaction on this provider's database, or directly
+   * if the provider is enlisted in one already.
+   */
+  protected async transaction<T>(body: () => Promise<T>): Promise<T> {
+    return this.enlisted ? body() : this.db.transaction(body);
+  }
+
+  /**
+   * The location of this provider within its database.
+   */
+  protected get location(): string {
+    return this.sqliteKey.location;
+  }
+
+  /**
+   * Persists the current version. Must be called from within a transaction.
+   */
+  protected async persistVersion(): Promise<void> {
+    await this.db.run('UPDATE stores SET version = ? WHERE location = ?', [this.version, this.location]);
+  }
+}
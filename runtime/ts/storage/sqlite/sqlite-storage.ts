@@ -0,0 +1,217 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../../platform/assert-web.js';
+import {StorageBase, StorageProviderBase} from '../storage-provider-base.js';
+import {Id} from '../../id.js';
+import {Type} from '../../type.js';
+import {SqliteKey} from './sqlite-key.js';
+import {SqliteDatabase, StoreRow} from './sqlite-database.js';
+import {SqliteStorageProvider} from './sqlite-storage-provider.js';
+import {SqliteVariable} from './sqlite-variable.js';
+import {SqliteCollection} from './sqlite-collection.js';
+import {SqliteBigCollection} from './sqlite-big-collection.js';
+
+/**
+ * A durable storage engine for Node hosts, backed by SQLite database files.
+ *
+ * Providers are shared per database: constructing or connecting to a location
+ * that is already open in this process returns the existing provider, so all
+ * readers and writers observe the same model and the same change events.
+ */
+export class SqliteStorage extends StorageBase {
+  // Used for reference mode, keyed by backing store key.
+  private readonly baseStores: Map<string, SqliteCollection> = new Map();
+  private readonly baseStorePromises: Map<string, Promise<SqliteCollection>> = new Map();
+
+  /** Global map of database paths to open databases. */
+  private static dbPathToInstance: Map<string, SqliteDatabase> = new Map();
+
+  /** Global map of database paths to the providers opened on that database, by location. */
+  private static providersByDbPath: Map<string, Map<string, Promise<SqliteStorageProvider>>> = new Map();
+
+  constructor(arcId: Id) {
+    super(arcId);
+  }
+
+  /**
+   * Instantiates a new store for id/type at keyFragment. Returns null if a store
+   * already exists at that location.
+   */
+  async construct(id: string, type: Type, keyFragment: string): Promise<SqliteStorageProvider> {
+    let referenceMode = !type.isReference && !type.isBigCollection;
+    if (type.isTypeContainer() && type.getContainedType().isReference) {
+      referenceMode = false;
+    }
+    return this._construct(id, type, keyFragment, referenceMode);
+  }
+
+  async _construct(id: string, type: Type, keyFragment: string, referenceMode: boolean) {
+    let key = new SqliteKey(keyFragment);
+    if (!key.location) {
+      key = key.childKeyForHandle(id);
+    }
+    const db = this.dbForKey(key);
+    const created = await db.transaction(() => db.run(
+        'INSERT OR IGNORE INTO stores (location, type, referenceMode, version) VALUES (?, ?, ?, 0)',
+        [key.location, JSON.stringify(type.toLiteral()), referenceMode ? 1 : 0]));
+    if (created === 0) {
+      return null;
+    }
+    const provider = this.newProvider(type, undefined, id, key.toString());
+    if (referenceMode) {
+      provider.enableReferenceMode();
+    }
+    this.providersForKey(key).set(key.location, Promise.resolve(provider));
+    return provider;
+  }
+
+  /**
+   * Connect with an existing storage key. Returns the open provider for that
+   * location if there is one, and null if no such store exists.
+   */
+  async connect(id: string, type: Type, key: string): Promise<SqliteStorageProvider> {
+    const sqliteKey = new SqliteKey(key);
+    const providers = this.providersForKey(sqliteKey);
+    if (!providers.has(sqliteKey.location)) {
+      const pending = this._connect(id, type, sqliteKey);
+      providers.set(sqliteKey.location, pending);
+      if (!await pending) {
+        providers.delete(sqliteKey.location);
+      }
+    }
+    return providers.get(sqliteKey.location) || null;
+  }
+
+  private async _connect(id: string, type: Type, key: SqliteKey): Promise<SqliteStorageProvider> {
+    const row = await this.dbForKey(key).get<StoreRow>(
+        'SELECT * FROM stores WHERE location = ?', [key.location]);
+    if (!row) {
+      return null;
+    }
+    const provider = this.newProvider(type, undefined, id, key.toString());
+    if (row.referenceMode) {
+      provider.enableReferenceMode();
+    }
+    await provider.load(row);
+    return provider;
+  }
+
+  /** Unit tests should call this in an 'after' block. */
+  async shutdown(): Promise<void> {
+    const dbs = [...SqliteStorage.dbPathToInstance.values()];
+    SqliteStorage.dbPathToInstance.clear();
+    SqliteStorage.providersByDbPath.clear();
+    await Promise.all(dbs.map(db => db.close()));
+  }
+
+  /**
+   * Runs body in a single transaction on the database holding the stores,
+   * which must all be in the same database. If body rejects, the stores'
+   * in-memory models are reloaded from the rolled back database.
+   */
+  async atomically(stores: StorageProviderBase[], body: () => Promise<void>): Promise<void> {
+    const providers = stores as SqliteStorageProvider[];
+    const dbs = new Set(providers.map(provider => this.dbForKey(new SqliteKey(provider.storageKey))));
+    if (dbs.size > 1) {
+      throw new Error('the stores written by a transaction must all be in the same sqlite database');
+    }
+    const [db] = [...dbs];
+    try {
+      await db.transaction(async () => {
+        providers.forEach(provider => provider.enlisted = true);
+        try {
+          await body();
+        } finally {
+          providers.forEach(provider => provider.enlisted = false);
+        }
+      });
+    } catch (e) {
+      for (const provider of providers) {
+        await provider.reload();
+      }
+      throw e;
+    }
+  }
+
+  /** @inheritDoc */
+  baseStorageKey(type: Type, keyString: string): string {
+    const key = new SqliteKey(keyString);
+    key.location = `backingStores/${type.toString()}`;
+    return key.toString();
+  }
+
+  /** @inheritDoc */
+  async baseStorageFor(type: Type, key: string) {
+    if (this.baseStores.has(key)) {
+      return this.baseStores.get(key);
+    }
+    if (this.baseStorePromises.has(key)) {
+      return this.baseStorePromises.get(key);
+    }
+    const storagePromise = (async () => {
+      const collectionType = type.collectionOf();
+      return (await this._construct(type.toString(), collectionType, key, false) ||
+              await this.connect(type.toString(), collectionType, key)) as SqliteCollection;
+    })();
+    this.baseStorePromises.set(key, storagePromise);
+    const storage = await storagePromise;
+    assert(storage, `could not construct baseStorage for key ${key}`);
+    this.baseStores.set(key, storage);
+    return storage;
+  }
+
+  /** @inheritDoc */
+  parseStringAsKey(s: string): SqliteKey {
+    return new SqliteKey(s);
+  }
+
+  /** Creates a new Variable, Collection or BigCollection given basic parameters */
+  newProvider(type: Type, name, id, key): SqliteStorageProvider {
+    if (type.isCollection) {
+      return new SqliteCollection(type, this, name, id, key);
+    }
+    if (type.isBigCollection) {
+      return new SqliteBigCollection(type, this, name, id, key);
+    }
+    return new SqliteVariable(type, this, name, id, key);
+  }
+
+  /** Removes everything that a test could have created. */
+  static async resetSqliteStorageForTesting() {
+    for (const db of SqliteStorage.dbPathToInstance.values()) {
+      await db.transaction(async () => {
+        await db.run('DELETE FROM items');
+        await db.run('DELETE FROM indexEntries');
+        await db.run('DELETE FROM stores');
+      });
+    }
+    SqliteStorage.providersByDbPath.clear();
+  }
+
+  /**
+   * Returns the database for the dbPath of key, opening it if required.
+   */
+  public dbForKey(key: SqliteKey): SqliteDatabase {
+    let db = SqliteStorage.dbPathToInstance.get(key.dbPath);
+    if (!db) {
+      db = new SqliteDatabase(key.isMemory ? ':memory:' : key.dbPath);
+      SqliteStorage.dbPathToInstance.set(key.dbPath, db);
+    }
+    return db;
+  }
+
+  private providersForKey(key: SqliteKey): Map<string, Promise<SqliteStorageProvider>> {
+    let providers = SqliteStorage.providersByDbPath.get(key.dbPath);
+    if (!providers) {
+      providers = new Map();
+      SqliteStorage.providersByDbPath.set(key.dbPath, providers);
+    }
+    return providers;
+  }
+}
@@ -0,0 +1,142 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../../platform/assert-web.js';
+import {VariableStorageProvider} from '../storage-provider-base.js';
+import {SqliteStorageProvider} from './sqlite-storage-provider.js';
+import {SqliteStorage} from './sqlite-storage.js';
+import {StoreRow} from './sqlite-database.js';
+import {Type} from '../../type.js';
+
+/**
+ * The SQLite-based implementation of a Variable. The value is held in memory
+ * and written through to the `stores` row for this location.
+ */
+export class SqliteVariable extends SqliteStorageProvider implements VariableStorageProvider {
+  private _stored: {id: string}|null = null;
+  // Backing store keys outlive this process, so they must not restart from 0.
+  private localKeyId = Date.now();
+
+  constructor(type: Type, storageEngine: SqliteStorage, name: string, id: string, key: string) {
+    super(type, storageEngine, name, id, key);
+  }
+
+  backingType(): Type {
+    return this.type;
+  }
+
+  async load(row: StoreRow): Promise<void> {
+    this.version = row.version;
+    this._stored = row.value == null ? null : this.migrateValue(JSON.parse(row.value), row.schemaVersion);
+    if (this.referenceMode && this._stored) {
+      this.persistedBackingStoreKey = (this._stored as {id: string, storageKey: string}).storageKey;
+    }
+  }
+
+  async cloneFrom(handle): Promise<void> {
+    this.referenceMode = handle.referenceMode;
+    const literal = await handle.toLiteral();
+    if (this.referenceMode && literal.model.length > 0) {
+      await Promise.all([this.ensureBackingStore(), handle.ensureBackingStore()]);
+      literal.model = literal.model.map(({id, value}) => ({id, value: {id: value.id, storageKey: this.backingStore.storageKey}}));
+      const underlying = await handle.backingStore.getMultiple(literal.model.map(({id}) => id));
+      await this.backingStore.storeMultiple(underlying, [this.storageKey]);
+    }
+    await this.fromLiteral(literal);
+  }
+
+  async modelForSynchronization() {
+    if (this.referenceMode && this._stored !== null) {
+      const value = this._stored;
+
+      await this.ensureBackingStore();
+      const result = await this.backingStore.get(value.id);
+      return {
+        version: this.version,
+        model: [{id: value.id, value: result}]
+      };
+    }
+
+    return super.modelForSynchronization();
+  }
+
+  // Returns {version, model: [{id, value}]}
+  async toLiteral() {
+    const value = this._stored;
+    const model = (value != null) ? [{id: value.id, value}] : [];
+    return {version: this.version, model};
+  }
+
+  async fromLiteral({version, model}): Promise<void> {
+    const value = model.length === 0 ? null : model[0].value;
+    if (this.referenceMode && value && value.rawData) {
+      assert(false, `shouldn't have rawData ${JSON.stringify(value.rawData)} here`);
+    }
+    assert(value !== undefined);
+    this._stored = value;
+    this.version = version;
+    await this.persist();
+  }
+
+  traceInfo() {
+    return {stored: this._stored !== null};
+  }
+
+  async get() {
+    if (this.referenceMode && this._stored) {
+      await this.ensureBackingStore();
+      return await this.backingStore.get(this._stored.id);
+    }
+    return this._stored;
+  }
+
+  async set(value: {id: string}, originatorId=null, barrier=null): Promise<void> {
+    assert(value !== undefined);
+    if (this.referenceMode && value) {
+      // Even if this value is identical to the previously written one,
+      // we can't suppress an event here because we don't actually have
+      // the previous value for comparison (that's down in the backing store).
+      const storageKey = this.backingStoreKey();
+
+      // It's important to store locally first, as the upstream consumers
+      // are set up to assume all writes are processed (at least locally) synchronously.
+      this._stored = {id: value.id, storageKey} as {id: string};
+
+      await this.ensureBackingStore();
+
+      // TODO(shans): mutating the storageKey here to provide unique keys is
+      // a hack that can be removed once entity mutation is distinct from collection
+      // updates. Once entity mutation exists, it shouldn't ever be possible to write
+      // different values with the same id.
+      await this.backingStore.store(value, [this.storageKey + this.localKeyId++], originatorId);
+    } else {
+      // If there's a barrier set, then the originating storage-proxy is expecting
+      // a result so we cannot suppress the event here.
+      if (JSON.stringify(this._stored) === JSON.stringify(value) && barrier == null) {
+        return;
+      }
+      this._stored = value;
+    }
+    this.version++;
+    await this.persist();
+
+    const data = this.referenceMode ? value : this._stored;
+    await this._fire('change', {data, version: this.version, originatorId, barrier});
+  }
+
+  async clear(originatorId=null, barrier=null): Promise<void> {
+    await this.set(null, originatorId, barrier);
+  }
+
+  private async persist(): Promise<void> {
+    await this.transaction(async () => {
+      await this.db.run('UPDATE stores SET value = ?, version = ?, schemaVersion = ? WHERE location = ?',
+          [this._stored == null ? null : JSON.stringify(this._stored), this.version, this.schemaVersion, this.location]);
+    });
+  }
+}
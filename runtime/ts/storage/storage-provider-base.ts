@@ -7,31 +7,65 @@
 // http://polymer.github.io/PATENTS.txt
 
 import {assert} from '../../../platform/assert-web.js';
+import {now} from '../../../platform/date-web.js';
 import {Tracing} from '../../../tracelib/trace.js';
 import {Type} from '../type';
 import {Id} from '../id.js';
 import {KeyBase} from './key-base.js';
+import {ConflictPolicy} from './crdt-register-model.js';
+import {SyncStatus, syncedStatus} from './write-queue.js';
+import {formatDuration} from '../util.js';
 
 import {compareStrings, compareNumbers} from '../recipe/util.js';
 
 enum EventKind {
-  change = 'Change'
+  change = 'Change',
+  syncStatus = 'SyncStatus'
 }
 type Callback = ({}) => void;
 
+// tslint:disable-next-line: no-any
+export type ChangeEvent = {[key: string]: any};
+
+// The version that a change follows on from. Changes coalesced by a batch
+// may span several versions.
+function baseVersionOf(change: ChangeEvent): number {
+  return change.baseVersion !== undefined ? change.baseVersion : change.version - 1;
+}
+
+/**
+ * A storage engine, which provides the stores for the storage keys of one
+ * protocol. Engines are registered with StorageProviderFactory.register.
+ */
 export abstract class StorageBase {
   protected constructor(protected readonly arcId: Id) {
     assert(arcId !== undefined, 'Arcs with storage must have ids');
   }
 
+  // Prepares the engine, such as by opening connections, before any stores are
+  // constructed or connected to.
+  async init(): Promise<void> {}
+
   abstract construct(id: string, type: Type, keyFragment: string) : Promise<StorageProviderBase>;
   abstract connect(id: string, type: Type, key: string) : Promise<StorageProviderBase>;
   abstract baseStorageKey(type: Type, key: string) : string;
   abstract baseStorageFor(type: Type, key: string) : Promise<StorageProviderBase>;
   abstract parseStringAsKey(s: string) : KeyBase;
 
-  // Provides graceful shutdown for tests.
-  shutdown() {}
+  /**
+   * Runs `body`, which writes to `stores` (all provided by this engine), so
+   * that either all of its writes are kept or, if it rejects, none are: the
+   * stores are left as they were before it ran. Used by StorageTransaction.
+   * Engines that can't do this, such as those whose stores are documents in
+   * a remote database, reject.
+   */
+  async atomically(stores: StorageProviderBase[], body: () => Promise<void>): Promise<void> {
+    throw new Error('transactions are not supported by this storage engine');
+  }
+
+  // Releases the engine's resources, such as connections. Also provides graceful
+  // shutdown for tests.
+  async shutdown(): Promise<void> {}
 }
 
 /**
@@ -41,6 +75,19 @@ export abstract class StorageProviderBase {
   private listeners: Map<EventKind, Map<Callback, {target: {}}>>;
   private nextLocalID: number;
   private readonly _type: Type;
+  // Set while a StorageTransaction is applying operations to this store.
+  private batch: {token: string, version: number, changes: ChangeEvent[]}|null = null;
+  // Resolves when the last holder of this store's write lock releases it.
+  private writeLock: Promise<void> = Promise.resolve();
+  // The number of writers holding or waiting for the write lock.
+  private lockHolders = 0;
+  // The most recent change events, oldest first, for changesSince().
+  private changeLog: ChangeEvent[] = [];
+  // When each entity in the store was last written, by id.
+  private readonly writeTimes: Map<string, number> = new Map();
+
+  /** How many change events are kept for changesSince(). */
+  protected changeLogSize = 100;
 
   protected readonly _storageKey: string;
   referenceMode = false;
@@ -51,6 +98,8 @@ export abstract class StorageProviderBase {
   name: string;
   source: string|null;
   description: string;
+  /** The ttl declared for this store in a manifest, overriding its schema's. */
+  expiresAfter: number|null = null;
 
   protected constructor(type: Type, name, id, key) {
     assert(id, 'id must be provided when constructing StorageProviders');
@@ -87,6 +136,74 @@ export abstract class StorageProviderBase {
     return this._type;
   }
 
+  /**
+   * The version of the entity schema that values written by this store
+   * conform to. Persistent stores record this alongside the values they
+   * write, so that older values can be migrated when they are read back.
+   */
+  get schemaVersion(): number {
+    const schema = this.type.getEntitySchema();
+    return schema ? schema.version : 1;
+  }
+
+  /**
+   * The entity fields indexed by this store's schema. BigCollection stores
+   * maintain an index on each, so that they can be streamed by that field.
+   */
+  get indexedFields(): string[] {
+    const schema = this.type.getEntitySchema();
+    return schema ? schema.indexes : [];
+  }
+
+  /**
+   * How concurrent writes to this store are resolved, if it's a Variable
+   * whose engine keeps a CRDT register.
+   */
+  get conflictPolicy(): ConflictPolicy {
+    const schema = this.type.getEntitySchema();
+    return schema ? schema.conflicts : 'last-writer-wins';
+  }
+
+  /**
+   * How long, in milliseconds, entities are kept in this store after they
+   * were last written, or null if they're kept until removed.
+   */
+  get ttl(): number|null {
+    if (this.expiresAfter !== null) {
+      return this.expiresAfter;
+    }
+    const schema = this.type.getEntitySchema();
+    return schema ? schema.ttl : null;
+  }
+
+  /** When the entity `id` was last written to this store by this runtime, if it has been. */
+  lastWritten(id: string): number|undefined {
+    return this.writeTimes.get(id);
+  }
+
+  /**
+   * Whether this store's writes have reached the remote store that it's
+   * synced with. Stores without a remote are always synced; those with one
+   * fire 'syncStatus' events as this changes.
+   */
+  get syncStatus(): SyncStatus {
+    return syncedStatus;
+  }
+
+  /**
+   * Upgrades a value read from storage that was written under an earlier
+   * version of this store's entity schema. References (including the
+   * contents of referenceMode stores) are returned unchanged.
+   */
+  // tslint:disable-next-line: no-any
+  protected migrateValue(value: any, fromVersion: number|null|undefined) {
+    const schema = this.type.getEntitySchema();
+    if (!schema || this.referenceMode || !value || !value.rawData || (fromVersion || 1) >= schema.version) {
+      return value;
+    }
+    return {...value, rawData: schema.migrate(value.rawData, fromVersion || 1)};
+  }
+
   // TODO: add 'once' which returns a promise.
   on(kindStr: string, callback: Callback, target): void {
     assert(target !== undefined, 'must provide a target to register a storage event handler');
@@ -105,14 +222,63 @@ export abstract class StorageProviderBase {
     }
   }
 
+  /**
+   * Returns the change events that took this store from `version` to its
+   * current version, in order, or null if they're no longer all in the
+   * change log. The log only keeps the last changeLogSize changes, and
+   * misses changes that some engines make without firing events (such as
+   * remote updates to PouchDB collections); callers that get null must
+   * resynchronize with modelForSynchronization().
+   */
+  changesSince(version: number): ChangeEvent[]|null {
+    if (version === this.version) {
+      return [];
+    }
+    const start = this.changeLog.findIndex(change => baseVersionOf(change) === version);
+    if (start < 0) {
+      return null;
+    }
+    const changes = this.changeLog.slice(start);
+    const contiguous = changes.every((change, i) => i === 0 || baseVersionOf(change) === changes[i - 1].version);
+    return contiguous && changes[changes.length - 1].version === this.version ? changes : null;
+  }
+
+  /**
+   * Resumes a feed of this store's changes from `version`: calls `callback`
+   * with each change since then that's still in the change log, and then
+   * with each change as it's made. Returns false, without subscribing, if
+   * the change log no longer reaches back to `version`. Unsubscribe with
+   * off('change', callback).
+   */
+  subscribe(version: number, callback: Callback, target: {}): boolean {
+    const changes = this.changesSince(version);
+    if (changes === null) {
+      return false;
+    }
+    changes.forEach(change => callback(change));
+    this.on('change', callback, target);
+    return true;
+  }
+
   // TODO: rename to _fireAsync so it's clear that callers are not re-entrant.
   /**
    * Propagate updates to change listeners.
    *
-   * @param kindStr the type of event, only 'change' is supported.
+   * @param kindStr the type of event, 'change' or 'syncStatus'.
    * @param details details about the change
    */
-  protected async _fire(kindStr: 'change', details: {}) {
+  protected async _fire(kindStr: 'change' | 'syncStatus', details: {}) {
+    if (this.batch && kindStr === 'change' && details['originatorId'] === this.batch.token) {
+      this.batch.changes.push(details);
+      return;
+    }
+    if (kindStr === 'change') {
+      this.recordWriteTimes(details);
+    }
+    if (kindStr === 'change' && typeof details['version'] === 'number') {
+      this.changeLog.push(details);
+      this.changeLog.splice(0, this.changeLog.length - this.changeLogSize);
+    }
     const kind: EventKind = EventKind[kindStr];
 
     const listenerMap = this.listeners.get(kind);
@@ -135,6 +301,106 @@ export abstract class StorageProviderBase {
     trace.end();
   }
 
+  private recordWriteTimes(change: ChangeEvent) {
+    const at = now();
+    // Removed values may already be gone from the store, leaving only their ids.
+    const idOf = item => item.value ? item.value.id : item.id;
+    (change.remove || []).forEach(item => this.writeTimes.delete(idOf(item)));
+    (change.add || []).forEach(item => this.writeTimes.set(idOf(item), at));
+    if (change.data) {
+      this.writeTimes.set(change.data.id, at);
+    }
+  }
+
+  /**
+   * Waits for earlier holders of this store's write lock to release it, then
+   * takes it. Resolves to a function that releases it. Writers that take the
+   * lock, such as StorageTransaction and the ParticleExecutionHost, aren't
+   * interleaved with each other; use lockStores() to take several locks.
+   */
+  lockWrites(): Promise<() => void> {
+    const previous = this.writeLock;
+    const release = this.enqueueWriter();
+    return previous.then(() => release);
+  }
+
+  /**
+   * Takes this store's write lock immediately if it is free, returning a
+   * function that releases it, or returns null.
+   */
+  tryLockWrites(): (() => void)|null {
+    return this.writeLocked ? null : this.enqueueWriter();
+  }
+
+  // Whether a writer holds or is waiting for this store's write lock.
+  get writeLocked(): boolean {
+    return this.lockHolders > 0;
+  }
+
+  private enqueueWriter(): () => void {
+    this.lockHolders++;
+    let release: () => void;
+    this.writeLock = new Promise<void>(resolve => release = () => {
+      this.lockHolders--;
+      resolve();
+    });
+    return release;
+  }
+
+  /**
+   * Starts buffering the change events of mutations made with `token` as
+   * their originatorId, so that they can be reported as a single change.
+   * Used by StorageTransaction, which holds the store's write lock meanwhile.
+   */
+  beginBatch(token: string): void {
+    assert(!this.batch, 'batches cannot be nested');
+    this.batch = {token, version: this.version, changes: []};
+  }
+
+  /**
+   * Fires a single change event, attributed to originatorId, covering every
+   * mutation buffered since beginBatch(). The event's baseVersion is the
+   * version the batch started from, so that listeners can tell it follows
+   * on from that version.
+   */
+  async commitBatch(originatorId: string|null): Promise<void> {
+    assert(this.batch, 'no batch in progress');
+    const {version: baseVersion, changes} = this.batch;
+    this.batch = null;
+    if (changes.length === 0) {
+      return;
+    }
+    const last = changes[changes.length - 1];
+    if ('data' in last) {
+      // Variables: the last write wins.
+      await this._fire('change', {...last, version: this.version, baseVersion, originatorId});
+      return;
+    }
+    const add = [];
+    const remove = [];
+    for (const change of changes) {
+      add.push(...(change.add || []));
+      remove.push(...(change.remove || []));
+    }
+    const coalesced: ChangeEvent = {version: this.version, baseVersion, originatorId};
+    if (add.length) {
+      coalesced.add = add;
+    }
+    if (remove.length) {
+      coalesced.remove = remove;
+    }
+    await this._fire('change', coalesced);
+  }
+
+  /**
+   * Discards the buffered change events, once the store's engine has undone
+   * the batch's mutations (see StorageBase.atomically).
+   */
+  abortBatch(): void {
+    assert(this.batch, 'no batch in progress');
+    this.batch = null;
+  }
+
   _compareTo(other) : number {
     let cmp;
     cmp = compareStrings(this.name, other.name);
@@ -169,6 +435,9 @@ export abstract class StorageProviderBase {
     if (this.description) {
       results.push(`  description \`${this.description}\``);
     }
+    if (this.expiresAfter !== null) {
+      results.push(`  expires after ${formatDuration(this.expiresAfter)}`);
+    }
     return results.join('\n');
   }
 
@@ -184,6 +453,8 @@ export abstract class StorageProviderBase {
    */
   abstract toLiteral();
 
+  abstract fromLiteral(literal);
+
   abstract cloneFrom(store: StorageProviderBase);
 
   // TODO(shans): remove this when it's possible to.
@@ -196,4 +467,70 @@ export abstract class StorageProviderBase {
   modelForSynchronization() {
     return this.toLiteral();
   }
+
+  /**
+   * If this is the backing store of referenceMode stores, returns every store
+   * that may refer to its entities, or null if they can't all be known (such
+   * as when other runtimes share it). The garbage collector only removes
+   * unreferenced entities from backing stores whose referrers are known.
+   */
+  referrers(): StorageProviderBase[]|null {
+    return null;
+  }
+}
+
+/** The providers of Collection stores, which every engine implements. */
+export interface CollectionStorageProvider extends StorageProviderBase {
+  store(value: {}, keys: string[], originatorId?: string): Promise<void>;
+  remove(id: string, keys?: string[], originatorId?: string): Promise<void>;
+}
+
+/** The providers of Variable stores, which every engine implements. */
+export interface VariableStorageProvider extends StorageProviderBase {
+  set(value: {}, originatorId?: string, barrier?: string): Promise<void>;
+  clear(originatorId?: string, barrier?: string): Promise<void>;
+}
+
+/**
+ * Returns `stores` along with the backing stores that writes to them also
+ * write to.
+ */
+export async function withBackingStores(stores: StorageProviderBase[]): Promise<StorageProviderBase[]> {
+  const result = [...stores];
+  for (const store of stores) {
+    if (store.referenceMode) {
+      const backingStore = await store.ensureBackingStore();
+      if (!result.includes(backingStore)) {
+        result.push(backingStore);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Takes the write locks of `stores` immediately if they are all free,
+ * returning a function that releases them, or returns null.
+ */
+export function tryLockStores(stores: StorageProviderBase[]): (() => void)|null {
+  const unique = [...new Set(stores)];
+  if (unique.some(store => store.writeLocked)) {
+    return null;
+  }
+  const releases = unique.map(store => store.tryLockWrites());
+  return () => releases.forEach(release => release());
+}
+
+/**
+ * Takes the write locks of `stores`, in order of their storage keys so that
+ * callers locking overlapping stores can't deadlock. Resolves to a function
+ * that releases them all.
+ */
+export async function lockStores(stores: StorageProviderBase[]): Promise<() => void> {
+  const ordered = [...new Set(stores)].sort((a, b) => compareStrings(a.storageKey, b.storageKey));
+  const releases: (() => void)[] = [];
+  for (const store of ordered) {
+    releases.push(await store.lockWrites());
+  }
+  return () => releases.forEach(release => release());
 }
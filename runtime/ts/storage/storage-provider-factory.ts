@@ -11,40 +11,109 @@ import {VolatileStorage} from './volatile-storage.js';
 import {FirebaseStorage} from './firebase-storage.js';
 import {PouchDbStorage} from './pouchdb/pouch-db-storage.js';
 import {SyntheticStorage} from './synthetic-storage.js';
+import {SqliteStorage} from './sqlite/sqlite-storage.js';
+import {StorageTransaction} from './storage-transaction.js';
 import {Id} from '../id.js';
 import {Type} from '../type.js';
 import {KeyBase} from './key-base.js';
 
+/** Per-arc configuration for storage engines, keyed by protocol. */
+export type StorageEngineConfig = {[protocol: string]: {}};
+
+/**
+ * Creates the storage engine for a protocol in an arc. `config` is the arc's
+ * configuration for the protocol (`{}` if it has none), and `factory` resolves
+ * the engines for other protocols that the engine builds on.
+ */
+export type StorageEngineCreator = (arcId: Id, config: {}, factory: StorageProviderFactory) => StorageBase;
+
+const creators = new Map<string, StorageEngineCreator>();
+
+type EngineEntry = {engine: StorageBase, ready: Promise<void>};
+
 export class StorageProviderFactory {
-  _storageInstances: {[index: string]: StorageBase};
-
-  constructor(private readonly arcId: Id) {
-    // TODO: Pass this factory into storage objects instead of linking them directly together.
-    // This needs changes to the StorageBase API to facilitate the FirebaseStorage.open functionality.
-    const volatile = new VolatileStorage(arcId);
-    const firebase = new FirebaseStorage(arcId);
-    const pouchdb = new PouchDbStorage(arcId);
-    const synthetic = new SyntheticStorage(arcId, firebase);
-    this._storageInstances = {volatile, firebase, synthetic, pouchdb};
+  // The engines that have been created so far, by protocol.
+  private readonly engines = new Map<string, EngineEntry>();
+
+  constructor(private readonly arcId: Id, private readonly config: StorageEngineConfig = {}) {}
+
+  /**
+   * Registers the storage engine for storage keys of the form
+   * `<protocol>://...` in all arcs. Each StorageProviderFactory creates its
+   * engine with `create` when a key with the protocol is first used, and then
+   * awaits the engine's `init` before constructing or connecting to stores.
+   *
+   * The keys returned by the engine's `parseStringAsKey` must have `protocol`
+   * as their protocol.
+   */
+  static register(protocol: string, create: StorageEngineCreator): void {
+    if (!/^[a-z][a-z0-9-]*$/.test(protocol)) {
+      throw new Error(`invalid storage protocol '${protocol}'`);
+    }
+    if (creators.has(protocol)) {
+      throw new Error(`a storage engine is already registered for protocol '${protocol}'`);
+    }
+    creators.set(protocol, create);
+  }
+
+  /** Removes a registration. Engines already created for the protocol are unaffected. */
+  static unregister(protocol: string): void {
+    creators.delete(protocol);
+  }
+
+  static get registeredProtocols(): string[] {
+    return [...creators.keys()];
+  }
+
+  /** Returns the engine for a protocol, creating it if this factory hasn't yet. */
+  engineFor(protocol: string): StorageBase {
+    return this.entryFor(protocol).engine;
+  }
+
+  _storageForKey(key: string): StorageBase {
+    return this.engineFor(key.split(':')[0]);
   }
 
-  _storageForKey(key) {
-    const protocol = key.split(':')[0];
-    return this._storageInstances[protocol];
+  private entryFor(protocol: string): EngineEntry {
+    let entry = this.engines.get(protocol);
+    if (!entry) {
+      const create = creators.get(protocol);
+      if (!create) {
+        throw new Error(`no storage engine is registered for protocol '${protocol}'`);
+      }
+      const engine = create(this.arcId, this.config[protocol] || {}, this);
+      const created = entry = {engine, ready: engine.init()};
+      this.engines.set(protocol, entry);
+      // Callers waiting on the engine see the failure; dropping the entry lets
+      // the next use of the protocol try to initialize a new engine.
+      entry.ready.catch(() => {
+        if (this.engines.get(protocol) === created) {
+          this.engines.delete(protocol);
+        }
+      });
+    }
+    return entry;
+  }
+
+  // Returns the engine for a key once it has been initialized.
+  private async readyEngineForKey(key: string): Promise<StorageBase> {
+    const {engine, ready} = this.entryFor(key.split(':')[0]);
+    await ready;
+    return engine;
   }
 
   async construct(id: string, type: Type, keyFragment: string) : Promise<StorageProviderBase> {
     // TODO(shans): don't use reference mode once adapters are implemented
-    return await this._storageForKey(keyFragment).construct(id, type, keyFragment);
+    return await (await this.readyEngineForKey(keyFragment)).construct(id, type, keyFragment);
   }
 
   async connect(id: string, type: Type, key: string) : Promise<StorageProviderBase> {
     // TODO(shans): don't use reference mode once adapters are implemented
-    return await this._storageForKey(key).connect(id, type, key);
+    return await (await this.readyEngineForKey(key)).connect(id, type, key);
   }
 
   async baseStorageFor(type: Type, keyString: string) : Promise<StorageProviderBase> {
-    return await this._storageForKey(keyString).baseStorageFor(type, keyString);
+    return await (await this.readyEngineForKey(keyString)).baseStorageFor(type, keyString);
   }
 
   baseStorageKey(type: Type, keyString: string) : string {
@@ -52,15 +121,41 @@ export class StorageProviderFactory {
   }
 
   parseStringAsKey(s: string) : KeyBase {
-    return this._storageForKey(s).parseStringAsKey(s);
+    const protocol = s.split(':')[0];
+    const key = this.engineFor(protocol).parseStringAsKey(s);
+    if (key.protocol !== protocol) {
+      throw new Error(`the storage engine for protocol '${protocol}' parsed '${s}' as a key with protocol '${key.protocol}'`);
+    }
+    return key;
   }
 
-  newKey(id, associatedKeyFragment) {
+  /**
+   * Returns a transaction that applies writes to stores provided by one of
+   * this factory's engines atomically. Change events are attributed to
+   * originatorId.
+   */
+  transaction(originatorId: string|null = null): StorageTransaction {
+    return new StorageTransaction(this, originatorId);
+  }
 
+  /** Returns the key for a new store with the given id, alongside the key of another store. */
+  newKey(id: string, associatedKeyFragment: string): string {
+    return this.parseStringAsKey(associatedKeyFragment).childKeyForHandle(id).toString();
   }
 
-  // For testing
-  shutdown() {
-    Object.values(this._storageInstances).map(s => s.shutdown());
+  /**
+   * Shuts down the engines created by this factory. Engines are created
+   * afresh if the factory is used again.
+   */
+  async shutdown(): Promise<void> {
+    const engines = [...this.engines.values()].map(({engine}) => engine);
+    this.engines.clear();
+    await Promise.all(engines.map(engine => engine.shutdown()));
   }
 }
+
+StorageProviderFactory.register('volatile', arcId => new VolatileStorage(arcId));
+StorageProviderFactory.register('firebase', arcId => new FirebaseStorage(arcId));
+StorageProviderFactory.register('pouchdb', (arcId, config) => new PouchDbStorage(arcId, config));
+StorageProviderFactory.register('synthetic', (arcId, config, factory) => new SyntheticStorage(arcId, factory.engineFor('firebase')));
+StorageProviderFactory.register('sqlite', arcId => new SqliteStorage(arcId));
@@ -0,0 +1,109 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {assert} from '../../../platform/assert-web.js';
+import {CollectionStorageProvider, StorageProviderBase, VariableStorageProvider, lockStores, withBackingStores} from './storage-provider-base.js';
+import {StorageProviderFactory} from './storage-provider-factory.js';
+
+type Operation = {store: StorageProviderBase, on: 'Variable' | 'Collection', apply: () => Promise<void>};
+
+let nextToken = 0;
+
+/**
+ * Groups set/clear/store/remove operations on one or more stores so that they
+ * are applied together. Operations are staged until commit(), which takes the
+ * write locks of the stores and has their storage engine apply the operations
+ * atomically (see StorageBase.atomically); each store then fires a single
+ * coalesced change event. If any operation fails, none are kept and no events
+ * are fired.
+ *
+ * The stores must be Variables or Collections provided by a single engine
+ * that supports transactions, such as the volatile and sqlite engines.
+ *
+ * Obtain one from StorageProviderFactory.transaction().
+ */
+export class StorageTransaction {
+  private readonly operations: Operation[] = [];
+  private committed = false;
+  // The originatorId the operations are applied with, which lets the stores
+  // tell their change events apart from those of other writers.
+  private readonly token = `transaction:${nextToken++}`;
+
+  constructor(private readonly factory: StorageProviderFactory, readonly originatorId: string|null = null) {}
+
+  set(store: StorageProviderBase, value: {}, barrier: string|null = null): void {
+    this.push<VariableStorageProvider>(store, 'Variable', s => s.set(value, this.token, barrier));
+  }
+
+  clear(store: StorageProviderBase, barrier: string|null = null): void {
+    this.push<VariableStorageProvider>(store, 'Variable', s => s.clear(this.token, barrier));
+  }
+
+  store(store: StorageProviderBase, value: {}, keys: string[]): void {
+    this.push<CollectionStorageProvider>(store, 'Collection', s => s.store(value, keys, this.token));
+  }
+
+  remove(store: StorageProviderBase, id: string, keys: string[] = []): void {
+    this.push<CollectionStorageProvider>(store, 'Collection', s => s.remove(id, keys, this.token));
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Applies the queued operations in order. Rejects, leaving the stores
+   * unchanged, if any operation fails or the stores can't be written in a
+   * transaction.
+   */
+  async commit(): Promise<void> {
+    assert(!this.committed, 'transaction has already been committed');
+    this.committed = true;
+    if (this.operations.length === 0) {
+      return;
+    }
+
+    for (const {store, on} of this.operations) {
+      const kind = store.type.isCollection ? 'Collection' : store.type.isBigCollection ? 'BigCollection' : 'Variable';
+      if (kind !== on) {
+        throw new Error(`cannot apply ${on} operations to ${kind} store '${store.id}' in a transaction`);
+      }
+    }
+    const stores = await withBackingStores([...new Set(this.operations.map(op => op.store))]);
+    const engines = new Set(stores.map(store => this.factory._storageForKey(store.storageKey)));
+    if (engines.size > 1) {
+      throw new Error('the stores written by a transaction must all be provided by the same storage engine');
+    }
+    const [engine] = [...engines];
+
+    const release = await lockStores(stores);
+    try {
+      stores.forEach(store => store.beginBatch(this.token));
+      try {
+        await engine.atomically(stores, async () => {
+          for (const op of this.operations) {
+            await op.apply();
+          }
+        });
+      } catch (e) {
+        stores.forEach(store => store.abortBatch());
+        throw e;
+      }
+      await Promise.all(stores.map(store => store.commitBatch(this.originatorId)));
+    } finally {
+      release();
+    }
+  }
+
+  // Operations are checked against the kind of their store before any is
+  // applied, so `store` is only used as a T once it's known to be one.
+  private push<T extends StorageProviderBase>(store: StorageProviderBase, on: 'Variable' | 'Collection', apply: (store: T) => Promise<void>): void {
+    assert(!this.committed, 'cannot add operations to a committed transaction');
+    this.operations.push({store, on, apply: () => apply(store as T)});
+  }
+}
@@ -155,6 +155,10 @@ class SyntheticCollection extends StorageProviderBase {
     return this.toList();
   }
 
+  fromLiteral() {
+    throw new Error("fromLiteral should never be called on SyntheticCollection!");
+  }
+
   cloneFrom() {
     throw new Error("cloneFrom should never be called on SyntheticCollection!");
   }
@@ -8,9 +8,11 @@
 
 import {assert} from '../../../platform/assert-web.js';
 import {Tracing} from '../../../tracelib/trace.js';
-import {StorageBase, StorageProviderBase} from './storage-provider-base.js';
+import {CollectionStorageProvider, StorageBase, StorageProviderBase, VariableStorageProvider} from './storage-provider-base.js';
 import {KeyBase} from './key-base.js';
 import {CrdtCollectionModel} from './crdt-collection-model.js';
+import {CrdtRegisterModel, RegisterState} from './crdt-register-model.js';
+import {IndexRange, Query, QueryValue, compareValues, executeQuery, inIndexRange, indexKey} from './query.js';
 import {Id} from '../id.js';
 import {Type} from '../type.js';
 
@@ -69,6 +71,11 @@ export class VolatileStorage extends StorageBase {
     __storageCache[this.arcId.toString()] = this;
   }
 
+  // Identifies this arc's replicas of CRDT registers.
+  get replicaId(): string {
+    return this.arcId.toString();
+  }
+
   async construct(id: string, type: Type, keyFragment: string) : Promise<VolatileStorageProvider> {
     const provider = await this._construct(id, type, keyFragment);
     if (type.isReference || type.isBigCollection) {
@@ -138,6 +145,16 @@ export class VolatileStorage extends StorageBase {
   parseStringAsKey(s: string) : VolatileKey {
     return new VolatileKey(s);
   }
+
+  async atomically(stores: StorageProviderBase[], body: () => Promise<void>): Promise<void> {
+    const restores = stores.map(store => (store as VolatileStorageProvider).snapshot());
+    try {
+      await body();
+    } catch (e) {
+      restores.forEach(restore => restore());
+      throw e;
+    }
+  }
 }
 
 abstract class VolatileStorageProvider extends StorageProviderBase {
@@ -170,10 +187,20 @@ abstract class VolatileStorageProvider extends StorageProviderBase {
     return this.pendingBackingStore;
   }
 
+  // Volatile stores only refer to backing stores of their own engine, so all
+  // the referrers of a backing store are in that engine's memory.
+  referrers(): StorageProviderBase[] {
+    return Object.values(this.storageEngine._memoryMap).filter(store =>
+        store.referenceMode && this.storageEngine.baseStorageKey(store.backingType()) === this.storageKey);
+  }
+
   abstract backingType(): Type;
+
+  // Returns a function that puts the store back into its current state.
+  abstract snapshot(): () => void;
 }
 
-class VolatileCollection extends VolatileStorageProvider {
+class VolatileCollection extends VolatileStorageProvider implements CollectionStorageProvider {
   _model: CrdtCollectionModel;
   constructor(type, storageEngine, name, id, key) {
     super(type, name, id, key);
@@ -219,6 +246,11 @@ class VolatileCollection extends VolatileStorageProvider {
     this._model = new CrdtCollectionModel(model);
   }
 
+  snapshot() {
+    const literal = this.toLiteral();
+    return () => this.fromLiteral(literal);
+  }
+
   async _toList() {
     if (this.referenceMode) {
       const items = this.toLiteral().model;
@@ -247,6 +279,11 @@ class VolatileCollection extends VolatileStorageProvider {
     return (await this._toList()).map(item => item.value);
   }
 
+  /** Returns the entities matching query. */
+  async query(query: Query) {
+    return executeQuery(await this.toList(), query);
+  }
+
   async getMultiple(ids) {
     assert(!this.referenceMode, "getMultiple not implemented for referenceMode stores");
     return ids.map(id => this._model.getValue(id));
@@ -289,7 +326,7 @@ class VolatileCollection extends VolatileStorageProvider {
       // are set up to assume all writes are processed (at least locally) synchronously.
       changeEvent.effective = this._model.add(value.id, {id: value.id, storageKey}, keys);
       await this.ensureBackingStore();
-      await this.backingStore.store(value, keys);
+      await this.backingStore.store(value, keys, originatorId);
     } else {
       changeEvent.effective = this._model.add(value.id, value, keys);
     }
@@ -339,14 +376,17 @@ class VolatileCollection extends VolatileStorageProvider {
   }
 }
 
-class VolatileVariable extends VolatileStorageProvider {
+class VolatileVariable extends VolatileStorageProvider implements VariableStorageProvider {
   _stored: {id: string}|null;
   private localKeyId = 0;
+  // The writes of this and other replicas of the variable; _stored is its value.
+  private register: CrdtRegisterModel;
   constructor(type, storageEngine, name, id, key) {
     super(type, name, id, key);
     this.storageEngine = storageEngine;
     this._stored = null;
     this.backingStore = null;
+    this.register = new CrdtRegisterModel(storageEngine.replicaId);
   }
 
   backingType() {
@@ -369,7 +409,8 @@ class VolatileVariable extends VolatileStorageProvider {
     if (handle.referenceMode && handle.localModified) {
       await handle._persistChanges();
     }
-    const literal = await handle.toLiteral();
+    // A copy is a new variable, with a register of its own.
+    const {register, ...literal} = await handle.toLiteral();
     if (this.referenceMode && literal.model.length > 0) {
       await Promise.all([this.ensureBackingStore(), handle.ensureBackingStore()]);
       literal.model = literal.model.map(({id, value}) => ({id, value: {id: value.id, storageKey: this.backingStore.storageKey}}));
@@ -391,17 +432,20 @@ class VolatileVariable extends VolatileStorageProvider {
       };
     }
 
-    return super.modelForSynchronization();
+    const {version, model} = await this.toLiteral();
+    return {version, model};
   }
 
-  // Returns {version, model: [{id, value}]}
+  // Returns {version, model: [{id, value}], register}, where register is the state of the
+  // variable's register, including its clock.
   async toLiteral() {
     const value = this._stored;
     const model = (value != null) ? [{id: value.id, value}] : [];
-    return {version: this.version, model};
+    return {version: this.version, model, register: this.register.toState()};
   }
 
-  fromLiteral({version, model}) {
+  // Literals without a register, such as those of serialized arcs, start a new one.
+  fromLiteral({version, model, register = null}) {
     const value = model.length === 0 ? null : model[0].value;
     if (this.referenceMode && value && value.rawData) {
       assert(false, `shouldn't have rawData ${JSON.stringify(value.rawData)} here`);
@@ -409,6 +453,19 @@ class VolatileVariable extends VolatileStorageProvider {
     assert(value !== undefined);
     this._stored = value;
     this.version = version;
+    this.register = new CrdtRegisterModel(this.storageEngine.replicaId, register);
+    if (value !== null && register === null) {
+      this.register.set(value);
+    }
+  }
+
+  snapshot() {
+    const {_stored: stored, version, localKeyId} = this;
+    const state = this.register.toState();
+    return () => {
+      Object.assign(this, {_stored: stored, version, localKeyId});
+      this.register = new CrdtRegisterModel(this.storageEngine.replicaId, state);
+    };
   }
 
   traceInfo() {
@@ -448,16 +505,18 @@ class VolatileVariable extends VolatileStorageProvider {
       // a hack that can be removed once entity mutation is distinct from collection
       // updates. Once entity mutation exists, it shouldn't ever be possible to write
       // different values with the same id.
-      await this.backingStore.store(value, [this.storageKey + this.localKeyId++]);
+      await this.backingStore.store(value, [this.storageKey + this.localKeyId++], originatorId);
     } else {
       // If there's a barrier set, then the originating storage-proxy is expecting
-      // a result so we cannot suppress the event here.
+      // a result so we cannot suppress the event here. Nor can we if the write
+      // resolves a conflict.
       if (JSON.stringify(this._stored) === JSON.stringify(value) &&
-          barrier == null) {
+          barrier == null && !this.register.conflicted) {
         return;
       }
       this._stored = value;
     }
+    this.register.set(this._stored);
     this.version++;
     if (this.referenceMode) {
       await this._fire('change', {data: value, version: this.version, originatorId, barrier});
@@ -469,6 +528,57 @@ class VolatileVariable extends VolatileStorageProvider {
   async clear(originatorId=null, barrier=null) {
     await this.set(null, originatorId, barrier);
   }
+
+  /**
+   * Returns the state of the variable's register, to be merged into other
+   * replicas of the variable with mergeRegister. Entities are included in
+   * full, rather than as references to this arc's backing store.
+   */
+  async registerState(): Promise<RegisterState> {
+    const state = this.register.toState();
+    state.entries = await Promise.all(state.entries.map(async entry => ({...entry, value: await this.dereference(entry.value)})));
+    return state;
+  }
+
+  /**
+   * Merges the register state of another replica of the variable. Fires a
+   * change event if the variable's value, or its set of concurrent values,
+   * changes. Under the 'multi-value' conflict policy the event includes the
+   * concurrent values, winner first, as `conflicts`.
+   */
+  async mergeRegister(state: RegisterState, originatorId=null) {
+    let entries = state.entries;
+    if (this.referenceMode) {
+      await this.ensureBackingStore();
+      entries = await Promise.all(entries.map(async entry => {
+        if (entry.value === null || this.register.has(entry)) {
+          return entry;
+        }
+        const value = entry.value as {id: string};
+        await this.backingStore.store(value, [this.storageKey + this.localKeyId++], originatorId);
+        return {...entry, value: {id: value.id, storageKey: this.backingStore.storageKey}};
+      }));
+    }
+    if (!this.register.merge({entries, clock: state.clock})) {
+      return;
+    }
+    this._stored = this.register.value as {id: string}|null;
+    this.version++;
+    const event = {data: await this.dereference(this._stored), version: this.version, originatorId, barrier: null};
+    if (this.register.conflicted && this.conflictPolicy === 'multi-value') {
+      Object.assign(event, {conflicts: await Promise.all(this.register.values.map(value => this.dereference(value)))});
+    }
+    await this._fire('change', event);
+  }
+
+  // Returns the entity that a value stored in reference mode refers to.
+  private async dereference(value) {
+    if (!this.referenceMode || value === null) {
+      return value;
+    }
+    await this.ensureBackingStore();
+    return await this.backingStore.get(value.id);
+  }
 }
 
 // Volatile version of the BigCollection API; primarily for testing.
@@ -477,12 +587,11 @@ class VolatileCursor {
   private readonly pageSize: number;
   private data;
 
+  // data should already be in (forward) streaming order.
   constructor(version, data, pageSize, forward) {
     this.version = version;
     this.pageSize = pageSize;
-    const copy = [...data];
-    copy.sort((a, b) => a.index - b.index);
-    this.data = copy.map(v => v.value);
+    this.data = [...data];
     if (!forward) {
       this.data.reverse();
     }
@@ -500,14 +609,20 @@ class VolatileCursor {
   }
 }
 
+type IndexEntry = {key: QueryValue, index: number, id: string};
+
 class VolatileBigCollection extends VolatileStorageProvider {
   private items: Map<string, {index: number, value: {}, keys: {[index: string]: number}}>;
+  // For each field indexed by the schema, the entries that have a value for that
+  // field, sorted by that value and then by index.
+  private indexes: Map<string, IndexEntry[]>;
   private cursors: Map<number, VolatileCursor>;
   private cursorIndex: number;
 
   constructor(type, storageEngine, name, id, key) {
     super(type, name, id, key);
     this.items = new Map();
+    this.indexes = new Map(this.indexedFields.map(field => [field, []] as [string, IndexEntry[]]));
     this.cursors = new Map();
     this.cursorIndex = 0;
   }
@@ -520,6 +635,13 @@ class VolatileBigCollection extends VolatileStorageProvider {
     return this.type.primitiveType();
   }
 
+  snapshot() {
+    const version = this.version;
+    const items = new Map([...this.items].map(([id, data]) => [id, {...data, keys: {...data.keys}}] as [string, typeof data]));
+    const indexes = new Map([...this.indexes].map(([field, entries]) => [field, [...entries]] as [string, IndexEntry[]]));
+    return () => Object.assign(this, {version, items, indexes});
+  }
+
   async get(id) {
     const data = this.items.get(id);
     return (data !== undefined) ? data.value : null;
@@ -536,17 +658,54 @@ class VolatileBigCollection extends VolatileStorageProvider {
     data.index = this.version;
     data.value = value;
     keys.forEach(k => data.keys[k] = this.version);
+    this.updateIndexes(value.id, value, data.index);
   }
 
   async remove(id, keys, originatorId) {
     this.version++;
     this.items.delete(id);
+    this.updateIndexes(id, null, null);
   }
 
-  async stream(pageSize, forward = true) {
+  private updateIndexes(id: string, value, index: number|null) {
+    for (const [field, entries] of this.indexes.entries()) {
+      const existing = entries.findIndex(entry => entry.id === id);
+      if (existing !== -1) {
+        entries.splice(existing, 1);
+      }
+      const key = indexKey(value, field);
+      if (key !== null) {
+        const entry = {key, index, id};
+        const position = entries.findIndex(other => (compareValues(other.key, key) || other.index - index) > 0);
+        entries.splice(position === -1 ? entries.length : position, 0, entry);
+      }
+    }
+  }
+
+  /**
+   * Returns the entities matching query. Entities are considered in insertion order.
+   */
+  async query(query: Query) {
+    const items = [...this.items.values()].sort((a, b) => a.index - b.index);
+    return executeQuery(items.map(item => item.value), query);
+  }
+
+  /**
+   * Returns a cursor id for paginated reads of the current version of this BigCollection. If a
+   * range is given, items are read from the named index in order of their values for the indexed
+   * field, and only items with values within the range are returned.
+   */
+  async stream(pageSize, forward = true, range: IndexRange = null) {
     assert(!isNaN(pageSize) && pageSize > 0);
+    let data;
+    if (range) {
+      assert(this.indexes.has(range.index), `no index on '${range.index}'`);
+      data = this.indexes.get(range.index).filter(({key}) => inIndexRange(key, range)).map(({id}) => this.items.get(id).value);
+    } else {
+      data = [...this.items.values()].sort((a, b) => a.index - b.index).map(item => item.value);
+    }
     this.cursorIndex++;
-    const cursor = new VolatileCursor(this.version, this.items.values(), pageSize, forward);
+    const cursor = new VolatileCursor(this.version, data, pageSize, forward);
     this.cursors.set(this.cursorIndex, cursor);
     return this.cursorIndex;
   }
@@ -595,16 +754,19 @@ class VolatileBigCollection extends VolatileStorageProvider {
   fromLiteral({version, model}) {
     this.version = version;
     this.items.clear();
+    this.indexes.forEach(entries => entries.length = 0);
     for (const {id, index, value, keys} of model) {
       const adjustedKeys = {};
       for (const k of keys) {
         adjustedKeys[k] = index;
       }
       this.items.set(id, {index, value, keys: adjustedKeys});
+      this.updateIndexes(id, value, index);
     }
   }
 
   clearItemsForTesting() {
     this.items.clear();
+    this.indexes.forEach(entries => entries.length = 0);
   }
 }
@@ -0,0 +1,158 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import PouchDB from 'pouchdb';
+
+/**
+ * Whether the writes to a remote store have reached it. A store is 'offline'
+ * from a failed attempt to send it a write until the next successful one.
+ */
+export type SyncStatus = {state: 'online' | 'offline', pending: number, lastError: string|null};
+
+export const syncedStatus: SyncStatus = {state: 'online', pending: 0, lastError: null};
+
+/**
+ * A write to the document at `location` in a remote store. `op` describes the
+ * change in a form that can be merged into the remote document, whatever
+ * other writes it has received since.
+ */
+export type QueuedWrite = {location: string, op: {}};
+
+// A queued write, and the id it's logged under once it has been.
+type Entry = {write: QueuedWrite, id: string|null, logged: Promise<void>};
+
+/**
+ * A durable write-ahead queue of writes to a remote store. Writes are logged
+ * to a local PouchDB database before being sent, in order, with `send`. When
+ * sending fails the queue goes offline and retries after `retryDelay`
+ * milliseconds, doubling the delay on each failure up to a minute; writes
+ * logged by an earlier queue on the same log are sent once the queue starts.
+ */
+export class WriteQueue {
+  private readonly entries: Entry[] = [];
+  private nextSeq = 0;
+  private readonly restored: Promise<void>;
+  private flushing: Promise<void>|null = null;
+  private retryTimer = null;
+  private delay: number;
+  private disposed = false;
+  private _status: SyncStatus = syncedStatus;
+  private readonly listeners: Set<(status: SyncStatus) => void> = new Set();
+
+  constructor(private readonly log: PouchDB.Database,
+              private readonly send: (write: QueuedWrite) => Promise<void>,
+              private readonly retryDelay = 1000) {
+    this.delay = retryDelay;
+    this.restored = this.restore();
+  }
+
+  get status(): SyncStatus {
+    return this._status;
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+  }
+
+  offStatusChange(listener: (status: SyncStatus) => void) {
+    this.listeners.delete(listener);
+  }
+
+  /** The ops of the writes to `location` that haven't yet reached the remote store. */
+  pendingOps(location: string): {}[] {
+    return this.entries.filter(({write}) => write.location === location).map(({write}) => write.op);
+  }
+
+  /**
+   * Queues a write. It's included in pendingOps immediately, and resolves
+   * once it has been logged.
+   */
+  async enqueue(location: string, op: {}): Promise<void> {
+    const entry: Entry = {write: {location, op}, id: null, logged: null};
+    entry.logged = this.restored.then(async () => {
+      // Ids sort in the order that writes were queued.
+      entry.id = `write-${String(this.nextSeq++).padStart(12, '0')}`;
+      await this.log.put({_id: entry.id, ...entry.write});
+    });
+    this.entries.push(entry);
+    this.updateStatus({pending: this.entries.length});
+    await entry.logged;
+    this.flush();
+  }
+
+  /**
+   * Sends the queued writes. Resolves when they've been sent, or sending or
+   * updating the log has failed.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = (async () => {
+        try {
+          await this.drain();
+        } catch (e) {
+          // Such as when the log's database has been closed. Later flushes try again.
+          this.updateStatus({state: 'offline', lastError: `Updating the log of queued writes failed: ${e.message || e}`});
+        } finally {
+          this.flushing = null;
+        }
+      })();
+    }
+    return this.flushing;
+  }
+
+  /** Stops sending writes; they remain in the log. */
+  dispose() {
+    this.disposed = true;
+    clearTimeout(this.retryTimer);
+    this.listeners.clear();
+  }
+
+  // Queues the writes logged by earlier queues, ahead of any queued since.
+  private async restore() {
+    const {rows} = await this.log.allDocs({include_docs: true, startkey: 'write-', endkey: 'write-\uffff'});
+    const logged = rows.map(({id, doc}) => ({write: {location: doc['location'], op: doc['op']}, id, logged: Promise.resolve()}));
+    if (logged.length > 0) {
+      this.nextSeq = Number(logged[logged.length - 1].id.slice('write-'.length)) + 1;
+      this.entries.unshift(...logged);
+      this.updateStatus({pending: this.entries.length});
+      this.flush();
+    }
+  }
+
+  private async drain() {
+    await this.restored;
+    clearTimeout(this.retryTimer);
+    while (this.entries.length > 0 && !this.disposed) {
+      const entry = this.entries[0];
+      try {
+        await this.send(entry.write);
+      } catch (e) {
+        this.updateStatus({state: 'offline', lastError: e.message || String(e)});
+        this.retryTimer = setTimeout(() => this.flush(), this.delay);
+        this.delay = Math.min(this.delay * 2, 60000);
+        return;
+      }
+      this.entries.shift();
+      this.delay = this.retryDelay;
+      await entry.logged;
+      await this.log.remove(await this.log.get(entry.id));
+      this.updateStatus({state: 'online', pending: this.entries.length, lastError: null});
+    }
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>) {
+    const status = {...this._status, ...changes};
+    if (JSON.stringify(status) === JSON.stringify(this._status)) {
+      return;
+    }
+    this._status = status;
+    for (const listener of this.listeners) {
+      listener(status);
+    }
+  }
+}
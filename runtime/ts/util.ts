@@ -64,3 +64,12 @@ export function setDiffCustom<T, U>(from: T[], to: T[], keyFn: (T) => U): {add:
   }
   return result;
 }
+
+const durationUnits: [string, number][] = [['day', 86400000], ['hour', 3600000], ['minute', 60000], ['second', 1000], ['millisecond', 1]];
+
+/** Formats a duration in milliseconds as in manifests, such as `90 minutes`. */
+export function formatDuration(ms: number): string {
+  const [unit, length] = durationUnits.find(([unit, length]) => ms % length === 0);
+  const count = ms / length;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
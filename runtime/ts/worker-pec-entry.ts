@@ -0,0 +1,18 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {workerThreads} from '../../platform/worker-threads-web.js';
+import {ParticleExecutionContext} from './particle-execution-context.js';
+import {Loader} from './loader.js';
+import {wrapWorkerPort} from './worker-pec-factory.js';
+
+// Runs in a worker started by WorkerPecFactory, which sends the PEC's ID and
+// its end of the channel to the arc.
+workerThreads.parentPort.once('message', ({id, port}) => {
+  const pec = new ParticleExecutionContext(wrapWorkerPort(port), id, new Loader());
+});
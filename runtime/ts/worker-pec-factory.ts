@@ -0,0 +1,63 @@
+// @license
+// Copyright (c) 2018 Google Inc. All rights reserved.
+// This code may only be used under the BSD style license found at
+// http://polymer.github.io/LICENSE.txt
+// Code distributed by Google as part of this project is also
+// subject to an additional IP rights grant found at
+// http://polymer.github.io/PATENTS.txt
+
+import {workerThreads} from '../../platform/worker-threads-web.js';
+import {PECInnerPort} from '../api-channel.js';
+
+// The script that runs in each worker, relative to the working directory.
+const defaultEntry = './runtime/ts-build/worker-pec-entry.js';
+
+type Message = {messageType: string, messageBody: {}};
+type Port = {postMessage(message: Message): void, onmessage: (e: {data: Message}) => void, close(): void};
+
+/**
+ * Wraps a worker_threads MessagePort, which emits 'message' events, so that it
+ * can be used like the DOM MessagePort that APIPort expects. `onClose` is
+ * called once, when the port is first closed.
+ */
+export function wrapWorkerPort(port, onClose = () => {}): Port {
+  let closed = false;
+  return {
+    postMessage(message) {
+      port.postMessage(message);
+    },
+    set onmessage(handler) {
+      port.on('message', data => handler({data}));
+    },
+    close() {
+      if (!closed) {
+        closed = true;
+        port.close();
+        onClose();
+      }
+    },
+  };
+}
+
+/**
+ * A pecFactory for Node hosts that runs each particle execution context in its
+ * own worker thread, where particles are loaded by the worker's own Loader.
+ * Messages between the arc and the worker are structured clones, so the two
+ * share no objects. The worker runs `entry`, the compiled worker-pec-entry.ts
+ * unless another script is given; hosts that don't run from the repository
+ * root should pass its path. Closing the arc's PEC terminates the worker.
+ *
+ * Node 10 only provides worker_threads with the --experimental-worker flag.
+ * Workers are started with the flags of the host process, including the
+ * module loader.
+ */
+export function WorkerPecFactory(id: string, entry = defaultEntry): PECInnerPort {
+  if (!workerThreads) {
+    throw new Error('worker PECs are not supported on this platform');
+  }
+  const worker = new workerThreads.Worker(entry);
+  worker.on('error', e => console.error(`PEC worker for '${id}' failed`, e));
+  const channel = new workerThreads.MessageChannel();
+  worker.postMessage({id: `${id}:inner`, port: channel.port1}, [channel.port1]);
+  return wrapWorkerPort(channel.port2, () => worker.terminate()) as {} as PECInnerPort;
+}
@@ -76,6 +76,7 @@ const template = html`
     arc="{{arc}}"
     search="{{search}}"
     suggestion="{{suggestion}}"
+    undo="{{undo}}"
     userid="{{userid}}"
     on-metaplans="_onStateData"
     on-metaplan="_onStateData"
@@ -151,6 +152,7 @@ const template = html`
     on-search="_onStateData"
     on-suggestion="_onSuggestion"
     on-select-user="_onSelectUser"
+    on-undo="_onUndo"
     on-share="_onStateData"
     on-showhint="_onStateData"
   >
@@ -320,6 +322,10 @@ class AppShell extends Xen.Debug(Xen.Base, log) {
   _onSuggestion(e, suggestion) {
     this._setState({suggestion, search: ''});
   }
+  _onUndo() {
+    // arc-planner backs out a suggestion each time the counter changes.
+    this._setState({undo: (this._state.undo || 0) + 1});
+  }
   _onSerialization(e, serialization) {
     this._setState({pendingSerialization: serialization});
   }
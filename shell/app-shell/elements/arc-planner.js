@@ -23,20 +23,25 @@ const error = Xen.logFactory('ArcPlanner', '#104a91', 'error');
 
 class ArcPlanner extends Xen.Debug(Xen.Base, log) {
   static get observedAttributes() {
-    return ['config', 'arc', 'suggestion', 'search', 'userid'];
+    return ['config', 'arc', 'suggestion', 'undo', 'search', 'userid'];
   }
   _getInitialState() {
     return {
       pendingPlans: [],
+      pendingUndos: 0,
       invalid: 0
     };
   }
   async _willReceiveProps(props, state, oldProps) {
     const changed = name => props[name] !== oldProps[name];
-    const {arc, suggestion, search, userid} = props;
+    const {arc, suggestion, undo, search, userid} = props;
     if (suggestion && changed('suggestion')) {
       state.pendingPlans.push(suggestion.plan);
     }
+    // `undo` is a counter; each increment backs out the most recently accepted suggestion.
+    if (undo && changed('undo')) {
+      state.pendingUndos++;
+    }
     if (arc && userid) {
       let {planificator} = state;
       if (changed('arc') || changed('userid')) {
@@ -56,10 +61,15 @@ class ArcPlanner extends Xen.Debug(Xen.Base, log) {
       this._setState({planificator});
     }
   }
-  _update({arc}, {pendingPlans}) {
+  _update({arc}, state) {
+    const {pendingPlans, planificator} = state;
     if (arc && pendingPlans.length) {
       this._instantiatePlan(arc, pendingPlans.shift());
     }
+    if (arc && planificator && state.pendingUndos) {
+      state.pendingUndos--;
+      this._undoPlan(arc, planificator);
+    }
   }
   async _createPlanificator(arc, userid) {
     const planificatorParam = ArcsUtils.getUrlParam('planificator');
@@ -89,5 +99,15 @@ class ArcPlanner extends Xen.Debug(Xen.Base, log) {
     // need new suggestions
     this._fire('suggestions', null);
   }
+  async _undoPlan(arc, planificator) {
+    try {
+      // The original planificator has no undo support, so falls back to the arc.
+      const plan = await (planificator.undo ? planificator.undo() : arc.undo());
+      log('undid plan', plan);
+    } catch (x) {
+      error('plan undo failed', x);
+    }
+    this._fire('suggestions', null);
+  }
 }
 customElements.define('arc-planner', ArcPlanner);
@@ -47,6 +47,7 @@ const template = html`
         <input search placeholder="Search" value="{{search}}" on-focus="_onSearchFocus" on-input="_onSearchChange" on-blur="_onSearchBlur" on-dblclick="_onResetSearch">
         <icon hidden="{{hideMic}}" on-click="_onListen">mic</icon>
         <icon hidden="{{hideClear}}" on-click="_onClearSearch">highlight_off</icon>
+        <icon title="Undo" on-click="_onUndoClick">undo</icon>
         <icon on-click="_onSettingsClick">settings</icon>
       </div>
       <div search toolbar open$="{{searchToolbarOpen}}">
@@ -225,6 +226,10 @@ class ShellUi extends Xen.Debug(Xen.Base, log) {
     }
     this._setState({toolState, barState: 'open'});
   }
+  _onUndoClick(e) {
+    e.stopPropagation();
+    this._fire('undo');
+  }
   _onSettingsClick(e) {
     e.stopPropagation();
     this._setState({toolState: 'settings', barState: 'open'});
@@ -46,6 +46,8 @@ const SingleUserContext = class {
     // when we remove an arc from consideration, we have to unobserve storageKeys from that arc
     // `handles` maps an arcid to an array of storageKeys to unobserve
     this.handles = {};
+    // the versions of stores when they were unobserved, so observing them again can resume from there
+    this.versions = {};
     this.field = new Field(null, `/users/${userid}`, userid, this._userSchema).activate();
   }
   async dispose() {
@@ -141,6 +143,16 @@ const SingleUserContext = class {
     }
   }
   async _observeStore(store, key, cb) {
+    // a store we stopped observing (e.g. its arc was unshared) only needs the changes made since,
+    // if they are still in its change log
+    const version = this.versions[key];
+    delete this.versions[key];
+    if (version != null && !this.observers[key] && store.subscribe(version, cb, this)) {
+      log(`resuming [${key}] from version ${version}`);
+      this.observers[key] = {key, store, cb};
+      return;
+    }
+    // otherwise start from the full contents of the store
     // SyntheticCollection has `toList` but is `!type.isCollection`,
     if (store.toList) {
     //if (store.type.isCollection) {
@@ -166,7 +178,8 @@ const SingleUserContext = class {
   _observe(store, key, cb) {
     if (!this.observers[key]) {
       log(`observing [${key}]`);
-      this.observers[key] = {key, store, cb: store.on('change', cb, this)};
+      store.on('change', cb, this);
+      this.observers[key] = {key, store, cb};
     }
   }
   _unobserve(key) {
@@ -175,6 +188,7 @@ const SingleUserContext = class {
       this.observers[key] = null;
       log(`UNobserving [${key}]`);
       observer.store.off('change', observer.cb);
+      this.versions[key] = observer.store.version;
     }
   }
   async _updateHandle(arcid, handle, info) {
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import fs from 'fs';
+import minimist from 'minimist';
+import {formatManifest} from '../runtime/ts-build/manifest-formatter.js';
+
+// Formats manifest files canonically (see runtime/ts/manifest-formatter.ts). Run
+// through `tools/sigh formatManifests`.
+
+const usage = 'Usage: formatManifests [--check | --write] [--indent=<spaces>] <manifest-files>\n' +
+              '  --check  lists the files that aren\'t formatted, and fails if there are any\n' +
+              '  --write  formats the files in place\n' +
+              'Otherwise the formatted files are written to stdout.';
+
+const options = minimist(process.argv.slice(2), {boolean: ['check', 'write', 'help'], string: ['indent']});
+const files = options._;
+if (options.help || files.length === 0 || (options.check && options.write)) {
+  console.error(usage);
+  process.exit(options.help ? 0 : 1);
+}
+
+const indent = options.indent ? Number(options.indent) : undefined;
+const unformatted = [];
+for (const fileName of files) {
+  const content = fs.readFileSync(fileName, 'utf-8');
+  let formatted;
+  try {
+    formatted = formatManifest(content, {fileName, indent});
+  } catch (e) {
+    console.error(e.message);
+    process.exitCode = 1;
+    continue;
+  }
+  if (options.check) {
+    if (formatted !== content) {
+      unformatted.push(fileName);
+    }
+  } else if (options.write) {
+    if (formatted !== content) {
+      fs.writeFileSync(fileName, formatted);
+    }
+  } else {
+    process.stdout.write(formatted);
+  }
+}
+if (unformatted.length > 0) {
+  console.error(`These manifests aren't formatted; run formatManifests --write to fix them:\n  ${unformatted.join('\n  ')}`);
+  process.exitCode = 1;
+}
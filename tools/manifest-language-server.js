@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ManifestLanguageService} from '../runtime/ts-build/manifest-language-service.js';
+import {ManifestLanguageServer} from '../runtime/ts-build/manifest-language-server.js';
+
+// A Language Server Protocol server for .manifest files, speaking JSON-RPC over
+// stdio. Build the runtime (`tools/sigh test` or `tools/sigh webpack`), then
+// configure the editor to launch it from the repository root with:
+//
+//   node --experimental-modules --loader ./tools/custom-loader.mjs ./tools/manifest-language-server.js
+//
+// It isn't a sigh step because sigh writes its progress to stdout, which carries
+// the protocol.
+
+// stdout carries the protocol, so anything the runtime logs goes to stderr.
+console.log = console.error;
+
+// Leaves the process to end once the responses have been written.
+const server = new ManifestLanguageServer(new ManifestLanguageService(), send, code => {
+  process.exitCode = code;
+  process.stdin.destroy();
+});
+
+function send(message) {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  process.stdout.write(`Content-Length: ${body.length}\r\n\r\n`);
+  process.stdout.write(body);
+}
+
+// Each message is a header, of which only Content-Length (in bytes) matters,
+// followed by a blank line and the JSON body.
+// They're handled in order, so that requests see the edits that preceded them.
+let buffer = Buffer.alloc(0);
+let handled = Promise.resolve();
+process.stdin.on('data', chunk => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\r\n\r\n');
+    if (headerEnd < 0) {
+      return;
+    }
+    const match = buffer.slice(0, headerEnd).toString('ascii').match(/Content-Length: *(\d+)/i);
+    const start = headerEnd + 4;
+    const length = match ? Number(match[1]) : 0;
+    if (buffer.length < start + length) {
+      return;
+    }
+    const body = buffer.slice(start, start + length).toString('utf-8');
+    buffer = buffer.slice(start + length);
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch (e) {
+      send({jsonrpc: '2.0', id: null, error: {code: -32700, message: e.message}});
+      continue;
+    }
+    handled = handled.then(() => server.handle(message)).then(response => response && send(response));
+  }
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright (c) 2018 Google Inc. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * Code distributed by Google as part of this project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import minimist from 'minimist';
+import {Loader} from '../runtime/ts-build/loader.js';
+import {Manifest} from '../runtime/ts-build/manifest.js';
+import {ManifestLinter} from '../runtime/ts-build/manifest-linter.js';
+
+// Lints manifest files (see runtime/ts/manifest-linter.ts). Run through
+// `tools/sigh lintManifests`.
+
+(async () => {
+  const usage = 'Usage: lintManifests [--rule=<rule>=<error|warning|off>]... <manifest-files>\n' +
+                'Rules:\n' +
+                Object.entries(ManifestLinter.rules).map(([name, {severity, description}]) =>
+                    `  ${name} (${severity}): ${description}`).join('\n');
+
+  const options = minimist(process.argv.slice(2), {boolean: ['help'], string: ['rule']});
+  const files = options._;
+  if (options.help || files.length === 0) {
+    console.error(usage);
+    process.exit(options.help ? 0 : 1);
+  }
+
+  const rules = {};
+  for (const rule of [].concat(options.rule || [])) {
+    const [name, severity] = rule.split('=');
+    rules[name] = severity;
+  }
+  const loader = new Loader();
+  const linter = new ManifestLinter({rules, loader});
+  let errors = 0;
+  for (const fileName of files) {
+    let messages;
+    try {
+      messages = await linter.lint(await Manifest.load(fileName, loader));
+    } catch (e) {
+      console.error(e.message);
+      errors++;
+      continue;
+    }
+    for (const {rule, severity, message, fileName, location} of messages) {
+      const position = location ? `:${location.start.line}:${location.start.column}` : '';
+      console.log(`${fileName}${position}: ${severity}: ${message} [${rule}]`);
+      if (severity === 'error') {
+        errors++;
+      }
+    }
+  }
+  process.exitCode = errors > 0 ? 1 : 0;
+})();
@@ -51,6 +51,8 @@ const steps = {
   check: [check],
   clean: [clean],
   importSpotify: [tsc, importSpotify],
+  formatManifests: [peg, tsc, formatManifests],
+  lintManifests: [peg, tsc, lintManifests],
   default: [check, peg, railroad, tsc, test, webpack, lint, tslint],
 };
 
@@ -458,6 +460,7 @@ function test(args) {
       'node',
       [
         '--experimental-modules',
+        '--experimental-worker',
         '--trace-warnings',
         ...extraFlags,
         '--loader',
@@ -479,6 +482,26 @@ async function importSpotify(args) {
   ], {stdio: 'inherit'});
 }
 
+async function formatManifests(args) {
+  return saneSpawn('node', [
+    '--experimental-modules',
+    '--no-warnings',
+    '--loader', fixPathForWindows(path.join(__dirname, 'custom-loader.mjs')),
+    './tools/manifest-formatter.js',
+    ...args
+  ], {stdio: 'inherit'});
+}
+
+async function lintManifests(args) {
+  return saneSpawn('node', [
+    '--experimental-modules',
+    '--no-warnings',
+    '--loader', fixPathForWindows(path.join(__dirname, 'custom-loader.mjs')),
+    './tools/manifest-linter.js',
+    ...args
+  ], {stdio: 'inherit'});
+}
+
 // Watches `watchPaths` for changes, then runs the `arg` steps.
 async function watch([arg, ...moreArgs]) {
   const funs = steps[arg || watchDefault];